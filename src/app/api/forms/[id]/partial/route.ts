@@ -0,0 +1,157 @@
+import { headers } from "next/headers";
+import { type NextRequest, NextResponse } from "next/server";
+import { type Form, formsDbServer } from "@/lib/database";
+import {
+  isPartialSessionId,
+  MAX_PARTIAL_CAPTURE_REQUEST_SIZE,
+  PARTIAL_SAVES_PER_SUBMISSION,
+  parsePartialCapture,
+} from "@/lib/forms/partial-capture";
+import {
+  checkFormRateLimit,
+  DEFAULT_RATE_LIMIT_SETTINGS,
+} from "@/lib/forms/server";
+import { sanitizeObjectStrings } from "@/lib/forms/submission-data";
+import { getSchemaFields } from "@/lib/validation";
+
+async function getIpAddress() {
+  const headersList = await headers();
+  return (
+    headersList.get("x-forwarded-for")?.split(",")[0] ||
+    headersList.get("x-real-ip") ||
+    "unknown"
+  );
+}
+
+// Saves are counted apart from submissions so capturing answers never uses
+// up a respondent's submissions.
+async function checkPartialRateLimit(form: Form, ipAddress: string) {
+  const rateLimit = {
+    ...DEFAULT_RATE_LIMIT_SETTINGS,
+    ...form.schema.settings.rateLimit,
+  };
+  if (!rateLimit.enabled) return null;
+
+  const rateLimitResult = await checkFormRateLimit(
+    `partial:${ipAddress}`,
+    form.id,
+    {
+      ...rateLimit,
+      maxSubmissions: rateLimit.maxSubmissions * PARTIAL_SAVES_PER_SUBMISSION,
+    },
+  );
+  if (rateLimitResult.success) return null;
+  return NextResponse.json(
+    {
+      error: "Rate limit exceeded",
+      message: rateLimitResult.message,
+      limit: rateLimitResult.limit,
+      remaining: rateLimitResult.remaining,
+      reset: rateLimitResult.reset,
+    },
+    { status: 429 },
+  );
+}
+
+async function readBody(request: NextRequest) {
+  const text = await request.text();
+  if (text.length > MAX_PARTIAL_CAPTURE_REQUEST_SIZE) {
+    return { error: "Answers are too large", status: 413 };
+  }
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { error: "Invalid request body", status: 400 };
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: formId } = await params;
+
+    const form = await formsDbServer.getPublicForm(formId);
+    if (!form) {
+      return NextResponse.json(
+        { error: "Form not found or not published" },
+        { status: 404 },
+      );
+    }
+    if (!form.schema.settings.partialCapture?.enabled) {
+      return NextResponse.json(
+        { error: "Partial capture is disabled for this form" },
+        { status: 403 },
+      );
+    }
+
+    const ipAddress = await getIpAddress();
+    const rateLimited = await checkPartialRateLimit(form, ipAddress);
+    if (rateLimited) return rateLimited;
+
+    const { body, error: bodyError, status } = await readBody(request);
+    if (bodyError) {
+      return NextResponse.json({ error: bodyError }, { status });
+    }
+
+    const { capture, error } = parsePartialCapture(
+      getSchemaFields(form.schema),
+      body,
+    );
+    if (!capture) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    await formsDbServer.savePartialSubmission(form.id, capture.sessionId, {
+      partial_data: sanitizeObjectStrings(capture.answers),
+      current_step: capture.currentStep,
+      last_field_id: capture.lastFieldId,
+      ip_address: ipAddress,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json(
+      { error: "Failed to save partial answers" },
+      { status: 500 },
+    );
+  }
+}
+
+// Respondents who turn capture off get what was already stored deleted.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: formId } = await params;
+
+    const form = await formsDbServer.getPublicForm(formId);
+    if (!form) {
+      return NextResponse.json(
+        { error: "Form not found or not published" },
+        { status: 404 },
+      );
+    }
+
+    const rateLimited = await checkPartialRateLimit(form, await getIpAddress());
+    if (rateLimited) return rateLimited;
+
+    const { body, error, status } = await readBody(request);
+    if (error) {
+      return NextResponse.json({ error }, { status });
+    }
+    if (!isPartialSessionId(body?.sessionId)) {
+      return NextResponse.json({ error: "Invalid session" }, { status: 400 });
+    }
+
+    await formsDbServer.deleteSessionPartialSubmission(form.id, body.sessionId);
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json(
+      { error: "Failed to delete partial answers" },
+      { status: 500 },
+    );
+  }
+}
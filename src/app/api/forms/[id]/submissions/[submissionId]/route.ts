@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { formsDbServer } from "@/lib/database";
+import { getWorkflowChanges, parseWorkflowUpdate } from "@/lib/forms/workflow";
+import { triggerWebhooks } from "@/lib/webhooks/outbound";
+import { createClient } from "@/utils/supabase/server";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; submissionId: string }> },
+) {
+  try {
+    const { id: formId, submissionId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await formsDbServer.getOwnedForm(formId, user.id);
+    if (!form) {
+      return NextResponse.json({ error: "Form not found" }, { status: 404 });
+    }
+
+    const { update, error } = parseWorkflowUpdate(
+      form.schema,
+      await request.json(),
+    );
+    if (!update) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const submission = await formsDbServer.getSubmission(formId, submissionId);
+    const changes = getWorkflowChanges(submission, update);
+    if (changes.length === 0) {
+      return NextResponse.json({ submission });
+    }
+
+    const now = new Date().toISOString();
+    const note = update.note
+      ? {
+          id: crypto.randomUUID(),
+          text: update.note,
+          author: user.email || user.id,
+          createdAt: now,
+        }
+      : undefined;
+
+    const updated = await formsDbServer.updateSubmissionWorkflow(
+      formId,
+      submissionId,
+      {
+        ...(changes.includes("status") && { status: update.status }),
+        ...(changes.includes("tags") && { tags: update.tags }),
+        ...(changes.includes("assignee") && { assignee: update.assignee }),
+      },
+      note,
+    );
+
+    triggerWebhooks("submission_updated", {
+      formId,
+      submissionId,
+      changes,
+      previous: {
+        status: submission.status,
+        tags: submission.tags,
+        assignee: submission.assignee,
+      },
+      status: updated.status,
+      tags: updated.tags,
+      assignee: updated.assignee,
+      ...(note && { note }),
+      updatedBy: user.email || user.id,
+      updatedAt: now,
+    }).catch(() => {
+      // The update is already saved, and each delivery records its own
+      // failures in the webhook logs
+    });
+
+    return NextResponse.json({ submission: updated });
+  } catch {
+    return NextResponse.json(
+      { error: "Failed to update submission" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { formsDbServer } from "@/lib/database";
+import { parseSubmissionSearch } from "@/lib/forms/submission-search";
+import { createClient } from "@/utils/supabase/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: formId } = await params;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const form = await formsDbServer.getOwnedForm(formId, user.id);
+    if (!form) {
+      return NextResponse.json({ error: "Form not found" }, { status: 404 });
+    }
+
+    const { search, error } = parseSubmissionSearch(
+      form.schema,
+      request.nextUrl.searchParams,
+    );
+    if (!search) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await formsDbServer.searchSubmissions(formId, search);
+    return NextResponse.json(result);
+  } catch {
+    return NextResponse.json(
+      { error: "Failed to search submissions" },
+      { status: 500 },
+    );
+  }
+}
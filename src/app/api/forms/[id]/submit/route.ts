@@ -1,30 +1,121 @@
 import { headers } from "next/headers";
 import { type NextRequest, NextResponse } from "next/server";
-import { formsDbServer } from "@/lib/database";
+import {
+  type FormSchema,
+  type FormSubmission,
+  formsDbServer,
+  type SubmissionRespondent,
+} from "@/lib/database";
 import {
   checkFormRateLimit,
-  DEFAULT_PROFANITY_FILTER_SETTINGS,
+  DEFAULT_DUPLICATE_DETECTION_SETTINGS,
   DEFAULT_RATE_LIMIT_SETTINGS,
 } from "@/lib/forms/server";
+import { keepUnchangedConsentRecords } from "@/lib/forms/consent";
+import {
+  getRespondentKey,
+  RESPONDENT_COOKIE,
+  RESPONDENT_COOKIE_MAX_AGE,
+} from "@/lib/forms/duplicates";
+import {
+  createEditToken,
+  getEditPath,
+  verifyEditToken,
+} from "@/lib/forms/edit-links";
+import { resolveMergeTags } from "@/lib/forms/merge-tags";
+import { prepareSubmissionData } from "@/lib/forms/submission-data";
 import { sendFormNotification } from "@/lib/services";
 import { requirePremium } from "@/lib/utils/premium-check";
-import { sanitizeString } from "@/lib/utils/sanitize";
-import { createProfanityFilter } from "@/lib/validation";
+import { getSchemaFields } from "@/lib/validation";
 import {
   formatHumanFriendlyPayload,
   triggerWebhooks,
 } from "@/lib/webhooks/outbound";
 import { createClient } from "@/utils/supabase/server";
 
-function sanitizeObjectStrings(obj: any): any {
-  if (typeof obj === "string") return sanitizeString(obj);
-  if (Array.isArray(obj)) return obj.map(sanitizeObjectStrings);
-  if (obj && typeof obj === "object") {
-    const result: any = {};
-    for (const key in obj) result[key] = sanitizeObjectStrings(obj[key]);
-    return result;
+type DuplicateDetectionSettings = NonNullable<
+  FormSchema["settings"]["duplicateDetection"]
+>;
+
+const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "23505";
+
+const duplicateResponse = (message?: string) =>
+  NextResponse.json(
+    {
+      error: "Duplicate submission",
+      message: message || DEFAULT_DUPLICATE_DETECTION_SETTINGS.message,
+    },
+    { status: 409 },
+  );
+
+/**
+ * Saves a submission under its respondent key. Only one response per
+ * respondent is stored as the original, so when a concurrent submission got
+ * there first the save is retried as a duplicate of it, or null is returned
+ * when duplicates are not kept.
+ */
+async function saveForRespondent<T>(
+  formId: string,
+  respondent: SubmissionRespondent | undefined,
+  keepDuplicate: boolean,
+  save: (columns?: SubmissionRespondent) => Promise<T>,
+): Promise<T | null> {
+  try {
+    return await save(respondent);
+  } catch (error) {
+    const respondentKey = respondent?.respondent_key;
+    if (!(respondentKey && isUniqueViolation(error))) {
+      throw error;
+    }
+    if (!keepDuplicate) {
+      return null;
+    }
+    const original = await formsDbServer.findSubmissionByRespondent(
+      formId,
+      respondentKey,
+    );
+    return save({
+      respondent_key: respondentKey,
+      is_duplicate: true,
+      duplicate_of: original?.id ?? null,
+    });
+  }
+}
+
+/**
+ * Respondents identified by an email answer can change it when editing, so
+ * the edited submission is keyed again. Returns undefined when the key stays
+ * the same, and null when the new email already has a response on a form
+ * that blocks duplicates.
+ */
+async function getEditedRespondent(
+  formId: string,
+  submission: FormSubmission,
+  submissionData: Record<string, unknown>,
+  { enabled, identifyBy, emailFieldId, mode }: DuplicateDetectionSettings,
+): Promise<SubmissionRespondent | null | undefined> {
+  if (!(enabled && identifyBy === "email")) {
+    return;
+  }
+  const respondentKey = getRespondentKey(formId, identifyBy, emailFieldId, {
+    submissionData,
+  });
+  if (respondentKey === submission.respondent_key) {
+    return;
+  }
+
+  const original = respondentKey
+    ? await formsDbServer.findSubmissionByRespondent(formId, respondentKey)
+    : null;
+  if (original && mode === "block") {
+    return null;
   }
-  return obj;
+  return {
+    respondent_key: respondentKey,
+    is_duplicate: !!original,
+    duplicate_of: original?.id ?? null,
+  };
 }
 
 export async function POST(
@@ -34,7 +125,7 @@ export async function POST(
   try {
     const { id: formId } = await params;
     const body = await request.json();
-    const { submissionData } = body;
+    const { submissionData, partialSessionId } = body;
 
     const headersList = await headers();
     const ipAddress =
@@ -78,8 +169,64 @@ export async function POST(
       }
     }
 
+    const duplicateDetection = {
+      ...DEFAULT_DUPLICATE_DETECTION_SETTINGS,
+      ...form.schema.settings.duplicateDetection,
+    };
+    if (
+      duplicateDetection.enabled &&
+      duplicateDetection.identifyBy === "user" &&
+      !user
+    ) {
+      return NextResponse.json(
+        {
+          error: "Sign in required",
+          message: "Please sign in to respond to this form.",
+        },
+        { status: 401 },
+      );
+    }
+
+    const prepared = await prepareSubmissionData(
+      form.schema,
+      submissionData,
+      ipAddress,
+    );
+    if (!prepared.success) {
+      return NextResponse.json(prepared.body, { status: prepared.status });
+    }
+    const filteredSubmissionData = prepared.data;
+
+    let respondentKey: string | null = null;
+    let browserId: string | null = null;
+    let previousSubmission = null;
+    if (duplicateDetection.enabled) {
+      if (duplicateDetection.identifyBy === "browser") {
+        browserId =
+          request.cookies.get(RESPONDENT_COOKIE)?.value || crypto.randomUUID();
+      }
+
+      // Keyed on the validated answers, which are what gets stored
+      respondentKey = getRespondentKey(
+        formId,
+        duplicateDetection.identifyBy,
+        duplicateDetection.emailFieldId,
+        { userId: user?.id, submissionData: filteredSubmissionData, browserId },
+      );
+      previousSubmission = respondentKey
+        ? await formsDbServer.findSubmissionByRespondent(formId, respondentKey)
+        : null;
+
+      if (previousSubmission && duplicateDetection.mode === "block") {
+        return duplicateResponse(duplicateDetection.message);
+      }
+    }
+    const overwrite =
+      !!previousSubmission && duplicateDetection.mode === "overwrite";
+
+    // Overwriting replaces an existing response, so it never exceeds the limit
     const responseLimit = form.schema.settings.responseLimit;
-    if (responseLimit?.enabled) {
+    if (responseLimit?.enabled && !overwrite) {
       const count = await formsDbServer.countFormSubmissions(formId);
       if (count >= (responseLimit.maxResponses || 100)) {
         return NextResponse.json(
@@ -94,60 +241,88 @@ export async function POST(
       }
     }
 
-    const profanityFilterSettings = {
-      ...DEFAULT_PROFANITY_FILTER_SETTINGS,
-      ...form.schema.settings.profanityFilter,
-    };
-
-    let filteredSubmissionData = sanitizeObjectStrings(submissionData);
+    const submission: FormSubmission | null =
+      previousSubmission && overwrite
+        ? await formsDbServer.saveSubmissionEdit(
+            formId,
+            previousSubmission.id,
+            filteredSubmissionData,
+            [
+              ...(previousSubmission.edit_history || []),
+              {
+                editedAt: new Date().toISOString(),
+                ipAddress,
+                previousData: previousSubmission.submission_data,
+              },
+            ],
+          )
+        : await saveForRespondent(
+            formId,
+            {
+              respondent_key: respondentKey,
+              is_duplicate: !!previousSubmission,
+              duplicate_of: previousSubmission?.id ?? null,
+            },
+            duplicateDetection.mode === "flag",
+            (columns) =>
+              formsDbServer.submitForm(
+                formId,
+                filteredSubmissionData,
+                ipAddress,
+                form.current_version_id,
+                columns,
+              ),
+          );
+    // A concurrent submission got past the check above and was stored first
+    if (!submission) {
+      return duplicateResponse(duplicateDetection.message);
+    }
 
-    if (profanityFilterSettings.enabled) {
-      const profanityFilter = createProfanityFilter(profanityFilterSettings);
-      const result = profanityFilter.filterSubmissionData(
-        filteredSubmissionData,
-      );
-      if (!result.isValid) {
-        return NextResponse.json(
-          {
-            error: "Content validation failed",
-            message:
-              result.message ||
-              "Your submission contains inappropriate content. Please review and resubmit.",
-            violations: result.violations.length,
-          },
-          { status: 400 },
+    if (typeof partialSessionId === "string" && partialSessionId) {
+      formsDbServer
+        .completePartialSubmission(formId, partialSessionId, submission.id)
+        .catch((e) =>
+          console.error("[Partial] Failed to complete session:", e),
         );
-      }
-      if (profanityFilterSettings.replaceWithAsterisks) {
-        filteredSubmissionData = result.filteredData;
-      }
     }
 
-    const submission = await formsDbServer.submitForm(
+    const payload = await formatHumanFriendlyPayload(
       formId,
       filteredSubmissionData,
-      ipAddress,
     );
-
-    const [formatted] = await Promise.all([
-      formatHumanFriendlyPayload(formId, filteredSubmissionData),
-      triggerWebhooks("form_submitted", {
-        submissionId: submission.id,
-        ipAddress,
-        ...(await formatHumanFriendlyPayload(formId, filteredSubmissionData)),
-      }).catch((e) => console.error("[Webhook] Delivery error:", e)),
-    ]);
+    await (
+      overwrite
+        ? triggerWebhooks("submission_updated", {
+            submissionId: submission.id,
+            changes: ["answers"],
+            updatedBy: "respondent",
+            updatedAt: submission.updated_at,
+            ipAddress,
+            ...payload,
+          })
+        : triggerWebhooks("form_submitted", {
+            submissionId: submission.id,
+            ipAddress,
+            ...payload,
+          })
+    ).catch((e) => console.error("[Webhook] Delivery error:", e));
 
     const notifications = form.schema.settings.notifications;
     if (notifications?.enabled && notifications.email) {
       sendFormNotification({
         to: notifications.email,
-        subject:
+        subject: resolveMergeTags(
           notifications.subject ||
-          `New Submission: ${form.schema.settings.title}`,
-        message:
+            `New Submission: ${form.schema.settings.title}`,
+          filteredSubmissionData,
+        ),
+        // The message is rendered as HTML, so piped answers are escaped
+        message: resolveMergeTags(
           notifications.message ||
-          `You have received a new submission on your form: ${form.schema.settings.title}.`,
+            `You have received a new submission on your form: ${form.schema.settings.title}.`,
+          filteredSubmissionData,
+          { escapeHtml: true },
+        ),
         analyticsUrl: `${process.env.NEXT_PUBLIC_BASE_URL || "https://www.ikiform.com"}/dashboard/forms/${formId}/analytics`,
         customLinks: notifications.customLinks || [],
       }).catch((e) =>
@@ -155,10 +330,157 @@ export async function POST(
       );
     }
 
+    const responseEditing = form.schema.settings.responseEditing;
+    const editToken = responseEditing?.enabled
+      ? createEditToken(formId, submission.id, responseEditing.expiresInHours)
+      : null;
+
+    const response = NextResponse.json({
+      success: true,
+      submissionId: submission.id,
+      message: overwrite
+        ? "Response updated successfully"
+        : "Form submitted successfully",
+      ...(editToken && {
+        editToken,
+        editUrl: getEditPath(form.slug || formId, editToken),
+      }),
+    });
+    if (browserId) {
+      response.cookies.set(RESPONDENT_COOKIE, browserId, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: RESPONDENT_COOKIE_MAX_AGE,
+        path: "/",
+      });
+    }
+    return response;
+  } catch {
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: formId } = await params;
+    const { editToken, submissionData } = await request.json();
+
+    const token =
+      typeof editToken === "string" ? verifyEditToken(editToken) : null;
+    if (!token || token.formId !== formId) {
+      return NextResponse.json(
+        {
+          error: "Invalid edit link",
+          message: "This edit link is invalid or has expired.",
+        },
+        { status: 403 },
+      );
+    }
+
+    const form = await formsDbServer.getPublicForm(formId);
+    if (!form) {
+      return NextResponse.json(
+        { error: "Form not found or not published" },
+        { status: 404 },
+      );
+    }
+    if (!form.schema.settings.responseEditing?.enabled) {
+      return NextResponse.json(
+        {
+          error: "Editing disabled",
+          message: "This form no longer allows editing responses.",
+        },
+        { status: 403 },
+      );
+    }
+
+    const submission = await formsDbServer.getSubmissionForEdit(
+      formId,
+      token.submissionId,
+    );
+    if (!submission) {
+      return NextResponse.json(
+        { error: "Submission not found" },
+        { status: 404 },
+      );
+    }
+
+    const headersList = await headers();
+    const ipAddress =
+      headersList.get("x-forwarded-for")?.split(",")[0] ||
+      headersList.get("x-real-ip") ||
+      "unknown";
+
+    const prepared = await prepareSubmissionData(
+      form.schema,
+      submissionData,
+      ipAddress,
+    );
+    if (!prepared.success) {
+      return NextResponse.json(prepared.body, { status: prepared.status });
+    }
+    const updatedData = keepUnchangedConsentRecords(
+      getSchemaFields(form.schema),
+      submission.submission_data,
+      prepared.data,
+    );
+
+    const duplicateDetection = {
+      ...DEFAULT_DUPLICATE_DETECTION_SETTINGS,
+      ...form.schema.settings.duplicateDetection,
+    };
+    const respondent = await getEditedRespondent(
+      formId,
+      submission,
+      updatedData,
+      duplicateDetection,
+    );
+    if (respondent === null) {
+      return duplicateResponse(duplicateDetection.message);
+    }
+
+    const editedAt = new Date().toISOString();
+    const editHistory = [
+      ...(submission.edit_history || []),
+      { editedAt, ipAddress, previousData: submission.submission_data },
+    ];
+    const saved = await saveForRespondent(
+      formId,
+      respondent,
+      duplicateDetection.mode !== "block",
+      (columns) =>
+        formsDbServer.saveSubmissionEdit(
+          formId,
+          submission.id,
+          updatedData,
+          editHistory,
+          columns,
+        ),
+    );
+    if (!saved) {
+      return duplicateResponse(duplicateDetection.message);
+    }
+
+    triggerWebhooks("submission_updated", {
+      submissionId: submission.id,
+      changes: ["answers"],
+      updatedBy: "respondent",
+      updatedAt: editedAt,
+      ipAddress,
+      ...(await formatHumanFriendlyPayload(formId, updatedData)),
+    }).catch((e) => console.error("[Webhook] Delivery error:", e));
+
     return NextResponse.json({
       success: true,
       submissionId: submission.id,
-      message: "Form submitted successfully",
+      message: "Response updated successfully",
     });
   } catch {
     return NextResponse.json(
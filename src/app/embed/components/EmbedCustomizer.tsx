@@ -23,6 +23,7 @@ export interface EmbedConfig {
   responsive: boolean;
   loadingMode: "eager" | "lazy";
   allowTransparency: boolean;
+  hiddenValues: Record<string, string>;
 }
 
 interface EmbedCustomizerProps {
@@ -43,6 +44,7 @@ const defaultConfig: EmbedConfig = {
   responsive: true,
   loadingMode: "lazy",
   allowTransparency: false,
+  hiddenValues: {},
 };
 
 export default function EmbedCustomizer({
@@ -57,7 +59,29 @@ export default function EmbedCustomizer({
     setConfig((prev) => ({ ...prev, ...updates }));
   };
 
-  const embedUrl = `${process.env.NODE_ENV === "development" ? "http://localhost:3000" : "https://www.ikiform.com"}/forms/${formId}?theme=${config.theme}`;
+  // Hidden fields filled from URL parameters can be preset per embed
+  const hiddenParams = [
+    ...(form.schema?.fields || []),
+    ...(form.schema?.blocks?.flatMap((block) => block.fields || []) || []),
+  ]
+    .filter(
+      (field) =>
+        field.type === "hidden" &&
+        field.prepopulation?.enabled &&
+        field.prepopulation.source === "url" &&
+        field.prepopulation.config.urlParam,
+    )
+    .map((field) => ({
+      param: field.prepopulation!.config.urlParam!,
+      label: field.label,
+    }));
+
+  const embedParams = new URLSearchParams({ theme: config.theme });
+  Object.entries(config.hiddenValues).forEach(([param, value]) => {
+    if (value) embedParams.set(param, value);
+  });
+
+  const embedUrl = `${process.env.NODE_ENV === "development" ? "http://localhost:3000" : "https://www.ikiform.com"}/forms/${formId}?${embedParams.toString()}`;
 
   return (
     <div className="flex flex-col gap-6">
@@ -88,7 +112,11 @@ export default function EmbedCustomizer({
             <CardTitle>Settings</CardTitle>
           </CardHeader>
           <CardContent>
-            <EmbedSettings config={config} updateConfig={updateConfig} />
+            <EmbedSettings
+              config={config}
+              updateConfig={updateConfig}
+              hiddenParams={hiddenParams}
+            />
           </CardContent>
         </Card>
 
@@ -16,11 +16,13 @@ import { Switch } from "@/components/ui/switch";
 interface EmbedSettingsProps {
   config: EmbedConfig;
   updateConfig: (updates: Partial<EmbedConfig>) => void;
+  hiddenParams?: { param: string; label: string }[];
 }
 
 export default function EmbedSettings({
   config,
   updateConfig,
+  hiddenParams = [],
 }: EmbedSettingsProps) {
   return (
     <div className="flex flex-col gap-6">
@@ -258,6 +260,36 @@ export default function EmbedSettings({
           </p>
         </div>
       </div>
+
+      {/* Hidden Fields */}
+      {hiddenParams.length > 0 && (
+        <div className="flex flex-col gap-3">
+          <h3 className="text-sm font-medium">Hidden Fields</h3>
+          {hiddenParams.map(({ param, label }) => (
+            <div key={param} className="flex flex-col gap-2">
+              <Label>
+                {label} <span className="text-muted-foreground">?{param}</span>
+              </Label>
+              <Input
+                value={config.hiddenValues[param] || ""}
+                onChange={(e) =>
+                  updateConfig({
+                    hiddenValues: {
+                      ...config.hiddenValues,
+                      [param]: e.target.value,
+                    },
+                  })
+                }
+                placeholder="Leave empty to read it from the page URL"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Values set here are added to the embed URL and saved with every
+            submission from this embed
+          </p>
+        </div>
+      )}
     </div>
   );
 }
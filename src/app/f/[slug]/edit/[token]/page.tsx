@@ -0,0 +1,74 @@
+import { notFound } from "next/navigation";
+import { Card } from "@/components/ui/card";
+import { formsDbServer } from "@/lib/database";
+import { toConsentAnswers } from "@/lib/forms/consent";
+import { verifyEditToken } from "@/lib/forms/edit-links";
+import { getSchemaFields } from "@/lib/validation";
+import PublicFormServerWrapper from "../../../../forms/[id]/components/PublicFormServerWrapper";
+
+interface EditResponsePageProps {
+  params: Promise<{ slug: string; token: string }>;
+}
+
+export const metadata = {
+  title: "Edit your response",
+  robots: { index: false, follow: false },
+};
+
+function EditLinkUnavailable({ message }: { message: string }) {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <Card className="flex max-w-md flex-col gap-2 rounded-card p-8 text-center">
+        <h1 className="font-semibold text-foreground text-xl">
+          Edit link unavailable
+        </h1>
+        <p className="text-muted-foreground">{message}</p>
+      </Card>
+    </div>
+  );
+}
+
+export default async function EditResponsePage({
+  params,
+}: EditResponsePageProps) {
+  const { slug, token } = await params;
+
+  const form = await formsDbServer.getPublicForm(slug).catch(() => null);
+  if (!form) {
+    notFound();
+  }
+
+  const payload = verifyEditToken(token);
+  if (!payload || payload.formId !== form.id) {
+    return (
+      <EditLinkUnavailable message="This edit link is invalid or has expired." />
+    );
+  }
+  if (!form.schema.settings.responseEditing?.enabled) {
+    return (
+      <EditLinkUnavailable message="This form no longer allows editing responses." />
+    );
+  }
+
+  const submission = await formsDbServer.getSubmissionForEdit(
+    form.id,
+    payload.submissionId,
+  );
+  if (!submission) {
+    notFound();
+  }
+
+  return (
+    <PublicFormServerWrapper
+      edit={{
+        token,
+        submissionData: toConsentAnswers(
+          getSchemaFields(form.schema),
+          submission.submission_data,
+        ),
+      }}
+      formId={form.id}
+      schema={form.schema}
+    />
+  );
+}
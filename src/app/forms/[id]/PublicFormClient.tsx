@@ -2,6 +2,7 @@
 
 import dynamic from "next/dynamic";
 import { Suspense } from "react";
+import type { ResponseEditSession } from "@/lib/forms/edit-links";
 
 const ThemeProvider = dynamic(() => import("./components/ThemeProvider"), {
   ssr: false,
@@ -19,17 +20,24 @@ interface PublicFormClientProps {
   formId: string;
   schema: any;
   theme?: string;
+  edit?: ResponseEditSession;
 }
 
 export default function PublicFormClient({
   formId,
   schema,
   theme,
+  edit,
 }: PublicFormClientProps) {
   return (
     <Suspense fallback={<></>}>
       <ThemeProvider theme={theme}>
-        <PublicFormContent formId={formId} schema={schema} theme={theme} />
+        <PublicFormContent
+          edit={edit}
+          formId={formId}
+          schema={schema}
+          theme={theme}
+        />
       </ThemeProvider>
     </Suspense>
   );
@@ -1,5 +1,6 @@
 import dynamic from "next/dynamic";
 import { Suspense } from "react";
+import type { ResponseEditSession } from "@/lib/forms/edit-links";
 import { CSSPropertiesProvider } from "./CSSPropertiesProvider";
 import { FormSkeleton } from "./FormSkeletons";
 
@@ -27,12 +28,14 @@ interface PublicFormContentProps {
   formId: string;
   schema: any;
   theme?: string;
+  edit?: ResponseEditSession;
 }
 
 export default function PublicFormContent({
   formId,
   schema,
   theme,
+  edit,
 }: PublicFormContentProps) {
   const isMultiStep = schema.settings?.multiStep || schema.blocks?.length > 1;
   const dir = schema.settings?.rtl ? "rtl" : "ltr";
@@ -53,9 +56,19 @@ export default function PublicFormContent({
           }
         >
           {isMultiStep ? (
-            <MultiStepForm dir={dir} formId={formId} schema={schema} />
+            <MultiStepForm
+              dir={dir}
+              edit={edit}
+              formId={formId}
+              schema={schema}
+            />
           ) : (
-            <SingleStepForm dir={dir} formId={formId} schema={schema} />
+            <SingleStepForm
+              dir={dir}
+              edit={edit}
+              formId={formId}
+              schema={schema}
+            />
           )}
         </Suspense>
       </div>
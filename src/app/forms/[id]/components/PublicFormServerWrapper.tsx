@@ -1,4 +1,5 @@
 import { Suspense } from "react";
+import type { ResponseEditSession } from "@/lib/forms/edit-links";
 import PublicFormClient from "../PublicFormClient";
 import { FormSkeleton } from "./FormSkeletons";
 
@@ -6,12 +7,14 @@ interface PublicFormServerWrapperProps {
   formId: string;
   schema: any;
   theme?: string;
+  edit?: ResponseEditSession;
 }
 
 export default function PublicFormServerWrapper({
   formId,
   schema,
   theme,
+  edit,
 }: PublicFormServerWrapperProps) {
   const isMultiStep = schema.settings?.multiStep || schema.blocks?.length > 1;
 
@@ -24,7 +27,12 @@ export default function PublicFormServerWrapper({
         />
       }
     >
-      <PublicFormClient formId={formId} schema={schema} theme={theme} />
+      <PublicFormClient
+        edit={edit}
+        formId={formId}
+        schema={schema}
+        theme={theme}
+      />
     </Suspense>
   );
 }
@@ -7,6 +7,7 @@ import { toast } from '@/hooks/use-toast';
 import type { Form } from '@/lib/database';
 
 import { formsDb } from '@/lib/database';
+import { LogicPublishError } from '@/lib/forms/logic-lint';
 import type { ImportTransformResult } from '@/lib/import';
 
 import { DEFAULT_DELETE_MODAL_STATE } from '../constants';
@@ -66,7 +67,11 @@ export function useFormsManagement() {
       await copyToClipboard(shareUrl);
     } catch (error) {
       console.error('Error sharing form:', error);
-      toast.error('Failed to share form');
+      toast.error(
+        error instanceof LogicPublishError
+          ? error.message
+          : 'Failed to share form'
+      );
     }
   };
 
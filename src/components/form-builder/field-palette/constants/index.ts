@@ -1,16 +1,24 @@
 import {
   BarChart3,
+  Calculator,
   Calendar,
   CheckSquare,
   ChevronDown,
+  EyeOff,
   Circle,
   Clock,
+  Gauge,
+  Grid3x3,
   Hash,
+  Images,
   Link2,
+  ListOrdered,
   Mail,
   MapPin,
   MessageSquare,
   PenLine,
+  Repeat,
+  ShieldCheck,
   Phone,
   Share2,
   Sliders,
@@ -148,6 +156,54 @@ export const FIELD_TYPES: FieldTypeConfig[] = [
     icon: Upload,
     description: "Upload files with customizable size and type restrictions",
   },
+  {
+    type: "calculated",
+    label: "Calculated",
+    icon: Calculator,
+    description: "Compute a value from other answers with a formula",
+  },
+  {
+    type: "matrix",
+    label: "Matrix / Likert",
+    icon: Grid3x3,
+    description: "Rate several statements on the same scale in one grid",
+  },
+  {
+    type: "ranking",
+    label: "Ranking",
+    icon: ListOrdered,
+    description: "Let respondents order options by preference",
+  },
+  {
+    type: "nps",
+    label: "Net Promoter Score",
+    icon: Gauge,
+    description: "Ask how likely people are to recommend you, from 0 to 10",
+  },
+  {
+    type: "group",
+    label: "Repeating Group",
+    icon: Repeat,
+    description: "A set of fields respondents can fill in several times",
+  },
+  {
+    type: "hidden",
+    label: "Hidden Field",
+    icon: EyeOff,
+    description: "Capture URL parameters or page context without showing it",
+  },
+  {
+    type: "image_choice",
+    label: "Image Choice",
+    icon: Images,
+    description: "Let respondents pick one or more options shown as images",
+  },
+  {
+    type: "consent",
+    label: "Consent",
+    icon: ShieldCheck,
+    description: "Record agreement to a versioned policy for GDPR",
+  },
 ];
 
 export const PALETTE_CONFIG = {
@@ -3,6 +3,7 @@ import React from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 import type { FormField } from "@/lib/database";
+import { isCascadingField } from "@/lib/forms/cascade";
 import {
   BasicSettings,
   EmptyState,
@@ -21,12 +22,14 @@ interface FieldSettingsPanelProps {
   field: FormField | null;
   onFieldUpdate: (field: FormField) => void;
   onClose: () => void;
+  availableFields?: FormField[];
 }
 
 export function FieldSettingsPanel({
   field,
   onFieldUpdate,
   onClose,
+  availableFields,
 }: FieldSettingsPanelProps) {
   const { updateField, updateValidation, updateSettings } = useFieldUpdates(
     field,
@@ -42,15 +45,21 @@ export function FieldSettingsPanel({
       <ScrollArea className="h-[90%] flex-1">
         <SettingsPanelHeader onClose={onClose} />
         <div className="flex flex-col gap-4 p-4">
-          <BasicSettings field={field} onFieldUpdate={onFieldUpdate} />
+          <BasicSettings
+            availableFields={availableFields}
+            field={field}
+            onFieldUpdate={onFieldUpdate}
+          />
           <FieldSpecificSettings
+            availableFields={availableFields}
             field={field}
             onFieldUpdate={onFieldUpdate}
             onUpdateSettings={updateSettings}
           />
-          {["select", "radio", "checkbox", "poll"].includes(field.type) && (
-            <OptionsSettings field={field} onFieldUpdate={onFieldUpdate} />
-          )}
+          {["select", "radio", "checkbox", "poll"].includes(field.type) &&
+            !isCascadingField(field) && (
+              <OptionsSettings field={field} onFieldUpdate={onFieldUpdate} />
+            )}
           <PrepopulationSettings field={field} onFieldUpdate={onFieldUpdate} />
           <ValidationSettings
             field={field}
@@ -1,4 +1,6 @@
 import type React from "react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 
 import { Input } from "@/components/ui/input";
@@ -13,8 +15,22 @@ import { createFieldUpdater } from "../utils";
 export const BasicSettings: React.FC<BasicSettingsProps> = ({
   field,
   onFieldUpdate,
+  availableFields = [],
 }) => {
   const { updateField } = createFieldUpdater(field, onFieldUpdate);
+  const [pipeTarget, setPipeTarget] = useState<"label" | "description">(
+    "label",
+  );
+  const pipeableFields = availableFields.filter(
+    (f) => f.id !== field.id && f.type !== "statement",
+  );
+
+  const insertAnswer = (fieldId: string) => {
+    const text = field[pipeTarget] || "";
+    updateField({
+      [pipeTarget]: `${text}${text && !text.endsWith(" ") ? " " : ""}{{${fieldId}}}`,
+    });
+  };
 
   return (
     <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
@@ -28,6 +44,7 @@ export const BasicSettings: React.FC<BasicSettingsProps> = ({
             className="border-border bg-input"
             id="field-label"
             onChange={(e) => updateField({ label: e.target.value })}
+            onFocus={() => setPipeTarget("label")}
             placeholder="Enter field label"
             value={field.label}
           />
@@ -54,12 +71,39 @@ export const BasicSettings: React.FC<BasicSettingsProps> = ({
             className="border-border bg-input"
             id="field-description"
             onChange={(e) => updateField({ description: e.target.value })}
+            onFocus={() => setPipeTarget("description")}
             placeholder="Enter field description (shown below the field)"
             rows={2}
             value={field.description || ""}
           />
         </div>
 
+        {pipeableFields.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <Label className="text-card-foreground">
+              Insert answer into {pipeTarget}
+            </Label>
+            <div className="flex flex-wrap gap-1">
+              {pipeableFields.map((f) => (
+                <button
+                  key={f.id}
+                  onClick={() => insertAnswer(f.id)}
+                  type="button"
+                >
+                  <Badge className="cursor-pointer" size="sm" variant="outline">
+                    {f.label || f.id}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Shows the respondent&apos;s answer as they fill in the form. Write{" "}
+              {"{{field_id|fallback}}"} to show fallback text until it is
+              answered.
+            </p>
+          </div>
+        )}
+
         <div className="flex items-center gap-2">
           <Switch
             checked={field.required}
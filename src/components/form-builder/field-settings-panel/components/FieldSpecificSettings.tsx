@@ -3,14 +3,23 @@ import type { FormField } from "@/lib/database";
 import { EmailValidationSettings } from "./EmailValidationSettings";
 import {
   AddressFieldSettings,
+  CalculatedFieldSettings,
   CheckboxFieldSettings,
+  ConsentFieldSettings,
+  DateFieldSettings,
   FileFieldSettings,
+  GroupFieldSettings,
+  ImageChoiceFieldSettings,
   LinkFieldSettings,
+  MatrixFieldSettings,
+  NpsFieldSettings,
   PhoneFieldSettings,
   PollFieldSettings,
   RadioFieldSettings,
+  RankingFieldSettings,
   RatingFieldSettings,
   SchedulerFieldSettings,
+  SelectFieldSettings,
   SliderFieldSettings,
   SocialFieldSettings,
   TagsFieldSettings,
@@ -22,12 +31,14 @@ interface FieldSpecificSettingsProps {
   field: FormField;
   onUpdateSettings: (updates: Partial<FormField["settings"]>) => void;
   onFieldUpdate: (field: FormField) => void;
+  availableFields?: FormField[];
 }
 
 export function FieldSpecificSettings({
   field,
   onUpdateSettings,
   onFieldUpdate,
+  availableFields,
 }: FieldSpecificSettingsProps) {
   const fieldSettingsMap: Record<string, React.ComponentType<any>> = {
     phone: PhoneFieldSettings,
@@ -42,9 +53,18 @@ export function FieldSpecificSettings({
     rating: RatingFieldSettings,
     checkbox: CheckboxFieldSettings,
     radio: RadioFieldSettings,
+    select: SelectFieldSettings,
     scheduler: SchedulerFieldSettings,
     time: TimeFieldSettings,
+    date: DateFieldSettings,
     file: FileFieldSettings,
+    calculated: CalculatedFieldSettings,
+    matrix: MatrixFieldSettings,
+    ranking: RankingFieldSettings,
+    nps: NpsFieldSettings,
+    group: GroupFieldSettings,
+    image_choice: ImageChoiceFieldSettings,
+    consent: ConsentFieldSettings,
   };
 
   const FieldComponent = fieldSettingsMap[field.type];
@@ -55,6 +75,7 @@ export function FieldSpecificSettings({
 
   return (
     <FieldComponent
+      availableFields={availableFields}
       field={field}
       onFieldUpdate={onFieldUpdate}
       onUpdateSettings={onUpdateSettings}
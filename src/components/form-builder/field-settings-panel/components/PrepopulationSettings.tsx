@@ -1,4 +1,12 @@
-import { Copy, ExternalLink, Globe, History, User, Zap } from "lucide-react";
+import {
+  Compass,
+  Copy,
+  ExternalLink,
+  Globe,
+  History,
+  User,
+  Zap,
+} from "lucide-react";
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -152,6 +160,12 @@ export function PrepopulationSettings({
                       External API
                     </div>
                   </SelectItem>
+                  <SelectItem value="context">
+                    <div className="flex items-center gap-2">
+                      <Compass className="h-4 w-4" />
+                      Page Context
+                    </div>
+                  </SelectItem>
                   <SelectItem value="profile">
                     <div className="flex items-center gap-2">
                       <User className="h-4 w-4" />
@@ -316,6 +330,49 @@ export function PrepopulationSettings({
               </div>
             )}
 
+            {/* Page Context Configuration */}
+            {prepopulation.source === "context" && (
+              <div className="flex flex-col gap-3">
+                <div className="flex flex-col gap-2">
+                  <Label className="text-card-foreground">Context Value</Label>
+                  <Select
+                    onValueChange={(contextKey) =>
+                      updateConfig({
+                        contextKey:
+                          contextKey as typeof prepopulation.config.contextKey,
+                      })
+                    }
+                    value={prepopulation.config.contextKey || ""}
+                  >
+                    <SelectTrigger className="border-border bg-input">
+                      <SelectValue placeholder="Select a value" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="referrer">Referrer</SelectItem>
+                      <SelectItem value="landing_time">Landing time</SelectItem>
+                      <SelectItem value="user_agent">User agent</SelectItem>
+                      <SelectItem value="page_url">Page URL</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-muted-foreground text-xs">
+                    Read from the respondent's browser when the form loads
+                  </p>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <Label className="text-card-foreground">Fallback Value</Label>
+                  <Input
+                    className="border-border bg-input"
+                    onChange={(e) =>
+                      updateConfig({ fallbackValue: e.target.value })
+                    }
+                    placeholder="Default value if nothing is available"
+                    value={prepopulation.config.fallbackValue || ""}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Coming Soon Messages */}
             {prepopulation.source === "profile" && (
               <div className="rounded border border-orange-200 bg-orange-50 p-3 text-orange-900 text-sm">
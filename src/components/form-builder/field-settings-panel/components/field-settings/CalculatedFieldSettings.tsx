@@ -0,0 +1,131 @@
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_DECIMAL_PLACES, validateFormula } from "@/lib/forms/formula";
+import type { FieldSettingsProps } from "./types";
+
+export function CalculatedFieldSettings({
+  field,
+  onUpdateSettings,
+  availableFields = [],
+}: FieldSettingsProps) {
+  const formula = field.settings?.formula ?? "";
+  const referenceableFields = availableFields.filter(
+    (f) => f.id !== field.id && f.type !== "statement",
+  );
+  const formulaError = formula
+    ? validateFormula(
+        formula,
+        availableFields.length
+          ? referenceableFields.map((f) => f.id)
+          : undefined,
+      )
+    : undefined;
+
+  const insertReference = (fieldId: string) => {
+    onUpdateSettings({
+      formula: `${formula}${formula && !formula.endsWith(" ") ? " " : ""}{${fieldId}}`,
+    });
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Calculation</h3>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="calculated-formula">
+          Formula
+        </Label>
+        <Textarea
+          className="border-border bg-input font-mono text-sm"
+          id="calculated-formula"
+          onChange={(e) => onUpdateSettings({ formula: e.target.value })}
+          placeholder="e.g. {quantity} * {price}"
+          rows={3}
+          value={formula}
+        />
+        {formulaError ? (
+          <span className="text-destructive text-xs">{formulaError}</span>
+        ) : (
+          <p className="text-muted-foreground text-xs">
+            Reference answers with {"{field_id}"}. Supports + - * / %, &amp; for
+            text, comparisons, IF, AND, OR, NOT, SUM, AVG, MIN, MAX, ROUND, ABS,
+            COUNT, CONCAT, LEN, TODAY and DATEDIFF(end, start, "days").
+          </p>
+        )}
+      </div>
+      {referenceableFields.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <Label className="text-card-foreground">Insert field</Label>
+          <div className="flex flex-wrap gap-1">
+            {referenceableFields.map((f) => (
+              <button
+                key={f.id}
+                onClick={() => insertReference(f.id)}
+                type="button"
+              >
+                <Badge className="cursor-pointer" size="sm" variant="outline">
+                  {f.label || f.id}
+                </Badge>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-3 gap-2">
+        <div className="flex flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="calculated-prefix">
+            Prefix
+          </Label>
+          <Input
+            className="border-border bg-input"
+            id="calculated-prefix"
+            onChange={(e) => onUpdateSettings({ prefix: e.target.value })}
+            placeholder="$"
+            value={field.settings?.prefix ?? ""}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="calculated-suffix">
+            Suffix
+          </Label>
+          <Input
+            className="border-border bg-input"
+            id="calculated-suffix"
+            onChange={(e) => onUpdateSettings({ suffix: e.target.value })}
+            placeholder="pts"
+            value={field.settings?.suffix ?? ""}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="calculated-decimals">
+            Decimals
+          </Label>
+          <Input
+            className="border-border bg-input"
+            id="calculated-decimals"
+            max={MAX_DECIMAL_PLACES}
+            min={0}
+            onChange={(e) =>
+              onUpdateSettings({
+                decimalPlaces:
+                  e.target.value === ""
+                    ? undefined
+                    : Math.max(
+                        0,
+                        Math.min(
+                          MAX_DECIMAL_PLACES,
+                          Number.parseInt(e.target.value) || 0,
+                        ),
+                      ),
+              })
+            }
+            type="number"
+            value={field.settings?.decimalPlaces ?? ""}
+          />
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { FieldSettingsProps } from "./types";
+
+export function ConsentFieldSettings({
+  field,
+  onUpdateSettings,
+}: FieldSettingsProps) {
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Consent Settings</h3>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="consent-label">
+          Checkbox text
+        </Label>
+        <Input
+          id="consent-label"
+          onChange={(e) => onUpdateSettings({ consentLabel: e.target.value })}
+          placeholder="I agree"
+          type="text"
+          value={field.settings?.consentLabel || ""}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="consent-text">
+          Policy text
+        </Label>
+        <Textarea
+          className="font-mono text-sm"
+          id="consent-text"
+          onChange={(e) => onUpdateSettings({ consentText: e.target.value })}
+          placeholder="We store your answers to respond to your request..."
+          rows={5}
+          value={field.settings?.consentText || ""}
+        />
+        <p className="text-muted-foreground text-xs">
+          Supports Markdown. A fingerprint of this exact text is saved with
+          every response.
+        </p>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="consent-url">
+          Policy link
+        </Label>
+        <Input
+          id="consent-url"
+          onChange={(e) => onUpdateSettings({ consentUrl: e.target.value })}
+          placeholder="https://example.com/privacy"
+          type="url"
+          value={field.settings?.consentUrl || ""}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="consent-version">
+          Policy version
+        </Label>
+        <Input
+          id="consent-version"
+          onChange={(e) => onUpdateSettings({ consentVersion: e.target.value })}
+          placeholder="e.g. 2024-05"
+          type="text"
+          value={field.settings?.consentVersion || ""}
+        />
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Each response records whether consent was given, the policy version, the
+        time and the respondent&apos;s IP address. Mark the field as required to
+        make consent mandatory.
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { FormField } from "@/lib/database";
+import {
+  parseDateKey,
+  resolveDateBound,
+  WEEKDAY_NAMES,
+} from "@/lib/forms/dates";
+import type { FieldSettingsProps } from "./types";
+
+type DateMode = NonNullable<NonNullable<FormField["settings"]>["dateMode"]>;
+
+const DATE_MODES: { value: DateMode; label: string }[] = [
+  { value: "single", label: "Single date" },
+  { value: "range", label: "Date range" },
+  { value: "datetime", label: "Date and time" },
+];
+
+const isInvalidBound = (bound?: string) =>
+  !!bound?.trim() && !resolveDateBound(bound);
+
+export function DateFieldSettings({
+  field,
+  onUpdateSettings,
+}: FieldSettingsProps) {
+  const mode = field.settings?.dateMode || "single";
+  const { minDate, maxDate } = field.settings || {};
+  const disabledWeekdays = field.settings?.disabledWeekdays || [];
+
+  const toggleWeekday = (day: number, disabled: boolean) => {
+    const next = disabled
+      ? [...disabledWeekdays, day].sort((a, b) => a - b)
+      : disabledWeekdays.filter((d) => d !== day);
+    onUpdateSettings({ disabledWeekdays: next.length ? next : undefined });
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Date Settings</h3>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="date-mode">
+          Answer type
+        </Label>
+        <Select
+          onValueChange={(value) =>
+            onUpdateSettings({ dateMode: value as DateMode })
+          }
+          value={mode}
+        >
+          <SelectTrigger id="date-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DATE_MODES.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex flex-1 flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="date-min">
+            Earliest date
+          </Label>
+          <Input
+            id="date-min"
+            onChange={(e) =>
+              onUpdateSettings({ minDate: e.target.value || undefined })
+            }
+            placeholder="today"
+            type="text"
+            value={minDate || ""}
+          />
+        </div>
+        <div className="flex flex-1 flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="date-max">
+            Latest date
+          </Label>
+          <Input
+            id="date-max"
+            onChange={(e) =>
+              onUpdateSettings({ maxDate: e.target.value || undefined })
+            }
+            placeholder="today+90"
+            type="text"
+            value={maxDate || ""}
+          />
+        </div>
+      </div>
+      <p
+        className={`text-xs ${
+          isInvalidBound(minDate) || isInvalidBound(maxDate)
+            ? "text-destructive"
+            : "text-muted-foreground"
+        }`}
+      >
+        Use a date like 2025-12-31, or today, today+7 or today-30 to count from
+        the day the form is filled in.
+      </p>
+
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground">Unavailable weekdays</Label>
+        <div className="flex flex-wrap gap-3">
+          {WEEKDAY_NAMES.map((name, day) => (
+            <Checkbox
+              checked={disabledWeekdays.includes(day)}
+              id={`date-weekday-${day}`}
+              key={name}
+              label={name.slice(0, 3)}
+              onCheckedChange={(checked) =>
+                toggleWeekday(day, checked === true)
+              }
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="date-blackout">
+          Blackout dates
+        </Label>
+        <Input
+          defaultValue={(field.settings?.blackoutDates || []).join(", ")}
+          id="date-blackout"
+          key={(field.settings?.blackoutDates || []).join(",")}
+          onBlur={(e) => {
+            const dates = e.target.value
+              .split(",")
+              .map((date) => date.trim())
+              .filter((date) => parseDateKey(date));
+            onUpdateSettings({
+              blackoutDates: dates.length ? dates : undefined,
+            });
+          }}
+          placeholder="2025-12-25, 2025-12-26"
+          type="text"
+        />
+        <p className="text-muted-foreground text-xs">
+          Comma-separated dates in YYYY-MM-DD format that cannot be chosen.
+        </p>
+      </div>
+
+      {mode === "datetime" && (
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={!!field.settings?.captureTimezone}
+            id="date-capture-timezone"
+            onCheckedChange={(checked) =>
+              onUpdateSettings({ captureTimezone: checked || undefined })
+            }
+            size="sm"
+          />
+          <Label
+            className="text-card-foreground"
+            htmlFor="date-capture-timezone"
+          >
+            Record the respondent&apos;s time zone
+          </Label>
+        </div>
+      )}
+    </Card>
+  );
+}
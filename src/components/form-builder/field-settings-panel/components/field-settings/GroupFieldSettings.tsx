@@ -0,0 +1,206 @@
+import { Plus, X } from "lucide-react";
+import { generateFieldId } from "@/components/form-builder/form-builder/utils";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { FormField } from "@/lib/database";
+import type { FieldSettingsProps } from "./types";
+
+const CHILD_FIELD_TYPES: { value: FormField["type"]; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "textarea", label: "Long text" },
+  { value: "email", label: "Email" },
+  { value: "number", label: "Number" },
+  { value: "phone", label: "Phone" },
+  { value: "date", label: "Date" },
+  { value: "select", label: "Dropdown" },
+];
+
+const formatOptions = (options: FormField["options"]) =>
+  (options || [])
+    .map((option) => (typeof option === "string" ? option : option.value))
+    .join(", ");
+
+export function GroupFieldSettings({
+  field,
+  onUpdateSettings,
+}: FieldSettingsProps) {
+  const children = field.settings?.groupFields || [];
+
+  const updateChildren = (groupFields: FormField[]) => {
+    onUpdateSettings({ groupFields });
+  };
+
+  const updateChild = (idx: number, updates: Partial<FormField>) => {
+    const updated = [...children];
+    updated[idx] = { ...updated[idx], ...updates };
+    updateChildren(updated);
+  };
+
+  const addChild = () => {
+    updateChildren([
+      ...children,
+      {
+        id: generateFieldId(),
+        type: "text",
+        label: `Field ${children.length + 1}`,
+        required: false,
+      },
+    ]);
+  };
+
+  const parseCount = (raw: string) => {
+    const count = Number.parseInt(raw, 10);
+    return Number.isNaN(count) || count < 1 ? undefined : count;
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Group Settings</h3>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground">Fields in each entry</Label>
+        {children.map((child, idx) => (
+          <div
+            className="flex flex-col gap-2 rounded-ele border border-border p-2"
+            key={child.id}
+          >
+            <div className="flex items-center gap-2">
+              <Input
+                aria-label="Field label"
+                className="flex-1"
+                onChange={(e) => updateChild(idx, { label: e.target.value })}
+                type="text"
+                value={child.label}
+              />
+              <Button
+                aria-label={`Remove ${child.label}`}
+                onClick={() =>
+                  updateChildren(children.filter((c) => c.id !== child.id))
+                }
+                size="icon"
+                type="button"
+                variant="ghost"
+              >
+                <X />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                onValueChange={(type) =>
+                  updateChild(idx, {
+                    type: type as FormField["type"],
+                    options:
+                      type === "select"
+                        ? child.options || ["Option 1", "Option 2"]
+                        : undefined,
+                  })
+                }
+                value={child.type}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHILD_FIELD_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Switch
+                checked={child.required}
+                id={`group-child-required-${child.id}`}
+                onCheckedChange={(checked) =>
+                  updateChild(idx, { required: checked })
+                }
+                size="sm"
+              />
+              <Label
+                className="text-muted-foreground text-xs"
+                htmlFor={`group-child-required-${child.id}`}
+              >
+                Required
+              </Label>
+            </div>
+            {child.type === "select" && (
+              // Edited as free text and parsed on blur, so commas can be typed.
+              // Keyed by the options so undo or a reorder refreshes the text.
+              <Input
+                aria-label="Options"
+                defaultValue={formatOptions(child.options)}
+                key={formatOptions(child.options)}
+                onBlur={(e) =>
+                  updateChild(idx, {
+                    options: e.target.value
+                      .split(",")
+                      .map((option) => option.trim())
+                      .filter(Boolean),
+                  })
+                }
+                placeholder="Comma-separated options"
+                type="text"
+              />
+            )}
+          </div>
+        ))}
+        <Button
+          className="self-start"
+          onClick={addChild}
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          <Plus className="h-4 w-4" />
+          Add field
+        </Button>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex flex-1 flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="group-min">
+            Minimum entries
+          </Label>
+          <Input
+            id="group-min"
+            min={1}
+            onChange={(e) =>
+              onUpdateSettings({ minInstances: parseCount(e.target.value) })
+            }
+            placeholder="None"
+            type="number"
+            value={field.settings?.minInstances ?? ""}
+          />
+        </div>
+        <div className="flex flex-1 flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="group-max">
+            Maximum entries
+          </Label>
+          <Input
+            id="group-max"
+            min={1}
+            onChange={(e) =>
+              onUpdateSettings({ maxInstances: parseCount(e.target.value) })
+            }
+            placeholder="No limit"
+            type="number"
+            value={field.settings?.maxInstances ?? ""}
+          />
+        </div>
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Respondents can repeat this group, e.g. once per dependent or past
+        employer. Each entry is validated on its own.
+      </p>
+    </Card>
+  );
+}
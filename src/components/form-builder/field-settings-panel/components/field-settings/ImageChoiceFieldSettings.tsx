@@ -0,0 +1,297 @@
+import { ImageIcon, Plus, Upload, X } from "lucide-react";
+import { useParams } from "next/navigation";
+import { useState } from "react";
+import { generateFieldId } from "@/components/form-builder/form-builder/utils";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import type { FormField } from "@/lib/database";
+import type { FieldSettingsProps } from "./types";
+
+type ImageOption = NonNullable<
+  NonNullable<FormField["settings"]>["imageOptions"]
+>[number];
+
+export function ImageChoiceFieldSettings({
+  field,
+  onUpdateSettings,
+}: FieldSettingsProps) {
+  const params = useParams();
+  const formId = params?.id as string | undefined;
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const options = field.settings?.imageOptions || [];
+  const allowMultiple = !!field.settings?.allowMultiple;
+  const correctAnswer = field.settings?.correctAnswer;
+  const correctValues = Array.isArray(correctAnswer)
+    ? correctAnswer
+    : correctAnswer
+      ? [correctAnswer]
+      : [];
+
+  const updateOptions = (imageOptions: ImageOption[]) => {
+    onUpdateSettings({ imageOptions });
+  };
+
+  const updateOption = (id: string, updates: Partial<ImageOption>) => {
+    updateOptions(
+      options.map((option) =>
+        option.id === id ? { ...option, ...updates } : option,
+      ),
+    );
+  };
+
+  const setCorrectValues = (values: string[], multiple = allowMultiple) => {
+    onUpdateSettings({
+      correctAnswer: multiple ? values : values[0] || "",
+    });
+  };
+
+  const uploadImage = async (option: ImageOption, file: File) => {
+    if (!formId) {
+      return;
+    }
+
+    setUploadError(null);
+    setUploadingId(option.id);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("formId", formId);
+      formData.append("fieldId", field.id);
+
+      const response = await fetch("/api/upload", {
+        method: "POST",
+        body: formData,
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Upload failed");
+      }
+
+      updateOption(option.id, {
+        imageUrl: result.file.signedUrl,
+        imagePath: result.file.url,
+      });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : "Upload failed");
+    } finally {
+      setUploadingId(null);
+    }
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Image Options</h3>
+      <div className="flex flex-col gap-2">
+        {options.map((option) => (
+          <div
+            className="flex gap-3 rounded-ele border border-border p-2"
+            key={option.id}
+          >
+            <label
+              className={`flex h-16 w-16 shrink-0 items-center justify-center overflow-hidden rounded-ele bg-muted ${
+                formId ? "cursor-pointer" : "cursor-not-allowed opacity-50"
+              }`}
+              title={formId ? "Upload image" : "Save the form to upload images"}
+            >
+              {option.imageUrl ? (
+                <img
+                  alt={option.alt || option.value}
+                  className="h-full w-full object-cover"
+                  src={option.imageUrl}
+                />
+              ) : uploadingId === option.id ? (
+                <Upload className="h-5 w-5 animate-pulse text-muted-foreground" />
+              ) : (
+                <ImageIcon className="h-5 w-5 text-muted-foreground" />
+              )}
+              <input
+                accept="image/*"
+                className="hidden"
+                disabled={!formId || uploadingId !== null}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) uploadImage(option, file);
+                  e.target.value = "";
+                }}
+                type="file"
+              />
+            </label>
+            <div className="flex flex-1 flex-col gap-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label="Option label"
+                  className="flex-1"
+                  onChange={(e) =>
+                    updateOption(option.id, { value: e.target.value })
+                  }
+                  type="text"
+                  value={option.value}
+                />
+                <Button
+                  aria-label={`Remove ${option.value}`}
+                  onClick={() =>
+                    updateOptions(options.filter((o) => o.id !== option.id))
+                  }
+                  size="icon"
+                  type="button"
+                  variant="ghost"
+                >
+                  <X />
+                </Button>
+              </div>
+              <Input
+                aria-label="Alt text"
+                onChange={(e) =>
+                  updateOption(option.id, { alt: e.target.value })
+                }
+                placeholder="Alt text for screen readers"
+                type="text"
+                value={option.alt || ""}
+              />
+            </div>
+          </div>
+        ))}
+        <Button
+          className="self-start"
+          onClick={() =>
+            updateOptions([
+              ...options,
+              { id: generateFieldId(), value: `Option ${options.length + 1}` },
+            ])
+          }
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          <Plus className="h-4 w-4" />
+          Add option
+        </Button>
+        {!formId && (
+          <p className="text-muted-foreground text-xs">
+            Save the form before uploading images.
+          </p>
+        )}
+        {uploadError && (
+          <p className="text-destructive text-xs">{uploadError}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="image-columns">
+          Columns
+        </Label>
+        <Select
+          onValueChange={(columns) =>
+            onUpdateSettings({
+              imageColumns: Number(columns) as 2 | 3 | 4,
+            })
+          }
+          value={String(field.settings?.imageColumns || 3)}
+        >
+          <SelectTrigger id="image-columns">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="2">2 columns</SelectItem>
+            <SelectItem value="3">3 columns</SelectItem>
+            <SelectItem value="4">4 columns</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={allowMultiple}
+          id="image-allow-multiple"
+          onCheckedChange={(checked) => {
+            onUpdateSettings({ allowMultiple: checked });
+            if (field.settings?.isQuizField) {
+              setCorrectValues(correctValues, checked);
+            }
+          }}
+          size="sm"
+        />
+        <Label className="text-card-foreground" htmlFor="image-allow-multiple">
+          Allow multiple selection
+        </Label>
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={!!field.settings?.isQuizField}
+          id="image-quiz-enabled"
+          onCheckedChange={(checked) =>
+            onUpdateSettings({ isQuizField: checked })
+          }
+          size="sm"
+        />
+        <Label className="text-card-foreground" htmlFor="image-quiz-enabled">
+          Enable as Quiz Question
+        </Label>
+      </div>
+
+      {field.settings?.isQuizField && (
+        <>
+          <div className="flex flex-col gap-2">
+            <Label className="text-card-foreground">
+              {allowMultiple ? "Correct Answers" : "Correct Answer"}
+            </Label>
+            {options.map((option) => (
+              <Checkbox
+                checked={correctValues.includes(option.value)}
+                id={`image-correct-${option.id}`}
+                key={option.id}
+                label={option.value}
+                onCheckedChange={(checked) => {
+                  if (!allowMultiple) {
+                    setCorrectValues(checked ? [option.value] : []);
+                    return;
+                  }
+                  setCorrectValues(
+                    checked
+                      ? [...correctValues, option.value]
+                      : correctValues.filter((v) => v !== option.value),
+                  );
+                }}
+              />
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label className="text-card-foreground" htmlFor="image-quiz-points">
+              Points for Correct Answer
+            </Label>
+            <Input
+              id="image-quiz-points"
+              max="100"
+              min="1"
+              onChange={(e) =>
+                onUpdateSettings({
+                  points: Number.parseInt(e.target.value) || 1,
+                })
+              }
+              type="number"
+              value={field.settings?.points || 1}
+            />
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+import { X } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { FieldSettingsProps } from "./types";
+
+export function MatrixFieldSettings({
+  field,
+  onUpdateSettings,
+}: FieldSettingsProps) {
+  const [newRow, setNewRow] = useState("");
+  const [newColumn, setNewColumn] = useState("");
+
+  const rows = field.settings?.matrixRows || [];
+  const columns = field.settings?.matrixColumns || [];
+
+  const addRow = () => {
+    if (!newRow.trim()) return;
+    onUpdateSettings({
+      matrixRows: [...rows, { id: `row_${Date.now()}`, label: newRow.trim() }],
+    });
+    setNewRow("");
+  };
+
+  const addColumn = () => {
+    const column = newColumn.trim();
+    if (!column || columns.includes(column)) return;
+    onUpdateSettings({ matrixColumns: [...columns, column] });
+    setNewColumn("");
+  };
+
+  const updateRow = (idx: number, updates: Partial<(typeof rows)[number]>) => {
+    const updated = [...rows];
+    updated[idx] = { ...updated[idx], ...updates };
+    onUpdateSettings({ matrixRows: updated });
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Matrix Settings</h3>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="matrix-row-input">
+          Rows (statements)
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            className="flex-1"
+            id="matrix-row-input"
+            onChange={(e) => setNewRow(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addRow();
+            }}
+            placeholder="Add row"
+            type="text"
+            value={newRow}
+          />
+          <Button
+            disabled={!newRow.trim()}
+            onClick={addRow}
+            size="sm"
+            type="button"
+          >
+            Add
+          </Button>
+        </div>
+        <div className="mt-2 flex flex-col gap-1">
+          {rows.map((row, idx) => (
+            <div className="flex items-center gap-2" key={row.id}>
+              <Input
+                className="flex-1"
+                onChange={(e) => updateRow(idx, { label: e.target.value })}
+                type="text"
+                value={row.label}
+              />
+              <div className="flex items-center gap-1">
+                <Switch
+                  checked={field.required || !!row.required}
+                  disabled={field.required}
+                  id={`matrix-row-required-${row.id}`}
+                  onCheckedChange={(checked) =>
+                    updateRow(idx, { required: checked })
+                  }
+                  size="sm"
+                />
+                <Label
+                  className="text-muted-foreground text-xs"
+                  htmlFor={`matrix-row-required-${row.id}`}
+                >
+                  Required
+                </Label>
+              </div>
+              <Button
+                onClick={() =>
+                  onUpdateSettings({
+                    matrixRows: rows.filter((r) => r.id !== row.id),
+                  })
+                }
+                size="icon"
+                type="button"
+                variant="ghost"
+              >
+                <X />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {field.required && (
+          <p className="text-muted-foreground text-xs">
+            The field is required, so every row must be answered.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="matrix-column-input">
+          Columns (scale)
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            className="flex-1"
+            id="matrix-column-input"
+            onChange={(e) => setNewColumn(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addColumn();
+            }}
+            placeholder="Add column"
+            type="text"
+            value={newColumn}
+          />
+          <Button
+            disabled={!newColumn.trim() || columns.includes(newColumn.trim())}
+            onClick={addColumn}
+            size="sm"
+            type="button"
+          >
+            Add
+          </Button>
+        </div>
+        <div className="mt-2 flex flex-col gap-1">
+          {columns.map((column, idx) => (
+            <div className="flex items-center gap-2" key={idx}>
+              <Input
+                className="flex-1"
+                onChange={(e) => {
+                  const updated = [...columns];
+                  updated[idx] = e.target.value;
+                  onUpdateSettings({ matrixColumns: updated });
+                }}
+                type="text"
+                value={column}
+              />
+              <Button
+                onClick={() =>
+                  onUpdateSettings({
+                    matrixColumns: columns.filter((_, i) => i !== idx),
+                  })
+                }
+                size="icon"
+                type="button"
+                variant="ghost"
+              >
+                <X />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={!!field.settings?.allowMultiple}
+          id="matrix-allow-multiple"
+          onCheckedChange={(checked) =>
+            onUpdateSettings({ allowMultiple: checked })
+          }
+          size="sm"
+        />
+        <Label className="text-card-foreground" htmlFor="matrix-allow-multiple">
+          Allow multiple answers per row
+        </Label>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { FieldSettingsProps } from "./types";
+
+export function NpsFieldSettings({
+  field,
+  onUpdateSettings,
+}: FieldSettingsProps) {
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">NPS Settings</h3>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="nps-low-label">
+          Label for 0
+        </Label>
+        <Input
+          id="nps-low-label"
+          onChange={(e) => onUpdateSettings({ npsLowLabel: e.target.value })}
+          placeholder="Not at all likely"
+          type="text"
+          value={field.settings?.npsLowLabel || ""}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="nps-high-label">
+          Label for 10
+        </Label>
+        <Input
+          id="nps-high-label"
+          onChange={(e) => onUpdateSettings({ npsHighLabel: e.target.value })}
+          placeholder="Extremely likely"
+          type="text"
+          value={field.settings?.npsHighLabel || ""}
+        />
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Scores of 9–10 count as promoters, 7–8 as passives and 0–6 as detractors
+        in analytics.
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+import { X } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { FieldSettingsProps } from "./types";
+
+export function RankingFieldSettings({
+  field,
+  onUpdateSettings,
+  onFieldUpdate,
+}: FieldSettingsProps) {
+  const [newOption, setNewOption] = useState("");
+  const options = field.options || [];
+
+  const addOption = () => {
+    if (!newOption.trim()) return;
+    onFieldUpdate({ ...field, options: [...options, newOption.trim()] });
+    setNewOption("");
+  };
+
+  const parseCount = (raw: string) => {
+    const count = Number.parseInt(raw, 10);
+    return Number.isNaN(count) || count < 1 ? undefined : count;
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Ranking Settings</h3>
+      <div className="flex flex-col gap-2">
+        <Label className="text-card-foreground" htmlFor="ranking-option-input">
+          Options
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            className="flex-1"
+            id="ranking-option-input"
+            onChange={(e) => setNewOption(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addOption();
+            }}
+            placeholder="Add option"
+            type="text"
+            value={newOption}
+          />
+          <Button
+            disabled={!newOption.trim()}
+            onClick={addOption}
+            size="sm"
+            type="button"
+          >
+            Add
+          </Button>
+        </div>
+        <div className="mt-2 flex flex-col gap-1">
+          {options.map((option, idx) => (
+            <div className="flex items-center gap-2" key={idx}>
+              <span className="flex-1 truncate">
+                {typeof option === "string"
+                  ? option
+                  : (option.label ?? option.value)}
+              </span>
+              <Button
+                onClick={() =>
+                  onFieldUpdate({
+                    ...field,
+                    options: options.filter((_, i) => i !== idx),
+                  })
+                }
+                size="icon"
+                type="button"
+                variant="ghost"
+              >
+                <X />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="flex flex-1 flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="ranking-min">
+            Minimum ranked
+          </Label>
+          <Input
+            id="ranking-min"
+            max={options.length}
+            min={1}
+            onChange={(e) =>
+              onUpdateSettings({ minRanked: parseCount(e.target.value) })
+            }
+            placeholder="None"
+            type="number"
+            value={field.settings?.minRanked ?? ""}
+          />
+        </div>
+        <div className="flex flex-1 flex-col gap-2">
+          <Label className="text-card-foreground" htmlFor="ranking-max">
+            Maximum ranked
+          </Label>
+          <Input
+            id="ranking-max"
+            max={options.length}
+            min={1}
+            onChange={(e) =>
+              onUpdateSettings({ maxRanked: parseCount(e.target.value) })
+            }
+            placeholder="All"
+            type="number"
+            value={field.settings?.maxRanked ?? ""}
+          />
+        </div>
+      </div>
+      <p className="text-muted-foreground text-xs">
+        Respondents order their picks by preference. Leave the maximum empty to
+        let them rank every option.
+      </p>
+    </Card>
+  );
+}
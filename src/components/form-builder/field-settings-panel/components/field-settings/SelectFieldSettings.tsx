@@ -0,0 +1,193 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { FormField } from "@/lib/database";
+import { CASCADE_PARENT_TOKEN, isCascadingField } from "@/lib/forms/cascade";
+import { getAllowedOptionValues } from "@/lib/validation";
+import type { FieldSettingsProps } from "./types";
+
+/**
+ * The answers a parent field can give, or null when its options come from
+ * an API and cannot be listed in the builder.
+ */
+function getParentValues(parent: FormField): string[] | null {
+  if (parent.optionsApi) return null;
+  if (isCascadingField(parent)) {
+    return [
+      ...new Set(Object.values(parent.settings?.cascadeOptions || {}).flat()),
+    ];
+  }
+  return getAllowedOptionValues(parent) || [];
+}
+
+export function SelectFieldSettings({
+  field,
+  onUpdateSettings,
+  onFieldUpdate,
+  availableFields = [],
+}: FieldSettingsProps) {
+  const parentId = field.settings?.cascadeParentId;
+  const cascadeOptions = field.settings?.cascadeOptions || {};
+  const useApi = field.optionsApi !== undefined;
+
+  // A field cannot depend on itself or on any select that depends on it
+  const dependsOnField = (candidate: FormField): boolean => {
+    const seen = new Set<string>();
+    let current: FormField | undefined = candidate;
+    while (current?.settings?.cascadeParentId && !seen.has(current.id)) {
+      if (current.settings.cascadeParentId === field.id) return true;
+      seen.add(current.id);
+      const nextParentId: string = current.settings.cascadeParentId;
+      current = availableFields.find((f) => f.id === nextParentId);
+    }
+    return false;
+  };
+  const parentCandidates = availableFields.filter(
+    (f) =>
+      f.id !== field.id &&
+      (f.type === "select" || f.type === "radio") &&
+      !dependsOnField(f),
+  );
+  const parent = availableFields.find((f) => f.id === parentId);
+  const parentValues = parent ? getParentValues(parent) : [];
+
+  const setParent = (id: string | undefined) => {
+    onUpdateSettings({ cascadeParentId: id });
+  };
+
+  const setChildOptions = (parentValue: string, raw: string) => {
+    onUpdateSettings({
+      cascadeOptions: {
+        ...cascadeOptions,
+        [parentValue]: raw
+          .split(",")
+          .map((option) => option.trim())
+          .filter(Boolean),
+      },
+    });
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-card bg-background p-4">
+      <h3 className="font-medium text-card-foreground">Dependent Options</h3>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={!!parentId}
+          disabled={!parentId && parentCandidates.length === 0}
+          id="cascade-enabled"
+          onCheckedChange={(checked) =>
+            setParent(checked ? parentCandidates[0]?.id : undefined)
+          }
+          size="sm"
+        />
+        <Label className="text-card-foreground" htmlFor="cascade-enabled">
+          Options depend on another answer
+        </Label>
+      </div>
+
+      {parentId && (
+        <>
+          <div className="flex flex-col gap-2">
+            <Label className="text-card-foreground" htmlFor="cascade-parent">
+              Depends on
+            </Label>
+            <Select onValueChange={setParent} value={parentId}>
+              <SelectTrigger id="cascade-parent">
+                <SelectValue placeholder="Choose a field" />
+              </SelectTrigger>
+              <SelectContent>
+                {parentCandidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.label || candidate.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={useApi}
+              id="cascade-use-api"
+              onCheckedChange={(checked) =>
+                onFieldUpdate({
+                  ...field,
+                  optionsApi: checked ? "" : undefined,
+                })
+              }
+              size="sm"
+            />
+            <Label className="text-card-foreground" htmlFor="cascade-use-api">
+              Load options from an API
+            </Label>
+          </div>
+
+          {useApi ? (
+            <div className="flex flex-col gap-2">
+              <Input
+                aria-label="Options API URL"
+                onChange={(e) =>
+                  onFieldUpdate({ ...field, optionsApi: e.target.value })
+                }
+                placeholder={`https://your-api.com/states?country=${CASCADE_PARENT_TOKEN}`}
+                type="url"
+                value={field.optionsApi || ""}
+              />
+              <p className="text-muted-foreground text-xs">
+                <code>{CASCADE_PARENT_TOKEN}</code> is replaced with the answer
+                to {parent?.label || "the parent field"} each time it changes.
+                Answers are not checked against the API when the form is
+                submitted.
+              </p>
+            </div>
+          ) : parentValues === null ? (
+            <p className="text-muted-foreground text-xs">
+              {parent?.label || "The parent field"} loads its options from an
+              API, so this field must load its options from an API as well.
+            </p>
+          ) : parentValues.length === 0 ? (
+            <p className="text-muted-foreground text-xs">
+              Add options to {parent?.label || "the parent field"} first.
+            </p>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <Label className="text-card-foreground">
+                Options for each answer
+              </Label>
+              {parentValues.map((parentValue) => (
+                <div
+                  className="flex flex-col gap-1"
+                  key={`${field.id}-${parentValue}`}
+                >
+                  <span className="text-muted-foreground text-xs">
+                    {parentValue}
+                  </span>
+                  <Input
+                    aria-label={`Options for ${parentValue}`}
+                    defaultValue={(cascadeOptions[parentValue] || []).join(
+                      ", ",
+                    )}
+                    onBlur={(e) => setChildOptions(parentValue, e.target.value)}
+                    placeholder="Comma-separated options"
+                    type="text"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-muted-foreground text-xs">
+            The answer is cleared whenever the answer it depends on changes.
+          </p>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -1,12 +1,21 @@
 export { AddressFieldSettings } from "./AddressFieldSettings";
+export { CalculatedFieldSettings } from "./CalculatedFieldSettings";
 export { CheckboxFieldSettings } from "./CheckboxFieldSettings";
+export { ConsentFieldSettings } from "./ConsentFieldSettings";
+export { DateFieldSettings } from "./DateFieldSettings";
 export { FileFieldSettings } from "./FileFieldSettings";
+export { GroupFieldSettings } from "./GroupFieldSettings";
+export { ImageChoiceFieldSettings } from "./ImageChoiceFieldSettings";
 export { LinkFieldSettings } from "./LinkFieldSettings";
+export { MatrixFieldSettings } from "./MatrixFieldSettings";
+export { NpsFieldSettings } from "./NpsFieldSettings";
 export { PhoneFieldSettings } from "./PhoneFieldSettings";
 export { PollFieldSettings } from "./PollFieldSettings";
 export { RadioFieldSettings } from "./RadioFieldSettings";
+export { RankingFieldSettings } from "./RankingFieldSettings";
 export { RatingFieldSettings } from "./RatingFieldSettings";
 export { SchedulerFieldSettings } from "./SchedulerFieldSettings";
+export { SelectFieldSettings } from "./SelectFieldSettings";
 export { SliderFieldSettings } from "./SliderFieldSettings";
 export { SocialFieldSettings } from "./SocialFieldSettings";
 export { TagsFieldSettings } from "./TagsFieldSettings";
@@ -4,4 +4,5 @@ export interface FieldSettingsProps {
   field: FormField;
   onUpdateSettings: (updates: Partial<FormField["settings"]>) => void;
   onFieldUpdate: (field: FormField) => void;
+  availableFields?: FormField[];
 }
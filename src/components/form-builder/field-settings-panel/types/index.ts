@@ -13,6 +13,7 @@ export interface EmptyStateProps {
 export interface BasicSettingsProps {
   field: FormField;
   onFieldUpdate: (field: FormField) => void;
+  availableFields?: FormField[];
 }
 
 export interface OptionsSettingsProps {
@@ -7,6 +7,7 @@ import { createDefaultFormSchema } from '@/lib/forms/form-defaults';
 import { FormBuilderHeader } from './components/FormBuilderHeader';
 import { FormBuilderModals } from './components/FormBuilderModals';
 import { FormBuilderPanels } from './components/FormBuilderPanels';
+import { DEFAULT_FIELD_SETTINGS } from './constants';
 import {
   addFieldToSchema,
   findSelectedField,
@@ -49,12 +50,7 @@ export default function DemoFormBuilder() {
         ? ['Option 1', 'Option 2']
         : undefined,
       validation: {},
-      settings:
-        fieldType === 'slider'
-          ? { min: 0, max: 100, step: 1, defaultValue: 50 }
-          : fieldType === 'tags'
-            ? { maxTags: 10, allowDuplicates: false }
-            : {},
+      settings: DEFAULT_FIELD_SETTINGS[fieldType]?.() ?? {},
     };
     const updatedSchema = addFieldToSchema(
       formSchema,
@@ -2,7 +2,7 @@
 
 import { useRouter } from 'next/navigation';
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import type { FormLogic } from '@/components/form-builder/logic-builder/types';
 
 import { Button } from '@/components/ui/button';
@@ -10,9 +10,16 @@ import { Drawer, DrawerContent } from '@/components/ui/drawer';
 
 import { toast } from '@/hooks/use-toast';
 
-import type { FormBlock, FormField, FormSchema } from '@/lib/database';
+import type {
+  FormBlock,
+  FormField,
+  FormSchema,
+  FormVersion,
+} from '@/lib/database';
 
 import { formsDb } from '@/lib/database';
+import { LogicPublishError } from '@/lib/forms/logic-lint';
+import { type LogicTestCase, runLogicTests } from '@/lib/forms/logic-simulator';
 import { Loader } from '../../ui/loader';
 import { FieldPalette } from '../field-palette';
 import { FieldSettingsPanel } from '../field-settings-panel';
@@ -23,13 +30,14 @@ import { FormBuilderModals } from './components/FormBuilderModals';
 import { FormBuilderPanels } from './components/FormBuilderPanels';
 import { UnsavedChangesIndicator } from './components/UnsavedChangesIndicator';
 
-import { DRAFT_KEYS } from './constants';
+import { DEFAULT_FIELD_SETTINGS, DRAFT_KEYS } from './constants';
 import { useFormBuilder } from './hooks/useFormBuilder';
 import type { FormBuilderProps } from './types';
 import {
   addFieldToSchema,
   generateBlockId,
   generateFieldId,
+  getAllFields,
   removeDraftFromStorage,
   removeFieldFromSchema,
   updateFieldInSchema,
@@ -55,11 +63,24 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
     user,
     authLoading,
     debouncedAutoSave,
+    history,
   } = useFormBuilder(formId);
 
   const isMobile = useIsMobile();
   const [showFieldPalette, setShowFieldPalette] = useState(false);
   const [showFieldSettings, setShowFieldSettings] = useState(false);
+  const [logicTests, setLogicTests] = useState<LogicTestCase[]>([]);
+
+  useEffect(() => {
+    if (!(formId && user)) return;
+    formsDb
+      .getLogicTests(formId)
+      .then(setLogicTests)
+      .catch((error) => {
+        console.error('Error loading logic test cases:', error);
+        toast.error('Failed to load logic test cases.');
+      });
+  }, [formId, user]);
 
   const handleFieldSelect = useCallback(
     (fieldId: string | null) => {
@@ -70,6 +91,43 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
     [actions, isMobile]
   );
 
+  const undo = () => {
+    const schema = history.undo();
+    if (schema) debouncedAutoSave(schema);
+  };
+
+  const redo = () => {
+    const schema = history.redo();
+    if (schema) debouncedAutoSave(schema);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey)) return;
+
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const addField = (fieldType: FormField['type'], index?: number) => {
     const newField: FormField = {
       id: generateFieldId(),
@@ -79,16 +137,20 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
       required: false,
       options: ['select', 'radio', 'checkbox'].includes(fieldType)
         ? ['Option 1', 'Option 2']
-        : undefined,
+        : fieldType === 'ranking'
+          ? ['Option 1', 'Option 2', 'Option 3']
+          : undefined,
       validation: {},
-      settings:
-        fieldType === 'slider'
-          ? { min: 0, max: 100, step: 1, defaultValue: 50 }
-          : fieldType === 'tags'
-            ? { maxTags: 10, allowDuplicates: false }
-            : fieldType === 'poll'
-              ? { pollOptions: ['Option 1', 'Option 2'] }
-              : {},
+      settings: DEFAULT_FIELD_SETTINGS[fieldType]?.() ?? {},
+      ...(fieldType === 'consent' && { label: 'Consent', required: true }),
+      ...(fieldType === 'hidden' && {
+        label: 'utm_source',
+        prepopulation: {
+          enabled: true,
+          source: 'url',
+          config: { urlParam: 'utm_source' },
+        },
+      }),
     };
 
     const updatedSchema = addFieldToSchema(
@@ -238,6 +300,7 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
     try {
       if (formId) {
         await formsDb.updateForm(formId, { schema: state.formSchema });
+        await formsDb.createFormVersion(formId, state.formSchema, 'save');
         toast.success('Form saved successfully!');
       } else {
         const newForm = await formsDb.createForm(
@@ -245,6 +308,9 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
           state.formSchema.settings.title,
           state.formSchema
         );
+        if (logicTests.length > 0) {
+          await formsDb.saveLogicTests(newForm.id, logicTests);
+        }
         router.push(`/form-builder/${newForm.id}`);
         toast.success('Form created successfully!');
       }
@@ -265,16 +331,38 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
     actions.setShowShareModal(true);
   };
 
+  // Errors in the logic itself are checked by formsDb on every publish
+  const ensureLogicTestsPass = () => {
+    const failingTests = runLogicTests(
+      state.formSchema.logic || [],
+      getAllFields(state.formSchema),
+      state.formSchema.settings.multiStep ? state.formSchema.blocks : undefined,
+      logicTests
+    ).filter(({ changes }) => changes.length > 0);
+    if (failingTests.length > 0) {
+      toast.error(
+        `${failingTests.length} logic test case${failingTests.length === 1 ? '' : 's'} failed. Review them in the logic panel before publishing.`
+      );
+      return false;
+    }
+    return true;
+  };
+
   const handlePublishForm = async () => {
-    if (!formId) return;
+    if (!(formId && ensureLogicTestsPass())) return;
 
     try {
-      await formsDb.togglePublishForm(formId, true);
+      await formsDb.publishFormChanges(formId, state.formSchema);
       actions.setIsPublished(true);
+      actions.setPublishedSchema(state.formSchema);
       toast.success('Form published successfully!');
     } catch (error) {
       console.error('Error publishing form:', error);
-      toast.error('Failed to publish form. Please try again.');
+      toast.error(
+        error instanceof LogicPublishError
+          ? error.message
+          : 'Failed to publish form. Please try again.'
+      );
       throw error;
     }
   };
@@ -294,10 +382,17 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
       return;
     }
 
+    const newPublishState = !state.isPublished;
+    if (newPublishState && !ensureLogicTestsPass()) return;
+
     actions.setPublishing(true);
     try {
-      const newPublishState = !state.isPublished;
-      await formsDb.togglePublishForm(formId, newPublishState);
+      if (newPublishState) {
+        await formsDb.publishFormChanges(formId, state.formSchema);
+        actions.setPublishedSchema(state.formSchema);
+      } else {
+        await formsDb.togglePublishForm(formId, false);
+      }
       actions.setIsPublished(newPublishState);
 
       if (newPublishState) {
@@ -307,12 +402,50 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
       }
     } catch (error) {
       console.error('Error toggling publish state:', error);
-      toast.error('Failed to update form status. Please try again.');
+      toast.error(
+        error instanceof LogicPublishError
+          ? error.message
+          : 'Failed to update form status. Please try again.'
+      );
     } finally {
       actions.setPublishing(false);
     }
   };
 
+  const publishChanges = async () => {
+    if (!(formId && ensureLogicTestsPass())) return;
+
+    actions.setPublishing(true);
+    try {
+      await formsDb.publishFormChanges(formId, state.formSchema);
+      actions.setPublishedSchema(state.formSchema);
+      removeDraftFromStorage(DRAFT_KEYS.getDraftKey(formId));
+      toast.success('Changes published successfully!');
+    } catch (error) {
+      toast.error(
+        error instanceof LogicPublishError
+          ? error.message
+          : 'Failed to publish changes. Please try again.'
+      );
+    } finally {
+      actions.setPublishing(false);
+    }
+  };
+
+  const restoreVersion = async (version: FormVersion) => {
+    if (!formId) return;
+
+    try {
+      const restored = await formsDb.restoreFormVersion(formId, version.id);
+      actions.setFormSchema(restored.schema);
+      actions.setSelectedFieldId(null);
+      removeDraftFromStorage(DRAFT_KEYS.getDraftKey(formId));
+      toast.success(`Restored version ${version.version_number}.`);
+    } catch {
+      toast.error('Failed to restore version. Please try again.');
+    }
+  };
+
   const handleStepSelection = (stepIndex: number) => {
     if (state.formSchema.blocks && state.formSchema.blocks[stepIndex]) {
       actions.setSelectedBlockId(state.formSchema.blocks[stepIndex].id);
@@ -393,6 +526,15 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
     }));
   };
 
+  const handleLogicTestsChange = (testCases: LogicTestCase[]) => {
+    setLogicTests(testCases);
+    if (!formId) return;
+    formsDb.saveLogicTests(formId, testCases).catch((error) => {
+      console.error('Error saving logic test cases:', error);
+      toast.error('Failed to save logic test cases.');
+    });
+  };
+
   const handleImportFromJson = () => {
     actions.setShowImportModal(true);
   };
@@ -435,14 +577,19 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
             formId={formId}
             formSchema={state.formSchema}
             isPublished={state.isPublished}
+            canRedo={history.canRedo}
+            canUndo={history.canUndo}
             onAnalytics={viewAnalytics}
             onImportFromJson={handleImportFromJson}
             onJsonView={() => actions.setShowJsonView(true)}
             onModeToggle={handleModeToggle}
             onPublish={togglePublish}
+            onRedo={redo}
             onSave={saveForm}
             onSettings={() => actions.setShowFormSettings(true)}
             onShare={shareForm}
+            onUndo={undo}
+            onVersionHistory={() => actions.setShowVersionHistory(true)}
             publishing={state.publishing}
             saving={state.saving}
           />
@@ -479,6 +626,7 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
             <DrawerContent className="mx-auto w-full rounded-t-2xl p-0">
               <div className="max-h-[80vh]">
                 <FieldSettingsPanel
+                  availableFields={getAllFields(state.formSchema)}
                   field={selectedField}
                   onClose={() => {
                     setShowFieldSettings(false);
@@ -492,7 +640,10 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
         </div>
         <UnsavedChangesIndicator
           autoSaving={state.autoSaving}
+          hasUnpublishedChanges={state.hasUnpublishedChanges}
           hasUnsavedChanges={state.hasUnsavedChanges}
+          onPublishChanges={publishChanges}
+          publishing={state.publishing}
         />
         <FormBuilderModals
           formId={formId}
@@ -505,9 +656,11 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
           onCloseJsonView={() => actions.setShowJsonView(false)}
           onCloseSettings={() => actions.setShowSettings(false)}
           onCloseShareModal={() => actions.setShowShareModal(false)}
+          onCloseVersionHistory={() => actions.setShowVersionHistory(false)}
           onFormSettingsUpdate={updateFormSettings}
           onFormTypeSelect={handleFormTypeSelect}
           onImportSuccess={handleImportSuccess}
+          onRestoreVersion={restoreVersion}
           onPublish={handlePublishForm}
           onSchemaUpdate={(updates) => {
             actions.setFormSchema((prev) => ({
@@ -522,6 +675,7 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
           showJsonView={state.showJsonView}
           showSettings={state.showSettings}
           showShareModal={state.showShareModal}
+          showVersionHistory={state.showVersionHistory}
           userEmail={user?.email}
         />
       </div>
@@ -535,20 +689,26 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
         formId={formId}
         formSchema={state.formSchema}
         isPublished={state.isPublished}
+        canRedo={history.canRedo}
+        canUndo={history.canUndo}
         onAnalytics={viewAnalytics}
         onImportFromJson={handleImportFromJson}
         onJsonView={() => actions.setShowJsonView(true)}
         onModeToggle={handleModeToggle}
         onPublish={togglePublish}
+        onRedo={redo}
         onSave={saveForm}
         onSettings={() => actions.setShowFormSettings(true)}
         onShare={shareForm}
+        onUndo={undo}
+        onVersionHistory={() => actions.setShowVersionHistory(true)}
         publishing={state.publishing}
         saving={state.saving}
       />
 
       <div className="overflow-hidden">
         <FormBuilderPanels
+          formId={formId}
           formSchema={state.formSchema}
           onBlockAdd={addBlock}
           onBlockDelete={deleteBlock}
@@ -562,6 +722,8 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
           onFieldUpdate={updateField}
           onFormSettingsUpdate={updateFormSettings}
           onLogicChange={handleLogicChange}
+          logicTests={logicTests}
+          onLogicTestsChange={handleLogicTestsChange}
           onStepSelect={handleStepSelection}
           selectedBlockId={state.selectedBlockId}
           selectedField={selectedField}
@@ -571,7 +733,10 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
 
       <UnsavedChangesIndicator
         autoSaving={state.autoSaving}
+        hasUnpublishedChanges={state.hasUnpublishedChanges}
         hasUnsavedChanges={state.hasUnsavedChanges}
+        onPublishChanges={publishChanges}
+        publishing={state.publishing}
       />
 
       <FormBuilderModals
@@ -585,9 +750,11 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
         onCloseJsonView={() => actions.setShowJsonView(false)}
         onCloseSettings={() => actions.setShowSettings(false)}
         onCloseShareModal={() => actions.setShowShareModal(false)}
+        onCloseVersionHistory={() => actions.setShowVersionHistory(false)}
         onFormSettingsUpdate={updateFormSettings}
         onFormTypeSelect={handleFormTypeSelect}
         onImportSuccess={handleImportSuccess}
+        onRestoreVersion={restoreVersion}
         onPublish={handlePublishForm}
         onSchemaUpdate={(updates) => {
           actions.setFormSchema((prev) => ({
@@ -602,6 +769,7 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({ formId }) => {
         showJsonView={state.showJsonView}
         showSettings={state.showSettings}
         showShareModal={state.showShareModal}
+        showVersionHistory={state.showVersionHistory}
         userEmail={user?.email}
       />
     </div>
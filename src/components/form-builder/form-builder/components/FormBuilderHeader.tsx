@@ -6,11 +6,14 @@ import {
   EyeOff,
   FileText,
   Globe,
+  History,
   Layers,
+  Redo2,
   Save,
   Settings as SettingsIcon,
   Share,
   Sparkles,
+  Undo2,
   Upload,
 } from 'lucide-react';
 import Link from 'next/link';
@@ -44,6 +47,11 @@ export const FormBuilderHeader: React.FC<FormBuilderHeaderProps> = ({
   onPublish,
   onSave,
   onImportFromJson,
+  onVersionHistory,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
 }) => {
   const fieldCount = formSchema.fields.length;
 
@@ -84,6 +92,28 @@ export const FormBuilderHeader: React.FC<FormBuilderHeaderProps> = ({
 
         <ScrollArea className="w-full md:hidden" orientation="horizontal">
           <div className="flex gap-2 pb-4">
+            {onUndo && onRedo && (
+              <>
+                <Button
+                  className="h-8 w-8"
+                  disabled={!canUndo}
+                  onClick={onUndo}
+                  size="icon"
+                  variant="secondary"
+                >
+                  <Undo2 className="h-3 w-3 shrink-0" />
+                </Button>
+                <Button
+                  className="h-8 w-8"
+                  disabled={!canRedo}
+                  onClick={onRedo}
+                  size="icon"
+                  variant="secondary"
+                >
+                  <Redo2 className="h-3 w-3 shrink-0" />
+                </Button>
+              </>
+            )}
             <Button
               className="gap-1 text-xs"
               onClick={onModeToggle}
@@ -123,6 +153,17 @@ export const FormBuilderHeader: React.FC<FormBuilderHeaderProps> = ({
             >
               <Share className="h-3 w-3 shrink-0" />
             </Button>
+            {onVersionHistory && (
+              <Button
+                className="h-8 w-8"
+                disabled={!formId}
+                onClick={onVersionHistory}
+                size="icon"
+                variant="secondary"
+              >
+                <History className="h-3 w-3 shrink-0" />
+              </Button>
+            )}
             <Button
               className="h-8 w-8"
               onClick={onSettings}
@@ -198,6 +239,36 @@ export const FormBuilderHeader: React.FC<FormBuilderHeaderProps> = ({
             {formSchema.settings.multiStep ? 'Multi-Step' : 'Single Page'}
           </Button>
           <TooltipProvider>
+            {onUndo && onRedo && (
+              <>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      disabled={!canUndo}
+                      onClick={onUndo}
+                      size="icon"
+                      variant="secondary"
+                    >
+                      <Undo2 className="h-4 w-4 shrink-0" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent size="sm">Undo (Ctrl+Z)</TooltipContent>
+                </Tooltip>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      disabled={!canRedo}
+                      onClick={onRedo}
+                      size="icon"
+                      variant="secondary"
+                    >
+                      <Redo2 className="h-4 w-4 shrink-0" />
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent size="sm">Redo (Ctrl+Shift+Z)</TooltipContent>
+                </Tooltip>
+              </>
+            )}
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button onClick={onJsonView} size="icon" variant="secondary">
@@ -232,6 +303,21 @@ export const FormBuilderHeader: React.FC<FormBuilderHeaderProps> = ({
               </TooltipTrigger>
               <TooltipContent size="sm">Share</TooltipContent>
             </Tooltip>
+            {onVersionHistory && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    disabled={!formId}
+                    onClick={onVersionHistory}
+                    size="icon"
+                    variant="secondary"
+                  >
+                    <History className="h-4 w-4 shrink-0" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent size="sm">Version history</TooltipContent>
+              </Tooltip>
+            )}
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button onClick={onSettings} size="icon" variant="secondary">
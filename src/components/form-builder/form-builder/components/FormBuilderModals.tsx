@@ -16,6 +16,7 @@ import { FormSettingsModal } from '../../form-settings-modal';
 import { JsonImportModal } from '../../json-import-modal';
 import { JsonViewModal } from '../../json-view-modal';
 import { ShareFormModal } from '../../share-form-modal';
+import { VersionHistoryModal } from '../../version-history-modal';
 
 import type { FormBuilderModalsProps } from '../types';
 
@@ -26,6 +27,7 @@ export const FormBuilderModals: React.FC<FormBuilderModalsProps> = ({
   showCreationWizard,
   showShareModal,
   showImportModal,
+  showVersionHistory = false,
   formSchema,
   formId,
   formSlug,
@@ -36,11 +38,13 @@ export const FormBuilderModals: React.FC<FormBuilderModalsProps> = ({
   onCloseCreationWizard,
   onCloseShareModal,
   onCloseImportModal,
+  onCloseVersionHistory,
   onFormTypeSelect,
   onFormSettingsUpdate,
   onSchemaUpdate,
   onPublish,
   onImportSuccess,
+  onRestoreVersion,
   userEmail,
 }) => {
   const handleImportSuccess = (result: ImportTransformResult) => {
@@ -171,6 +175,16 @@ export const FormBuilderModals: React.FC<FormBuilderModalsProps> = ({
         onOpenChange={onCloseImportModal}
         open={showImportModal}
       />
+
+      {onRestoreVersion && onCloseVersionHistory && (
+        <VersionHistoryModal
+          currentSchema={formSchema}
+          formId={formId}
+          isOpen={showVersionHistory}
+          onClose={onCloseVersionHistory}
+          onRestore={onRestoreVersion}
+        />
+      )}
     </>
   );
 };
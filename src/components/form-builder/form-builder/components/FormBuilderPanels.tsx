@@ -9,6 +9,7 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent } from '@/components/ui/tabs';
 import type { FormSchema } from '@/lib/database';
+import type { LogicTestCase } from '@/lib/forms/logic-simulator';
 import { BlockManager } from '../../block-manager';
 import { FieldPalette } from '../../field-palette';
 import { FieldSettingsPanel } from '../../field-settings-panel';
@@ -38,6 +39,9 @@ export const FormBuilderPanels: React.FC<FormBuilderPanelsProps> = ({
   onFormSettingsUpdate,
   onStepSelect,
   onLogicChange,
+  logicTests = [],
+  onLogicTestsChange,
+  formId,
 }) => {
   const [activeTab, setActiveTab] = React.useState('field-settings');
   const tabItems = [
@@ -47,6 +51,9 @@ export const FormBuilderPanels: React.FC<FormBuilderPanelsProps> = ({
   const handleLogicChange = (logic: FormLogic) => {
     if (onLogicChange) onLogicChange(logic);
   };
+  const handleLogicTestsChange = (logicTests: LogicTestCase[]) => {
+    if (onLogicTestsChange) onLogicTestsChange(logicTests);
+  };
   const allFields = getAllFields(formSchema);
 
   const handleSchemaUpdate = (updatedSchema: FormSchema) => {
@@ -129,21 +136,29 @@ export const FormBuilderPanels: React.FC<FormBuilderPanelsProps> = ({
         <div className="flex h-full flex-col">
           {formSchema.settings.multiStep ? (
             <FieldSettingsPanel
+              availableFields={allFields}
               field={selectedField}
               onClose={() => onFieldSelect(null)}
               onFieldUpdate={onFieldUpdate}
             />
           ) : (
             <FieldSettingsPanel
+              availableFields={allFields}
               field={selectedField}
               onClose={() => onFieldSelect(null)}
               onFieldUpdate={onFieldUpdate}
             />
           )}
           <LogicBuilderPanel
+            blocks={
+              formSchema.settings.multiStep ? formSchema.blocks : undefined
+            }
             fields={allFields}
+            formId={formId}
             logic={formSchema.logic || []}
+            logicTests={logicTests}
             onLogicChange={handleLogicChange}
+            onLogicTestsChange={handleLogicTestsChange}
           />
         </div>
       </ResizablePanel>
@@ -1,15 +1,23 @@
-import { AlertTriangle } from 'lucide-react';
+import { AlertTriangle, Globe } from 'lucide-react';
 import { AnimatePresence, motion } from 'motion/react';
 import type React from 'react';
 
+import { Button } from '@/components/ui/button';
+
 import type { UnsavedChangesIndicatorProps } from '../types';
 
 export const UnsavedChangesIndicator: React.FC<
   UnsavedChangesIndicatorProps
-> = ({ hasUnsavedChanges, autoSaving }) => {
+> = ({
+  hasUnsavedChanges,
+  autoSaving,
+  hasUnpublishedChanges,
+  publishing,
+  onPublishChanges,
+}) => {
   return (
     <AnimatePresence>
-      {hasUnsavedChanges && !autoSaving && (
+      {(hasUnsavedChanges || hasUnpublishedChanges) && !autoSaving && (
         <motion.div
           animate={{ opacity: 1, y: 0, scale: 1 }}
           className="-translate-x-1/2 fixed bottom-4 left-1/2 z-50 flex transform items-center justify-center"
@@ -24,8 +32,21 @@ export const UnsavedChangesIndicator: React.FC<
           <div className="flex items-center gap-2 rounded-ele border border-border bg-accent p-2 text-accent-foreground shadow-lg">
             <AlertTriangle className="h-4 w-4 text-accent-foreground/80" />
             <span className="text-center font-medium text-sm">
-              You have unsaved changes
+              {hasUnsavedChanges
+                ? 'You have unsaved changes'
+                : 'You have unpublished changes'}
             </span>
+            {hasUnpublishedChanges && onPublishChanges && (
+              <Button
+                disabled={publishing}
+                loading={publishing}
+                onClick={onPublishChanges}
+                size="sm"
+              >
+                {!publishing && <Globe className="h-4 w-4" />}
+                Publish changes
+              </Button>
+            )}
           </div>
         </motion.div>
       )}
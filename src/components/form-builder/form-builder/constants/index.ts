@@ -1,3 +1,7 @@
+import type { FormField } from '@/lib/database';
+
+import { generateFieldId } from '../utils';
+
 export const FORM_BUILDER_CONSTANTS = {
   AUTOSAVE_DELAY: 1000,
   DEFAULT_FORM_TITLE: '',
@@ -6,6 +10,8 @@ export const FORM_BUILDER_CONSTANTS = {
   DEFAULT_SUCCESS_MESSAGE: 'Thank you for your submission!',
   DEFAULT_REDIRECT_URL: '',
   HEADER_HEIGHT: '81px',
+  HISTORY_LIMIT: 50,
+  HISTORY_COALESCE_DELAY: 500,
 } as const;
 
 export const DRAFT_KEYS = {
@@ -31,3 +37,55 @@ export const PANEL_SIZES = {
     max: 45,
   },
 } as const;
+
+type FieldSettings = NonNullable<FormField['settings']>;
+
+// Settings a new field starts with, built per field so nested ids are unique.
+// Types without an entry start with empty settings.
+export const DEFAULT_FIELD_SETTINGS: Partial<
+  Record<FormField['type'], () => FieldSettings>
+> = {
+  slider: () => ({ min: 0, max: 100, step: 1, defaultValue: 50 }),
+  tags: () => ({ maxTags: 10, allowDuplicates: false }),
+  poll: () => ({ pollOptions: ['Option 1', 'Option 2'] }),
+  matrix: () => ({
+    matrixRows: [
+      { id: 'row_1', label: 'Statement 1' },
+      { id: 'row_2', label: 'Statement 2' },
+    ],
+    matrixColumns: [
+      'Strongly disagree',
+      'Disagree',
+      'Neutral',
+      'Agree',
+      'Strongly agree',
+    ],
+  }),
+  nps: () => ({
+    npsLowLabel: 'Not at all likely',
+    npsHighLabel: 'Extremely likely',
+  }),
+  group: () => ({
+    groupFields: [
+      { id: generateFieldId(), type: 'text', label: 'Name', required: true },
+      {
+        id: generateFieldId(),
+        type: 'date',
+        label: 'Date of birth',
+        required: false,
+      },
+    ],
+  }),
+  image_choice: () => ({
+    imageColumns: 3,
+    imageOptions: [
+      { id: generateFieldId(), value: 'Option 1' },
+      { id: generateFieldId(), value: 'Option 2' },
+      { id: generateFieldId(), value: 'Option 3' },
+    ],
+  }),
+  consent: () => ({
+    consentLabel: 'I agree to the processing of my personal data',
+    consentVersion: '1.0',
+  }),
+};
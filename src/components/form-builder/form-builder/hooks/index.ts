@@ -1 +1,2 @@
 export { useFormBuilder } from './useFormBuilder';
+export { useFormHistory } from './useFormHistory';
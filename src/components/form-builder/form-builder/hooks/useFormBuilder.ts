@@ -26,6 +26,7 @@ import {
   saveDraftToStorage,
   updateFieldInSchema,
 } from '../utils';
+import { useFormHistory } from './useFormHistory';
 
 export const useFormBuilder = (formId?: string) => {
   const router = useRouter();
@@ -38,6 +39,7 @@ export const useFormBuilder = (formId?: string) => {
     publishing: false,
     isPublished: false,
     hasUnsavedChanges: false,
+    hasUnpublishedChanges: false,
     selectedFieldId: null,
     selectedBlockId: null,
     showSettings: false,
@@ -46,8 +48,10 @@ export const useFormBuilder = (formId?: string) => {
     showCreationWizard: false,
     showShareModal: false,
     showImportModal: false,
+    showVersionHistory: false,
     isNewForm: !formId,
     formSlug: null,
+    publishedSchema: null,
     formSchema: createDefaultFormSchema({
       title: FORM_BUILDER_CONSTANTS.DEFAULT_FORM_TITLE,
       description: FORM_BUILDER_CONSTANTS.DEFAULT_FORM_DESCRIPTION,
@@ -74,6 +78,8 @@ export const useFormBuilder = (formId?: string) => {
       setState((prev) => ({ ...prev, isPublished })),
     setHasUnsavedChanges: (hasUnsavedChanges) =>
       setState((prev) => ({ ...prev, hasUnsavedChanges })),
+    setHasUnpublishedChanges: (hasUnpublishedChanges) =>
+      setState((prev) => ({ ...prev, hasUnpublishedChanges })),
     setSelectedFieldId: (selectedFieldId) =>
       setState((prev) => ({ ...prev, selectedFieldId })),
     setSelectedBlockId: (selectedBlockId) =>
@@ -90,8 +96,12 @@ export const useFormBuilder = (formId?: string) => {
       setState((prev) => ({ ...prev, showShareModal })),
     setShowImportModal: (showImportModal) =>
       setState((prev) => ({ ...prev, showImportModal })),
+    setShowVersionHistory: (showVersionHistory) =>
+      setState((prev) => ({ ...prev, showVersionHistory })),
     setIsNewForm: (isNewForm) => setState((prev) => ({ ...prev, isNewForm })),
     setFormSlug: (formSlug) => setState((prev) => ({ ...prev, formSlug })),
+    setPublishedSchema: (publishedSchema) =>
+      setState((prev) => ({ ...prev, publishedSchema })),
     setFormSchema: (schema) =>
       setState((prev) => ({
         ...prev,
@@ -100,6 +110,8 @@ export const useFormBuilder = (formId?: string) => {
       })),
   };
 
+  const history = useFormHistory(state.formSchema, actions.setFormSchema);
+
   useEffect(() => {
     if (isRestored.current) return;
     isRestored.current = true;
@@ -107,6 +119,7 @@ export const useFormBuilder = (formId?: string) => {
     const draft = loadDraftFromStorage(draftKey);
     if (draft) {
       actions.setFormSchema(draft);
+      history.reset(draft);
     }
   }, [draftKey]);
 
@@ -146,6 +159,14 @@ export const useFormBuilder = (formId?: string) => {
     actions.setHasUnsavedChanges(hasChanges);
   }, [state.formSchema]);
 
+  useEffect(() => {
+    actions.setHasUnpublishedChanges(
+      state.isPublished &&
+        !!state.publishedSchema &&
+        hasFormChanges(state.formSchema, state.publishedSchema)
+    );
+  }, [state.formSchema, state.publishedSchema, state.isPublished]);
+
   useEffect(() => {
     const imported = localStorage.getItem(DRAFT_KEYS.IMPORTED_FORM_SCHEMA);
     if (imported) {
@@ -191,7 +212,9 @@ export const useFormBuilder = (formId?: string) => {
                 },
         };
 
-        actions.setFormSchema(ensureDefaultRateLimitSettings(normalizedSchema));
+        const importedSchema = ensureDefaultRateLimitSettings(normalizedSchema);
+        actions.setFormSchema(importedSchema);
+        history.reset(importedSchema);
         actions.setHasUnsavedChanges(true);
         importedFromAI.current = true;
       } catch {}
@@ -212,7 +235,11 @@ export const useFormBuilder = (formId?: string) => {
       }
 
       actions.setFormSchema(form.schema);
+      history.reset(form.schema);
       actions.setIsPublished(form.is_published);
+      actions.setPublishedSchema(
+        form.published_schema ?? (form.is_published ? form.schema : null)
+      );
       actions.setFormSlug(form.slug || null);
       lastSavedSchemaRef.current = {
         ...form.schema,
@@ -266,5 +293,6 @@ export const useFormBuilder = (formId?: string) => {
     authLoading,
     debouncedAutoSave,
     loadForm,
+    history,
   };
 };
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { FormSchema } from "@/lib/database";
+
+import { FORM_BUILDER_CONSTANTS } from "../constants";
+
+/**
+ * Keeps a bounded undo/redo stack of form schema snapshots.
+ * Changes that land within `HISTORY_COALESCE_DELAY` of each other (e.g. typing
+ * in a label) are merged into a single history entry.
+ */
+export const useFormHistory = (
+  formSchema: FormSchema,
+  setFormSchema: (schema: FormSchema) => void,
+) => {
+  const pastRef = useRef<FormSchema[]>([]);
+  const futureRef = useRef<FormSchema[]>([]);
+  const currentRef = useRef<FormSchema>(formSchema);
+  const lastRecordedAtRef = useRef(0);
+  const [counts, setCounts] = useState({ past: 0, future: 0 });
+
+  const syncCounts = () =>
+    setCounts({
+      past: pastRef.current.length,
+      future: futureRef.current.length,
+    });
+
+  useEffect(() => {
+    if (formSchema === currentRef.current) return;
+
+    const now = Date.now();
+    if (
+      now - lastRecordedAtRef.current >
+      FORM_BUILDER_CONSTANTS.HISTORY_COALESCE_DELAY
+    ) {
+      pastRef.current = [...pastRef.current, currentRef.current].slice(
+        -FORM_BUILDER_CONSTANTS.HISTORY_LIMIT,
+      );
+    }
+    lastRecordedAtRef.current = now;
+    futureRef.current = [];
+    currentRef.current = formSchema;
+    syncCounts();
+  }, [formSchema]);
+
+  const undo = useCallback((): FormSchema | null => {
+    const previous = pastRef.current.at(-1);
+    if (!previous) return null;
+
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [currentRef.current, ...futureRef.current];
+    currentRef.current = previous;
+    lastRecordedAtRef.current = 0;
+    setFormSchema(previous);
+    syncCounts();
+    return previous;
+  }, [setFormSchema]);
+
+  const redo = useCallback((): FormSchema | null => {
+    const next = futureRef.current[0];
+    if (!next) return null;
+
+    futureRef.current = futureRef.current.slice(1);
+    pastRef.current = [...pastRef.current, currentRef.current];
+    currentRef.current = next;
+    lastRecordedAtRef.current = 0;
+    setFormSchema(next);
+    syncCounts();
+    return next;
+  }, [setFormSchema]);
+
+  const reset = useCallback((schema: FormSchema) => {
+    pastRef.current = [];
+    futureRef.current = [];
+    currentRef.current = schema;
+    lastRecordedAtRef.current = 0;
+    syncCounts();
+  }, []);
+
+  return {
+    canUndo: counts.past > 0,
+    canRedo: counts.future > 0,
+    undo,
+    redo,
+    reset,
+  };
+};
@@ -1,5 +1,11 @@
 import type { FormLogic } from '@/components/form-builder/logic-builder/types';
-import type { FormBlock, FormField, FormSchema } from '@/lib/database';
+import type {
+  FormBlock,
+  FormField,
+  FormSchema,
+  FormVersion,
+} from '@/lib/database';
+import type { LogicTestCase } from '@/lib/forms/logic-simulator';
 
 export interface FormBuilderProps {
   formId?: string;
@@ -12,6 +18,7 @@ export interface FormBuilderState {
   publishing: boolean;
   isPublished: boolean;
   hasUnsavedChanges: boolean;
+  hasUnpublishedChanges: boolean;
   selectedFieldId: string | null;
   selectedBlockId: string | null;
   showSettings: boolean;
@@ -20,8 +27,10 @@ export interface FormBuilderState {
   showCreationWizard: boolean;
   showShareModal: boolean;
   showImportModal: boolean;
+  showVersionHistory: boolean;
   isNewForm: boolean;
   formSchema: FormSchema;
+  publishedSchema: FormSchema | null;
   formSlug: string | null;
 }
 
@@ -32,6 +41,7 @@ export interface FormBuilderActions {
   setPublishing: (publishing: boolean) => void;
   setIsPublished: (isPublished: boolean) => void;
   setHasUnsavedChanges: (hasUnsavedChanges: boolean) => void;
+  setHasUnpublishedChanges: (hasUnpublishedChanges: boolean) => void;
   setSelectedFieldId: (fieldId: string | null) => void;
   setSelectedBlockId: (blockId: string | null) => void;
   setShowSettings: (show: boolean) => void;
@@ -40,8 +50,10 @@ export interface FormBuilderActions {
   setShowCreationWizard: (show: boolean) => void;
   setShowShareModal: (show: boolean) => void;
   setShowImportModal: (show: boolean) => void;
+  setShowVersionHistory: (show: boolean) => void;
   setIsNewForm: (isNew: boolean) => void;
   setFormSlug: (slug: string | null) => void;
+  setPublishedSchema: (schema: FormSchema | null) => void;
   setFormSchema: (
     schema: FormSchema | ((prev: FormSchema) => FormSchema)
   ) => void;
@@ -62,11 +74,19 @@ export interface FormBuilderHeaderProps {
   onPublish: () => void;
   onSave: () => void;
   onImportFromJson?: () => void;
+  onVersionHistory?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
 export interface UnsavedChangesIndicatorProps {
   hasUnsavedChanges: boolean;
   autoSaving: boolean;
+  hasUnpublishedChanges?: boolean;
+  publishing?: boolean;
+  onPublishChanges?: () => void;
 }
 
 export interface FormBuilderPanelsProps {
@@ -87,6 +107,9 @@ export interface FormBuilderPanelsProps {
   onFormSettingsUpdate: (settings: Partial<FormSchema['settings']>) => void;
   onStepSelect: (stepIndex: number) => void;
   onLogicChange?: (logic: FormLogic) => void;
+  logicTests?: LogicTestCase[];
+  onLogicTestsChange?: (logicTests: LogicTestCase[]) => void;
+  formId?: string;
 }
 
 export interface FormBuilderModalsProps {
@@ -96,6 +119,7 @@ export interface FormBuilderModalsProps {
   showCreationWizard: boolean;
   showShareModal: boolean;
   showImportModal: boolean;
+  showVersionHistory?: boolean;
   formSchema: FormSchema;
   formId?: string;
   formSlug?: string | null;
@@ -106,10 +130,12 @@ export interface FormBuilderModalsProps {
   onCloseCreationWizard: () => void;
   onCloseShareModal: () => void;
   onCloseImportModal: () => void;
+  onCloseVersionHistory?: () => void;
   onFormTypeSelect: (schema: FormSchema) => void;
   onFormSettingsUpdate: (settings: Partial<FormSchema['settings']>) => void;
   onSchemaUpdate: (updates: Partial<FormSchema>) => void;
   onPublish: () => Promise<void>;
   onImportSuccess: (schema: FormSchema) => void;
+  onRestoreVersion?: (version: FormVersion) => Promise<void>;
   userEmail?: string;
 }
@@ -0,0 +1,21 @@
+import { Input } from "@/components/ui/input";
+import { formatCalculatedValue } from "@/lib/forms/formula";
+
+import type { BaseFieldProps } from "../types";
+
+import { getBaseClasses } from "../utils";
+
+export function CalculatedField({ field, value, error }: BaseFieldProps) {
+  const baseClasses = getBaseClasses(field, error);
+
+  return (
+    <Input
+      aria-live="polite"
+      className={`flex gap-2 bg-muted/40 font-medium ${baseClasses}`}
+      id={field.id}
+      readOnly
+      tabIndex={-1}
+      value={formatCalculatedValue(field, value)}
+    />
+  );
+}
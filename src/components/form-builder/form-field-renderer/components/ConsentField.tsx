@@ -0,0 +1,62 @@
+import ReactMarkdown from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { isConsentAccepted } from "@/lib/forms/consent";
+
+import type { BaseFieldProps } from "../types";
+
+import { getErrorRingClasses } from "../utils";
+
+export function ConsentField({
+  field,
+  value,
+  onChange,
+  error,
+  disabled,
+}: BaseFieldProps) {
+  const errorRingClasses = getErrorRingClasses(error);
+  const { consentLabel, consentText, consentUrl, consentVersion } =
+    field.settings || {};
+
+  return (
+    <div className="flex flex-col gap-3">
+      {consentText && (
+        <div className="prose prose-sm max-h-48 max-w-none overflow-y-auto rounded-ele border border-border bg-muted/30 p-3 text-muted-foreground text-sm">
+          <ReactMarkdown
+            rehypePlugins={[rehypeSanitize]}
+            remarkPlugins={[remarkGfm]}
+          >
+            {consentText}
+          </ReactMarkdown>
+        </div>
+      )}
+      <div className={`rounded-ele ${errorRingClasses}`}>
+        <Checkbox
+          checked={isConsentAccepted(value)}
+          disabled={disabled}
+          id={field.id}
+          label={consentLabel || "I agree"}
+          onCheckedChange={(checked) => onChange(checked === true)}
+        />
+      </div>
+      {(consentUrl || consentVersion) && (
+        <p className="text-muted-foreground text-xs">
+          {consentUrl && (
+            <a
+              className="text-primary underline"
+              href={consentUrl}
+              rel="noopener noreferrer"
+              target="_blank"
+            >
+              Read the full policy
+            </a>
+          )}
+          {consentUrl && consentVersion && " · "}
+          {consentVersion && `Version ${consentVersion}`}
+        </p>
+      )}
+    </div>
+  );
+}
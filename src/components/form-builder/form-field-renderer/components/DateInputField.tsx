@@ -1,13 +1,31 @@
-import React, { useEffect, useState } from "react";
-import { parseDate } from "yeezy-dates";
-import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { DatePicker } from "@/components/ui/date-picker";
-import { Input } from "@/components/ui/input";
+import React, { useState } from "react";
+import { DatePicker, DateRangePicker } from "@/components/ui/date-picker";
+import { TimePicker } from "@/components/ui/time-picker";
+import {
+  formatDateKey,
+  formatDateTimeValue,
+  isDateDisabled,
+  isDateRangeValue,
+  parseDateKey,
+  parseDateTimeValue,
+} from "@/lib/forms/dates";
 import type { BaseFieldProps } from "../types";
 import { getBaseClasses } from "../utils";
 
-export function DateInputField({
+// TimePicker works with "hh:mm AM", answers store 24-hour "HH:mm"
+const to24Hour = (time: string) => {
+  const match = time.match(/^(\d{1,2}):(\d{2}) (AM|PM)$/);
+  if (!match) return "";
+  const hour = (Number(match[1]) % 12) + (match[3] === "PM" ? 12 : 0);
+  return `${String(hour).padStart(2, "0")}:${match[2]}`;
+};
+
+const to12Hour = (time: string) => {
+  const [hour, minute] = time.split(":").map(Number);
+  return `${String(hour % 12 || 12).padStart(2, "0")}:${String(minute).padStart(2, "0")} ${hour >= 12 ? "PM" : "AM"}`;
+};
+
+function DateTimeInput({
   field,
   value,
   onChange,
@@ -15,17 +33,93 @@ export function DateInputField({
   disabled,
 }: BaseFieldProps) {
   const baseClasses = getBaseClasses(field, error);
+  const parts = parseDateTimeValue(value);
+  const [time, setTime] = useState(parts?.time || "");
+  const captureTimezone = !!field.settings?.captureTimezone;
+
+  const update = (date: string | undefined, nextTime: string) => {
+    setTime(nextTime);
+    if (date && nextTime) {
+      onChange(formatDateTimeValue(date, nextTime, captureTimezone));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <DatePicker
+        className={baseClasses}
+        disabled={disabled}
+        disabledDates={(date) => isDateDisabled(field, date)}
+        onChange={(date) =>
+          date ? update(formatDateKey(date), time) : onChange("")
+        }
+        placeholder={field.placeholder || "Pick a date"}
+        value={parts ? parseDateKey(parts.date) : undefined}
+      />
+      <TimePicker
+        disabled={disabled}
+        error={!!error}
+        onChange={(next) => update(parts?.date, to24Hour(next))}
+        showCurrentTimeButton={false}
+        value={time ? to12Hour(time) : undefined}
+      />
+      {captureTimezone && (
+        <p className="text-muted-foreground text-xs">
+          Times are in{" "}
+          {parts?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function DateInputField(props: BaseFieldProps) {
+  const { field, value, onChange, error, disabled } = props;
+  const baseClasses = getBaseClasses(field, error);
+  const mode = field.settings?.dateMode || "single";
+
+  if (mode === "datetime") {
+    return <DateTimeInput {...props} />;
+  }
+
+  if (mode === "range") {
+    const range = isDateRangeValue(value) ? value : undefined;
+    const from = range && parseDateKey(range.from);
+    return (
+      <DateRangePicker
+        className={baseClasses}
+        disabled={disabled}
+        disabledDates={(date) => isDateDisabled(field, date)}
+        onChange={(next) =>
+          onChange(
+            next
+              ? {
+                  from: formatDateKey(next.from),
+                  to: next.to ? formatDateKey(next.to) : "",
+                }
+              : "",
+          )
+        }
+        placeholder={field.placeholder || "Pick a date range"}
+        value={
+          from
+            ? { from, to: range.to ? parseDateKey(range.to) : undefined }
+            : undefined
+        }
+      />
+    );
+  }
 
-  const dateValue = value ? new Date(value) : undefined;
   return (
     <DatePicker
       className={baseClasses}
       disabled={disabled}
+      disabledDates={(date) => isDateDisabled(field, date)}
       onChange={(date) => {
-        onChange(date ? date.toISOString().slice(0, 10) : "");
+        onChange(date ? formatDateKey(date) : "");
       }}
       placeholder={field.placeholder || "Pick a date"}
-      value={dateValue}
+      value={parseDateKey(value)}
     />
   );
 }
@@ -0,0 +1,112 @@
+import { Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { getGroupEntryErrors } from "@/lib/validation";
+
+import type { BaseFieldProps } from "../types";
+
+import { createFieldComponent } from "../utils";
+import { FieldWrapper } from "./FieldWrapper";
+
+export function GroupField({
+  field,
+  value,
+  onChange,
+  error,
+  disabled,
+  formId,
+}: BaseFieldProps) {
+  const childFields = field.settings?.groupFields || [];
+  const maxInstances = field.settings?.maxInstances;
+  const stored: Record<string, unknown>[] = Array.isArray(value) ? value : [];
+  // Always show one entry to fill in, without storing it until it is used
+  const entries = stored.length > 0 ? stored : [{}];
+  const canAdd = !maxInstances || entries.length < maxInstances;
+  const entryErrors = error ? getGroupEntryErrors(field, entries) : {};
+
+  const updateEntry = (index: number, childId: string, childValue: unknown) => {
+    const next = entries.map((entry, i) =>
+      i === index ? { ...entry, [childId]: childValue } : entry,
+    );
+    onChange(next);
+  };
+
+  const removeEntry = (index: number) => {
+    onChange(entries.filter((_, i) => i !== index));
+  };
+
+  if (childFields.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        Add fields to this group in the field settings.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {entries.map((entry, index) => (
+        <div
+          className="flex flex-col gap-4 rounded-card border border-border p-4"
+          key={index}
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-muted-foreground text-sm">
+              {field.label || "Entry"} #{index + 1}
+            </span>
+            {entries.length > 1 && (
+              <Button
+                aria-label={`Remove entry ${index + 1}`}
+                disabled={disabled}
+                onClick={() => removeEntry(index)}
+                size="icon"
+                type="button"
+                variant="ghost"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          {childFields.map((child) => {
+            // Ids must stay unique in the DOM across repeated entries
+            const instanceField = {
+              ...child,
+              id: `${field.id}_${index}_${child.id}`,
+            };
+            const childError = entryErrors[index]?.[child.id];
+            return (
+              <FieldWrapper
+                error={childError}
+                field={instanceField}
+                key={child.id}
+              >
+                {createFieldComponent(
+                  instanceField,
+                  entry[child.id] ?? "",
+                  (childValue) => updateEntry(index, child.id, childValue),
+                  childError,
+                  undefined,
+                  disabled,
+                  formId,
+                )}
+              </FieldWrapper>
+            );
+          })}
+        </div>
+      ))}
+      {canAdd && (
+        <Button
+          className="self-start"
+          disabled={disabled}
+          onClick={() => onChange([...entries, {}])}
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          <Plus className="h-4 w-4" />
+          Add another
+        </Button>
+      )}
+    </div>
+  );
+}
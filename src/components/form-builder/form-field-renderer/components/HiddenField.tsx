@@ -0,0 +1,37 @@
+import { EyeOff } from "lucide-react";
+
+import type { BaseFieldProps } from "../types";
+
+const CONTEXT_LABELS: Record<string, string> = {
+  referrer: "referrer",
+  landing_time: "landing time",
+  user_agent: "user agent",
+  page_url: "page URL",
+};
+
+/**
+ * Public forms never render hidden fields; this placeholder only shows up in
+ * the builder and previews so the field can still be selected and configured.
+ */
+export function HiddenField({ field, value }: BaseFieldProps) {
+  const prepopulation = field.prepopulation;
+  const source = !prepopulation?.enabled
+    ? "Not filled automatically"
+    : prepopulation.source === "url"
+      ? `From URL parameter ?${prepopulation.config.urlParam || "…"}`
+      : prepopulation.source === "context"
+        ? `From ${CONTEXT_LABELS[prepopulation.config.contextKey || ""] || "page context"}`
+        : `From ${prepopulation.source}`;
+
+  return (
+    <div className="flex items-center gap-2 rounded-ele border border-border border-dashed px-3 py-2 text-muted-foreground text-sm">
+      <EyeOff className="h-4 w-4 shrink-0" />
+      <span className="truncate">{source}</span>
+      {value && (
+        <span className="ml-auto truncate font-mono text-xs">
+          {String(value)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { CheckCircle, ImageIcon } from "lucide-react";
+import React from "react";
+
+import type { BaseFieldProps } from "../types";
+
+import { getErrorRingClasses } from "../utils";
+
+const GRID_CLASSES: Record<number, string> = {
+  2: "grid-cols-2",
+  3: "grid-cols-2 sm:grid-cols-3",
+  4: "grid-cols-2 sm:grid-cols-4",
+};
+
+export function ImageChoiceField({
+  field,
+  value,
+  onChange,
+  error,
+  disabled,
+}: BaseFieldProps) {
+  const errorRingClasses = getErrorRingClasses(error);
+  const options = field.settings?.imageOptions || [];
+  const allowMultiple = !!field.settings?.allowMultiple;
+  const selected: string[] = Array.isArray(value)
+    ? value
+    : value
+      ? [value]
+      : [];
+  const [freshUrls, setFreshUrls] = React.useState<Record<string, string>>({});
+  const [refreshError, setRefreshError] = React.useState<string | null>(null);
+
+  const isFormBuilder =
+    typeof window !== "undefined" &&
+    (window.location.pathname.includes("/form-builder") ||
+      window.location.pathname.includes("/demo-form-builder"));
+
+  const correctAnswer = field.settings?.isQuizField
+    ? field.settings?.correctAnswer
+    : undefined;
+  const correctValues = Array.isArray(correctAnswer)
+    ? correctAnswer
+    : correctAnswer
+      ? [correctAnswer]
+      : [];
+
+  const imagePaths = options
+    .map((option) => option.imagePath)
+    .filter((path): path is string => !!path);
+  const imagePathsKey = imagePaths.join("|");
+
+  // Signed URLs saved with the form expire, so fetch fresh ones for display
+  // and keep showing the saved URLs if that fails
+  React.useEffect(() => {
+    if (imagePaths.length === 0) return;
+    setRefreshError(null);
+    fetch("/api/files/refresh-urls", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ filePaths: imagePaths }),
+    })
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error("Failed to refresh image URLs");
+        }
+        return res.json();
+      })
+      .then((data) => {
+        if (data?.signedUrls) setFreshUrls(data.signedUrls);
+      })
+      .catch(() => {
+        setRefreshError("Some images could not be loaded");
+      });
+  }, [imagePathsKey]);
+
+  const toggleOption = (optionValue: string) => {
+    if (!allowMultiple) {
+      onChange(optionValue);
+      return;
+    }
+    onChange(
+      selected.includes(optionValue)
+        ? selected.filter((v) => v !== optionValue)
+        : [...selected, optionValue],
+    );
+  };
+
+  if (options.length === 0) {
+    return (
+      <p className="text-muted-foreground text-sm">
+        Add image options in the field settings.
+      </p>
+    );
+  }
+
+  return (
+    <div
+      aria-label={field.label}
+      className={`grid gap-3 rounded-ele ${GRID_CLASSES[field.settings?.imageColumns || 3]} ${errorRingClasses}`}
+      role={allowMultiple ? "group" : "radiogroup"}
+    >
+      {refreshError && (
+        <p className="col-span-full text-red-500 text-sm">{refreshError}</p>
+      )}
+      {options.map((option) => {
+        const isSelected = selected.includes(option.value);
+        const isCorrect = isFormBuilder && correctValues.includes(option.value);
+        const imageUrl =
+          (option.imagePath && freshUrls[option.imagePath]) || option.imageUrl;
+        return (
+          <button
+            aria-checked={isSelected}
+            className={`relative flex flex-col overflow-hidden rounded-card border text-left transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+              isSelected
+                ? "border-primary ring-2 ring-primary"
+                : "border-border hover:bg-accent"
+            } ${isCorrect ? "bg-green-50 ring-1 ring-green-200" : ""}`}
+            disabled={disabled}
+            key={option.id}
+            onClick={() => toggleOption(option.value)}
+            role={allowMultiple ? "checkbox" : "radio"}
+            type="button"
+          >
+            <div className="flex aspect-square w-full items-center justify-center bg-muted">
+              {imageUrl ? (
+                <img
+                  alt={option.alt || option.value}
+                  className="h-full w-full object-cover"
+                  src={imageUrl}
+                />
+              ) : (
+                <ImageIcon className="h-8 w-8 text-muted-foreground" />
+              )}
+            </div>
+            <span className="px-3 py-2 text-sm">{option.value}</span>
+            {isCorrect && (
+              <div className="absolute top-2 right-2" title="Correct Answer">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
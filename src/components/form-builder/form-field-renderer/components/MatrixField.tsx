@@ -0,0 +1,121 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioItem } from "@/components/ui/radio";
+
+import type { BaseFieldProps } from "../types";
+
+import { getErrorRingClasses } from "../utils";
+
+export function MatrixField({
+  field,
+  value,
+  onChange,
+  error,
+  disabled,
+}: BaseFieldProps) {
+  const errorRingClasses = getErrorRingClasses(error);
+  const rows = field.settings?.matrixRows || [];
+  const columns = field.settings?.matrixColumns || [];
+  const allowMultiple = !!field.settings?.allowMultiple;
+  const answers: Record<string, string | string[]> =
+    value && typeof value === "object" && !Array.isArray(value) ? value : {};
+
+  const gridStyle = {
+    gridTemplateColumns: `repeat(${columns.length}, minmax(4rem, 1fr))`,
+  };
+
+  const setRowAnswer = (rowId: string, answer: string | string[]) => {
+    const next = { ...answers, [rowId]: answer };
+    if (Array.isArray(answer) ? answer.length === 0 : !answer) {
+      delete next[rowId];
+    }
+    onChange(next);
+  };
+
+  const toggleColumn = (rowId: string, column: string, checked: boolean) => {
+    const current = Array.isArray(answers[rowId])
+      ? (answers[rowId] as string[])
+      : [];
+    setRowAnswer(
+      rowId,
+      checked ? [...current, column] : current.filter((c) => c !== column),
+    );
+  };
+
+  return (
+    <div className={`overflow-x-auto rounded-ele ${errorRingClasses}`}>
+      <div className="flex min-w-max flex-col">
+        <div className="flex items-end gap-2 border-b pb-2">
+          <div className="w-40 shrink-0 md:w-56" />
+          <div className="grid flex-1 gap-2" style={gridStyle}>
+            {columns.map((column) => (
+              <span
+                className="text-center text-muted-foreground text-xs"
+                key={column}
+              >
+                {column}
+              </span>
+            ))}
+          </div>
+        </div>
+        {rows.map((row, rowIndex) => (
+          <div
+            className={`flex items-center gap-2 py-3 ${rowIndex % 2 ? "bg-muted/30" : ""}`}
+            key={row.id}
+          >
+            <span className="w-40 shrink-0 px-2 text-sm md:w-56">
+              {row.label}
+              {!field.required && row.required && (
+                <span className="ml-1 text-destructive">*</span>
+              )}
+            </span>
+            {allowMultiple ? (
+              <div className="grid flex-1 gap-2" style={gridStyle}>
+                {columns.map((column, columnIndex) => (
+                  <div className="flex justify-center" key={column}>
+                    <Checkbox
+                      aria-label={`${row.label}: ${column}`}
+                      checked={
+                        Array.isArray(answers[row.id]) &&
+                        answers[row.id].includes(column)
+                      }
+                      disabled={disabled}
+                      id={`${field.id}-${row.id}-${columnIndex}`}
+                      onCheckedChange={(checked) =>
+                        toggleColumn(row.id, column, !!checked)
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex-1">
+                <RadioGroup
+                  aria-label={row.label}
+                  className="justify-items-center"
+                  disabled={disabled}
+                  onValueChange={(v) => setRowAnswer(row.id, v)}
+                  style={gridStyle}
+                  value={
+                    typeof answers[row.id] === "string"
+                      ? (answers[row.id] as string)
+                      : ""
+                  }
+                >
+                  {columns.map((column, columnIndex) => (
+                    <RadioItem
+                      aria-label={`${row.label}: ${column}`}
+                      disabled={disabled}
+                      id={`${field.id}-${row.id}-${columnIndex}`}
+                      key={column}
+                      value={column}
+                    />
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { BaseFieldProps } from "../types";
+
+import { getErrorRingClasses } from "../utils";
+
+const NPS_SCORES = Array.from({ length: 11 }, (_, score) => score);
+
+export function NpsField({
+  field,
+  value,
+  onChange,
+  error,
+  disabled,
+}: BaseFieldProps) {
+  const errorRingClasses = getErrorRingClasses(error);
+  const lowLabel = field.settings?.npsLowLabel || "Not at all likely";
+  const highLabel = field.settings?.npsHighLabel || "Extremely likely";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div
+        aria-label={field.label}
+        className={`grid grid-cols-11 gap-1 rounded-ele ${errorRingClasses}`}
+        role="radiogroup"
+      >
+        {NPS_SCORES.map((score) => {
+          const selected = value === score;
+          return (
+            <button
+              aria-checked={selected}
+              aria-label={`${score}`}
+              className={`flex h-10 items-center justify-center rounded-ele border text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                selected
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "border-border bg-background hover:bg-accent"
+              }`}
+              disabled={disabled}
+              key={score}
+              onClick={() => onChange(score)}
+              role="radio"
+              type="button"
+            >
+              {score}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-muted-foreground text-xs">
+        <span>{lowLabel}</span>
+        <span>{highLabel}</span>
+      </div>
+    </div>
+  );
+}
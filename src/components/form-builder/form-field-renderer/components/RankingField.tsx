@@ -0,0 +1,193 @@
+import {
+  DragDropContext,
+  Draggable,
+  Droppable,
+  type DraggableProvidedDragHandleProps,
+  type DropResult,
+} from "@hello-pangea/dnd";
+import { ArrowDown, ArrowUp, GripVertical, Plus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+import type { BaseFieldProps } from "../types";
+
+import { getErrorRingClasses } from "../utils";
+
+const RANKED_LIST_ID = "ranked";
+
+export function RankingField({
+  field,
+  value,
+  onChange,
+  error,
+  disabled,
+}: BaseFieldProps) {
+  const errorRingClasses = getErrorRingClasses(error);
+
+  // The builder preview already wraps fields in a DragDropContext, which
+  // cannot be nested, so ranking falls back to the move buttons there
+  const isFormBuilder =
+    typeof window !== "undefined" &&
+    (window.location.pathname.includes("/form-builder") ||
+      window.location.pathname.includes("/demo-form-builder"));
+
+  const options = (field.options || []).map((option) =>
+    typeof option === "string"
+      ? { value: option, label: option }
+      : { value: option.value, label: option.label || option.value },
+  );
+  const getLabel = (optionValue: string) =>
+    options.find((o) => o.value === optionValue)?.label || optionValue;
+
+  const ranked: string[] = Array.isArray(value)
+    ? value.filter((v) => options.some((o) => o.value === v))
+    : [];
+  const unranked = options.filter((o) => !ranked.includes(o.value));
+  const maxRanked = field.settings?.maxRanked || options.length;
+  const canAddMore = ranked.length < maxRanked;
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= ranked.length) return;
+    const next = [...ranked];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.destination) return;
+    move(result.source.index, result.destination.index);
+  };
+
+  const renderItem = (
+    optionValue: string,
+    index: number,
+    dragHandle?: DraggableProvidedDragHandleProps | null,
+  ) => (
+    <>
+      {dragHandle && (
+        <span
+          {...dragHandle}
+          aria-label={`Reorder ${getLabel(optionValue)}`}
+          className="flex items-center text-muted-foreground"
+        >
+          <GripVertical className="h-4 w-4" />
+        </span>
+      )}
+      <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary font-medium text-primary-foreground text-xs">
+        {index + 1}
+      </span>
+      <span className="flex-1 text-sm">{getLabel(optionValue)}</span>
+      <Button
+        aria-label={`Move ${getLabel(optionValue)} up`}
+        disabled={disabled || index === 0}
+        onClick={() => move(index, index - 1)}
+        size="icon"
+        type="button"
+        variant="ghost"
+      >
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button
+        aria-label={`Move ${getLabel(optionValue)} down`}
+        disabled={disabled || index === ranked.length - 1}
+        onClick={() => move(index, index + 1)}
+        size="icon"
+        type="button"
+        variant="ghost"
+      >
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+      <Button
+        aria-label={`Remove ${getLabel(optionValue)} from ranking`}
+        disabled={disabled}
+        onClick={() => onChange(ranked.filter((v) => v !== optionValue))}
+        size="icon"
+        type="button"
+        variant="ghost"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </>
+  );
+
+  const itemClasses =
+    "flex items-center gap-2 rounded-ele border border-border bg-background px-2 py-1";
+
+  return (
+    <div className={`flex flex-col gap-3 rounded-ele ${errorRingClasses}`}>
+      {ranked.length > 0 &&
+        (isFormBuilder || disabled ? (
+          <ol className="flex flex-col gap-2">
+            {ranked.map((optionValue, index) => (
+              <li className={itemClasses} key={optionValue}>
+                {renderItem(optionValue, index)}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <Droppable droppableId={RANKED_LIST_ID}>
+              {(provided) => (
+                <ol
+                  {...provided.droppableProps}
+                  className="flex flex-col gap-2"
+                  ref={provided.innerRef}
+                >
+                  {ranked.map((optionValue, index) => (
+                    <Draggable
+                      draggableId={`${field.id}-${optionValue}`}
+                      index={index}
+                      key={optionValue}
+                    >
+                      {(dragProvided, snapshot) => (
+                        <li
+                          {...dragProvided.draggableProps}
+                          className={`${itemClasses} ${snapshot.isDragging ? "shadow-lg" : ""}`}
+                          ref={dragProvided.innerRef}
+                        >
+                          {renderItem(
+                            optionValue,
+                            index,
+                            dragProvided.dragHandleProps,
+                          )}
+                        </li>
+                      )}
+                    </Draggable>
+                  ))}
+                  {provided.placeholder}
+                </ol>
+              )}
+            </Droppable>
+          </DragDropContext>
+        ))}
+
+      {unranked.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <span className="text-muted-foreground text-xs">
+            {ranked.length === 0
+              ? "Select options in order of preference"
+              : canAddMore
+                ? "Add more options to your ranking"
+                : `You can rank up to ${maxRanked} options`}
+          </span>
+          <div className="flex flex-wrap gap-2">
+            {unranked.map((option) => (
+              <Button
+                disabled={disabled || !canAddMore}
+                key={option.value}
+                onClick={() => onChange([...ranked, option.value])}
+                size="sm"
+                type="button"
+                variant="outline"
+              >
+                <Plus className="h-3 w-3" />
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
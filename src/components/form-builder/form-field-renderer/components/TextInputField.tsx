@@ -2,23 +2,21 @@ import React from "react";
 
 import { Input } from "@/components/ui/input";
 import type { FormField } from "@/lib";
+import {
+  compilePattern,
+  testPattern,
+} from "@/lib/validation/pattern-validation";
 
 import type { BaseFieldProps } from "../types";
 
 import { getBaseClasses } from "../utils";
 
 export function getLivePatternError(field: FormField, value: string) {
-  if (
-    field?.validation?.pattern &&
-    value &&
-    !(() => {
-      try {
-        return new RegExp(field.validation.pattern).test(value);
-      } catch {
-        return false;
-      }
-    })()
-  ) {
+  // Matches the server, which ignores patterns it cannot compile
+  const pattern = field?.validation?.pattern
+    ? compilePattern(field.validation.pattern)
+    : null;
+  if (pattern && value && !testPattern(pattern, value)) {
     return field.validation?.patternMessage || "Invalid format";
   }
   return "";
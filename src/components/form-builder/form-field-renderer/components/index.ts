@@ -1,12 +1,20 @@
+export { CalculatedField } from "./CalculatedField";
 export { CheckboxField } from "./CheckboxField";
+export { ConsentField } from "./ConsentField";
 export { DateInputField } from "./DateInputField";
 export { EmailInputField } from "./EmailInputField";
 export { FieldWrapper } from "./FieldWrapper";
 export { FileUploadField } from "./FileUploadField";
+export { GroupField } from "./GroupField";
+export { HiddenField } from "./HiddenField";
+export { ImageChoiceField } from "./ImageChoiceField";
+export { MatrixField } from "./MatrixField";
+export { NpsField } from "./NpsField";
 export { NumberInputField } from "./NumberInputField";
 export { PollField } from "./PollField";
 export { QuizField } from "./QuizField";
 export { RadioField } from "./RadioField";
+export { RankingField } from "./RankingField";
 export { RatingField } from "./RatingField";
 export { SchedulerField } from "./SchedulerField";
 export { SelectField } from "./SelectField";
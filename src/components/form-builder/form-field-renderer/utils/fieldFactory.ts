@@ -3,13 +3,21 @@ import React from "react";
 import type { FormField } from "@/lib/database";
 
 import {
+  CalculatedField,
   CheckboxField,
+  ConsentField,
   DateInputField,
   EmailInputField,
   FileUploadField,
+  GroupField,
+  HiddenField,
+  ImageChoiceField,
+  MatrixField,
+  NpsField,
   NumberInputField,
   PollField,
   RadioField,
+  RankingField,
   RatingField,
   SchedulerField,
   SelectField,
@@ -93,6 +101,22 @@ export function createFieldComponent(
       return React.createElement(LinkInputField, props);
     case "file":
       return React.createElement(FileUploadField, props);
+    case "calculated":
+      return React.createElement(CalculatedField, props);
+    case "matrix":
+      return React.createElement(MatrixField, props);
+    case "ranking":
+      return React.createElement(RankingField, props);
+    case "nps":
+      return React.createElement(NpsField, props);
+    case "group":
+      return React.createElement(GroupField, props);
+    case "hidden":
+      return React.createElement(HiddenField, props);
+    case "image_choice":
+      return React.createElement(ImageChoiceField, props);
+    case "consent":
+      return React.createElement(ConsentField, props);
     default:
       return React.createElement("div", {}, "Unsupported field type");
   }
@@ -32,6 +32,7 @@ export function FormPreview({
     formData,
     currentStepIndex,
     isMultiStep,
+    allFields,
     currentStep,
     currentStepFields,
     handleFieldValueChange,
@@ -110,6 +111,7 @@ export function FormPreview({
           onSubmit={(e) => handleFormSubmit(e, formData)}
         >
           <FormFieldsContainer
+            allFields={allFields}
             fields={currentStepFields}
             fieldVisibility={fieldVisibility}
             formData={formData}
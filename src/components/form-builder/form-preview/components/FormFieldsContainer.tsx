@@ -18,6 +18,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { resolveCascadingField } from "@/lib/forms/cascade";
+import { resolveFieldMergeTags } from "@/lib/forms/merge-tags";
 import { PALETTE_DRAG_TYPE } from "../../field-palette/components/FieldItem";
 import { FIELD_TYPES } from "../../field-palette/constants";
 
@@ -27,6 +29,7 @@ import type { FormFieldsContainerProps } from "../types";
 
 export function FormFieldsContainer({
   fields,
+  allFields = fields,
   selectedFieldId,
   formData,
   onFieldSelect,
@@ -38,6 +41,10 @@ export function FormFieldsContainer({
   fieldVisibility,
   showLogicCues = false,
 }: FormFieldsContainerProps & { showLogicCues?: boolean }) {
+  // Unanswered piped fields show as [Label] so the tag stays visible here
+  const pipedFieldPlaceholder = (fieldId: string) =>
+    `[${allFields.find((f) => f.id === fieldId)?.label || fieldId}]`;
+
   const handleDragEnd = (result: any) => {
     if (!result.destination) return;
 
@@ -201,7 +208,11 @@ export function FormFieldsContainer({
                         </div>
                         <FormFieldRenderer
                           disabled={fieldVisibility?.[field.id]?.disabled}
-                          field={field}
+                          field={resolveFieldMergeTags(
+                            resolveCascadingField(field, formData),
+                            formData,
+                            { emptyValue: pipedFieldPlaceholder },
+                          )}
                           onChange={(value) =>
                             onFieldValueChange(field.id, value)
                           }
@@ -7,7 +7,13 @@ const getDefaultValueForField = (field: FormField): any => {
     case "tags":
       return [];
     case "checkbox":
+    case "ranking":
+    case "group":
       return [];
+    case "consent":
+      return false;
+    case "image_choice":
+      return field.settings?.allowMultiple ? [] : "";
     case "radio":
       return "";
     case "select":
@@ -34,7 +40,14 @@ const initializeFormData = (fields: FormField[]): Record<string, any> => {
   return formData;
 };
 
-import { evaluateLogic, getLogicFieldDefaults } from "@/lib/forms/logic";
+import { clearCascadingChildren } from "@/lib/forms/cascade";
+import { applyCalculatedFields } from "@/lib/forms/formula";
+import {
+  applyLogicValues,
+  evaluateLogic,
+  getLogicFieldDefaults,
+  withFieldTypes,
+} from "@/lib/forms/logic";
 
 export function useFormPreviewState(
   schema: FormSchema,
@@ -79,8 +92,21 @@ export function useFormPreviewState(
     }
   }, [selectedBlockId, schema.blocks]);
 
+  useEffect(() => {
+    const derivedData = applyLogicValues(
+      withFieldTypes(schema.logic || [], allFields),
+      allFields.map((f) => f.id),
+      formData,
+      undefined,
+      (state) => applyCalculatedFields(allFields, state),
+    );
+    if (derivedData !== formData) setFormData(derivedData);
+  }, [formData, schema]);
+
   const handleFieldValueChange = (fieldId: string, value: any) => {
-    setFormData((prev) => ({ ...prev, [fieldId]: value }));
+    setFormData((prev) =>
+      clearCascadingChildren(allFields, prev, { ...prev, [fieldId]: value }),
+    );
   };
 
   const nextStep = () => {
@@ -107,7 +133,7 @@ export function useFormPreviewState(
     }
   };
 
-  const logic = schema.logic || [];
+  const logic = withFieldTypes(schema.logic || [], allFields);
   const logicActions = evaluateLogic(logic, formData);
 
   const fieldDefaults = getLogicFieldDefaults(
@@ -33,6 +33,7 @@ export interface StepHeaderProps {
 
 export interface FormFieldsContainerProps {
   fields: FormField[];
+  allFields?: FormField[];
   selectedFieldId: string | null;
   formData: Record<string, any>;
   onFieldSelect: (fieldId: string | null) => void;
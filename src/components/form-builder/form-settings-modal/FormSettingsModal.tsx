@@ -40,6 +40,7 @@ export function FormSettingsModal({
   const [saving, setSaving] = useState(false);
 
   const sectionProps = {
+    schema,
     localSettings,
     updateSettings,
     updateRateLimit,
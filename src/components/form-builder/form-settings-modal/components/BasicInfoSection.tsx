@@ -48,7 +48,7 @@ export function BasicInfoSection({
           isTextarea
           label="Success Message"
           onChange={(value) => updateSettings({ successMessage: value })}
-          placeholder="Thank you for your submission!"
+          placeholder="Thank you for your submission! Use {{field_id}} to include an answer."
           rows={2}
           value={localSettings.successMessage || ""}
         />
@@ -0,0 +1,212 @@
+import { UserCheck } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type {
+  DuplicateIdentifier,
+  DuplicateMode,
+  FormSchema,
+} from "@/lib/database";
+import { DEFAULT_DUPLICATE_DETECTION_SETTINGS } from "@/lib/forms/form-defaults";
+import { getSchemaFields } from "@/lib/validation";
+import type { LocalSettings } from "../types";
+
+interface DuplicateSubmissionsSectionProps {
+  localSettings: LocalSettings;
+  schema: FormSchema;
+  updateSettings: (updates: Partial<LocalSettings>) => void;
+}
+
+const IDENTIFIER_OPTIONS: {
+  value: DuplicateIdentifier;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "user",
+    label: "Signed-in account",
+    description: "Respondents must be signed in to submit.",
+  },
+  {
+    value: "email",
+    label: "Email answer",
+    description: "Matches the answer to an email field, ignoring case.",
+  },
+  {
+    value: "browser",
+    label: "Browser",
+    description:
+      "Remembers each browser with a cookie. Clearing cookies or switching browsers gets around it.",
+  },
+];
+
+const MODE_OPTIONS: { value: DuplicateMode; label: string }[] = [
+  { value: "block", label: "Block" },
+  { value: "overwrite", label: "Overwrite previous response" },
+  { value: "flag", label: "Allow but flag as duplicate" },
+];
+
+export function DuplicateSubmissionsSection({
+  localSettings,
+  schema,
+  updateSettings,
+}: DuplicateSubmissionsSectionProps) {
+  const duplicateDetection = {
+    ...DEFAULT_DUPLICATE_DETECTION_SETTINGS,
+    ...localSettings.duplicateDetection,
+  };
+  const emailFields = getSchemaFields(schema).filter(
+    (field) => field.type === "email",
+  );
+
+  const updateDuplicateDetection = (
+    updates: Partial<NonNullable<LocalSettings["duplicateDetection"]>>,
+  ) => {
+    updateSettings({
+      duplicateDetection: {
+        ...localSettings.duplicateDetection,
+        ...updates,
+      },
+    });
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center gap-3">
+        <UserCheck className="h-5 w-5 text-primary" />
+        <h3 className="font-medium text-lg">One Response Per Person</h3>
+      </div>
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={duplicateDetection.enabled}
+            id="duplicate-detection-enabled"
+            onCheckedChange={(enabled) => updateDuplicateDetection({ enabled })}
+            size="sm"
+          />
+          <Label
+            className="font-medium text-sm"
+            htmlFor="duplicate-detection-enabled"
+          >
+            Detect repeat responses
+          </Label>
+        </div>
+        {duplicateDetection.enabled ? (
+          <div className="flex flex-col gap-4 border-muted border-l-2 pl-6">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="duplicate-identify-by">
+                Identify Respondents By
+              </Label>
+              <Select
+                onValueChange={(identifyBy) =>
+                  updateDuplicateDetection({
+                    identifyBy: identifyBy as DuplicateIdentifier,
+                  })
+                }
+                value={duplicateDetection.identifyBy}
+              >
+                <SelectTrigger id="duplicate-identify-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IDENTIFIER_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-muted-foreground text-xs">
+                {
+                  IDENTIFIER_OPTIONS.find(
+                    (option) => option.value === duplicateDetection.identifyBy,
+                  )?.description
+                }
+              </p>
+            </div>
+            {duplicateDetection.identifyBy === "email" && (
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="duplicate-email-field">Email Field</Label>
+                {emailFields.length ? (
+                  <Select
+                    onValueChange={(emailFieldId) =>
+                      updateDuplicateDetection({ emailFieldId })
+                    }
+                    value={duplicateDetection.emailFieldId}
+                  >
+                    <SelectTrigger id="duplicate-email-field">
+                      <SelectValue placeholder="Select an email field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {emailFields.map((field) => (
+                        <SelectItem key={field.id} value={field.id}>
+                          {field.label || field.id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <p className="text-muted-foreground text-xs">
+                    Add an email field to the form to identify respondents by
+                    their email address.
+                  </p>
+                )}
+              </div>
+            )}
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="duplicate-mode">
+                When Someone Responds Again
+              </Label>
+              <Select
+                onValueChange={(mode) =>
+                  updateDuplicateDetection({ mode: mode as DuplicateMode })
+                }
+                value={duplicateDetection.mode}
+              >
+                <SelectTrigger id="duplicate-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {duplicateDetection.mode === "block" && (
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="duplicate-message">Message</Label>
+                <Input
+                  id="duplicate-message"
+                  onChange={(e) =>
+                    updateDuplicateDetection({ message: e.target.value })
+                  }
+                  placeholder={DEFAULT_DUPLICATE_DETECTION_SETTINGS.message}
+                  value={duplicateDetection.message}
+                />
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="rounded-card bg-muted/30 p-4">
+            <p className="text-muted-foreground text-sm">
+              Stop the same person from responding more than once, replace their
+              earlier response, or keep both and mark the later one as a
+              duplicate in your submissions.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -1,20 +1,26 @@
 import { useParams } from "next/navigation";
 import React from "react";
+import type { FormSchema } from "@/lib/database";
 import type { FormSettingsSection } from "../types";
 import { BasicInfoSection } from "./BasicInfoSection";
 import { DesignSection } from "./DesignSection";
+import { DuplicateSubmissionsSection } from "./DuplicateSubmissionsSection";
 import { FormDesignPreview } from "./FormDesignPreview";
 import { NotificationsSection } from "./NotificationsSection";
+import { PartialCaptureSection } from "./PartialCaptureSection";
 import { PasswordProtectionSection } from "./PasswordProtectionSection";
 import { ProfanityFilterSection } from "./ProfanityFilterSection";
 import { QuizSection } from "./QuizSection";
 import { RateLimitSection } from "./RateLimitSection";
+import { ResponseEditingSection } from "./ResponseEditingSection";
 import { ResponseLimitSection } from "./ResponseLimitSection";
 import { BrandingSection } from "./SocialMediaSection";
 import { WebhooksSettingsSection } from "./WebhooksSettingsSection";
+import { WorkflowSection } from "./WorkflowSection";
 
 interface FormSettingsContentProps {
   section: FormSettingsSection;
+  schema: FormSchema;
   localSettings: any;
   updateSettings: any;
   updateRateLimit: any;
@@ -27,6 +33,7 @@ interface FormSettingsContentProps {
 
 export function FormSettingsContent({
   section,
+  schema,
   localSettings,
   updateSettings,
   updateRateLimit,
@@ -59,6 +66,15 @@ export function FormSettingsContent({
             localSettings={localSettings}
             updateResponseLimit={updateResponseLimit}
           />
+          <DuplicateSubmissionsSection
+            localSettings={localSettings}
+            schema={schema}
+            updateSettings={updateSettings}
+          />
+          <ResponseEditingSection
+            localSettings={localSettings}
+            updateSettings={updateSettings}
+          />
         </section>
       );
     case "security":
@@ -72,6 +88,10 @@ export function FormSettingsContent({
             localSettings={localSettings}
             updateProfanityFilter={updateProfanityFilter}
           />
+          <PartialCaptureSection
+            localSettings={localSettings}
+            updateSettings={updateSettings}
+          />
         </section>
       );
     case "branding":
@@ -102,6 +122,15 @@ export function FormSettingsContent({
           />
         </section>
       );
+    case "workflow":
+      return (
+        <section className="flex flex-col gap-4">
+          <WorkflowSection
+            localSettings={localSettings}
+            updateSettings={updateSettings}
+          />
+        </section>
+      );
     case "design":
       return (
         <section className="flex flex-col gap-4">
@@ -2,6 +2,7 @@ import {
   BarChart2,
   Info,
   Link2,
+  ListChecks,
   Mail,
   Palette,
   Shield,
@@ -14,7 +15,17 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { FORM_SETTINGS_SECTIONS } from "../index";
 import type { FormSettingsSection } from "../types";
 
-const iconMap = { Info, BarChart2, Shield, Trophy, User, Mail, Palette, Link2 };
+const iconMap = {
+  Info,
+  BarChart2,
+  Shield,
+  Trophy,
+  ListChecks,
+  User,
+  Mail,
+  Palette,
+  Link2,
+};
 
 interface FormSettingsSidebarNavigationProps {
   activeSection: FormSettingsSection;
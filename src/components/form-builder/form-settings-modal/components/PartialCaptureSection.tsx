@@ -0,0 +1,87 @@
+import { Radar } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { DEFAULT_PARTIAL_CAPTURE_SETTINGS } from "@/lib/forms/form-defaults";
+import type { LocalSettings } from "../types";
+
+interface PartialCaptureSectionProps {
+  localSettings: LocalSettings;
+  updateSettings: (updates: Partial<LocalSettings>) => void;
+}
+
+export function PartialCaptureSection({
+  localSettings,
+  updateSettings,
+}: PartialCaptureSectionProps) {
+  const partialCapture = {
+    ...DEFAULT_PARTIAL_CAPTURE_SETTINGS,
+    ...localSettings.partialCapture,
+  };
+
+  const updatePartialCapture = (
+    updates: Partial<NonNullable<LocalSettings["partialCapture"]>>,
+  ) => {
+    updateSettings({
+      partialCapture: {
+        ...localSettings.partialCapture,
+        ...updates,
+      },
+    });
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center gap-3">
+        <Radar className="h-5 w-5 text-primary" />
+        <h3 className="font-medium text-lg">Partial Responses</h3>
+      </div>
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={partialCapture.enabled}
+            id="partial-capture-enabled"
+            onCheckedChange={(enabled) => updatePartialCapture({ enabled })}
+            size="sm"
+          />
+          <Label
+            className="font-medium text-sm"
+            htmlFor="partial-capture-enabled"
+          >
+            Capture answers before respondents submit
+          </Label>
+        </div>
+        {partialCapture.enabled ? (
+          <div className="flex flex-col gap-4 border-muted border-l-2 pl-6">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="partial-capture-notice">Respondent Notice</Label>
+              <Textarea
+                id="partial-capture-notice"
+                onChange={(e) =>
+                  updatePartialCapture({ notice: e.target.value })
+                }
+                rows={2}
+                value={partialCapture.notice}
+              />
+              <p className="text-muted-foreground text-xs">
+                Shown below the form with a link to turn capturing off.
+                Respondents whose browser asks not to be tracked are never
+                captured.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-card bg-muted/30 p-4">
+            <p className="text-muted-foreground text-sm">
+              Saves answers as respondents go, so responses that are never
+              submitted show up as incomplete in analytics along with where
+              people stopped. Consent, signature and file answers are not
+              captured.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+import { PencilLine } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { DEFAULT_RESPONSE_EDITING_SETTINGS } from "@/lib/forms/form-defaults";
+import type { LocalSettings } from "../types";
+
+interface ResponseEditingSectionProps {
+  localSettings: LocalSettings;
+  updateSettings: (updates: Partial<LocalSettings>) => void;
+}
+
+export function ResponseEditingSection({
+  localSettings,
+  updateSettings,
+}: ResponseEditingSectionProps) {
+  const responseEditing = {
+    ...DEFAULT_RESPONSE_EDITING_SETTINGS,
+    ...localSettings.responseEditing,
+  };
+
+  const updateResponseEditing = (
+    updates: Partial<NonNullable<LocalSettings["responseEditing"]>>,
+  ) => {
+    updateSettings({
+      responseEditing: {
+        ...localSettings.responseEditing,
+        ...updates,
+      },
+    });
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center gap-3">
+        <PencilLine className="h-5 w-5 text-primary" />
+        <h3 className="font-medium text-lg">Response Editing</h3>
+      </div>
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={responseEditing.enabled}
+            id="response-editing-enabled"
+            onCheckedChange={(enabled) => updateResponseEditing({ enabled })}
+            size="sm"
+          />
+          <Label
+            className="font-medium text-sm"
+            htmlFor="response-editing-enabled"
+          >
+            Let respondents edit their responses
+          </Label>
+        </div>
+        {responseEditing.enabled ? (
+          <div className="flex flex-col gap-4 border-muted border-l-2 pl-6">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="edit-link-expiry">Link Expiry (hours)</Label>
+              <Input
+                id="edit-link-expiry"
+                min={1}
+                onChange={(e) =>
+                  updateResponseEditing({
+                    expiresInHours: Number.parseInt(e.target.value) || 1,
+                  })
+                }
+                type="number"
+                value={responseEditing.expiresInHours}
+              />
+              <p className="text-muted-foreground text-xs">
+                How long the edit link stays valid after submitting. Links
+                already handed out keep their original expiry.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-card bg-muted/30 p-4">
+            <p className="text-muted-foreground text-sm">
+              After submitting, respondents get a private link to change their
+              answers. Edits are checked like new submissions and the previous
+              answers are kept in the submission's edit history.
+            </p>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { ListChecks, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { SubmissionStatusOption } from "@/lib/database";
+import { DEFAULT_SUBMISSION_STATUSES, toStatusId } from "@/lib/forms/workflow";
+import type { LocalSettings } from "../types";
+
+interface WorkflowSectionProps {
+  localSettings: LocalSettings;
+  updateSettings: (updates: Partial<LocalSettings>) => void;
+}
+
+export function WorkflowSection({
+  localSettings,
+  updateSettings,
+}: WorkflowSectionProps) {
+  const [newStatus, setNewStatus] = useState("");
+  const statuses = localSettings.workflow?.statuses?.length
+    ? localSettings.workflow.statuses
+    : DEFAULT_SUBMISSION_STATUSES;
+
+  const updateStatuses = (next: SubmissionStatusOption[]) => {
+    updateSettings({
+      workflow: {
+        ...localSettings.workflow,
+        statuses: next,
+      },
+    });
+  };
+
+  const newStatusId = toStatusId(newStatus);
+  const canAddStatus =
+    !!newStatusId && !statuses.some((status) => status.id === newStatusId);
+
+  const addStatus = () => {
+    if (!canAddStatus) return;
+    updateStatuses([...statuses, { id: newStatusId, label: newStatus.trim() }]);
+    setNewStatus("");
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="mb-4 flex items-center gap-3">
+        <ListChecks className="h-5 w-5 text-primary" />
+        <h3 className="font-medium text-lg">Submission Workflow</h3>
+      </div>
+      <div className="flex flex-col gap-4">
+        <p className="text-muted-foreground text-xs">
+          Statuses your team can give submissions while following up. The status
+          new submissions start in can be renamed but not removed. Submissions
+          keep a removed status until they are moved to another one.
+        </p>
+        <div className="flex flex-col gap-2">
+          {statuses.map((status, index) => (
+            <div className="flex items-center gap-2" key={status.id}>
+              <Input
+                onChange={(e) =>
+                  updateStatuses(
+                    statuses.map((s, i) =>
+                      i === index ? { ...s, label: e.target.value } : s,
+                    ),
+                  )
+                }
+                value={status.label}
+              />
+              <Button
+                disabled={status.id === DEFAULT_SUBMISSION_STATUSES[0].id}
+                onClick={() =>
+                  updateStatuses(statuses.filter((_, i) => i !== index))
+                }
+                size="icon"
+                variant="ghost"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            onChange={(e) => setNewStatus(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addStatus();
+              }
+            }}
+            placeholder="New status, e.g. On hold"
+            value={newStatus}
+          />
+          <Button
+            disabled={!canAddStatus}
+            onClick={addStatus}
+            size="sm"
+            variant="outline"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -1,15 +1,19 @@
 export { BasicInfoSection } from "./BasicInfoSection";
 export { DesignSection } from "./DesignSection";
+export { DuplicateSubmissionsSection } from "./DuplicateSubmissionsSection";
 export { FormDesignPreview } from "./FormDesignPreview";
 export { FormSettingsContent } from "./FormSettingsContent";
 export { FormSettingsDesktopLayout } from "./FormSettingsDesktopLayout";
 export { FormSettingsMobileLayout } from "./FormSettingsMobileLayout";
 export { FormSettingsSidebarNavigation } from "./FormSettingsSidebarNavigation";
 export { NotificationsSection } from "./NotificationsSection";
+export { PartialCaptureSection } from "./PartialCaptureSection";
 export { PasswordProtectionSection } from "./PasswordProtectionSection";
 export { ProfanityFilterSection } from "./ProfanityFilterSection";
 export { QuizSection } from "./QuizSection";
 export { RateLimitSection } from "./RateLimitSection";
+export { ResponseEditingSection } from "./ResponseEditingSection";
 export { ResponseLimitSection } from "./ResponseLimitSection";
 export { BrandingSection } from "./SocialMediaSection";
 export { WebhooksSettingsSection } from "./WebhooksSettingsSection";
+export { WorkflowSection } from "./WorkflowSection";
@@ -5,6 +5,7 @@ export const FORM_SETTINGS_SECTIONS: FormSettingsSectionConfig[] = [
   { id: "limits", label: "Limits", iconName: "BarChart2" },
   { id: "security", label: "Security", iconName: "Shield" },
   { id: "quiz", label: "Quiz & Scoring", iconName: "Trophy" },
+  { id: "workflow", label: "Workflow", iconName: "ListChecks" },
   { id: "branding", label: "Branding", iconName: "User" },
   { id: "notifications", label: "Notifications", iconName: "Mail" },
   { id: "webhooks", label: "Webhooks", iconName: "Link2" },
@@ -15,13 +16,17 @@ export {
   BasicInfoSection,
   BrandingSection,
   DesignSection,
+  DuplicateSubmissionsSection,
   NotificationsSection,
+  PartialCaptureSection,
   PasswordProtectionSection,
   ProfanityFilterSection,
   QuizSection,
   RateLimitSection,
+  ResponseEditingSection,
   ResponseLimitSection,
   WebhooksSettingsSection,
+  WorkflowSection,
 } from "./components";
 
 export { FormSettingsModal } from "./FormSettingsModal";
@@ -1,4 +1,9 @@
-import type { FormSchema } from "@/lib/database";
+import type {
+  DuplicateIdentifier,
+  DuplicateMode,
+  FormSchema,
+  SubmissionStatusOption,
+} from "@/lib/database";
 
 export interface FormSettingsModalProps {
   isOpen: boolean;
@@ -109,6 +114,24 @@ export interface LocalSettings {
       fail?: string;
     };
   };
+  workflow?: {
+    statuses?: SubmissionStatusOption[];
+  };
+  responseEditing?: {
+    enabled?: boolean;
+    expiresInHours?: number;
+  };
+  partialCapture?: {
+    enabled?: boolean;
+    notice?: string;
+  };
+  duplicateDetection?: {
+    enabled?: boolean;
+    identifyBy?: DuplicateIdentifier;
+    emailFieldId?: string;
+    mode?: DuplicateMode;
+    message?: string;
+  };
 }
 
 export interface BasicInfoSectionProps {
@@ -147,7 +170,8 @@ export type FormSettingsSection =
   | "notifications"
   | "design"
   | "webhooks"
-  | "quiz";
+  | "quiz"
+  | "workflow";
 
 export interface FormSettingsSectionConfig {
   id: FormSettingsSection;
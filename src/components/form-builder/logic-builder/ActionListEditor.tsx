@@ -10,7 +10,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import type { FormField } from "@/lib/database";
+import type { FormBlock, FormField } from "@/lib/database";
 import type { LogicAction } from "./types";
 
 const availableActionTypes = [
@@ -18,19 +18,45 @@ const availableActionTypes = [
   { value: "hide", label: "Hide Field" },
   { value: "enable", label: "Enable Field" },
   { value: "disable", label: "Disable Field" },
+  { value: "require", label: "Require Field" },
+  { value: "unrequire", label: "Make Optional" },
+  { value: "set_value", label: "Set Value" },
+  { value: "show_message", label: "Show Message" },
+];
+
+// show_message without a target renders above the fields instead of inline
+const FORM_MESSAGE_TARGET = "__form__";
+
+const navigationActionTypes = [
+  { value: "jump_to_block", label: "Jump to Step" },
+  { value: "end_form", label: "End Form" },
 ];
 
 function ActionListEditor({
   actions,
   onChange,
   fields,
+  blocks = [],
   singleAction = false,
 }: {
   actions: LogicAction[];
   onChange: (actions: LogicAction[]) => void;
   fields: FormField[];
+  blocks?: FormBlock[];
   singleAction?: boolean;
 }) {
+  const actionTypes =
+    blocks.length > 1
+      ? [...availableActionTypes, ...navigationActionTypes]
+      : availableActionTypes;
+
+  const getDefaultTarget = (type: LogicAction["type"]) =>
+    type === "jump_to_block"
+      ? blocks[0]?.id || ""
+      : type === "end_form"
+        ? undefined
+        : fields[0]?.id || "";
+
   const handleAddAction = () => {
     onChange([
       ...actions,
@@ -57,39 +83,96 @@ function ActionListEditor({
   return (
     <div className="flex flex-col gap-2">
       {actions.map((action, idx) => (
-        <Card className="flex items-center gap-2 p-3" key={action.id}>
+        <Card className="flex flex-wrap items-center gap-2 p-3" key={action.id}>
           <Select
-            onValueChange={(v) => handleUpdate(idx, { type: v as any })}
+            onValueChange={(v) => {
+              const type = v as LogicAction["type"];
+              const wasNavigation = navigationActionTypes.some(
+                (a) => a.value === action.type,
+              );
+              const isNavigation = navigationActionTypes.some(
+                (a) => a.value === type,
+              );
+              handleUpdate(
+                idx,
+                wasNavigation || isNavigation || !action.target
+                  ? { type, target: getDefaultTarget(type) }
+                  : { type },
+              );
+            }}
             value={action.type}
           >
             <SelectTrigger className="w-36" size="sm">
               <SelectValue placeholder="Action Type" />
             </SelectTrigger>
             <SelectContent>
-              {availableActionTypes.map((a) => (
+              {actionTypes.map((a) => (
                 <SelectItem key={a.value} value={a.value}>
                   {a.label}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          <Select
-            onValueChange={(v) => handleUpdate(idx, { target: v })}
-            value={action.target}
-          >
-            <SelectTrigger className="w-36" size="sm">
-              <SelectValue placeholder="Target Field" />
-            </SelectTrigger>
-            <SelectContent>
-              {fields.map((f) => (
-                <SelectItem key={f.id} value={f.id}>
-                  {f.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-          {}
-          {}
+          {action.type === "jump_to_block" ? (
+            <Select
+              onValueChange={(v) => handleUpdate(idx, { target: v })}
+              value={action.target}
+            >
+              <SelectTrigger className="w-36" size="sm">
+                <SelectValue placeholder="Target Step" />
+              </SelectTrigger>
+              <SelectContent>
+                {blocks.map((b, blockIdx) => (
+                  <SelectItem key={b.id} value={b.id}>
+                    {b.title || `Step ${blockIdx + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : action.type === "end_form" ? (
+            <span className="text-muted-foreground text-xs">
+              Skip to submit
+            </span>
+          ) : (
+            <Select
+              onValueChange={(v) =>
+                handleUpdate(idx, {
+                  target: v === FORM_MESSAGE_TARGET ? undefined : v,
+                })
+              }
+              value={
+                action.type === "show_message" && !action.target
+                  ? FORM_MESSAGE_TARGET
+                  : action.target
+              }
+            >
+              <SelectTrigger className="w-36" size="sm">
+                <SelectValue placeholder="Target Field" />
+              </SelectTrigger>
+              <SelectContent>
+                {action.type === "show_message" && (
+                  <SelectItem value={FORM_MESSAGE_TARGET}>
+                    Top of form
+                  </SelectItem>
+                )}
+                {fields.map((f) => (
+                  <SelectItem key={f.id} value={f.id}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {(action.type === "set_value" || action.type === "show_message") && (
+            <Input
+              className="h-8 min-w-0 flex-1"
+              onChange={(e) => handleUpdate(idx, { value: e.target.value })}
+              placeholder={
+                action.type === "set_value" ? "Value" : "Message to show"
+              }
+              value={action.value ?? ""}
+            />
+          )}
           {!singleAction && (
             <Button
               onClick={() => handleDelete(idx)}
@@ -11,20 +11,116 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import type { FormField } from "@/lib/database";
-import type { LogicCondition, LogicConditionGroup } from "./types";
+import type {
+  LogicCondition,
+  LogicConditionGroup,
+  LogicOperator,
+} from "./types";
 
-const availableOperators = [
+const availableOperators: { value: LogicOperator; label: string }[] = [
   { value: "equals", label: "Equals" },
   { value: "not_equals", label: "Not Equals" },
+  { value: "equals_ignore_case", label: "Equals (any case)" },
   { value: "greater_than", label: "Greater Than" },
   { value: "less_than", label: "Less Than" },
+  { value: "between", label: "Between" },
+  { value: "before_date", label: "Before Date" },
+  { value: "after_date", label: "After Date" },
+  { value: "within_last_days", label: "Within Last Days" },
   { value: "contains", label: "Contains" },
   { value: "not_contains", label: "Not Contains" },
+  { value: "starts_with", label: "Starts With" },
+  { value: "ends_with", label: "Ends With" },
+  { value: "matches_regex", label: "Matches Regex" },
+  { value: "length_greater_than", label: "Length Greater Than" },
   { value: "is_empty", label: "Is Empty" },
   { value: "is_not_empty", label: "Is Not Empty" },
   { value: "includes", label: "Includes" },
 ];
 
+const numericOperators: LogicOperator[] = [
+  "equals",
+  "not_equals",
+  "greater_than",
+  "less_than",
+  "between",
+  "is_empty",
+  "is_not_empty",
+];
+
+const dateOperators: LogicOperator[] = [
+  "equals",
+  "not_equals",
+  "before_date",
+  "after_date",
+  "between",
+  "within_last_days",
+  "is_empty",
+  "is_not_empty",
+];
+
+const listOperators: LogicOperator[] = [
+  "equals",
+  "not_equals",
+  "contains",
+  "not_contains",
+  "includes",
+  "length_greater_than",
+  "is_empty",
+  "is_not_empty",
+];
+
+const numericFieldTypes: FormField["type"][] = [
+  "number",
+  "slider",
+  "rating",
+  "nps",
+  "calculated",
+];
+
+const getAllowedOperators = (field?: FormField) =>
+  !field
+    ? null
+    : numericFieldTypes.includes(field.type)
+      ? numericOperators
+      : field.type === "date"
+        ? dateOperators
+        : field.type === "checkbox" || field.type === "tags"
+          ? listOperators
+          : null;
+
+const valuelessOperators: LogicOperator[] = ["is_empty", "is_not_empty"];
+
+const getOperatorsForField = (field?: FormField) => {
+  const allowed = getAllowedOperators(field);
+  return allowed
+    ? availableOperators.filter((op) => allowed.includes(op.value))
+    : availableOperators;
+};
+
+const getInputType = (operator: LogicOperator, field?: FormField) => {
+  if (operator === "within_last_days" || operator === "length_greater_than") {
+    return "number";
+  }
+  if (
+    operator === "before_date" ||
+    operator === "after_date" ||
+    field?.type === "date"
+  ) {
+    return "date";
+  }
+  return field && numericFieldTypes.includes(field.type) ? "number" : "text";
+};
+
+const getValuePlaceholder = (operator: LogicOperator) =>
+  operator === "within_last_days"
+    ? "Days"
+    : operator === "length_greater_than"
+      ? "Length"
+      : operator === "matches_regex"
+        ? "Pattern, e.g. ^\\d{5}$"
+        : "Value";
+
 function ConditionGroupEditor({
   group,
   onChange,
@@ -44,8 +140,9 @@ function ConditionGroupEditor({
     const newCond: LogicCondition = {
       id: `cond-${Date.now()}`,
       field: fields[0]?.id || "",
-      operator: availableOperators[0].value as any,
+      operator: availableOperators[0].value,
       value: "",
+      fieldType: fields[0]?.type,
     };
     onChange({ ...group, conditions: [...group.conditions, newCond] });
   };
@@ -68,6 +165,115 @@ function ConditionGroupEditor({
     onChange({ ...group, conditions: updatedConds });
   };
 
+  const handleFieldChange = (idx: number, cond: LogicCondition, id: string) => {
+    const field = fields.find((f) => f.id === id);
+    const operators = getOperatorsForField(field);
+    const keepOperator = operators.some((op) => op.value === cond.operator);
+    handleUpdate(idx, {
+      ...cond,
+      field: id,
+      fieldType: field?.type,
+      operator: keepOperator ? cond.operator : operators[0].value,
+      value: keepOperator && field?.type === cond.fieldType ? cond.value : "",
+    });
+  };
+
+  const handleOperatorChange = (
+    idx: number,
+    cond: LogicCondition,
+    operator: LogicOperator,
+  ) => {
+    const wasRange = cond.operator === "between";
+    const isRange = operator === "between";
+    handleUpdate(idx, {
+      ...cond,
+      operator,
+      value:
+        wasRange === isRange
+          ? valuelessOperators.includes(operator)
+            ? ""
+            : cond.value
+          : isRange
+            ? ["", ""]
+            : "",
+    });
+  };
+
+  const renderValueEditor = (idx: number, cond: LogicCondition) => {
+    if (valuelessOperators.includes(cond.operator)) return null;
+
+    const field = fields.find((f) => f.id === cond.field);
+    const inputType = getInputType(cond.operator, field);
+
+    if (cond.operator === "between") {
+      const [min, max] = Array.isArray(cond.value) ? cond.value : ["", ""];
+      return (
+        <div className="flex items-center gap-1">
+          <Input
+            className="input input-xs w-28"
+            onChange={(e) =>
+              handleUpdate(idx, { ...cond, value: [e.target.value, max] })
+            }
+            placeholder="Min"
+            type={inputType}
+            value={min}
+          />
+          <span className="text-muted-foreground text-xs">and</span>
+          <Input
+            className="input input-xs w-28"
+            onChange={(e) =>
+              handleUpdate(idx, { ...cond, value: [min, e.target.value] })
+            }
+            placeholder="Max"
+            type={inputType}
+            value={max}
+          />
+        </div>
+      );
+    }
+
+    const options = (field?.options || []).map((option) =>
+      typeof option === "string"
+        ? { value: option, label: option }
+        : { value: option.value, label: option.label || option.value },
+    );
+    const pickFromOptions =
+      options.length > 0 &&
+      ["equals", "not_equals", "contains", "not_contains", "includes"].includes(
+        cond.operator,
+      );
+
+    if (pickFromOptions) {
+      return (
+        <Select
+          onValueChange={(v) => handleUpdate(idx, { ...cond, value: v })}
+          value={cond.value}
+        >
+          <SelectTrigger className="w-32" size="sm">
+            <SelectValue placeholder="Value" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        className="input input-xs"
+        onChange={(e) => handleUpdate(idx, { ...cond, value: e.target.value })}
+        placeholder={getValuePlaceholder(cond.operator)}
+        type={inputType}
+        value={cond.value}
+      />
+    );
+  };
+
   const handleDelete = (idx: number) => {
     const updatedConds = group.conditions.slice();
     updatedConds.splice(idx, 1);
@@ -107,9 +313,9 @@ function ConditionGroupEditor({
               onDelete={() => handleDelete(idx)}
             />
           ) : (
-            <div className="flex items-center gap-2" key={cond.id}>
+            <div className="flex flex-wrap items-center gap-2" key={cond.id}>
               <Select
-                onValueChange={(v) => handleUpdate(idx, { ...cond, field: v })}
+                onValueChange={(v) => handleFieldChange(idx, cond, v)}
                 value={cond.field}
               >
                 <SelectTrigger className="w-32" size="sm">
@@ -125,7 +331,7 @@ function ConditionGroupEditor({
               </Select>
               <Select
                 onValueChange={(v) =>
-                  handleUpdate(idx, { ...cond, operator: v as any })
+                  handleOperatorChange(idx, cond, v as LogicOperator)
                 }
                 value={cond.operator}
               >
@@ -133,21 +339,16 @@ function ConditionGroupEditor({
                   <SelectValue placeholder="Operator" />
                 </SelectTrigger>
                 <SelectContent>
-                  {availableOperators.map((op) => (
+                  {getOperatorsForField(
+                    fields.find((f) => f.id === cond.field),
+                  ).map((op) => (
                     <SelectItem key={op.value} value={op.value}>
                       {op.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
-              <Input
-                className="input input-xs"
-                onChange={(e) =>
-                  handleUpdate(idx, { ...cond, value: e.target.value })
-                }
-                placeholder="Value"
-                value={cond.value}
-              />
+              {renderValueEditor(idx, cond)}
               <Button
                 onClick={() => handleDelete(idx)}
                 size="icon"
@@ -1,4 +1,11 @@
-import { Check, Copy, Pencil, Trash } from "lucide-react";
+import {
+  AlertTriangle,
+  Check,
+  Copy,
+  OctagonAlert,
+  Pencil,
+  Trash,
+} from "lucide-react";
 import { motion } from "motion/react";
 import { useTheme } from "next-themes";
 import React from "react";
@@ -16,13 +23,17 @@ import {
 } from "@/components/ui/modal";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent } from "@/components/ui/tabs";
-import type { FormField } from "@/lib/database";
+import type { FormBlock, FormField } from "@/lib/database";
+import { type LogicIssue, lintFormLogic } from "@/lib/forms/logic-lint";
+import type { LogicTestCase } from "@/lib/forms/logic-simulator";
 import { ActionListEditor } from "./ActionListEditor";
 import { ConditionGroupEditor } from "./ConditionGroupEditor";
+import { LogicSimulator } from "./LogicSimulator";
 import type {
   LogicAction,
   LogicActionCondition,
   LogicConditionGroup,
+  LogicOperator,
 } from "./types";
 
 let highlighterInstance: any = null;
@@ -42,6 +53,27 @@ const getHighlighter = async () => {
   return highlighterPromise;
 };
 
+const operatorSummaries: Record<LogicOperator, string> = {
+  equals: "=",
+  not_equals: "≠",
+  equals_ignore_case: "≈",
+  greater_than: ">",
+  less_than: "<",
+  between: "between",
+  before_date: "before",
+  after_date: "after",
+  within_last_days: "within last (days)",
+  contains: "contains",
+  not_contains: "not contains",
+  starts_with: "starts with",
+  ends_with: "ends with",
+  matches_regex: "matches",
+  length_greater_than: "length >",
+  is_empty: "is empty",
+  is_not_empty: "is not empty",
+  includes: "includes",
+};
+
 function summarizeConditionGroup(
   group: LogicConditionGroup,
   fields: FormField[],
@@ -56,27 +88,12 @@ function summarizeConditionGroup(
       if ("logic" in cond) return `(${summarizeConditionGroup(cond, fields)})`;
       const field =
         fields.find((f) => f.id === cond.field)?.label || cond.field;
-      const op =
-        cond.operator === "equals"
-          ? "="
-          : cond.operator === "not_equals"
-            ? "≠"
-            : cond.operator === "greater_than"
-              ? ">"
-              : cond.operator === "less_than"
-                ? "<"
-                : cond.operator === "contains"
-                  ? "contains"
-                  : cond.operator === "not_contains"
-                    ? "not contains"
-                    : cond.operator === "is_empty"
-                      ? "is empty"
-                      : cond.operator === "is_not_empty"
-                        ? "is not empty"
-                        : cond.operator === "includes"
-                          ? "includes"
-                          : cond.operator;
-      return `${field} ${op}${cond.value !== undefined && cond.value !== "" ? ` ${cond.value}` : ""}`;
+      const op = operatorSummaries[cond.operator] || cond.operator;
+      const value =
+        cond.operator === "between" && Array.isArray(cond.value)
+          ? `${cond.value[0] || "…"} and ${cond.value[1] || "…"}`
+          : cond.value;
+      return `${field} ${op}${value !== undefined && value !== "" ? ` ${value}` : ""}`;
     })
     .join(group.logic === "AND" ? " AND " : " OR ");
 }
@@ -101,12 +118,14 @@ function LogicItemEditor({
   item,
   onSave,
   fields,
+  blocks,
 }: {
   open: boolean;
   onClose: () => void;
   item?: LogicActionCondition;
   onSave: (item: LogicActionCondition) => void;
   fields: FormField[];
+  blocks?: FormBlock[];
 }) {
   const initialCondition: LogicConditionGroup =
     item?.condition && Array.isArray(item.condition.conditions)
@@ -149,6 +168,7 @@ function LogicItemEditor({
           <div className="mb-2 font-semibold">Action</div>
           <ActionListEditor
             actions={[action]}
+            blocks={blocks}
             fields={fields}
             onChange={([a]) => setAction(a)}
             singleAction
@@ -256,11 +276,19 @@ function CollapsibleBottomPanel({ children }: { children: React.ReactNode }) {
 function LogicBuilderPanelContent({
   logic,
   onLogicChange,
+  logicTests,
+  onLogicTestsChange,
   fields,
+  blocks,
+  formId,
 }: {
   logic: LogicActionCondition[];
   onLogicChange: (logic: LogicActionCondition[]) => void;
+  logicTests: LogicTestCase[];
+  onLogicTestsChange: (logicTests: LogicTestCase[]) => void;
   fields: FormField[];
+  blocks?: FormBlock[];
+  formId?: string;
 }) {
   const [editorOpen, setEditorOpen] = React.useState(false);
   const [editingItem, setEditingItem] = React.useState<
@@ -354,6 +382,22 @@ function LogicBuilderPanelContent({
     [logic, fields],
   );
 
+  const issues = React.useMemo(
+    () => lintFormLogic(logic, fields, blocks),
+    [logic, fields, blocks],
+  );
+  const issuesByRule = React.useMemo(() => {
+    const map: Record<string, LogicIssue[]> = {};
+    issues.forEach((issue) => {
+      if (!issue.ruleId) return;
+      if (!map[issue.ruleId]) map[issue.ruleId] = [];
+      map[issue.ruleId].push(issue);
+    });
+    return map;
+  }, [issues]);
+  const errorCount = issues.filter((i) => i.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+
   return (
     <Card className="flex h-full flex-col p-0">
       <CardContent className="flex flex-1 flex-col p-4">
@@ -362,6 +406,7 @@ function LogicBuilderPanelContent({
           items={[
             { id: "rules", label: "Logic Rules" },
             { id: "fields", label: "Field Logic" },
+            { id: "test", label: "Test Logic" },
           ]}
           onValueChange={setActiveTab}
           value={activeTab}
@@ -384,6 +429,31 @@ function LogicBuilderPanelContent({
                 </Button>
               </div>
             </div>
+            {issues.length > 0 && (
+              <Alert
+                icon={errorCount > 0 ? OctagonAlert : AlertTriangle}
+                variant={errorCount > 0 ? "destructive" : "warning"}
+              >
+                <div className="flex flex-col gap-1">
+                  <span className="font-medium">
+                    {errorCount} error{errorCount !== 1 ? "s" : ""},{" "}
+                    {warningCount} warning{warningCount !== 1 ? "s" : ""}
+                  </span>
+                  {errorCount > 0 && (
+                    <span className="text-xs">
+                      Errors must be fixed before the form can be published.
+                    </span>
+                  )}
+                  {issues
+                    .filter((issue) => !issue.ruleId)
+                    .map((issue, i) => (
+                      <span className="text-xs" key={i}>
+                        {issue.message}
+                      </span>
+                    ))}
+                </div>
+              </Alert>
+            )}
             {logic.length === 0 ? (
               <div className="py-8 text-center text-muted-foreground text-sm">
                 No logic items yet.
@@ -413,12 +483,19 @@ function LogicBuilderPanelContent({
                           : item.action.type === "disable"
                             ? "outline"
                             : "default";
+                  const ruleIssues = issuesByRule[item.id] || [];
                   return (
                     <Card
                       className="flex items-center justify-between border bg-muted/10 p-3"
                       key={item.id}
                     >
                       <div className="flex min-w-0 flex-1 flex-wrap items-center gap-2">
+                        {ruleIssues.length > 0 &&
+                          (ruleIssues.some((i) => i.severity === "error") ? (
+                            <OctagonAlert className="h-4 w-4 shrink-0 text-destructive" />
+                          ) : (
+                            <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" />
+                          ))}
                         <span className="font-medium">If </span>
                         <span className="truncate text-muted-foreground text-xs">
                           {summarizeConditionGroup(item.condition, fields)}
@@ -428,9 +505,20 @@ function LogicBuilderPanelContent({
                           {item.action.type}
                         </Badge>
                         <span className="ml-1 truncate text-muted-foreground text-xs">
-                          {fields.find((f) => f.id === item.action.target)
-                            ?.label || item.action.target}
+                          {item.action.type === "jump_to_block"
+                            ? blocks?.find((b) => b.id === item.action.target)
+                                ?.title || item.action.target
+                            : fields.find((f) => f.id === item.action.target)
+                                ?.label || item.action.target}
                         </span>
+                        {ruleIssues.map((issue, i) => (
+                          <span
+                            className={`w-full text-xs ${issue.severity === "error" ? "text-destructive" : "text-amber-600"}`}
+                            key={i}
+                          >
+                            {issue.message}
+                          </span>
+                        ))}
                       </div>
                       <div className="ml-2 flex gap-2">
                         <Button
@@ -518,7 +606,18 @@ function LogicBuilderPanelContent({
             })}
           </div>
         </TabsContent>
+        <TabsContent activeValue={activeTab} value="test">
+          <LogicSimulator
+            blocks={blocks}
+            fields={fields}
+            formId={formId}
+            logic={logic}
+            onTestCasesChange={onLogicTestsChange}
+            testCases={logicTests}
+          />
+        </TabsContent>
         <LogicItemEditor
+          blocks={blocks}
           fields={fields}
           item={editingItem}
           onClose={() => setEditorOpen(false)}
@@ -572,7 +671,11 @@ function LogicBuilderPanelContent({
 function LogicBuilderPanel(props: {
   logic: LogicActionCondition[];
   onLogicChange: (logic: LogicActionCondition[]) => void;
+  logicTests: LogicTestCase[];
+  onLogicTestsChange: (logicTests: LogicTestCase[]) => void;
   fields: FormField[];
+  blocks?: FormBlock[];
+  formId?: string;
 }) {
   return (
     <CollapsibleBottomPanel>
@@ -0,0 +1,364 @@
+import { CheckCircle2, History, Save, Trash, XCircle } from "lucide-react";
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import type { FormBlock, FormField, FormSubmission } from "@/lib/database";
+import { formsDb } from "@/lib/database";
+import {
+  getSimulationSnapshot,
+  type LogicTestCase,
+  runLogicTests,
+  simulateLogic,
+} from "@/lib/forms/logic-simulator";
+import type { LogicActionCondition } from "./types";
+
+const LIST_FIELD_TYPES: FormField["type"][] = ["checkbox", "tags"];
+const NON_INPUT_FIELD_TYPES: FormField["type"][] = ["statement", "calculated"];
+
+const formatAnswer = (value: unknown) =>
+  Array.isArray(value) ? value.join(", ") : value == null ? "" : String(value);
+
+function LogicSimulator({
+  logic,
+  fields,
+  blocks,
+  formId,
+  testCases,
+  onTestCasesChange,
+}: {
+  logic: LogicActionCondition[];
+  fields: FormField[];
+  blocks?: FormBlock[];
+  formId?: string;
+  testCases: LogicTestCase[];
+  onTestCasesChange: (testCases: LogicTestCase[]) => void;
+}) {
+  const [answers, setAnswers] = React.useState<Record<string, unknown>>({});
+  const [caseName, setCaseName] = React.useState("");
+  const [submissions, setSubmissions] = React.useState<FormSubmission[]>([]);
+  const [loadingSubmissions, setLoadingSubmissions] = React.useState(false);
+
+  const updateTestCases = onTestCasesChange;
+
+  const result = React.useMemo(
+    () => simulateLogic(logic, fields, blocks, answers),
+    [logic, fields, blocks, answers],
+  );
+
+  const caseResults = React.useMemo(
+    () => runLogicTests(logic, fields, blocks, testCases),
+    [testCases, logic, fields, blocks],
+  );
+
+  const getFieldLabel = (fieldId?: string) =>
+    fields.find((f) => f.id === fieldId)?.label || fieldId || "form";
+
+  const describeRule = (ruleId: string) => {
+    const index = logic.findIndex((item) => item.id === ruleId);
+    const action = logic[index]?.action;
+    if (!action) return ruleId;
+    const target =
+      action.type === "jump_to_block"
+        ? blocks?.find((b) => b.id === action.target)?.title || action.target
+        : action.type === "end_form"
+          ? ""
+          : getFieldLabel(action.target);
+    return `#${index + 1} ${action.type} ${target}`.trim();
+  };
+
+  const handleAnswerChange = (field: FormField, raw: string) => {
+    const value = LIST_FIELD_TYPES.includes(field.type)
+      ? raw
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : raw;
+    setAnswers((prev) => ({ ...prev, [field.id]: value }));
+  };
+
+  const handleLoadSubmissions = async () => {
+    if (!formId) return;
+    setLoadingSubmissions(true);
+    try {
+      setSubmissions(await formsDb.getFormSubmissions(formId, 20));
+    } catch {
+      toast.error("Failed to load past submissions.");
+    } finally {
+      setLoadingSubmissions(false);
+    }
+  };
+
+  const handlePickSubmission = (submissionId: string) => {
+    const submission = submissions.find((s) => s.id === submissionId);
+    if (submission) setAnswers({ ...submission.submission_data });
+  };
+
+  const handleSaveCase = () => {
+    const newCase: LogicTestCase = {
+      id: `test-${Date.now()}`,
+      name: caseName.trim() || `Test case ${testCases.length + 1}`,
+      answers,
+      expected: getSimulationSnapshot(result),
+    };
+    updateTestCases([...testCases, newCase]);
+    setCaseName("");
+  };
+
+  const handleAcceptCase = (id: string) => {
+    const current = caseResults.find((c) => c.testCase.id === id);
+    if (!current) return;
+    updateTestCases(
+      testCases.map((c) =>
+        c.id === id ? { ...c, expected: current.snapshot } : c,
+      ),
+    );
+  };
+
+  const handleDeleteCase = (id: string) => {
+    updateTestCases(testCases.filter((c) => c.id !== id));
+  };
+
+  const changedValues = fields.filter(
+    (f) =>
+      formatAnswer(result.values[f.id]) !== formatAnswer(answers[f.id]) &&
+      formatAnswer(result.values[f.id]) !== "",
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-4 lg:flex-row">
+        <Card className="flex flex-1 flex-col gap-3 p-4">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-semibold text-sm">Sample answers</h3>
+            <div className="flex gap-2">
+              {formId &&
+                (submissions.length > 0 ? (
+                  <Select onValueChange={handlePickSubmission}>
+                    <SelectTrigger className="w-44" size="sm">
+                      <SelectValue placeholder="Pick a submission" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {submissions.map((s) => (
+                        <SelectItem key={s.id} value={s.id}>
+                          {new Date(s.submitted_at).toLocaleString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Button
+                    loading={loadingSubmissions}
+                    onClick={handleLoadSubmissions}
+                    size="sm"
+                    variant="outline"
+                  >
+                    {!loadingSubmissions && <History className="h-4 w-4" />}
+                    Use a submission
+                  </Button>
+                ))}
+              <Button onClick={() => setAnswers({})} size="sm" variant="ghost">
+                Clear
+              </Button>
+            </div>
+          </div>
+          {fields
+            .filter((f) => !NON_INPUT_FIELD_TYPES.includes(f.type))
+            .map((field) => (
+              <div className="flex items-center gap-2" key={field.id}>
+                <span className="w-40 truncate text-sm">{field.label}</span>
+                <Input
+                  className="h-8 flex-1"
+                  onChange={(e) => handleAnswerChange(field, e.target.value)}
+                  placeholder={
+                    LIST_FIELD_TYPES.includes(field.type)
+                      ? "Comma-separated values"
+                      : field.type
+                  }
+                  value={formatAnswer(answers[field.id])}
+                />
+              </div>
+            ))}
+        </Card>
+
+        <Card className="flex flex-1 flex-col gap-3 p-4">
+          <h3 className="font-semibold text-sm">Result</h3>
+          <div className="flex flex-col gap-1">
+            <span className="font-medium text-muted-foreground text-xs">
+              Rules that fire
+            </span>
+            {result.firedRuleIds.length === 0 ? (
+              <span className="text-muted-foreground text-xs">None</span>
+            ) : (
+              <div className="flex flex-wrap gap-1">
+                {result.firedRuleIds.map((id) => (
+                  <Badge key={id} size="sm" variant="secondary">
+                    {describeRule(id)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="font-medium text-muted-foreground text-xs">
+              Fields
+            </span>
+            {fields.map((field) => {
+              const state = result.fieldStates[field.id];
+              if (
+                !state ||
+                (state.visible && !state.disabled && state.required == null)
+              ) {
+                return null;
+              }
+              return (
+                <div className="flex items-center gap-2 text-xs" key={field.id}>
+                  <span className="truncate">{field.label}</span>
+                  {!state.visible && (
+                    <Badge size="sm" variant="destructive">
+                      hidden
+                    </Badge>
+                  )}
+                  {state.disabled && (
+                    <Badge size="sm" variant="outline">
+                      disabled
+                    </Badge>
+                  )}
+                  {state.required != null && (
+                    <Badge size="sm" variant="outline">
+                      {state.required ? "required" : "optional"}
+                    </Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {changedValues.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <span className="font-medium text-muted-foreground text-xs">
+                Computed values
+              </span>
+              {changedValues.map((field) => (
+                <span className="text-xs" key={field.id}>
+                  {field.label}: {formatAnswer(result.values[field.id])}
+                </span>
+              ))}
+            </div>
+          )}
+          {(result.messages.messages.length > 0 ||
+            Object.keys(result.messages.fieldMessages).length > 0) && (
+            <div className="flex flex-col gap-1">
+              <span className="font-medium text-muted-foreground text-xs">
+                Messages
+              </span>
+              {result.messages.messages.map((msg, i) => (
+                <span className="text-xs" key={i}>
+                  {msg}
+                </span>
+              ))}
+              {Object.entries(result.messages.fieldMessages).map(
+                ([fieldId, msgs]) =>
+                  msgs.map((msg, i) => (
+                    <span className="text-xs" key={`${fieldId}-${i}`}>
+                      {getFieldLabel(fieldId)}: {msg}
+                    </span>
+                  )),
+              )}
+            </div>
+          )}
+          {result.path.length > 0 && (
+            <div className="flex flex-col gap-1">
+              <span className="font-medium text-muted-foreground text-xs">
+                Step path
+              </span>
+              <span className="text-xs">
+                {result.path
+                  .map((index) => blocks?.[index]?.title || `Step ${index + 1}`)
+                  .join(" → ")}{" "}
+                → Submit
+              </span>
+            </div>
+          )}
+          <div className="mt-auto flex gap-2 border-t pt-3">
+            <Input
+              className="h-8 flex-1"
+              onChange={(e) => setCaseName(e.target.value)}
+              placeholder="Test case name"
+              value={caseName}
+            />
+            <Button onClick={handleSaveCase} size="sm">
+              <Save className="h-4 w-4" />
+              Save as test case
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      {caseResults.length > 0 && (
+        <Card className="flex flex-col gap-2 p-4">
+          <div className="flex flex-col gap-1">
+            <h3 className="font-semibold text-sm">Saved test cases</h3>
+            <p className="text-muted-foreground text-xs">
+              Saved with the form. Publishing is blocked while a case fails.
+            </p>
+          </div>
+          {caseResults.map(({ testCase, changes }) => (
+            <div
+              className="flex flex-wrap items-center gap-2 text-sm"
+              key={testCase.id}
+            >
+              {changes.length === 0 ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              ) : (
+                <XCircle className="h-4 w-4 text-destructive" />
+              )}
+              <span className="font-medium">{testCase.name}</span>
+              {changes.length > 0 && (
+                <span className="text-destructive text-xs">
+                  Changed: {changes.join(", ")}
+                </span>
+              )}
+              <div className="ml-auto flex gap-1">
+                <Button
+                  onClick={() => setAnswers(testCase.answers)}
+                  size="sm"
+                  variant="ghost"
+                >
+                  Load
+                </Button>
+                {changes.length > 0 && (
+                  <Button
+                    onClick={() => handleAcceptCase(testCase.id)}
+                    size="sm"
+                    variant="ghost"
+                  >
+                    Accept new result
+                  </Button>
+                )}
+                <Button
+                  aria-label="Delete test case"
+                  onClick={() => handleDeleteCase(testCase.id)}
+                  size="icon"
+                  variant="ghost"
+                >
+                  <Trash />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export { LogicSimulator };
@@ -1,3 +1,5 @@
+import type { FormField } from "@/lib/database";
+
 export type LogicOperator =
   | "equals"
   | "not_equals"
@@ -7,13 +9,25 @@ export type LogicOperator =
   | "not_contains"
   | "is_empty"
   | "is_not_empty"
-  | "includes";
+  | "includes"
+  | "equals_ignore_case"
+  | "starts_with"
+  | "ends_with"
+  | "matches_regex"
+  | "length_greater_than"
+  | "between"
+  | "before_date"
+  | "after_date"
+  | "within_last_days";
 
 export type LogicCondition = {
   id: string;
   field: string;
   operator: LogicOperator;
+  /** `between` stores `[min, max]`; either bound may be empty. */
   value?: any;
+  /** Type of the referenced field, used to compare answers by type. */
+  fieldType?: FormField["type"];
 };
 
 export type LogicConditionGroup = {
@@ -28,7 +42,11 @@ export type LogicActionType =
   | "enable"
   | "disable"
   | "set_value"
-  | "show_message";
+  | "show_message"
+  | "jump_to_block"
+  | "end_form"
+  | "require"
+  | "unrequire";
 
 export type LogicAction = {
   id: string;
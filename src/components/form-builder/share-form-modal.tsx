@@ -25,6 +25,7 @@ import {
 import { Tabs, TabsContent } from "@/components/ui/tabs";
 
 import { toast } from "@/hooks/use-toast";
+import { LogicPublishError } from "@/lib/forms/logic-lint";
 
 interface ShareFormModalProps {
   isOpen: boolean;
@@ -172,6 +173,11 @@ export function ShareFormModal({
       await onPublish();
     } catch (error) {
       console.error("Failed to publish form:", error);
+      toast.error(
+        error instanceof LogicPublishError
+          ? error.message
+          : "Failed to publish form",
+      );
     } finally {
       setPublishing(false);
     }
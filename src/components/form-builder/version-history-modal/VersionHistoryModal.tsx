@@ -0,0 +1,170 @@
+"use client";
+
+import { RotateCcw } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Modal,
+  ModalContent,
+  ModalDescription,
+  ModalHeader,
+  ModalTitle,
+} from "@/components/ui/modal";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "@/hooks/use-toast";
+import type { FormSchema, FormVersion } from "@/lib/database";
+import { formsDb } from "@/lib/database";
+import { diffFormSchemas } from "@/lib/forms/schema-diff";
+import { Loader } from "../../ui/loader";
+
+import { VersionDiff, VersionTimeline } from "./components";
+
+interface VersionHistoryModalProps {
+  formId?: string;
+  isOpen: boolean;
+  currentSchema: FormSchema;
+  onClose: () => void;
+  onRestore: (version: FormVersion) => Promise<void>;
+}
+
+type CompareMode = "previous" | "current";
+
+export function VersionHistoryModal({
+  formId,
+  isOpen,
+  currentSchema,
+  onClose,
+  onRestore,
+}: VersionHistoryModalProps) {
+  const [versions, setVersions] = useState<FormVersion[]>([]);
+  const [currentVersionId, setCurrentVersionId] = useState<string | null>(null);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(
+    null,
+  );
+  const [compareMode, setCompareMode] = useState<CompareMode>("previous");
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!(isOpen && formId)) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    Promise.all([formsDb.getFormVersions(formId), formsDb.getForm(formId)])
+      .then(([loadedVersions, form]) => {
+        if (cancelled) return;
+        setVersions(loadedVersions);
+        setCurrentVersionId(form.current_version_id ?? null);
+        setSelectedVersionId(loadedVersions[0]?.id ?? null);
+      })
+      .catch(() => toast.error("Failed to load version history."))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, formId]);
+
+  const selectedIndex = versions.findIndex((v) => v.id === selectedVersionId);
+  const selectedVersion = selectedIndex >= 0 ? versions[selectedIndex] : null;
+
+  const diff = useMemo(() => {
+    if (!selectedVersion) return null;
+    if (compareMode === "current") {
+      return diffFormSchemas(selectedVersion.schema, currentSchema);
+    }
+    const previousVersion = versions[selectedIndex + 1];
+    return diffFormSchemas(
+      previousVersion?.schema ?? null,
+      selectedVersion.schema,
+    );
+  }, [selectedVersion, selectedIndex, versions, compareMode, currentSchema]);
+
+  const handleRestore = async () => {
+    if (!selectedVersion) return;
+    setRestoring(true);
+    try {
+      await onRestore(selectedVersion);
+      onClose();
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <Modal onOpenChange={onClose} open={isOpen}>
+      <ModalContent className="flex h-[80vh] max-w-4xl flex-col gap-4">
+        <ModalHeader>
+          <ModalTitle>Version History</ModalTitle>
+          <ModalDescription>
+            Every save and publish creates a version you can compare and
+            restore.
+          </ModalDescription>
+        </ModalHeader>
+
+        {loading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader />
+          </div>
+        ) : (
+          <div className="flex min-h-0 flex-1 flex-col gap-4 md:flex-row">
+            <ScrollArea className="h-48 rounded-ele border p-2 md:h-full md:w-72">
+              <VersionTimeline
+                currentVersionId={currentVersionId}
+                onSelect={setSelectedVersionId}
+                selectedVersionId={selectedVersionId}
+                versions={versions}
+              />
+            </ScrollArea>
+
+            <div className="flex min-h-0 flex-1 flex-col gap-3">
+              {selectedVersion && diff && (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={() => setCompareMode("previous")}
+                        size="sm"
+                        variant={
+                          compareMode === "previous" ? "default" : "secondary"
+                        }
+                      >
+                        Changes in this version
+                      </Button>
+                      <Button
+                        onClick={() => setCompareMode("current")}
+                        size="sm"
+                        variant={
+                          compareMode === "current" ? "default" : "secondary"
+                        }
+                      >
+                        Compare with editor
+                      </Button>
+                    </div>
+                    <Button
+                      disabled={restoring}
+                      loading={restoring}
+                      onClick={handleRestore}
+                      size="sm"
+                      variant="outline"
+                    >
+                      {!restoring && <RotateCcw className="h-4 w-4" />}
+                      Restore version {selectedVersion.version_number}
+                    </Button>
+                  </div>
+                  <ScrollArea className="min-h-0 flex-1 rounded-ele border p-4">
+                    <VersionDiff diff={diff} />
+                  </ScrollArea>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
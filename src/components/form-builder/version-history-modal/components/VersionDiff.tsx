@@ -0,0 +1,141 @@
+"use client";
+
+import { Minus, Pencil, Plus } from "lucide-react";
+import type React from "react";
+import { Badge } from "@/components/ui/badge";
+import type { FormSchemaDiff, SchemaChangeKind } from "@/lib/forms/schema-diff";
+
+interface VersionDiffProps {
+  diff: FormSchemaDiff;
+}
+
+const KIND_ICONS: Record<SchemaChangeKind, typeof Plus> = {
+  added: Plus,
+  removed: Minus,
+  changed: Pencil,
+};
+
+const KIND_VARIANTS: Record<
+  SchemaChangeKind,
+  "default" | "destructive" | "secondary"
+> = {
+  added: "default",
+  removed: "destructive",
+  changed: "secondary",
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "object") return "updated";
+  return String(value);
+};
+
+function DiffRow({
+  kind,
+  title,
+  detail,
+}: {
+  kind: SchemaChangeKind;
+  title: string;
+  detail?: string;
+}) {
+  const Icon = KIND_ICONS[kind];
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      <Badge icon={Icon} size="sm" variant={KIND_VARIANTS[kind]}>
+        {kind}
+      </Badge>
+      <div className="flex min-w-0 flex-col">
+        <span className="truncate font-medium">{title}</span>
+        {detail && (
+          <span className="text-muted-foreground text-xs">{detail}</span>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function DiffSection({
+  title,
+  children,
+  count,
+}: {
+  title: string;
+  children: React.ReactNode;
+  count: number;
+}) {
+  if (count === 0) return null;
+  return (
+    <div className="flex flex-col gap-2">
+      <h4 className="font-medium text-muted-foreground text-xs uppercase">
+        {title} ({count})
+      </h4>
+      <ul className="flex flex-col gap-2">{children}</ul>
+    </div>
+  );
+}
+
+export function VersionDiff({ diff }: VersionDiffProps) {
+  if (!diff.hasChanges) {
+    return (
+      <p className="py-8 text-center text-muted-foreground text-sm">
+        No changes between these versions.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <DiffSection count={diff.fields.length} title="Fields">
+        {diff.fields.map((field) => (
+          <DiffRow
+            detail={
+              field.properties.length > 0
+                ? `Changed: ${field.properties.join(", ")}`
+                : undefined
+            }
+            key={`${field.kind}-${field.id}`}
+            kind={field.kind}
+            title={field.label}
+          />
+        ))}
+      </DiffSection>
+
+      <DiffSection count={diff.blocks.length} title="Steps">
+        {diff.blocks.map((block) => (
+          <DiffRow
+            detail={
+              block.properties.length > 0
+                ? `Changed: ${block.properties.join(", ")}`
+                : undefined
+            }
+            key={`${block.kind}-${block.id}`}
+            kind={block.kind}
+            title={block.title}
+          />
+        ))}
+      </DiffSection>
+
+      <DiffSection count={diff.settings.length} title="Settings">
+        {diff.settings.map((setting) => (
+          <DiffRow
+            detail={`${formatValue(setting.before)} → ${formatValue(setting.after)}`}
+            key={setting.key}
+            kind="changed"
+            title={setting.key}
+          />
+        ))}
+      </DiffSection>
+
+      <DiffSection count={diff.logic.length} title="Logic rules">
+        {diff.logic.map((rule) => (
+          <DiffRow
+            key={`${rule.kind}-${rule.id}`}
+            kind={rule.kind}
+            title={rule.id}
+          />
+        ))}
+      </DiffSection>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { Globe, History, RotateCcw, Save } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { FormVersion, FormVersionKind } from "@/lib/database";
+import { cn } from "@/lib/utils";
+
+interface VersionTimelineProps {
+  versions: FormVersion[];
+  selectedVersionId: string | null;
+  currentVersionId?: string | null;
+  onSelect: (versionId: string) => void;
+}
+
+const KIND_LABELS: Record<FormVersionKind, string> = {
+  save: "Saved",
+  publish: "Published",
+  restore: "Restored",
+};
+
+const KIND_ICONS: Record<FormVersionKind, typeof Save> = {
+  save: Save,
+  publish: Globe,
+  restore: RotateCcw,
+};
+
+export function VersionTimeline({
+  versions,
+  selectedVersionId,
+  currentVersionId,
+  onSelect,
+}: VersionTimelineProps) {
+  if (versions.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground text-sm">
+        <History className="h-6 w-6" />
+        No versions yet. Save the form to create the first version.
+      </div>
+    );
+  }
+
+  return (
+    <ol className="flex flex-col gap-1">
+      {versions.map((version) => {
+        const Icon = KIND_ICONS[version.kind] || Save;
+        const isSelected = version.id === selectedVersionId;
+        return (
+          <li key={version.id}>
+            <button
+              className={cn(
+                "flex w-full items-center gap-3 rounded-ele border border-transparent px-3 py-2 text-left transition-colors hover:bg-accent",
+                isSelected && "border-border bg-accent",
+              )}
+              onClick={() => onSelect(version.id)}
+              type="button"
+            >
+              <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="flex min-w-0 flex-1 flex-col">
+                <span className="font-medium text-sm">
+                  Version {version.version_number}
+                </span>
+                <span className="text-muted-foreground text-xs">
+                  {KIND_LABELS[version.kind] || version.kind} ·{" "}
+                  {new Date(version.created_at).toLocaleString()}
+                </span>
+              </div>
+              {version.id === currentVersionId && (
+                <Badge size="sm" variant="outline">
+                  Live
+                </Badge>
+              )}
+            </button>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,2 @@
+export { VersionDiff } from "./VersionDiff";
+export { VersionTimeline } from "./VersionTimeline";
@@ -0,0 +1,2 @@
+export { VersionDiff, VersionTimeline } from "./components";
+export { VersionHistoryModal } from "./VersionHistoryModal";
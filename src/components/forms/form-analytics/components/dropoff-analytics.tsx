@@ -1,13 +1,12 @@
 import { AlertTriangle } from "lucide-react";
 import type React from "react";
 import { Card } from "@/components/ui/card";
-import type { Form, FormSubmission } from "@/lib/database";
+import type { Form, FormSubmission, PartialSubmission } from "@/lib/database";
 
-function getDropoffCounts(form: Form, submissions: FormSubmission[]) {
+function getCompletedReachCounts(form: Form, submissions: FormSubmission[]) {
   const blocks = form.schema.blocks || [];
-  const blockIds = blocks.map((block) => block.id);
-  const dropoffCounts: Record<string, number> = {};
-  blockIds.forEach((id) => (dropoffCounts[id] = 0));
+  const reachCounts: Record<string, number> = {};
+  blocks.forEach((block) => (reachCounts[block.id] = 0));
 
   submissions.forEach((sub) => {
     let reached = false;
@@ -19,26 +18,43 @@ function getDropoffCounts(form: Form, submissions: FormSubmission[]) {
           sub.submission_data[f.id] !== "",
       );
       if (hasAny) {
-        dropoffCounts[block.id]++;
+        reachCounts[block.id]++;
         reached = true;
       } else if (reached) {
         break;
       }
     }
   });
-  return dropoffCounts;
+  return reachCounts;
+}
+
+// Each incomplete response stopped after the last field it changed.
+function getFieldAbandonment(partialSubmissions: PartialSubmission[]) {
+  const counts: Record<string, number> = {};
+  partialSubmissions.forEach((partial) => {
+    if (partial.last_field_id) {
+      counts[partial.last_field_id] = (counts[partial.last_field_id] || 0) + 1;
+    }
+  });
+  return Object.entries(counts).sort(([, a], [, b]) => b - a);
 }
 
 interface DropoffAnalyticsProps {
   form: Form;
   submissions: FormSubmission[];
+  partialSubmissions: PartialSubmission[];
 }
 
 export const DropoffAnalytics: React.FC<DropoffAnalyticsProps> = ({
   form,
   submissions,
+  partialSubmissions,
 }) => {
-  if (!form.schema?.blocks || form.schema.blocks.length === 0) {
+  const blocks = form.schema.blocks || [];
+  const isMultiStep = blocks.length > 1;
+  const captureEnabled = !!form.schema.settings.partialCapture?.enabled;
+
+  if (!(isMultiStep || captureEnabled || partialSubmissions.length)) {
     return (
       <Card className="flex items-center gap-4 border-border bg-card p-6">
         <div className="rounded-card bg-orange-500/10 p-3">
@@ -49,14 +65,23 @@ export const DropoffAnalytics: React.FC<DropoffAnalyticsProps> = ({
             Drop-off analytics
           </span>
           <span className="text-muted-foreground text-sm">
-            Drop-off analytics are only available for multi-step forms.
+            Turn on partial responses in the form settings to see where
+            respondents stop.
           </span>
         </div>
       </Card>
     );
   }
-  const dropoffCounts = getDropoffCounts(form, submissions);
-  const total = submissions.length;
+
+  const completedReach = getCompletedReachCounts(form, submissions);
+  const fieldAbandonment = getFieldAbandonment(partialSubmissions);
+  const allFields = [
+    ...(form.schema.fields || []),
+    ...blocks.flatMap((block) => block.fields || []),
+  ];
+  const getFieldLabel = (fieldId: string) =>
+    allFields.find((field) => field.id === fieldId)?.label || fieldId;
+
   return (
     <Card className="flex flex-col gap-4 border-border bg-card p-6">
       <div className="mb-2 flex items-center gap-4">
@@ -72,38 +97,88 @@ export const DropoffAnalytics: React.FC<DropoffAnalyticsProps> = ({
           </span>
         </div>
       </div>
-      <div className="overflow-x-auto">
-        <table className="min-w-full border-collapse text-sm">
-          <thead>
-            <tr>
-              <th className="px-3 py-2 text-left font-semibold">Step</th>
-              <th className="px-3 py-2 text-left font-semibold">Reached</th>
-              <th className="px-3 py-2 text-left font-semibold">Drop-off %</th>
-            </tr>
-          </thead>
-          <tbody>
-            {form.schema.blocks.map((block: any, idx: number) => {
-              const reached = dropoffCounts[block.id] || 0;
-              const dropoff =
-                total > 0 ? 100 - Math.round((reached / total) * 100) : 0;
-              return (
+      {isMultiStep && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse text-sm">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold">Step</th>
+                <th className="px-3 py-2 text-left font-semibold">Reached</th>
+                <th className="px-3 py-2 text-left font-semibold">Abandoned</th>
+                <th className="px-3 py-2 text-left font-semibold">
+                  Drop-off %
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {blocks.map((block, idx) => {
+                const abandoned = partialSubmissions.filter(
+                  (partial) => partial.current_step === idx,
+                ).length;
+                const reached =
+                  (completedReach[block.id] || 0) +
+                  partialSubmissions.filter(
+                    (partial) => partial.current_step >= idx,
+                  ).length;
+                const dropoff =
+                  reached > 0 ? Math.round((abandoned / reached) * 100) : 0;
+                return (
+                  <tr
+                    className="border-border border-b last:border-0"
+                    key={block.id}
+                  >
+                    <td className="px-3 py-2 font-medium text-foreground">
+                      {block.title ? block.title : `Step ${idx + 1}`}
+                    </td>
+                    <td className="px-3 py-2">{reached}</td>
+                    <td className="px-3 py-2">{abandoned}</td>
+                    <td className="px-3 py-2">{dropoff}%</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {fieldAbandonment.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full border-collapse text-sm">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold">
+                  Last answered field
+                </th>
+                <th className="px-3 py-2 text-left font-semibold">
+                  Stopped here
+                </th>
+                <th className="px-3 py-2 text-left font-semibold">
+                  Share of incomplete
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {fieldAbandonment.map(([fieldId, count]) => (
                 <tr
                   className="border-border border-b last:border-0"
-                  key={block.id}
+                  key={fieldId}
                 >
                   <td className="px-3 py-2 font-medium text-foreground">
-                    {block.label ? block.label : `Step ${idx + 1}`}
+                    {getFieldLabel(fieldId)}
+                  </td>
+                  <td className="px-3 py-2">{count}</td>
+                  <td className="px-3 py-2">
+                    {Math.round((count / partialSubmissions.length) * 100)}%
                   </td>
-                  <td className="px-3 py-2">{reached}</td>
-                  <td className="px-3 py-2">{dropoff}%</td>
                 </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
       <div className="text-muted-foreground text-xs">
-        Drop-off % shows the percentage of users who did not reach each step.
+        {captureEnabled || partialSubmissions.length
+          ? "Abandoned counts come from incomplete responses captured while respondents fill out the form. Drop-off % is the share of respondents reaching a step who left there."
+          : "Turn on partial responses in the form settings to count the respondents who leave at each step."}
       </div>
     </Card>
   );
@@ -0,0 +1,146 @@
+import { Eye, Hourglass, Trash2 } from "lucide-react";
+import type React from "react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { DataTable, type DataTableColumn } from "@/components/ui/table";
+import type { Form, PartialSubmission } from "@/lib/database";
+
+interface IncompleteResponsesProps {
+  form: Form;
+  partialSubmissions: PartialSubmission[];
+  loading: boolean;
+  getFieldLabel: (fieldId: string) => string;
+  formatDate: (dateString: string) => string;
+  onDelete: (partialId: string) => void;
+}
+
+const formatAnswer = (value: unknown) =>
+  Array.isArray(value)
+    ? value.join(", ")
+    : typeof value === "object" && value !== null
+      ? JSON.stringify(value)
+      : String(value);
+
+export const IncompleteResponses: React.FC<IncompleteResponsesProps> = ({
+  form,
+  partialSubmissions,
+  loading,
+  getFieldLabel,
+  formatDate,
+  onDelete,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = partialSubmissions.find(
+    (partial) => partial.id === selectedId,
+  );
+  const isMultiStep = (form.schema.blocks?.length || 0) > 1;
+
+  if (
+    !form.schema.settings.partialCapture?.enabled &&
+    !partialSubmissions.length
+  ) {
+    return null;
+  }
+
+  const stepColumn: DataTableColumn<PartialSubmission> = {
+    key: "current_step",
+    header: "Step",
+    render: (value) =>
+      form.schema.blocks?.[value]?.title || `Step ${value + 1}`,
+  };
+
+  const columns: DataTableColumn<PartialSubmission>[] = [
+    {
+      key: "updated_at",
+      header: "Last Activity",
+      render: (value) => formatDate(value),
+    },
+    ...(isMultiStep ? [stepColumn] : []),
+    {
+      key: "partial_data",
+      header: "Answers",
+      render: (value) => (
+        <Badge variant="outline">{Object.keys(value).length} fields</Badge>
+      ),
+    },
+    {
+      key: "last_field_id",
+      header: "Stopped After",
+      render: (value) => (value ? getFieldLabel(value) : "—"),
+    },
+    {
+      key: "id",
+      header: "",
+      render: (value) => (
+        <div className="flex justify-end gap-2">
+          <Button
+            onClick={() => setSelectedId(selectedId === value ? null : value)}
+            size="sm"
+            variant="ghost"
+          >
+            <Eye className="h-4 w-4" />
+            {selectedId === value ? "Hide" : "View"}
+          </Button>
+          <Button
+            aria-label="Delete incomplete response"
+            onClick={() => onDelete(value)}
+            size="sm"
+            variant="ghost"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Card className="flex flex-col gap-4 border-border bg-card p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="rounded-card bg-primary/10 p-2">
+            <Hourglass className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-foreground text-xl">
+              Incomplete Responses
+            </h3>
+            <p className="text-muted-foreground text-sm">
+              Respondents who started the form and stopped for 30 minutes or
+              more without submitting it
+            </p>
+          </div>
+        </div>
+        <Badge className="text-xs" variant="secondary">
+          {partialSubmissions.length} incomplete
+        </Badge>
+      </div>
+      <DataTable
+        columns={columns}
+        data={partialSubmissions}
+        emptyMessage="No incomplete responses yet"
+        itemsPerPage={10}
+        loading={loading}
+        searchable={false}
+        size="sm"
+        variant="bordered"
+      />
+      {selected && (
+        <div className="grid grid-cols-1 gap-4 rounded-card border border-border p-4 sm:grid-cols-2 lg:grid-cols-3">
+          {Object.entries(selected.partial_data).map(([fieldId, value]) => (
+            <div className="flex flex-col gap-1" key={fieldId}>
+              <span className="font-medium text-muted-foreground text-xs uppercase tracking-wider">
+                {getFieldLabel(fieldId)}
+              </span>
+              <span className="text-foreground text-sm">
+                {formatAnswer(value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
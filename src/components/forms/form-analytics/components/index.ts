@@ -1,9 +1,12 @@
 export { ChatInterface } from "./chat-interface";
 export { ChatModal } from "./chat-modal";
 export { FloatingChatButton } from "./floating-chat-button";
+export { IncompleteResponses } from "./incomplete-responses";
 export { InfoCards } from "./info-cards";
+export { MatrixAnalyticsCard } from "./matrix-analytics-card";
 export { QuizAnalyticsCard } from "./quiz-analytics-card";
-export { AnalyticsCards, OverviewStats } from "./stats-cards";
+export { RankingAnalyticsCard } from "./ranking-analytics-card";
+export { AnalyticsCards, NpsStats, OverviewStats } from "./stats-cards";
 export { SubmissionDetailsModal } from "./submission-details-modal";
 export { SubmissionsList } from "./submissions-list";
 export { TrendsChart } from "./TrendsChart";
@@ -0,0 +1,100 @@
+import { Grid3x3 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { Form } from "@/lib/database";
+import type { FieldAnalytics } from "../types";
+
+interface MatrixAnalyticsCardProps {
+  form: Form;
+  fieldAnalytics: Record<string, FieldAnalytics>;
+}
+
+export function MatrixAnalyticsCard({
+  form,
+  fieldAnalytics,
+}: MatrixAnalyticsCardProps) {
+  const matrixFields = [
+    ...(form.schema.fields || []),
+    ...(form.schema.blocks?.flatMap((block) => block.fields || []) || []),
+  ].filter(
+    (field) =>
+      field.type === "matrix" && fieldAnalytics[field.id]?.rowDistributions,
+  );
+
+  if (matrixFields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {matrixFields.map((field) => {
+        const columns = field.settings?.matrixColumns || [];
+        const rows = fieldAnalytics[field.id].rowDistributions || [];
+        return (
+          <Card className="flex flex-col gap-4 p-6" key={field.id}>
+            <div className="flex items-center gap-3">
+              <div className="rounded-card bg-primary/10 p-2">
+                <Grid3x3 className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-foreground text-lg">
+                  {field.label}
+                </h3>
+                <p className="text-muted-foreground text-sm">Answers per row</p>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground text-xs">
+                    <th className="py-2 pr-4 text-left font-medium">Row</th>
+                    {columns.map((column) => (
+                      <th
+                        className="px-2 py-2 text-center font-medium"
+                        key={column}
+                      >
+                        {column}
+                      </th>
+                    ))}
+                    <th className="py-2 pl-2 text-right font-medium">
+                      Responses
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr className="border-b last:border-0" key={row.rowId}>
+                      <td className="py-2 pr-4">{row.label}</td>
+                      {columns.map((column) => {
+                        const count = row.counts[column] || 0;
+                        const percent = row.totalResponses
+                          ? Math.round((count / row.totalResponses) * 100)
+                          : 0;
+                        return (
+                          <td className="px-2 py-2 text-center" key={column}>
+                            <div
+                              className="relative overflow-hidden rounded-ele bg-muted py-1"
+                              title={`${count} response${count !== 1 ? "s" : ""}`}
+                            >
+                              <div
+                                className="absolute inset-y-0 left-0 bg-primary/20"
+                                style={{ width: `${percent}%` }}
+                              />
+                              <span className="relative">{percent}%</span>
+                            </div>
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 pl-2 text-right text-muted-foreground">
+                        {row.totalResponses}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { ListOrdered } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { Form } from "@/lib/database";
+import type { FieldAnalytics } from "../types";
+
+interface RankingAnalyticsCardProps {
+  form: Form;
+  fieldAnalytics: Record<string, FieldAnalytics>;
+}
+
+export function RankingAnalyticsCard({
+  form,
+  fieldAnalytics,
+}: RankingAnalyticsCardProps) {
+  const rankingFields = [
+    ...(form.schema.fields || []),
+    ...(form.schema.blocks?.flatMap((block) => block.fields || []) || []),
+  ].filter(
+    (field) =>
+      field.type === "ranking" && fieldAnalytics[field.id]?.optionRankings,
+  );
+
+  if (rankingFields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {rankingFields.map((field) => {
+        const rankings = fieldAnalytics[field.id].optionRankings || [];
+        const topScore = Math.max(...rankings.map((r) => r.bordaScore), 1);
+        return (
+          <Card className="flex flex-col gap-4 p-6" key={field.id}>
+            <div className="flex items-center gap-3">
+              <div className="rounded-card bg-primary/10 p-2">
+                <ListOrdered className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-foreground text-lg">
+                  {field.label}
+                </h3>
+                <p className="text-muted-foreground text-sm">
+                  Options ordered by Borda score
+                </p>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground text-xs">
+                    <th className="py-2 pr-4 text-left font-medium">Option</th>
+                    <th className="px-2 py-2 text-left font-medium">
+                      Borda score
+                    </th>
+                    <th className="px-2 py-2 text-right font-medium">
+                      Average rank
+                    </th>
+                    <th className="py-2 pl-2 text-right font-medium">
+                      Times ranked
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rankings.map((ranking) => (
+                    <tr className="border-b last:border-0" key={ranking.option}>
+                      <td className="py-2 pr-4">{ranking.label}</td>
+                      <td className="w-1/3 px-2 py-2">
+                        <div className="relative overflow-hidden rounded-ele bg-muted px-2 py-1">
+                          <div
+                            className="absolute inset-y-0 left-0 bg-primary/20"
+                            style={{
+                              width: `${(ranking.bordaScore / topScore) * 100}%`,
+                            }}
+                          />
+                          <span className="relative">{ranking.bordaScore}</span>
+                        </div>
+                      </td>
+                      <td className="px-2 py-2 text-right">
+                        {ranking.averageRank ?? "—"}
+                      </td>
+                      <td className="py-2 pl-2 text-right text-muted-foreground">
+                        {ranking.timesRanked}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
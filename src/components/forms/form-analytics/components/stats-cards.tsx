@@ -2,6 +2,7 @@ import {
   Activity,
   Clock,
   FileText,
+  Gauge,
   PieChart,
   Target,
   TrendingUp,
@@ -9,6 +10,14 @@ import {
   Zap,
 } from "lucide-react";
 import type React from "react";
+import {
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
 
 import { Card } from "@/components/ui/card";
 
@@ -132,3 +141,109 @@ export const AnalyticsCards: React.FC<AnalyticsCardsProps> = ({ data }) => {
     </div>
   );
 };
+
+const NPS_SEGMENTS = [
+  { key: "promoters", label: "Promoters", className: "bg-green-500" },
+  { key: "passives", label: "Passives", className: "bg-yellow-400" },
+  { key: "detractors", label: "Detractors", className: "bg-red-500" },
+] as const;
+
+export const NpsStats: React.FC<AnalyticsCardsProps> = ({ data }) => {
+  const npsFields = Object.entries(data.fieldAnalytics).filter(
+    ([, field]) => field.nps && field.totalResponses > 0,
+  );
+
+  if (npsFields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {npsFields.map(([fieldId, field]) => {
+        const nps = field.nps!;
+        const total = nps.promoters + nps.passives + nps.detractors;
+        const trend = Object.entries(nps.trend).map(([date, score]) => ({
+          date,
+          score,
+        }));
+
+        return (
+          <Card
+            className="flex flex-col gap-4 border-border bg-card p-6"
+            key={fieldId}
+          >
+            <div className="flex items-center gap-4">
+              <div className="rounded-card bg-primary/10 p-3">
+                <Gauge className="h-6 w-6 text-primary" />
+              </div>
+              <div className="flex flex-1 flex-col gap-1">
+                <p className="font-medium text-muted-foreground text-sm">
+                  {field.label}
+                </p>
+                <p className="font-bold text-2xl text-foreground">
+                  NPS {nps.score > 0 ? `+${nps.score}` : nps.score}
+                </p>
+              </div>
+              <p className="text-muted-foreground text-sm">
+                {total} response{total !== 1 ? "s" : ""}
+              </p>
+            </div>
+            <div className="flex h-3 overflow-hidden rounded-full bg-muted">
+              {NPS_SEGMENTS.map((segment) => (
+                <div
+                  className={segment.className}
+                  key={segment.key}
+                  style={{ width: `${(nps[segment.key] / total) * 100}%` }}
+                />
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              {NPS_SEGMENTS.map((segment) => (
+                <div className="flex items-center gap-2" key={segment.key}>
+                  <span
+                    className={`h-2 w-2 rounded-full ${segment.className}`}
+                  />
+                  <span className="text-muted-foreground text-sm">
+                    {segment.label}
+                  </span>
+                  <span className="font-medium text-foreground text-sm">
+                    {nps[segment.key]} (
+                    {Math.round((nps[segment.key] / total) * 100)}%)
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="h-40 w-full">
+              <ResponsiveContainer height="100%" width="100%">
+                <LineChart data={trend}>
+                  <XAxis
+                    axisLine={false}
+                    dataKey="date"
+                    tick={{
+                      fontSize: 12,
+                      fill: "hsl(var(--hu-muted-foreground))",
+                    }}
+                    tickLine={false}
+                  />
+                  <YAxis domain={[-100, 100]} hide />
+                  <Tooltip
+                    formatter={(value) => [value, "NPS"]}
+                    labelClassName="text-foreground"
+                  />
+                  <Line
+                    connectNulls
+                    dataKey="score"
+                    dot={false}
+                    stroke="hsl(var(--hu-primary))"
+                    strokeWidth={2}
+                    type="monotone"
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
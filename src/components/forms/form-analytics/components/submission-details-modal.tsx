@@ -20,8 +20,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import type { Form } from "@/lib/database";
+import { isConsentRecord } from "@/lib/forms/consent";
 
 import type { SubmissionDetailsModalProps } from "../types";
+import { SubmissionFollowUp } from "./submission-follow-up";
 
 function getFieldType(
   form: Form | undefined,
@@ -42,6 +44,7 @@ export const SubmissionDetailsModal: React.FC<SubmissionDetailsModalProps> = ({
   getFieldLabel,
   formatDate,
   onExport,
+  onUpdateSubmission,
   form,
 }) => {
   if (!submission) return null;
@@ -101,6 +104,12 @@ export const SubmissionDetailsModal: React.FC<SubmissionDetailsModalProps> = ({
               <Badge className="text-xs" variant="secondary">
                 ID: {submission.id.slice(-8)}
               </Badge>
+              {submission.edit_history?.length > 0 && (
+                <Badge className="text-xs" variant="outline">
+                  Edited {submission.edit_history.length}×, last{" "}
+                  {formatDate(submission.edit_history.at(-1)!.editedAt)}
+                </Badge>
+              )}
             </div>
 
             {}
@@ -143,6 +152,18 @@ export const SubmissionDetailsModal: React.FC<SubmissionDetailsModalProps> = ({
             </TooltipProvider>
           </div>
           <div className="max-h-[60vh] overflow-y-auto">
+            {form && onUpdateSubmission && (
+              <div className="mb-4">
+                <SubmissionFollowUp
+                  form={form}
+                  formatDate={formatDate}
+                  onUpdate={(update) =>
+                    onUpdateSubmission(submission.id, update)
+                  }
+                  submission={submission}
+                />
+              </div>
+            )}
             <div className="flex flex-col gap-4">
               {Object.entries(submission.submission_data).map(
                 ([key, value]) => {
@@ -230,6 +251,103 @@ export const SubmissionDetailsModal: React.FC<SubmissionDetailsModalProps> = ({
                     );
                   }
 
+                  if (fieldType === "group" && Array.isArray(value) && form) {
+                    const allFields = [
+                      ...(form.schema.fields || []),
+                      ...(form.schema.blocks?.flatMap(
+                        (block) => block.fields || [],
+                      ) || []),
+                    ];
+                    const childFields =
+                      allFields.find((f) => f.id === key)?.settings
+                        ?.groupFields || [];
+                    return (
+                      <div
+                        className="flex flex-col gap-2 border-border border-b py-4 last:border-0"
+                        key={key}
+                      >
+                        <h3 className="font-medium text-sm">
+                          {getFieldLabel(key)}
+                        </h3>
+                        <div className="ml-2 flex flex-col gap-3 border-l pl-3">
+                          {value.map((entry, idx) => (
+                            <div className="flex flex-col gap-1" key={idx}>
+                              <span className="font-medium text-muted-foreground text-xs">
+                                #{idx + 1}
+                              </span>
+                              {childFields.map((child) => (
+                                <div
+                                  className="flex flex-wrap gap-2 text-sm"
+                                  key={child.id}
+                                >
+                                  <span className="text-muted-foreground">
+                                    {child.label}:
+                                  </span>
+                                  <span>
+                                    {Array.isArray(entry?.[child.id])
+                                      ? entry[child.id].join(", ")
+                                      : String(entry?.[child.id] ?? "")}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  if (fieldType === "consent" && isConsentRecord(value)) {
+                    const details = [
+                      value.version && ["Policy version", value.version],
+                      [
+                        "Recorded at",
+                        new Date(value.acceptedAt).toLocaleString(),
+                      ],
+                      ["IP address", value.ipAddress],
+                      value.textHash && ["Text hash", value.textHash],
+                    ].filter(Boolean) as [string, string][];
+                    return (
+                      <div
+                        className="flex flex-col gap-2 border-border border-b py-4 last:border-0"
+                        key={key}
+                      >
+                        <h3 className="font-medium text-sm">
+                          {getFieldLabel(key)}
+                        </h3>
+                        <div className="ml-2 flex flex-col gap-1 border-l pl-3">
+                          <Badge
+                            className="w-fit"
+                            variant={value.accepted ? "default" : "secondary"}
+                          >
+                            {value.accepted ? "Accepted" : "Declined"}
+                          </Badge>
+                          {details.map(([label, detail]) => (
+                            <div
+                              className="flex flex-wrap gap-2 text-sm"
+                              key={label}
+                            >
+                              <span className="text-muted-foreground">
+                                {label}:
+                              </span>
+                              <span className="break-all">{detail}</span>
+                            </div>
+                          ))}
+                          {value.policyUrl && (
+                            <a
+                              className="text-primary text-sm underline"
+                              href={value.policyUrl}
+                              rel="noopener noreferrer"
+                              target="_blank"
+                            >
+                              View policy
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  }
+
                   if (fieldType === "file" && value) {
                     // Handle new UploadedFile structure or legacy string URLs
                     const files = Array.isArray(value) ? value : [value];
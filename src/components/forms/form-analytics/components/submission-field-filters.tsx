@@ -0,0 +1,169 @@
+import { Plus, X } from "lucide-react";
+import type React from "react";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { FormField } from "@/lib/database";
+import {
+  SUBMISSION_FILTER_OPERATORS,
+  type SubmissionFieldFilter,
+  type SubmissionFilterOperator,
+} from "@/lib/forms/submission-search";
+
+interface SubmissionFieldFiltersProps {
+  fields: FormField[];
+  filters: SubmissionFieldFilter[];
+  onFiltersChange: (filters: SubmissionFieldFilter[]) => void;
+  getFieldLabel: (fieldId: string) => string;
+}
+
+const describeFilter = (filter: SubmissionFieldFilter) => {
+  const operator = SUBMISSION_FILTER_OPERATORS.find(
+    (op) => op.value === filter.operator,
+  )?.label;
+  switch (filter.operator) {
+    case "empty":
+      return operator;
+    case "range":
+      if (!filter.max) return `≥ ${filter.min}`;
+      if (!filter.min) return `≤ ${filter.max}`;
+      return `${operator} ${filter.min} and ${filter.max}`;
+    default:
+      return `${operator} "${filter.value}"`;
+  }
+};
+
+export const SubmissionFieldFilters: React.FC<SubmissionFieldFiltersProps> = ({
+  fields,
+  filters,
+  onFiltersChange,
+  getFieldLabel,
+}) => {
+  const [fieldId, setFieldId] = useState("");
+  const [operator, setOperator] = useState<SubmissionFilterOperator>("equals");
+  const [value, setValue] = useState("");
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+
+  const canAdd =
+    !!fieldId &&
+    (operator === "empty" ||
+      (operator === "range" ? !!(min.trim() || max.trim()) : !!value.trim()));
+
+  const addFilter = () => {
+    if (!canAdd) return;
+    const filter: SubmissionFieldFilter = { fieldId, operator };
+    if (operator === "range") {
+      if (min.trim()) filter.min = min.trim();
+      if (max.trim()) filter.max = max.trim();
+    } else if (operator !== "empty") {
+      filter.value = value.trim();
+    }
+    onFiltersChange([...filters, filter]);
+    setValue("");
+    setMin("");
+    setMax("");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select onValueChange={setFieldId} value={fieldId}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Filter by field" />
+          </SelectTrigger>
+          <SelectContent>
+            {fields.map((field) => (
+              <SelectItem key={field.id} value={field.id}>
+                {field.label || field.id}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          onValueChange={(op) => setOperator(op as SubmissionFilterOperator)}
+          value={operator}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SUBMISSION_FILTER_OPERATORS.map((op) => (
+              <SelectItem key={op.value} value={op.value}>
+                {op.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {operator === "range" ? (
+          <>
+            <Input
+              className="w-[120px]"
+              onChange={(e) => setMin(e.target.value)}
+              placeholder="Min"
+              value={min}
+            />
+            <Input
+              className="w-[120px]"
+              onChange={(e) => setMax(e.target.value)}
+              placeholder="Max"
+              value={max}
+            />
+          </>
+        ) : (
+          operator !== "empty" && (
+            <Input
+              className="w-[180px]"
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") addFilter();
+              }}
+              placeholder="Value"
+              value={value}
+            />
+          )
+        )}
+        <Button
+          className="gap-2"
+          disabled={!canAdd}
+          onClick={addFilter}
+          size="sm"
+          variant="outline"
+        >
+          <Plus className="h-4 w-4" />
+          Add filter
+        </Button>
+      </div>
+      {filters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {filters.map((filter, index) => (
+            <Badge
+              className="gap-1"
+              key={`${filter.fieldId}-${index}`}
+              variant="secondary"
+            >
+              {getFieldLabel(filter.fieldId)} {describeFilter(filter)}
+              <button
+                aria-label="Remove filter"
+                onClick={() =>
+                  onFiltersChange(filters.filter((_, i) => i !== index))
+                }
+                type="button"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import { MessageSquare } from "lucide-react";
+import type React from "react";
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TagInput } from "@/components/ui/tag-input";
+import { Textarea } from "@/components/ui/textarea";
+import type { Form, FormSubmission } from "@/lib/database";
+import {
+  getSubmissionStatuses,
+  MAX_NOTE_LENGTH,
+  type SubmissionWorkflowUpdate,
+} from "@/lib/forms/workflow";
+
+interface SubmissionFollowUpProps {
+  form: Form;
+  submission: FormSubmission;
+  formatDate: (dateString: string) => string;
+  onUpdate: (update: SubmissionWorkflowUpdate) => Promise<boolean>;
+}
+
+export const SubmissionFollowUp: React.FC<SubmissionFollowUpProps> = ({
+  form,
+  submission,
+  formatDate,
+  onUpdate,
+}) => {
+  const [assignee, setAssignee] = useState(submission.assignee || "");
+  const [note, setNote] = useState("");
+  const [savingNote, setSavingNote] = useState(false);
+
+  useEffect(() => {
+    setAssignee(submission.assignee || "");
+  }, [submission.assignee]);
+
+  const saveAssignee = () => {
+    if (assignee.trim() !== (submission.assignee || "")) {
+      onUpdate({ assignee: assignee.trim() || null });
+    }
+  };
+
+  const addNote = async () => {
+    setSavingNote(true);
+    if (await onUpdate({ note })) {
+      setNote("");
+    }
+    setSavingNote(false);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-card border border-border p-4">
+      <h3 className="font-medium text-sm">Follow-up</h3>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="flex flex-col gap-2">
+          <Label className="text-xs">Status</Label>
+          <Select
+            onValueChange={(status) => onUpdate({ status })}
+            value={submission.status}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getSubmissionStatuses(form.schema).map((status) => (
+                <SelectItem key={status.id} value={status.id}>
+                  {status.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label className="text-xs">Assignee</Label>
+          <Input
+            onBlur={saveAssignee}
+            onChange={(e) => setAssignee(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveAssignee();
+            }}
+            placeholder="Name or email"
+            value={assignee}
+          />
+        </div>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-xs">Tags</Label>
+        <TagInput
+          onTagsChange={(tags) => onUpdate({ tags })}
+          placeholder="Add a tag and press Enter"
+          tagSize="sm"
+          tags={submission.tags || []}
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-xs">Notes</Label>
+        {submission.notes?.map((entry) => (
+          <div className="rounded-ele bg-muted/50 p-3 text-sm" key={entry.id}>
+            <p className="mb-1 flex items-center gap-1 text-muted-foreground text-xs">
+              <MessageSquare className="h-3 w-3" />
+              {entry.author} · {formatDate(entry.createdAt)}
+            </p>
+            <p className="whitespace-pre-wrap">{entry.text}</p>
+          </div>
+        ))}
+        <Textarea
+          maxLength={MAX_NOTE_LENGTH}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add an internal note..."
+          rows={3}
+          value={note}
+        />
+        <Button
+          className="self-end"
+          disabled={!note.trim() || savingNote}
+          onClick={addNote}
+          size="sm"
+        >
+          Add note
+        </Button>
+      </div>
+    </div>
+  );
+};
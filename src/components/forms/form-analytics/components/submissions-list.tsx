@@ -5,12 +5,14 @@ import {
   FileText,
   Globe,
   LayoutGrid,
+  Loader2,
   RefreshCw,
   Search,
   Table,
+  UserRound,
 } from "lucide-react";
 import type React from "react";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 
@@ -28,11 +30,16 @@ import { DataTable, type DataTableColumn } from "@/components/ui/table";
 import { Tabs, TabsContent } from "@/components/ui/tabs";
 
 import type { Form, FormSubmission } from "@/lib/database";
+import { isConsentAccepted } from "@/lib/forms/consent";
+import { SUBMISSION_COMPLETIONS } from "@/lib/forms/submission-search";
+import { getStatusLabel, getSubmissionStatuses } from "@/lib/forms/workflow";
+import { useSubmissionSearch } from "../hooks";
 import type { FilterState, SubmissionsListProps } from "../types";
-import {
-  filterSubmissions,
-  getSubmissionCompletionRate,
-} from "../utils/analytics";
+import { toSubmissionSearch } from "../utils/analytics";
+import { SubmissionFieldFilters } from "./submission-field-filters";
+
+const ALL_VALUES = "__all__";
+const UNASSIGNED = "__unassigned__";
 
 export const SubmissionsList: React.FC<SubmissionsListProps> = ({
   form,
@@ -43,6 +50,7 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
   onExportCSV,
   onExportJSON,
   onViewSubmission,
+  onUpdateSubmission,
   getFieldLabel,
   formatDate,
 }) => {
@@ -51,28 +59,132 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
   const [filterState, setFilterState] = useState<FilterState>({
     timeRange: "all",
     completionRate: "all",
+    sort: "newest",
+    fieldFilters: [],
   });
 
-  const totalFields = Math.max(
-    form.schema.fields?.length || 0,
-    form.schema.blocks?.reduce(
-      (total, block) => total + (block.fields?.length || 0),
-      0,
-    ) || 0,
+  const allFields = [
+    ...(form.schema.fields || []),
+    ...(form.schema.blocks?.flatMap((block) => block.fields || []) || []),
+  ];
+  const hiddenFields = allFields.filter((field) => field.type === "hidden");
+
+  const getHiddenFieldValues = (fieldId: string) =>
+    [
+      ...new Set(
+        submissions.map((submission) =>
+          String(submission.submission_data[fieldId] ?? ""),
+        ),
+      ),
+    ]
+      .filter(Boolean)
+      .sort();
+
+  const setHiddenFieldFilter = (fieldId: string, value: string) => {
+    setFilterState((prev) => {
+      const { [fieldId]: _, ...rest } = prev.hiddenFields || {};
+      return {
+        ...prev,
+        hiddenFields:
+          value === ALL_VALUES ? rest : { ...rest, [fieldId]: value },
+      };
+    });
+  };
+
+  const statuses = getSubmissionStatuses(form.schema);
+  const tags = [
+    ...new Set(submissions.flatMap((submission) => submission.tags || [])),
+  ].sort();
+  const assignees = [
+    ...new Set(
+      submissions
+        .map((submission) => submission.assignee)
+        .filter((assignee): assignee is string => !!assignee),
+    ),
+  ].sort();
+
+  const search = useSubmissionSearch(
+    form.id,
+    toSubmissionSearch(searchTerm, filterState),
   );
 
-  const filteredSubmissions = filterSubmissions(
-    submissions,
-    searchTerm,
-    filterState,
-    totalFields,
+  // Workflow changes made here or in the details modal update `submissions`
+  // first, so prefer whichever copy was updated last.
+  const latestSubmissions = useMemo(
+    () => new Map(submissions.map((submission) => [submission.id, submission])),
+    [submissions],
   );
+  const results = search.submissions.map((result) => {
+    const latest = latestSubmissions.get(result.id);
+    return latest && (latest.updated_at ?? "") > (result.updated_at ?? "")
+      ? latest
+      : result;
+  });
+
+  const refresh = () => {
+    onRefresh();
+    search.refresh();
+  };
 
   const tableColumns: DataTableColumn<FormSubmission>[] = [
     {
       key: "submitted_at",
       header: "Date",
-      render: (value) => formatDate(value.toString()),
+      render: (value, row) => (
+        <div className="flex items-center gap-2">
+          {formatDate(value.toString())}
+          {row.is_duplicate && <Badge variant="destructive">Duplicate</Badge>}
+        </div>
+      ),
+    },
+    {
+      key: "status",
+      header: "Status",
+      render: (value, row) =>
+        onUpdateSubmission ? (
+          <div onClick={(e) => e.stopPropagation()}>
+            <Select
+              onValueChange={(status) => onUpdateSubmission(row.id, { status })}
+              value={value}
+            >
+              <SelectTrigger className="h-8 w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {statuses.map((status) => (
+                  <SelectItem key={status.id} value={status.id}>
+                    {status.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <Badge variant="secondary">
+            {getStatusLabel(form.schema, value)}
+          </Badge>
+        ),
+    },
+    {
+      key: "tags",
+      header: "Tags",
+      render: (value) =>
+        value?.length ? (
+          <div className="flex flex-wrap gap-1">
+            {value.map((tag: string) => (
+              <Badge key={tag} variant="outline">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          "—"
+        ),
+    },
+    {
+      key: "assignee",
+      header: "Assignee",
+      render: (value) => value || "—",
     },
     {
       key: "submission_data",
@@ -135,7 +247,7 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
               <Button
                 className="gap-2 transition-colors hover:bg-accent"
                 disabled={refreshing}
-                onClick={onRefresh}
+                onClick={refresh}
                 size="sm"
                 variant="outline"
               >
@@ -217,7 +329,7 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
           </div>
         ) : (
           <div className="flex flex-col gap-4">
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <div className="relative max-w-md flex-1">
                 <Input
                   leftIcon={<Search className="h-4 w-4" />}
@@ -249,11 +361,7 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
                 onValueChange={(value) =>
                   setFilterState((prev) => ({
                     ...prev,
-                    completionRate: value as
-                      | "all"
-                      | "complete"
-                      | "partial"
-                      | "empty",
+                    completionRate: value as FilterState["completionRate"],
                   }))
                 }
                 value={filterState.completionRate}
@@ -263,16 +371,155 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Submissions</SelectItem>
-                  <SelectItem value="complete">Complete</SelectItem>
-                  <SelectItem value="partial">Partial</SelectItem>
-                  <SelectItem value="empty">Empty</SelectItem>
+                  {SUBMISSION_COMPLETIONS.map((completion) => (
+                    <SelectItem key={completion.value} value={completion.value}>
+                      {completion.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                onValueChange={(value) =>
+                  setFilterState((prev) => ({
+                    ...prev,
+                    sort: value as FilterState["sort"],
+                  }))
+                }
+                value={filterState.sort}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Select order" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="newest">Newest First</SelectItem>
+                  <SelectItem value="oldest">Oldest First</SelectItem>
+                </SelectContent>
+              </Select>
+              {hiddenFields.map((field) => (
+                <Select
+                  key={field.id}
+                  onValueChange={(value) =>
+                    setHiddenFieldFilter(field.id, value)
+                  }
+                  value={filterState.hiddenFields?.[field.id] ?? ALL_VALUES}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder={field.label} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_VALUES}>
+                      All {field.label}
+                    </SelectItem>
+                    {getHiddenFieldValues(field.id).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+              <Select
+                onValueChange={(value) =>
+                  setFilterState((prev) => ({
+                    ...prev,
+                    status: value === ALL_VALUES ? undefined : value,
+                  }))
+                }
+                value={filterState.status ?? ALL_VALUES}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_VALUES}>All Statuses</SelectItem>
+                  {statuses.map((status) => (
+                    <SelectItem key={status.id} value={status.id}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+              {tags.length > 0 && (
+                <Select
+                  onValueChange={(value) =>
+                    setFilterState((prev) => ({
+                      ...prev,
+                      tag: value === ALL_VALUES ? undefined : value,
+                    }))
+                  }
+                  value={filterState.tag ?? ALL_VALUES}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Select tag" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_VALUES}>All Tags</SelectItem>
+                    {tags.map((tag) => (
+                      <SelectItem key={tag} value={tag}>
+                        {tag}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {assignees.length > 0 && (
+                <Select
+                  onValueChange={(value) =>
+                    setFilterState((prev) => ({
+                      ...prev,
+                      assignee:
+                        value === ALL_VALUES
+                          ? undefined
+                          : value === UNASSIGNED
+                            ? null
+                            : value,
+                    }))
+                  }
+                  value={
+                    filterState.assignee === undefined
+                      ? ALL_VALUES
+                      : (filterState.assignee ?? UNASSIGNED)
+                  }
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Select assignee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_VALUES}>All Assignees</SelectItem>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {assignees.map((assignee) => (
+                      <SelectItem key={assignee} value={assignee}>
+                        {assignee}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
+            <SubmissionFieldFilters
+              fields={allFields.filter((field) => field.type !== "statement")}
+              filters={filterState.fieldFilters}
+              getFieldLabel={getFieldLabel}
+              onFiltersChange={(fieldFilters) =>
+                setFilterState((prev) => ({ ...prev, fieldFilters }))
+              }
+            />
+            <p className="text-muted-foreground text-sm">
+              {search.loading
+                ? "Searching..."
+                : `${search.total} matching ${
+                    search.total === 1 ? "submission" : "submissions"
+                  }`}
+            </p>
 
             <TabsContent activeValue={activeView} value="cards">
               <div className="flex flex-col gap-4">
-                {filteredSubmissions.slice(0, 10).map((submission) => (
+                {!search.loading && results.length === 0 && (
+                  <p className="py-8 text-center text-muted-foreground text-sm">
+                    No submissions match these filters
+                  </p>
+                )}
+                {results.map((submission) => (
                   <div key={submission.id}>
                     <Card className="p-4">
                       <div className="mb-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -281,6 +528,17 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
                           <span className="font-medium text-foreground text-sm">
                             Submission {submission.id.slice(-8)}
                           </span>
+                          <Badge variant="secondary">
+                            {getStatusLabel(form.schema, submission.status)}
+                          </Badge>
+                          {submission.is_duplicate && (
+                            <Badge variant="destructive">Duplicate</Badge>
+                          )}
+                          {submission.tags?.map((tag) => (
+                            <Badge key={tag} variant="outline">
+                              {tag}
+                            </Badge>
+                          ))}
                         </div>
                         <div className="flex items-center gap-4 text-muted-foreground text-xs">
                           <span className="flex items-center gap-1">
@@ -290,18 +548,18 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
                           {submission.ip_address && (
                             <span>IP: {submission.ip_address}</span>
                           )}
+                          {submission.assignee && (
+                            <span className="flex items-center gap-1">
+                              <UserRound className="h-3 w-3" />
+                              {submission.assignee}
+                            </span>
+                          )}
                         </div>
                       </div>
 
                       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
                         {Object.entries(submission.submission_data).map(
                           ([fieldId, value]) => {
-                            const allFields = [
-                              ...(form.schema.fields || []),
-                              ...(form.schema.blocks?.flatMap(
-                                (block) => block.fields || [],
-                              ) || []),
-                            ];
                             const field = allFields.find(
                               (f) => f.id === fieldId,
                             );
@@ -476,12 +734,16 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
                                 </label>
                                 <div className="rounded-ele border border-border bg-input p-2">
                                   <p className="line-clamp-2 text-foreground text-sm">
-                                    {Array.isArray(value)
-                                      ? value.join(", ")
-                                      : typeof value === "object" &&
-                                          value !== null
-                                        ? JSON.stringify(value)
-                                        : String(value) || "—"}
+                                    {field?.type === "consent"
+                                      ? isConsentAccepted(value)
+                                        ? "Accepted"
+                                        : "Declined"
+                                      : Array.isArray(value)
+                                        ? value.join(", ")
+                                        : typeof value === "object" &&
+                                            value !== null
+                                          ? JSON.stringify(value)
+                                          : String(value) || "—"}
                                   </p>
                                 </div>
                               </div>
@@ -493,18 +755,6 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
                     <Separator className="mt-4" />
                   </div>
                 ))}
-
-                {filteredSubmissions.length > 10 && (
-                  <div className="border-border border-t pt-4 text-center">
-                    <p className="mb-3 text-muted-foreground text-sm">
-                      Showing 10 of {filteredSubmissions.length} submissions
-                    </p>
-                    <Button className="gap-2" size="sm" variant="outline">
-                      <Eye className="h-4 w-4" />
-                      View All Submissions
-                    </Button>
-                  </div>
-                )}
               </div>
             </TabsContent>
 
@@ -513,17 +763,37 @@ export const SubmissionsList: React.FC<SubmissionsListProps> = ({
                 <DataTable
                   bordered
                   columns={tableColumns}
-                  data={filteredSubmissions}
+                  data={results}
+                  emptyMessage="No submissions match these filters"
                   hoverable
-                  itemsPerPage={10}
-                  searchable
-                  searchPlaceholder="Search submissions..."
-                  showPagination
+                  loading={search.loading && results.length === 0}
+                  searchable={false}
+                  showPagination={false}
                   size="default"
                   variant="bordered"
                 />
               </div>
             </TabsContent>
+
+            {search.hasMore && (
+              <div className="border-border border-t pt-4 text-center">
+                <p className="mb-3 text-muted-foreground text-sm">
+                  Showing {results.length} of {search.total} submissions
+                </p>
+                <Button
+                  className="gap-2"
+                  disabled={search.loadingMore}
+                  onClick={search.loadMore}
+                  size="sm"
+                  variant="outline"
+                >
+                  {search.loadingMore && (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  )}
+                  Load More
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -29,14 +29,19 @@ import {
 } from "@/components/ui/tooltip";
 import { toast } from "@/hooks/use-toast";
 
+import type { FormSubmission } from "@/lib/database";
 import { formsDb } from "@/lib/database";
 
 import {
   AnalyticsCards,
   ChatModal,
   FloatingChatButton,
+  IncompleteResponses,
   InfoCards,
+  MatrixAnalyticsCard,
+  NpsStats,
   OverviewStats,
+  RankingAnalyticsCard,
   SubmissionDetailsModal,
   SubmissionsList,
   TrendsChart,
@@ -47,6 +52,7 @@ import {
   useAnalyticsChat,
   useAnalyticsData,
   useFormSubmissions,
+  usePartialSubmissions,
 } from "./hooks";
 
 import type { FormAnalyticsProps } from "./types";
@@ -60,15 +66,21 @@ import { exportToCSV, exportToJSON, formatDate, getFieldLabel } from "./utils";
  */
 export function FormAnalyticsClient({ form }: FormAnalyticsProps) {
   const router = useRouter();
-  const [selectedSubmission, setSelectedSubmission] = useState(null);
+  const [selectedSubmission, setSelectedSubmission] =
+    useState<FormSubmission | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
 
-  const { submissions, loading, refreshing, refreshData } = useFormSubmissions(
-    form.id,
-  );
+  const { submissions, loading, refreshing, refreshData, updateSubmission } =
+    useFormSubmissions(form.id);
+  const {
+    partialSubmissions,
+    loading: partialSubmissionsLoading,
+    refreshPartialSubmissions,
+    deletePartialSubmission,
+  } = usePartialSubmissions(form.id);
 
   const analyticsData = useAnalyticsData(form, submissions);
 
@@ -228,8 +240,21 @@ export function FormAnalyticsClient({ form }: FormAnalyticsProps) {
         <OverviewStats data={analyticsData} />
         <InfoCards data={analyticsData} form={form} formatDate={formatDate} />
         <AnalyticsCards data={analyticsData} />
+        <NpsStats data={analyticsData} />
+        <MatrixAnalyticsCard
+          fieldAnalytics={analyticsData.fieldAnalytics}
+          form={form}
+        />
+        <RankingAnalyticsCard
+          fieldAnalytics={analyticsData.fieldAnalytics}
+          form={form}
+        />
         <TrendsChart trends={analyticsData.submissionTrends} />
-        <DropoffAnalytics form={form} submissions={submissions} />
+        <DropoffAnalytics
+          form={form}
+          partialSubmissions={partialSubmissions}
+          submissions={submissions}
+        />
         <SubmissionsList
           form={form}
           formatDate={formatDate}
@@ -237,11 +262,23 @@ export function FormAnalyticsClient({ form }: FormAnalyticsProps) {
           loading={loading}
           onExportCSV={handleExportCSV}
           onExportJSON={handleExportJSON}
-          onRefresh={refreshData}
+          onRefresh={() => {
+            refreshData();
+            refreshPartialSubmissions();
+          }}
+          onUpdateSubmission={updateSubmission}
           onViewSubmission={handleSubmissionClick}
           refreshing={refreshing}
           submissions={submissions}
         />
+        <IncompleteResponses
+          form={form}
+          formatDate={formatDate}
+          getFieldLabel={getFieldLabelForForm}
+          loading={partialSubmissionsLoading}
+          onDelete={deletePartialSubmission}
+          partialSubmissions={partialSubmissions}
+        />
 
         {}
         {!isMobile && (
@@ -259,7 +296,11 @@ export function FormAnalyticsClient({ form }: FormAnalyticsProps) {
           getFieldLabel={getFieldLabelForForm}
           isOpen={isModalOpen}
           onClose={() => setIsModalOpen(false)}
-          submission={selectedSubmission}
+          onUpdateSubmission={updateSubmission}
+          submission={
+            submissions.find((s) => s.id === selectedSubmission?.id) ??
+            selectedSubmission
+          }
         />
 
         <ConfirmationModal
@@ -29,15 +29,20 @@ import {
 } from "@/components/ui/tooltip";
 import { toast } from "@/hooks/use-toast";
 
+import type { FormSubmission } from "@/lib/database";
 import { formsDb } from "@/lib/database";
 
 import {
   AnalyticsCards,
   ChatModal,
   FloatingChatButton,
+  IncompleteResponses,
   InfoCards,
+  MatrixAnalyticsCard,
+  NpsStats,
   OverviewStats,
   QuizAnalyticsCard,
+  RankingAnalyticsCard,
   SubmissionDetailsModal,
   SubmissionsList,
   TrendsChart,
@@ -48,6 +53,7 @@ import {
   useAnalyticsChat,
   useAnalyticsData,
   useFormSubmissions,
+  usePartialSubmissions,
 } from "./hooks";
 
 import type { FormAnalyticsProps } from "./types";
@@ -56,7 +62,8 @@ import { exportToCSV, exportToJSON, formatDate, getFieldLabel } from "./utils";
 
 export function FormAnalytics({ form }: FormAnalyticsProps) {
   const router = useRouter();
-  const [selectedSubmission, setSelectedSubmission] = useState(null);
+  const [selectedSubmission, setSelectedSubmission] =
+    useState<FormSubmission | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
@@ -64,9 +71,14 @@ export function FormAnalytics({ form }: FormAnalyticsProps) {
   const [mounted, setMounted] = useState(false);
   const { theme } = useTheme();
 
-  const { submissions, loading, refreshing, refreshData } = useFormSubmissions(
-    form.id,
-  );
+  const { submissions, loading, refreshing, refreshData, updateSubmission } =
+    useFormSubmissions(form.id);
+  const {
+    partialSubmissions,
+    loading: partialSubmissionsLoading,
+    refreshPartialSubmissions,
+    deletePartialSubmission,
+  } = usePartialSubmissions(form.id);
   const analyticsData = useAnalyticsData(form, submissions);
   const {
     chatOpen,
@@ -268,8 +280,21 @@ export function FormAnalytics({ form }: FormAnalyticsProps) {
         <OverviewStats data={analyticsData} />
         <QuizAnalyticsCard quizAnalytics={analyticsData.quizAnalytics} />
         <AnalyticsCards data={analyticsData} />
+        <NpsStats data={analyticsData} />
+        <MatrixAnalyticsCard
+          fieldAnalytics={analyticsData.fieldAnalytics}
+          form={form}
+        />
+        <RankingAnalyticsCard
+          fieldAnalytics={analyticsData.fieldAnalytics}
+          form={form}
+        />
         <TrendsChart trends={analyticsData.submissionTrends} />
-        <DropoffAnalytics form={form} submissions={submissions} />
+        <DropoffAnalytics
+          form={form}
+          partialSubmissions={partialSubmissions}
+          submissions={submissions}
+        />
         <InfoCards data={analyticsData} form={form} formatDate={formatDate} />
         <SubmissionsList
           form={form}
@@ -278,11 +303,23 @@ export function FormAnalytics({ form }: FormAnalyticsProps) {
           loading={loading}
           onExportCSV={handleExportCSV}
           onExportJSON={handleExportJSON}
-          onRefresh={refreshData}
+          onRefresh={() => {
+            refreshData();
+            refreshPartialSubmissions();
+          }}
+          onUpdateSubmission={updateSubmission}
           onViewSubmission={handleViewSubmission}
           refreshing={refreshing}
           submissions={submissions}
         />
+        <IncompleteResponses
+          form={form}
+          formatDate={formatDate}
+          getFieldLabel={getFieldLabelForForm}
+          loading={partialSubmissionsLoading}
+          onDelete={deletePartialSubmission}
+          partialSubmissions={partialSubmissions}
+        />
       </div>
       <SubmissionDetailsModal
         form={form}
@@ -291,7 +328,11 @@ export function FormAnalytics({ form }: FormAnalyticsProps) {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onExport={handleExportSubmission}
-        submission={selectedSubmission}
+        onUpdateSubmission={updateSubmission}
+        submission={
+          submissions.find((s) => s.id === selectedSubmission?.id) ??
+          selectedSubmission
+        }
       />
       <ConfirmationModal
         cancelText="Cancel"
@@ -1,3 +1,5 @@
 export { useAnalyticsChat } from "./use-analytics-chat";
 export { useAnalyticsData } from "./use-analytics-data";
 export { useFormSubmissions } from "./use-form-submissions";
+export { usePartialSubmissions } from "./use-partial-submissions";
+export { useSubmissionSearch } from "./use-submission-search";
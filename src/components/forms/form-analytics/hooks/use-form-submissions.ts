@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { toast } from "@/hooks/use-toast";
 import type { Form, FormSubmission } from "@/lib/database";
 import { formsDb } from "@/lib/database";
+import type { SubmissionWorkflowUpdate } from "@/lib/forms/workflow";
 
 export const useFormSubmissions = (formId: string) => {
   const [submissions, setSubmissions] = useState<FormSubmission[]>([]);
@@ -27,6 +28,39 @@ export const useFormSubmissions = (formId: string) => {
     toast.success("Data refreshed!");
   };
 
+  const updateSubmission = async (
+    submissionId: string,
+    update: SubmissionWorkflowUpdate,
+  ): Promise<boolean> => {
+    try {
+      const response = await fetch(
+        `/api/forms/${formId}/submissions/${submissionId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(update),
+        },
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update submission");
+      }
+
+      formsDb.clearFormCache(formId);
+      setSubmissions((prev) =>
+        prev.map((submission) =>
+          submission.id === submissionId ? result.submission : submission,
+        ),
+      );
+      return true;
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update submission",
+      );
+      return false;
+    }
+  };
+
   useEffect(() => {
     loadSubmissions();
   }, [formId]);
@@ -36,5 +70,6 @@ export const useFormSubmissions = (formId: string) => {
     loading,
     refreshing,
     refreshData,
+    updateSubmission,
   };
 };
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import type { PartialSubmission } from "@/lib/database";
+import { formsDb } from "@/lib/database";
+
+export const usePartialSubmissions = (formId: string) => {
+  const [partialSubmissions, setPartialSubmissions] = useState<
+    PartialSubmission[]
+  >([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadPartialSubmissions = async () => {
+    try {
+      setPartialSubmissions(await formsDb.getPartialSubmissions(formId));
+    } catch {
+      toast.error("Failed to load incomplete responses");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deletePartialSubmission = async (partialId: string) => {
+    try {
+      await formsDb.deletePartialSubmission(partialId);
+      setPartialSubmissions((prev) =>
+        prev.filter((partial) => partial.id !== partialId),
+      );
+    } catch {
+      toast.error("Failed to delete incomplete response");
+    }
+  };
+
+  useEffect(() => {
+    loadPartialSubmissions();
+  }, [formId]);
+
+  return {
+    partialSubmissions,
+    loading,
+    refreshPartialSubmissions: loadPartialSubmissions,
+    deletePartialSubmission,
+  };
+};
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import type { FormSubmission } from "@/lib/database";
+import {
+  type SubmissionSearch,
+  type SubmissionSearchResult,
+  toSubmissionSearchParams,
+} from "@/lib/forms/submission-search";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export const useSubmissionSearch = (
+  formId: string,
+  search: Omit<SubmissionSearch, "cursor">,
+) => {
+  const [submissions, setSubmissions] = useState<FormSubmission[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const requestRef = useRef(0);
+  const searchKey = JSON.stringify(search);
+
+  const fetchPage = async (
+    cursor?: string,
+  ): Promise<SubmissionSearchResult> => {
+    // Later pages keep the total counted for the first one
+    const params = toSubmissionSearchParams({
+      ...search,
+      cursor,
+      includeTotal: !cursor,
+    });
+    const response = await fetch(`/api/forms/${formId}/submissions?${params}`);
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to search submissions");
+    }
+    return result;
+  };
+
+  const runSearch = async () => {
+    // Only the latest search may update the list; older responses can
+    // arrive after newer ones.
+    const request = ++requestRef.current;
+    setLoading(true);
+    try {
+      const result = await fetchPage();
+      if (request !== requestRef.current) return;
+      setSubmissions(result.submissions);
+      setTotal(result.total ?? 0);
+      setNextCursor(result.nextCursor);
+    } catch (error) {
+      if (request !== requestRef.current) return;
+      toast.error(
+        error instanceof Error ? error.message : "Failed to search submissions",
+      );
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const result = await fetchPage(nextCursor);
+      if (request !== requestRef.current) return;
+      setSubmissions((prev) => [...prev, ...result.submissions]);
+      setNextCursor(result.nextCursor);
+    } catch {
+      toast.error("Failed to load more submissions");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    const timeout = setTimeout(runSearch, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [formId, searchKey]);
+
+  return {
+    submissions,
+    total,
+    hasMore: nextCursor !== null,
+    loading,
+    loadingMore,
+    loadMore,
+    refresh: runSearch,
+  };
+};
@@ -1,4 +1,10 @@
 import type { Form, FormSubmission } from "@/lib/database";
+import type {
+  SubmissionCompletion,
+  SubmissionFieldFilter,
+  SubmissionSort,
+} from "@/lib/forms/submission-search";
+import type { SubmissionWorkflowUpdate } from "@/lib/forms/workflow";
 
 export interface FormAnalyticsProps {
   form: Form;
@@ -27,7 +33,15 @@ export interface ChatInterfaceProps {
 
 export interface FilterState {
   timeRange: "all" | "today" | "week" | "month";
-  completionRate: "all" | "complete" | "partial" | "empty";
+  completionRate: "all" | SubmissionCompletion;
+  sort: SubmissionSort;
+  /** Exact values to match on hidden fields, keyed by field id. */
+  hiddenFields?: Record<string, string>;
+  fieldFilters: SubmissionFieldFilter[];
+  status?: string;
+  tag?: string;
+  /** Assignee to match; null matches unassigned submissions. */
+  assignee?: string | null;
 }
 
 export interface FieldAnalytics {
@@ -37,6 +51,33 @@ export interface FieldAnalytics {
   uniqueValues: number;
   mostCommonValue: string | null;
   averageLength?: number;
+  rowDistributions?: MatrixRowDistribution[];
+  optionRankings?: OptionRanking[];
+  nps?: NpsAnalytics;
+}
+
+export interface MatrixRowDistribution {
+  rowId: string;
+  label: string;
+  totalResponses: number;
+  counts: Record<string, number>;
+}
+
+export interface OptionRanking {
+  option: string;
+  label: string;
+  timesRanked: number;
+  averageRank: number | null;
+  bordaScore: number;
+}
+
+export interface NpsAnalytics {
+  promoters: number;
+  passives: number;
+  detractors: number;
+  score: number;
+  /** Daily NPS for the last 30 days; null on days without answers. */
+  trend: Record<string, number | null>;
 }
 
 export interface ConversionFunnelStep {
@@ -91,6 +132,10 @@ export interface SubmissionDetailsModalProps {
   getFieldLabel: (fieldId: string) => string;
   formatDate: (dateString: string) => string;
   onExport?: (submission: FormSubmission) => void;
+  onUpdateSubmission?: (
+    submissionId: string,
+    update: SubmissionWorkflowUpdate,
+  ) => Promise<boolean>;
   form?: Form;
 }
 
@@ -117,6 +162,10 @@ export interface SubmissionsListProps {
   onExportCSV: () => void;
   onExportJSON: () => void;
   onViewSubmission: (submission: FormSubmission) => void;
+  onUpdateSubmission?: (
+    submissionId: string,
+    update: SubmissionWorkflowUpdate,
+  ) => Promise<boolean>;
   getFieldLabel: (fieldId: string) => string;
   formatDate: (dateString: string) => string;
 }
@@ -1,9 +1,19 @@
-import type { Form, FormSubmission } from "@/lib/database";
+import type { Form, FormField, FormSubmission } from "@/lib/database";
+import { isConsentAccepted } from "@/lib/forms/consent";
+import { isDateRangeValue } from "@/lib/forms/dates";
+import {
+  SUBMISSION_COMPLETIONS,
+  type SubmissionFieldFilter,
+  type SubmissionSearch,
+} from "@/lib/forms/submission-search";
 import { calculateQuizScore } from "@/lib/quiz/scoring";
 import type {
   ConversionFunnelStep,
   FieldAnalytics,
   FilterState,
+  MatrixRowDistribution,
+  NpsAnalytics,
+  OptionRanking,
   QuizAnalytics,
 } from "../types";
 
@@ -51,61 +61,159 @@ export const getSubmissionCompletionRate = (
   return (filledFields / totalFields) * 100;
 };
 
-export const filterSubmissions = (
-  submissions: FormSubmission[],
+/** Turns the submissions list's filters into a search for the server. */
+export const toSubmissionSearch = (
   searchTerm: string,
   filterState: FilterState,
-  totalFields: number,
-) => {
-  return submissions.filter((submission) => {
-    if (searchTerm) {
-      const searchString = JSON.stringify(submission).toLowerCase();
-      if (!searchString.includes(searchTerm.toLowerCase())) return false;
+): Omit<SubmissionSearch, "cursor"> => {
+  let submittedAfter: string | undefined;
+  if (filterState.timeRange !== "all") {
+    const startDate = new Date();
+    startDate.setHours(0, 0, 0, 0);
+
+    switch (filterState.timeRange) {
+      case "week":
+        startDate.setDate(startDate.getDate() - 7);
+        break;
+      case "month":
+        startDate.setMonth(startDate.getMonth() - 1);
+        break;
     }
+    submittedAfter = startDate.toISOString();
+  }
 
-    const submissionDate = new Date(submission.submitted_at);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (filterState.timeRange !== "all") {
-      const startDate = new Date();
-      startDate.setHours(0, 0, 0, 0);
-
-      switch (filterState.timeRange) {
-        case "today":
-          if (submissionDate < today) return false;
-          break;
-        case "week":
-          startDate.setDate(startDate.getDate() - 7);
-          if (submissionDate < startDate) return false;
-          break;
-        case "month":
-          startDate.setMonth(startDate.getMonth() - 1);
-          if (submissionDate < startDate) return false;
-          break;
-      }
-    }
+  const hiddenFieldFilters = Object.entries(filterState.hiddenFields || {}).map(
+    ([fieldId, value]): SubmissionFieldFilter => ({
+      fieldId,
+      operator: "equals",
+      value,
+    }),
+  );
 
-    if (filterState.completionRate !== "all") {
-      const completionRate = getSubmissionCompletionRate(
-        submission,
-        totalFields,
-      );
-      switch (filterState.completionRate) {
-        case "complete":
-          if (completionRate < 100) return false;
-          break;
-        case "partial":
-          if (completionRate < 1 || completionRate === 100) return false;
-          break;
-        case "empty":
-          if (completionRate > 0) return false;
-          break;
-      }
-    }
+  return {
+    query: searchTerm.trim() || undefined,
+    filters: [...hiddenFieldFilters, ...filterState.fieldFilters],
+    submittedAfter,
+    status: filterState.status,
+    tag: filterState.tag,
+    assignee: filterState.assignee,
+    completion:
+      filterState.completionRate === "all"
+        ? undefined
+        : filterState.completionRate,
+    sort: filterState.sort,
+  };
+};
 
-    return true;
+const calculateMatrixDistributions = (
+  field: FormField,
+  responses: Record<string, unknown>[],
+): MatrixRowDistribution[] =>
+  (field.settings?.matrixRows || []).map((row) => {
+    const counts: Record<string, number> = {};
+    (field.settings?.matrixColumns || []).forEach((column) => {
+      counts[column] = 0;
+    });
+
+    let totalResponses = 0;
+    responses.forEach((response) => {
+      const answer = response?.[row.id];
+      const selected = Array.isArray(answer) ? answer : answer ? [answer] : [];
+      if (selected.length > 0) totalResponses++;
+      selected.forEach((column: string) => {
+        counts[column] = (counts[column] || 0) + 1;
+      });
+    });
+
+    return { rowId: row.id, label: row.label, totalResponses, counts };
   });
+
+/**
+ * Scores each option of a ranking field. With N options, first place earns N
+ * Borda points, second N - 1 and so on; unranked options earn nothing.
+ */
+const calculateOptionRankings = (
+  field: FormField,
+  responses: unknown[],
+): OptionRanking[] => {
+  const options = (field.options || []).map((option) =>
+    typeof option === "string"
+      ? { value: option, label: option }
+      : { value: option.value, label: option.label || option.value },
+  );
+
+  return options
+    .map((option) => {
+      let timesRanked = 0;
+      let rankTotal = 0;
+      let bordaScore = 0;
+      responses.forEach((response) => {
+        const position = Array.isArray(response)
+          ? response.indexOf(option.value)
+          : -1;
+        if (position === -1) return;
+        timesRanked++;
+        rankTotal += position + 1;
+        bordaScore += options.length - position;
+      });
+
+      return {
+        option: option.value,
+        label: option.label,
+        timesRanked,
+        averageRank:
+          timesRanked > 0
+            ? Math.round((rankTotal / timesRanked) * 100) / 100
+            : null,
+        bordaScore,
+      };
+    })
+    .sort((a, b) => b.bordaScore - a.bordaScore);
+};
+
+const NPS_TREND_DAYS = 30;
+
+/**
+ * Splits 0-10 answers into promoters (9-10), passives (7-8) and detractors
+ * (0-6). The score is the percentage of promoters minus that of detractors.
+ */
+const calculateNpsBreakdown = (responses: unknown[]) => {
+  const scores = responses
+    .map((response) => Number(response))
+    .filter((score) => Number.isFinite(score) && score >= 0 && score <= 10);
+  const promoters = scores.filter((score) => score >= 9).length;
+  const detractors = scores.filter((score) => score <= 6).length;
+
+  return {
+    promoters,
+    passives: scores.length - promoters - detractors,
+    detractors,
+    score: scores.length
+      ? Math.round(((promoters - detractors) / scores.length) * 100)
+      : null,
+  };
+};
+
+const calculateNpsAnalytics = (
+  field: FormField,
+  responses: unknown[],
+  submissions: FormSubmission[],
+): NpsAnalytics => {
+  const { score, ...breakdown } = calculateNpsBreakdown(responses);
+  return {
+    ...breakdown,
+    score: score ?? 0,
+    trend: calculateSubmissionTrends(
+      submissions,
+      (daySubmissions) =>
+        calculateNpsBreakdown(
+          daySubmissions
+            .map((sub) => sub.submission_data[field.id])
+            .filter((val) => val !== "" && val !== null && val !== undefined),
+        ).score,
+      NPS_TREND_DAYS,
+    ),
+  };
 };
 
 export const calculateFieldAnalytics = (
@@ -146,6 +254,12 @@ export const calculateFieldAnalytics = (
         } else {
           stringValue = "1 file";
         }
+      } else if (field.type === "date" && isDateRangeValue(response)) {
+        stringValue = `${response.from} – ${response.to}`;
+      } else if (field.type === "consent") {
+        stringValue = isConsentAccepted(response) ? "Accepted" : "Declined";
+      } else if (field.type === "matrix" || field.type === "group") {
+        stringValue = JSON.stringify(response);
       } else {
         stringValue = Array.isArray(response)
           ? response.join(", ")
@@ -171,37 +285,59 @@ export const calculateFieldAnalytics = (
       mostCommonValue: mostCommon ? mostCommon[0] : null,
       averageLength:
         responses.length > 0 ? Math.round(totalLength / responses.length) : 0,
+      ...(field.type === "matrix" && {
+        rowDistributions: calculateMatrixDistributions(field, responses),
+      }),
+      ...(field.type === "ranking" && {
+        optionRankings: calculateOptionRankings(field, responses),
+      }),
+      ...(field.type === "nps" && {
+        nps: calculateNpsAnalytics(field, responses, submissions),
+      }),
     };
   });
 
   return analytics;
 };
 
-export const calculateSubmissionTrends = (
+/**
+ * Buckets submissions by day over the last `days` days. By default each day
+ * holds its submission count; pass `summarize` to derive another daily
+ * metric, such as the NPS of that day's answers.
+ */
+export const calculateSubmissionTrends = <T = number>(
   submissions: FormSubmission[],
-): Record<string, number> => {
-  const trends: Record<string, number> = {};
-  const last7Days = new Date();
-  last7Days.setDate(last7Days.getDate() - 7);
-
-  for (let i = 6; i >= 0; i--) {
+  summarize: (daySubmissions: FormSubmission[]) => T = (daySubmissions) =>
+    daySubmissions.length as T,
+  days = 7,
+): Record<string, T> => {
+  const buckets: Record<string, FormSubmission[]> = {};
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+
+  for (let i = days - 1; i >= 0; i--) {
     const date = new Date();
     date.setDate(date.getDate() - i);
     const dateKey = date.toLocaleDateString();
-    trends[dateKey] = 0;
+    buckets[dateKey] = [];
   }
 
   submissions.forEach((sub) => {
     const subDate = new Date(sub.submitted_at);
-    if (subDate >= last7Days) {
+    if (subDate >= since) {
       const dateKey = subDate.toLocaleDateString();
-      if (trends[dateKey] !== undefined) {
-        trends[dateKey]++;
+      if (buckets[dateKey] !== undefined) {
+        buckets[dateKey].push(sub);
       }
     }
   });
 
-  return trends;
+  return Object.fromEntries(
+    Object.entries(buckets).map(([dateKey, daySubmissions]) => [
+      dateKey,
+      summarize(daySubmissions),
+    ]),
+  );
 };
 
 export const calculateHourlySubmissions = (
@@ -283,14 +419,16 @@ export const getActiveFilters = (
   }
 
   if (filterState.completionRate !== "all") {
-    const rates = {
-      complete: "Complete",
-      partial: "Partial",
-      empty: "Empty",
-    };
-    filters.push(`Completion: ${rates[filterState.completionRate]}`);
+    const completion = SUBMISSION_COMPLETIONS.find(
+      (option) => option.value === filterState.completionRate,
+    );
+    filters.push(`Completion: ${completion?.label}`);
   }
 
+  Object.entries(filterState.hiddenFields || {}).forEach(([fieldId, value]) => {
+    filters.push(`${fieldId}: ${value}`);
+  });
+
   return filters;
 };
 
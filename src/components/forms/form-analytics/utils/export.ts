@@ -1,6 +1,16 @@
 import { toast } from "@/hooks/use-toast";
 
 import type { Form, FormSubmission } from "@/lib/database";
+import { isConsentAccepted, isConsentRecord } from "@/lib/forms/consent";
+import { isDateRangeValue } from "@/lib/forms/dates";
+import { getStatusLabel } from "@/lib/forms/workflow";
+
+type SubmissionData = FormSubmission["submission_data"];
+
+interface ExportColumn {
+  header: string;
+  getValue: (data: SubmissionData) => unknown;
+}
 
 export const exportToJSON = (form: Form, submissions: FormSubmission[]) => {
   const exportData = {
@@ -17,6 +27,11 @@ export const exportToJSON = (form: Form, submissions: FormSubmission[]) => {
       data: submission.submission_data,
       submitted_at: submission.submitted_at,
       ip_address: submission.ip_address,
+      status: submission.status,
+      tags: submission.tags,
+      assignee: submission.assignee,
+      notes: submission.notes,
+      edit_history: submission.edit_history,
     })),
   };
 
@@ -51,27 +66,123 @@ export const exportToCSV = (form: Form, submissions: FormSubmission[]) => {
     ),
   );
 
+  const schemaFields = new Map(
+    [
+      ...(form.schema.fields || []),
+      ...(form.schema.blocks?.flatMap((block) => block.fields || []) || []),
+    ].map((field) => [field.id, field]),
+  );
+  const columns = Array.from(allFields).flatMap((key): ExportColumn[] => {
+    const field = schemaFields.get(key);
+
+    // Matrix answers are objects keyed by row, so each row gets its own column
+    if (field?.type === "matrix") {
+      return (field.settings?.matrixRows || []).map((row) => ({
+        header: `${field.label} - ${row.label}`,
+        getValue: (data) => data[key]?.[row.id],
+      }));
+    }
+
+    // Repeated groups get one column per child field for every entry index
+    // that appears in any submission
+    if (field?.type === "group") {
+      const entryCount = Math.max(
+        0,
+        ...submissions.map((submission) =>
+          Array.isArray(submission.submission_data[key])
+            ? submission.submission_data[key].length
+            : 0,
+        ),
+      );
+      return Array.from({ length: entryCount }).flatMap((_, index) =>
+        (field.settings?.groupFields || []).map((child) => ({
+          header: `${field.label} #${index + 1} - ${child.label}`,
+          getValue: (data) => data[key]?.[index]?.[child.id],
+        })),
+      );
+    }
+
+    // Date ranges get a start and an end column
+    if (field?.type === "date" && field.settings?.dateMode === "range") {
+      const range = (data: SubmissionData) => {
+        const value: unknown = data[key];
+        return isDateRangeValue(value) ? value : undefined;
+      };
+      return [
+        {
+          header: `${field.label} - From`,
+          getValue: (data) => range(data)?.from,
+        },
+        {
+          header: `${field.label} - To`,
+          getValue: (data) => range(data)?.to,
+        },
+      ];
+    }
+
+    // Consent records are split so the audit details stay readable
+    if (field?.type === "consent") {
+      const record = (data: SubmissionData) => {
+        const value: unknown = data[key];
+        return isConsentRecord(value) ? value : undefined;
+      };
+      return [
+        {
+          header: field.label,
+          getValue: (data) =>
+            data[key] === undefined
+              ? ""
+              : isConsentAccepted(data[key])
+                ? "Accepted"
+                : "Declined",
+        },
+        {
+          header: `${field.label} - Version`,
+          getValue: (data) => record(data)?.version,
+        },
+        {
+          header: `${field.label} - Text Hash`,
+          getValue: (data) => record(data)?.textHash,
+        },
+        {
+          header: `${field.label} - Recorded At`,
+          getValue: (data) => record(data)?.acceptedAt,
+        },
+      ];
+    }
+
+    return [{ header: key, getValue: (data) => data[key] }];
+  });
+
   const headers = [
     "Submission ID",
     "Submitted At",
     "IP Address",
-    ...Array.from(allFields),
+    "Status",
+    "Tags",
+    "Assignee",
+    ...columns.map((column) => column.header),
   ];
   const rows = submissions.map((submission) => {
     const row = [
       submission.id,
       new Date(submission.submitted_at).toISOString(),
       submission.ip_address || "",
+      getStatusLabel(form.schema, submission.status),
+      (submission.tags || []).join(", "),
+      submission.assignee || "",
     ];
 
-    Array.from(allFields).forEach((field) => {
-      const value = submission.submission_data[field];
+    columns.forEach((column) => {
+      const value = column.getValue(submission.submission_data);
       row.push(
         Array.isArray(value)
           ? value.join(", ")
           : typeof value === "object" && value !== null
             ? JSON.stringify(value)
-            : value || "",
+            : value
+              ? String(value)
+              : "",
       );
     });
 
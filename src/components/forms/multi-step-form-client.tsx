@@ -41,12 +41,15 @@ export function MultiStepFormClient({
     submitted,
     fieldVisibility,
     logicMessages,
+    logicFieldMessages,
+    stepPosition,
+    pathLength,
   } = formState;
   const { handleNext, handlePrevious, handleSubmit, handleFieldValueChange } =
     formState;
 
   const currentBlock = blocks[currentStep];
-  const progress = calculateProgress(currentStep, totalSteps);
+  const progress = calculateProgress(stepPosition, pathLength);
 
   const hasLivePatternError = currentBlock.fields.some(
     (field) =>
@@ -93,8 +96,8 @@ export function MultiStepFormClient({
   };
 
   useFormNavigation({
-    currentStep,
-    totalSteps,
+    currentStep: stepPosition,
+    totalSteps: pathLength,
     onNext: isStepDisabled ? () => {} : handleNext,
     onPrevious: handlePrevious,
     onSubmit: isStepDisabled ? () => {} : handleSubmit,
@@ -102,7 +105,7 @@ export function MultiStepFormClient({
   });
 
   if (submitted) {
-    return <SuccessScreen schema={schema} />;
+    return <SuccessScreen formData={formData} schema={schema} />;
   }
 
   if (isPasswordProtected && !passwordVerified) {
@@ -149,6 +152,7 @@ export function MultiStepFormClient({
             fieldVisibility={fieldVisibility}
             formData={formData}
             formId={formId}
+            logicFieldMessages={logicFieldMessages}
             logicMessages={logicMessages}
             onFieldValueChange={handleFieldValueChange}
             schema={schema}
@@ -156,13 +160,13 @@ export function MultiStepFormClient({
           />
           <FormNavigation
             currentFields={currentBlock.fields}
-            currentStep={currentStep}
+            currentStep={stepPosition}
             formData={formData}
             onNext={handleNext}
             onPrevious={handlePrevious}
             schema={schema}
             submitting={submitting}
-            totalSteps={totalSteps}
+            totalSteps={pathLength}
           />
         </Card>
 
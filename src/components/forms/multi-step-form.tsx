@@ -4,6 +4,7 @@ import React, { useEffect, useState } from "react";
 import toast from "react-hot-toast";
 import { getLivePatternError } from "@/components/form-builder/form-field-renderer/components/TextInputField";
 
+import { PartialCaptureNotice } from "@/components/forms/public-form/components/PartialCaptureNotice";
 import { PasswordProtectionModal } from "@/components/forms/public-form/components/PasswordProtectionModal";
 
 import { Card } from "@/components/ui/card";
@@ -29,25 +30,32 @@ export function MultiStepForm({
   formId,
   schema,
   dir,
+  edit,
 }: MultiStepFormProps & { dir?: string }) {
   const blocks = processFormBlocks(schema);
   const totalSteps = blocks.length;
 
-  const formState = useFormState(formId, schema, blocks);
+  const formState = useFormState(formId, schema, blocks, edit);
   const {
     currentStep,
     formData,
     errors,
     submitting,
     submitted,
+    editUrl,
     fieldVisibility,
     logicMessages,
+    logicFieldMessages,
+    stepPosition,
+    pathLength,
+    partialCaptureNotice,
+    optOutOfPartialCapture,
   } = formState;
   const { handleNext, handlePrevious, handleSubmit, handleFieldValueChange } =
     formState;
 
   const currentBlock = blocks[currentStep];
-  const progress = calculateProgress(currentStep, totalSteps);
+  const progress = calculateProgress(stepPosition, pathLength);
 
   const hasLivePatternError = currentBlock.fields.some(
     (field) =>
@@ -70,7 +78,8 @@ export function MultiStepForm({
 
   useEffect(() => {
     const passwordProtection = schema.settings.passwordProtection;
-    if (passwordProtection?.enabled && passwordProtection?.password) {
+    // An edit link is only handed out after a successful submission
+    if (!edit && passwordProtection?.enabled && passwordProtection?.password) {
       setIsPasswordProtected(true);
       setShowPasswordModal(true);
     }
@@ -98,8 +107,8 @@ export function MultiStepForm({
   };
 
   useFormNavigation({
-    currentStep,
-    totalSteps,
+    currentStep: stepPosition,
+    totalSteps: pathLength,
     onNext: isStepDisabled ? () => {} : handleNext,
     onPrevious: handlePrevious,
     onSubmit: isStepDisabled ? () => {} : handleSubmit,
@@ -107,7 +116,9 @@ export function MultiStepForm({
   });
 
   if (submitted) {
-    return <SuccessScreen schema={schema} />;
+    return (
+      <SuccessScreen editUrl={editUrl} formData={formData} schema={schema} />
+    );
   }
 
   if (isPasswordProtected && !passwordVerified) {
@@ -160,6 +171,7 @@ export function MultiStepForm({
               fieldVisibility={fieldVisibility}
               formData={formData}
               formId={formId}
+              logicFieldMessages={logicFieldMessages}
               logicMessages={logicMessages}
               onFieldValueChange={handleFieldValueChange}
               schema={schema}
@@ -168,14 +180,20 @@ export function MultiStepForm({
           </div>
           <FormNavigation
             currentFields={currentBlock.fields}
-            currentStep={currentStep}
+            currentStep={stepPosition}
             formData={formData}
             onNext={handleNext}
             onPrevious={handlePrevious}
             schema={schema}
             submitting={submitting}
-            totalSteps={totalSteps}
+            totalSteps={pathLength}
           />
+          {partialCaptureNotice && (
+            <PartialCaptureNotice
+              notice={partialCaptureNotice}
+              onOptOut={optOutOfPartialCapture}
+            />
+          )}
         </Card>
 
         <FormFooter schema={schema} />
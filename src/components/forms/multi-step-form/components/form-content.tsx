@@ -5,6 +5,12 @@ import { FormFieldRenderer } from "@/components/form-builder/form-field-renderer
 import { Separator } from "@/components/ui";
 import { SocialMediaIcons } from "@/components/ui/social-media-icons";
 import type { FormBlock, FormSchema } from "@/lib/database";
+import { resolveCascadingField } from "@/lib/forms/cascade";
+import { type FieldLogicState, withLogicRequired } from "@/lib/forms/logic";
+import {
+  resolveFieldMergeTags,
+  resolveMergeTags,
+} from "@/lib/forms/merge-tags";
 
 interface FormContentProps {
   formId: string;
@@ -15,8 +21,9 @@ interface FormContentProps {
   title?: string;
   description?: string;
   schema: FormSchema;
-  fieldVisibility?: Record<string, { visible: boolean; disabled: boolean }>;
+  fieldVisibility?: Record<string, FieldLogicState>;
   logicMessages?: string[];
+  logicFieldMessages?: Record<string, string[]>;
 }
 
 export const FormContent: React.FC<FormContentProps> = ({
@@ -30,6 +37,7 @@ export const FormContent: React.FC<FormContentProps> = ({
   schema,
   fieldVisibility,
   logicMessages,
+  logicFieldMessages,
 }) => {
   const firstFieldRef = useRef<any>(null);
   useEffect(() => {
@@ -38,22 +46,24 @@ export const FormContent: React.FC<FormContentProps> = ({
     }
   }, [currentBlock]);
 
-  const visibleFields = fieldVisibility
-    ? currentBlock.fields.filter(
-        (field) => fieldVisibility[field.id]?.visible !== false,
-      )
-    : currentBlock.fields;
+  const visibleFields = currentBlock.fields.filter(
+    (field) =>
+      field.type !== "hidden" && fieldVisibility?.[field.id]?.visible !== false,
+  );
 
   return (
     <div className="flex flex-col gap-6">
       <div className="flex flex-col gap-4">
         <div className="flex flex-col gap-2">
           <h1 className="font-bold text-3xl text-foreground">
-            {currentBlock.title || title}
+            {resolveMergeTags(currentBlock.title || title || "", formData)}
           </h1>
           {(currentBlock.description || description) && (
             <p className="text-muted-foreground">
-              {currentBlock.description || description}
+              {resolveMergeTags(
+                currentBlock.description || description || "",
+                formData,
+              )}
             </p>
           )}
         </div>
@@ -88,12 +98,23 @@ export const FormContent: React.FC<FormContentProps> = ({
             <FormFieldRenderer
               disabled={fieldVisibility?.[field.id]?.disabled}
               error={errors[field.id]}
-              field={field}
+              field={resolveFieldMergeTags(
+                resolveCascadingField(
+                  withLogicRequired(field, fieldVisibility?.[field.id]),
+                  formData,
+                ),
+                formData,
+              )}
               fieldRef={idx === 0 ? firstFieldRef : undefined}
               formId={formId}
               onChange={(value) => onFieldValueChange(field.id, value)}
               value={formData[field.id]}
             />
+            {logicFieldMessages?.[field.id]?.map((msg, i) => (
+              <p className="mt-2 text-muted-foreground text-sm" key={i}>
+                {msg}
+              </p>
+            ))}
           </div>
         ))}
       </div>
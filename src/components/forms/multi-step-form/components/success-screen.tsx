@@ -4,12 +4,19 @@ import { Link } from "react-aria-components";
 import { Card } from "@/components/ui/card";
 
 import type { FormSchema } from "@/lib/database";
+import { resolveMergeTags } from "@/lib/forms/merge-tags";
 
 interface SuccessScreenProps {
   schema: FormSchema;
+  formData?: Record<string, unknown>;
+  editUrl?: string | null;
 }
 
-export const SuccessScreen: React.FC<SuccessScreenProps> = ({ schema }) => {
+export const SuccessScreen: React.FC<SuccessScreenProps> = ({
+  schema,
+  formData = {},
+  editUrl,
+}) => {
   return (
     <div className="flex min-h-screen items-center justify-center bg-background">
       <div className="mx-auto flex w-full max-w-2xl flex-col gap-4">
@@ -32,9 +39,23 @@ export const SuccessScreen: React.FC<SuccessScreenProps> = ({ schema }) => {
             </div>
             <h2 className="font-bold text-2xl text-foreground">Thank You!</h2>
             <p className="text-center text-muted-foreground">
-              {schema.settings.successMessage ||
-                "Your form has been submitted successfully."}
+              {resolveMergeTags(
+                schema.settings.successMessage ||
+                  "Your form has been submitted successfully.",
+                formData,
+              )}
             </p>
+            {editUrl && (
+              <p className="text-center text-muted-foreground text-sm">
+                Need to change an answer later? Keep this link:{" "}
+                <a
+                  className="font-medium text-foreground underline"
+                  href={editUrl}
+                >
+                  Edit your response
+                </a>
+              </p>
+            )}
             {schema.settings.redirectUrl && (
               <p className="text-muted-foreground/70 text-sm">
                 Redirecting you in a moment...
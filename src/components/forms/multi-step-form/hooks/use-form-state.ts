@@ -1,11 +1,22 @@
 import { useEffect, useRef, useState } from "react";
-import { useFormProgress } from "@/hooks/form-progress";
+import { useFormProgress, usePartialCapture } from "@/hooks/form-progress";
 import { usePrepopulation } from "@/hooks/prepopulation/usePrepopulation";
 import { toast } from "@/hooks/use-toast";
 
 import type { FormBlock, FormField, FormSchema } from "@/lib/database";
-import type { LogicAction } from "@/lib/forms/logic";
-import { evaluateLogic } from "@/lib/forms/logic";
+import { clearCascadingChildren } from "@/lib/forms/cascade";
+import type { ResponseEditSession } from "@/lib/forms/edit-links";
+import { applyCalculatedFields } from "@/lib/forms/formula";
+import {
+  applyLogicValues,
+  evaluateLogic,
+  type FieldLogicState,
+  getLogicFieldVisibility,
+  getLogicMessages,
+  getNextBlockIndex,
+  getReachableBlockPath,
+  withFieldTypes,
+} from "@/lib/forms/logic";
 import type { FormActions, FormState } from "../types";
 import { submitForm } from "../utils/form-utils";
 
@@ -16,7 +27,13 @@ const getDefaultValueForField = (field: FormField): any => {
     case "tags":
       return [];
     case "checkbox":
+    case "ranking":
+    case "group":
       return [];
+    case "consent":
+      return false;
+    case "image_choice":
+      return field.settings?.allowMultiple ? [] : "";
     case "radio":
       return "";
     case "select":
@@ -24,6 +41,7 @@ const getDefaultValueForField = (field: FormField): any => {
     case "slider":
       return field.settings?.defaultValue || 50;
     case "rating":
+    case "nps":
       return null;
     case "number":
       return "";
@@ -51,16 +69,24 @@ export const useFormState = (
   formId: string,
   schema: FormSchema,
   blocks: FormBlock[],
+  edit?: ResponseEditSession,
 ): FormState &
   FormActions & {
-    fieldVisibility: Record<string, { visible: boolean; disabled: boolean }>;
+    fieldVisibility: Record<string, FieldLogicState>;
     logicMessages: string[];
+    logicFieldMessages: Record<string, string[]>;
+    stepPosition: number;
+    pathLength: number;
+    partialCaptureNotice: string | null;
+    optOutOfPartialCapture: () => void;
   } => {
   const [currentStep, setCurrentStep] = useState(0);
+  const [stepHistory, setStepHistory] = useState<number[]>([]);
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  const [editUrl, setEditUrl] = useState<string | null>(null);
   const [isLoadingProgress, setIsLoadingProgress] = useState(true);
   const initializedFieldsRef = useRef<Set<string>>(new Set());
 
@@ -77,12 +103,15 @@ export const useFormState = (
     loadProgress,
     clearProgress,
   } = useFormProgress(formId, allFields.length, {
-    enabled: true,
+    // An edit starts from the submitted answers, not a saved draft
+    enabled: !edit,
     storage: "localStorage",
     autoSaveInterval: 3000,
     retentionDays: 7,
   });
 
+  const partialCapture = usePartialCapture(formId, schema, allFields, !edit);
+
   const {
     prepopulatedData,
     loading: prepopLoading,
@@ -112,7 +141,9 @@ export const useFormState = (
       blocks.forEach((block) => {
         block.fields?.forEach((field) => {
           if (newFieldIds.includes(field.id)) {
-            const prepopValue = prepopulatedData[field.id];
+            const prepopValue = edit
+              ? edit.submissionData[field.id]
+              : prepopulatedData[field.id];
             newFormData[field.id] =
               prepopValue !== undefined
                 ? prepopValue
@@ -126,7 +157,7 @@ export const useFormState = (
   }, [blocks.length, prepopulatedData, formData]);
 
   useEffect(() => {
-    if (Object.keys(prepopulatedData).length > 0) {
+    if (!edit && Object.keys(prepopulatedData).length > 0) {
       setFormData((prevFormData) => {
         const updatedFormData = { ...prevFormData };
         let hasChanges = false;
@@ -188,10 +219,19 @@ export const useFormState = (
         });
 
         if (progress.currentStep >= 0 && progress.currentStep < totalSteps) {
+          const restoredPath = getReachableBlockPath(
+            withFieldTypes(schema.logic || [], allFields),
+            blocks,
+            progress.formData,
+          );
+          const restoredIndex = restoredPath.indexOf(progress.currentStep);
+          setStepHistory(
+            restoredIndex > 0 ? restoredPath.slice(0, restoredIndex) : [],
+          );
           setCurrentStep(progress.currentStep);
         }
       }
-      
+
       setIsLoadingProgress(false);
     }
   }, [progress, totalSteps, allFields, isLoadingProgress]);
@@ -212,62 +252,43 @@ export const useFormState = (
     }
   }, [formData, currentStep, saveProgress]);
 
-  const logic = schema.logic || [];
-  const logicActions = evaluateLogic(logic, formData);
+  useEffect(() => {
+    partialCapture.capture(formData, currentStep);
+  }, [formData, currentStep]);
 
-  const fieldVisibility: Record<
-    string,
-    { visible: boolean; disabled: boolean }
-  > = {};
-  blocks.forEach((block) => {
-    block.fields.forEach((field) => {
-      fieldVisibility[field.id] = { visible: true, disabled: false };
-    });
-  });
-  const logicMessages: string[] = [];
+  const logic = withFieldTypes(schema.logic || [], allFields);
+  const allFieldIds = allFields.map((field) => field.id);
 
-  const actionsByField: Record<string, LogicAction[]> = {};
-  logicActions.forEach((action) => {
-    if (action.target) {
-      if (!actionsByField[action.target]) actionsByField[action.target] = [];
-      actionsByField[action.target].push(action);
-    }
-  });
+  useEffect(() => {
+    const derivedData = applyLogicValues(
+      logic,
+      allFieldIds,
+      formData,
+      undefined,
+      (state) => applyCalculatedFields(allFields, state),
+    );
+    if (derivedData !== formData) setFormData(derivedData);
+  }, [formData]);
 
-  Object.entries(fieldVisibility).forEach(([fieldId, vis]) => {
-    const actions = actionsByField[fieldId] || [];
-    if (actions.some((a) => a.type === "hide")) {
-      vis.visible = false;
-    } else if (actions.some((a) => a.type === "show")) {
-      vis.visible = true;
-    }
-    if (actions.some((a) => a.type === "disable")) {
-      vis.disabled = true;
-    } else if (actions.some((a) => a.type === "enable")) {
-      vis.disabled = false;
-    }
-  });
+  const logicActions = evaluateLogic(logic, formData);
 
-  logicActions.forEach((action) => {
-    if (
-      action.target &&
-      fieldVisibility[action.target] &&
-      action.type === "set_value" &&
-      typeof action.target === "string" &&
-      Object.hasOwn(formData, action.target) &&
-      formData[action.target] !== action.value
-    )
-      setFormData((prev) => ({
-        ...prev,
-        [action.target as string]: action.value,
-      }));
-    if (action.type === "show_message" && action.value) {
-      logicMessages.push(String(action.value));
-    }
-  });
+  const fieldVisibility = getLogicFieldVisibility(logic, allFieldIds, formData);
+  const { messages: logicMessages, fieldMessages: logicFieldMessages } =
+    getLogicMessages(logicActions, allFieldIds);
+
+  const remainingPath = getReachableBlockPath(
+    logic,
+    blocks,
+    formData,
+    undefined,
+    currentStep,
+  );
 
   const handleFieldValueChange = (fieldId: string, value: any) => {
-    setFormData((prev) => ({ ...prev, [fieldId]: value }));
+    partialCapture.trackField(fieldId);
+    setFormData((prev) =>
+      clearCascadingChildren(allFields, prev, { ...prev, [fieldId]: value }),
+    );
     if (errors[fieldId]) {
       setErrors((prev) => ({ ...prev, [fieldId]: "" }));
     }
@@ -291,25 +312,35 @@ export const useFormState = (
     // Clear any existing errors for this step
     setErrors({});
 
-    if (currentStep < totalSteps - 1) {
-      setCurrentStep(currentStep + 1);
-    } else {
+    const nextStep = getNextBlockIndex(logic, blocks, currentStep, formData);
+    if (nextStep === null) {
       handleSubmit();
+      return;
     }
+
+    // Jumping back to a visited step rewinds the path instead of looping
+    const visitedIndex = stepHistory.indexOf(nextStep);
+    setStepHistory((prev) =>
+      visitedIndex === -1
+        ? [...prev, currentStep]
+        : prev.slice(0, visitedIndex),
+    );
+    setCurrentStep(nextStep);
   };
 
   const handlePrevious = () => {
-    if (currentStep > 0) {
-      setCurrentStep(currentStep - 1);
+    if (stepHistory.length > 0) {
+      setCurrentStep(stepHistory[stepHistory.length - 1]);
+      setStepHistory((prev) => prev.slice(0, -1));
     }
   };
 
   const handleSubmit = async () => {
-    // Validate all steps before final submission
+    // Validate the steps on the path taken before final submission
     let allValid = true;
     const allErrors: Record<string, string> = {};
 
-    for (let stepIndex = 0; stepIndex < blocks.length; stepIndex++) {
+    for (const stepIndex of [...stepHistory, currentStep]) {
       const { errors: stepErrors, isValid } = validateStep(
         stepIndex,
         blocks,
@@ -332,12 +363,23 @@ export const useFormState = (
     setSubmitting(true);
 
     try {
-      const result = await submitForm(formId, formData);
+      const result = await submitForm(
+        formId,
+        formData,
+        edit?.token,
+        partialCapture.getSubmitSessionId(),
+      );
 
       if (result.success) {
         setSubmitted(true);
+        setEditUrl(result.editUrl ?? null);
         clearProgress();
-        toast.success("Form submitted successfully!");
+        partialCapture.finishSession();
+        toast.success(
+          edit
+            ? "Your response has been updated!"
+            : "Form submitted successfully!",
+        );
 
         if (schema.settings.redirectUrl) {
           setTimeout(() => {
@@ -360,6 +402,7 @@ export const useFormState = (
     errors,
     submitting,
     submitted,
+    editUrl,
     progress,
     progressLoading,
     progressSaving,
@@ -376,5 +419,12 @@ export const useFormState = (
     clearProgress,
     fieldVisibility,
     logicMessages,
+    logicFieldMessages,
+    stepPosition: stepHistory.length,
+    pathLength: stepHistory.length + remainingPath.length,
+    partialCaptureNotice: partialCapture.capturing
+      ? partialCapture.notice
+      : null,
+    optOutOfPartialCapture: partialCapture.optOut,
   };
 };
@@ -1,9 +1,12 @@
 import type { FormBlock, FormSchema } from "@/lib/database";
 import type { FormProgress } from "@/lib/form-progress/types";
+import type { ResponseEditSession } from "@/lib/forms/edit-links";
 
 export interface MultiStepFormProps {
   formId: string;
   schema: FormSchema;
+  /** Set when a respondent reopens their submission from an edit link. */
+  edit?: ResponseEditSession;
 }
 
 export interface FormState {
@@ -12,6 +15,7 @@ export interface FormState {
   errors: Record<string, string>;
   submitting: boolean;
   submitted: boolean;
+  editUrl: string | null;
 
   progress: FormProgress | null;
   progressLoading: boolean;
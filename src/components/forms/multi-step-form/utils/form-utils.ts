@@ -25,7 +25,9 @@ export const calculateProgress = (
 export const submitForm = async (
   formId: string,
   formData: Record<string, any>,
-): Promise<{ success: boolean; message?: string }> => {
+  editToken?: string,
+  partialSessionId?: string,
+): Promise<{ success: boolean; message?: string; editUrl?: string }> => {
   try {
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -37,9 +39,13 @@ export const submitForm = async (
       }
     }
     const response = await fetch(`/api/forms/${formId}/submit`, {
-      method: "POST",
+      method: editToken ? "PUT" : "POST",
       headers,
-      body: JSON.stringify({ submissionData: formData }),
+      body: JSON.stringify({
+        submissionData: formData,
+        editToken,
+        partialSessionId,
+      }),
     });
 
     const result = await response.json();
@@ -51,7 +57,7 @@ export const submitForm = async (
       };
     }
 
-    return { success: true };
+    return { success: true, editUrl: result.editUrl };
   } catch {
     return {
       success: false,
@@ -0,0 +1,27 @@
+import { Info } from "lucide-react";
+
+interface PartialCaptureNoticeProps {
+  notice: string;
+  onOptOut: () => void;
+}
+
+export function PartialCaptureNotice({
+  notice,
+  onOptOut,
+}: PartialCaptureNoticeProps) {
+  return (
+    <div className="flex items-start gap-2 text-left text-muted-foreground text-xs">
+      <Info className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+      <p>
+        {notice}{" "}
+        <button
+          className="font-medium text-foreground underline"
+          onClick={onOptOut}
+          type="button"
+        >
+          Don't save my answers
+        </button>
+      </p>
+    </div>
+  );
+}
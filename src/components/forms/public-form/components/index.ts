@@ -1,3 +1,4 @@
+export { PartialCaptureNotice } from './PartialCaptureNotice';
 export { PasswordProtectionModal } from './PasswordProtectionModal';
 export { SingleStepForm } from './single-step-form';
 export { SingleStepFormContent } from './single-step-form-content';
@@ -8,6 +8,9 @@ import { Card } from '@/components/ui/card';
 import { SocialMediaIcons } from '@/components/ui/social-media-icons';
 import { useFormStyling } from '@/hooks/use-form-styling';
 import type { FormField, FormSchema } from '@/lib/database';
+import { resolveCascadingField } from '@/lib/forms/cascade';
+import { type FieldLogicState, withLogicRequired } from '@/lib/forms/logic';
+import { resolveFieldMergeTags } from '@/lib/forms/merge-tags';
 
 interface SingleStepFormContentProps {
   formId: string;
@@ -18,8 +21,9 @@ interface SingleStepFormContentProps {
   submitting: boolean;
   onFieldValueChange: (fieldId: string, value: any) => void;
   onSubmit: (e: React.FormEvent) => Promise<void>;
-  fieldVisibility?: Record<string, { visible: boolean; disabled: boolean }>;
+  fieldVisibility?: Record<string, FieldLogicState>;
   logicMessages?: string[];
+  logicFieldMessages?: Record<string, string[]>;
 }
 
 export const SingleStepFormContent: React.FC<SingleStepFormContentProps> = ({
@@ -33,6 +37,7 @@ export const SingleStepFormContent: React.FC<SingleStepFormContentProps> = ({
   onSubmit,
   fieldVisibility,
   logicMessages,
+  logicFieldMessages,
 }) => {
   const firstFieldRef = useRef<any>(null);
   const { customStyles, getFieldStyles, getButtonStyles } =
@@ -44,9 +49,10 @@ export const SingleStepFormContent: React.FC<SingleStepFormContentProps> = ({
     }
   }, []);
 
-  const visibleFields = fieldVisibility
-    ? fields.filter((field) => fieldVisibility[field.id]?.visible !== false)
-    : fields;
+  const visibleFields = fields.filter(
+    (field) =>
+      field.type !== 'hidden' && fieldVisibility?.[field.id]?.visible !== false
+  );
 
   // Debug logging
   console.log('SingleStepFormContent rendered with:', {
@@ -106,12 +112,23 @@ export const SingleStepFormContent: React.FC<SingleStepFormContentProps> = ({
             <FormFieldRenderer
               disabled={fieldVisibility?.[field.id]?.disabled}
               error={errors[field.id]}
-              field={field}
+              field={resolveFieldMergeTags(
+                resolveCascadingField(
+                  withLogicRequired(field, fieldVisibility?.[field.id]),
+                  formData
+                ),
+                formData
+              )}
               fieldRef={idx === 0 ? firstFieldRef : undefined}
               formId={formId}
               onChange={(value) => onFieldValueChange(field.id, value)}
               value={formData[field.id]}
             />
+            {logicFieldMessages?.[field.id]?.map((msg, i) => (
+              <p className="mt-2 text-muted-foreground text-sm" key={i}>
+                {msg}
+              </p>
+            ))}
           </div>
         ))}
 
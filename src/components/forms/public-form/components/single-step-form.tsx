@@ -13,6 +13,7 @@ import { useSingleStepForm } from '../hooks/use-single-step-form';
 import type { PublicFormProps } from '../types';
 
 import { getAllFields } from '../utils/form-utils';
+import { PartialCaptureNotice } from './PartialCaptureNotice';
 import { PasswordProtectionModal } from './PasswordProtectionModal';
 import { SingleStepFormContent } from './single-step-form-content';
 import { SingleStepSuccessScreen } from './single-step-success-screen';
@@ -21,6 +22,7 @@ export const SingleStepForm: React.FC<PublicFormProps & { dir?: string }> = ({
   formId,
   schema,
   dir,
+  edit,
 }) => {
   const fields = getAllFields(schema);
   
@@ -40,8 +42,12 @@ export const SingleStepForm: React.FC<PublicFormProps & { dir?: string }> = ({
     handleSubmit,
     fieldVisibility,
     logicMessages,
+    logicFieldMessages,
     quizResults,
-  } = useSingleStepForm(formId, schema, fields);
+    editUrl,
+    partialCaptureNotice,
+    optOutOfPartialCapture,
+  } = useSingleStepForm(formId, schema, fields, edit);
 
   const [isPasswordProtected, setIsPasswordProtected] = useState(false);
   const [passwordVerified, setPasswordVerified] = useState(false);
@@ -59,7 +65,8 @@ export const SingleStepForm: React.FC<PublicFormProps & { dir?: string }> = ({
 
   useEffect(() => {
     const passwordProtection = schema.settings.passwordProtection;
-    if (passwordProtection?.enabled && passwordProtection?.password) {
+    // An edit link is only handed out after a successful submission
+    if (!edit && passwordProtection?.enabled && passwordProtection?.password) {
       setIsPasswordProtected(true);
       setShowPasswordModal(true);
     }
@@ -92,7 +99,12 @@ export const SingleStepForm: React.FC<PublicFormProps & { dir?: string }> = ({
 
   if (submitted) {
     return (
-      <SingleStepSuccessScreen quizResults={quizResults} schema={schema} />
+      <SingleStepSuccessScreen
+        editUrl={editUrl}
+        formData={formData}
+        quizResults={quizResults}
+        schema={schema}
+      />
     );
   }
 
@@ -135,6 +147,7 @@ export const SingleStepForm: React.FC<PublicFormProps & { dir?: string }> = ({
             fieldVisibility={fieldVisibility}
             formData={formData}
             formId={formId}
+            logicFieldMessages={logicFieldMessages}
             logicMessages={logicMessages}
             onFieldValueChange={handleFieldValueChange}
             onSubmit={handleSubmit}
@@ -143,6 +156,13 @@ export const SingleStepForm: React.FC<PublicFormProps & { dir?: string }> = ({
           />
         </div>
 
+        {partialCaptureNotice && (
+          <PartialCaptureNotice
+            notice={partialCaptureNotice}
+            onOptOut={optOutOfPartialCapture}
+          />
+        )}
+
         <div
           className="flex flex-col gap-4 text-center"
           style={customStyles.textStyle}
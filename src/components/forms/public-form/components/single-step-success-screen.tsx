@@ -4,16 +4,19 @@ import { QuizResults } from '@/components/quiz/QuizResults';
 import { Card } from '@/components/ui/card';
 
 import type { FormSchema } from '@/lib/database';
+import { resolveMergeTags } from '@/lib/forms/merge-tags';
 import type { QuizResult } from '@/lib/quiz/scoring';
 
 interface SingleStepSuccessScreenProps {
   schema: FormSchema;
   quizResults?: QuizResult | null;
+  formData?: Record<string, unknown>;
+  editUrl?: string | null;
 }
 
 export const SingleStepSuccessScreen: React.FC<
   SingleStepSuccessScreenProps
-> = ({ schema, quizResults }) => {
+> = ({ schema, quizResults, formData = {}, editUrl }) => {
   const shouldShowQuizResults =
     schema.settings.quiz?.enabled &&
     (schema.settings.quiz?.showScore !== false ||
@@ -54,9 +57,23 @@ export const SingleStepSuccessScreen: React.FC<
               </div>
               <h2 className="font-bold text-2xl text-foreground">Thank You!</h2>
               <p className="text-center text-muted-foreground">
-                {schema.settings.successMessage ||
-                  'Your form has been submitted successfully.'}
+                {resolveMergeTags(
+                  schema.settings.successMessage ||
+                    'Your form has been submitted successfully.',
+                  formData
+                )}
               </p>
+              {editUrl && (
+                <p className="text-center text-muted-foreground text-sm">
+                  Need to change an answer later? Keep this link:{' '}
+                  <a
+                    className="font-medium text-foreground underline"
+                    href={editUrl}
+                  >
+                    Edit your response
+                  </a>
+                </p>
+              )}
               {schema.settings.redirectUrl && (
                 <p className="text-muted-foreground text-sm">
                   Redirecting you in a moment...
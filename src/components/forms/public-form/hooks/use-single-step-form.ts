@@ -1,10 +1,20 @@
 import { useEffect, useRef, useState } from 'react';
-import { useFormProgress } from '@/hooks/form-progress';
+import { useFormProgress, usePartialCapture } from '@/hooks/form-progress';
 import { usePrepopulation } from '@/hooks/prepopulation/usePrepopulation';
 import { toast } from '@/hooks/use-toast';
 
 import type { FormField, FormSchema } from '@/lib/database';
-import { evaluateLogic } from '@/lib/forms/logic';
+import { clearCascadingChildren } from '@/lib/forms/cascade';
+import type { ResponseEditSession } from '@/lib/forms/edit-links';
+import { applyCalculatedFields } from '@/lib/forms/formula';
+import {
+  applyLogicValues,
+  evaluateLogic,
+  type FieldLogicState,
+  getLogicFieldVisibility,
+  getLogicMessages,
+  withFieldTypes,
+} from '@/lib/forms/logic';
 import { calculateQuizScore, type QuizResult } from '@/lib/quiz/scoring';
 import type { SingleStepFormActions, SingleStepFormState } from '../types';
 
@@ -18,7 +28,13 @@ const getDefaultValueForField = (field: FormField): any => {
     case 'tags':
       return [];
     case 'checkbox':
+    case 'ranking':
+    case 'group':
       return [];
+    case 'consent':
+      return false;
+    case 'image_choice':
+      return field.settings?.allowMultiple ? [] : '';
     case 'radio':
       return '';
     case 'select':
@@ -26,6 +42,7 @@ const getDefaultValueForField = (field: FormField): any => {
     case 'slider':
       return field.settings?.defaultValue || 50;
     case 'rating':
+    case 'nps':
       return null;
     case 'number':
       return '';
@@ -54,17 +71,22 @@ const initializeFormData = (fields: FormField[]): Record<string, any> => {
 export const useSingleStepForm = (
   formId: string,
   schema: FormSchema,
-  fields: FormField[]
+  fields: FormField[],
+  edit?: ResponseEditSession
 ): SingleStepFormState &
   SingleStepFormActions & {
-    fieldVisibility: Record<string, { visible: boolean; disabled: boolean }>;
+    fieldVisibility: Record<string, FieldLogicState>;
     logicMessages: string[];
+    logicFieldMessages: Record<string, string[]>;
+    partialCaptureNotice: string | null;
+    optOutOfPartialCapture: () => void;
   } => {
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [quizResults, setQuizResults] = useState<QuizResult | null>(null);
+  const [editUrl, setEditUrl] = useState<string | null>(null);
   const [isLoadingProgress, setIsLoadingProgress] = useState(true);
   const initializedFieldsRef = useRef<Set<string>>(new Set());
 
@@ -77,12 +99,15 @@ export const useSingleStepForm = (
     loadProgress,
     clearProgress,
   } = useFormProgress(formId, fields.length, {
-    enabled: true, // Re-enabled after properly fixing infinite loop
+    // An edit starts from the submitted answers, not a saved draft
+    enabled: !edit,
     storage: 'localStorage',
     autoSaveInterval: 3000,
     retentionDays: 7,
   });
 
+  const partialCapture = usePartialCapture(formId, schema, fields, !edit);
+
   const {
     prepopulatedData,
     loading: prepopLoading,
@@ -100,7 +125,8 @@ export const useSingleStepForm = (
         const newFormData = { ...prevFormData };
         fields.forEach((field) => {
           if (newFieldIds.includes(field.id)) {
-            newFormData[field.id] = getDefaultValueForField(field);
+            newFormData[field.id] =
+              edit?.submissionData[field.id] ?? getDefaultValueForField(field);
           }
         });
         return newFormData;
@@ -124,7 +150,7 @@ export const useSingleStepForm = (
   }, [formId, fields, progress, isLoadingProgress]);
 
   useEffect(() => {
-    if (Object.keys(prepopulatedData).length > 0) {
+    if (!edit && Object.keys(prepopulatedData).length > 0) {
       setFormData((prevFormData) => {
         const updatedFormData = { ...prevFormData };
         let hasChanges = false;
@@ -169,44 +195,35 @@ export const useSingleStepForm = (
     }
   }, [formData, saveProgress]);
 
-  const logic = schema.logic || [];
+  useEffect(() => {
+    partialCapture.capture(formData);
+  }, [formData]);
+
+  const logic = withFieldTypes(schema.logic || [], fields);
+  const fieldIds = fields.map((field) => field.id);
+
+  useEffect(() => {
+    const derivedData = applyLogicValues(
+      logic,
+      fieldIds,
+      formData,
+      undefined,
+      (state) => applyCalculatedFields(fields, state)
+    );
+    if (derivedData !== formData) setFormData(derivedData);
+  }, [formData]);
+
   const logicActions = evaluateLogic(logic, formData);
 
-  const fieldVisibility: Record<
-    string,
-    { visible: boolean; disabled: boolean }
-  > = {};
-  fields.forEach((field) => {
-    fieldVisibility[field.id] = { visible: true, disabled: false };
-  });
-  const logicMessages: string[] = [];
-  logicActions.forEach((action) => {
-    if (action.target && fieldVisibility[action.target]) {
-      if (action.type === 'hide')
-        fieldVisibility[action.target].visible = false;
-      if (action.type === 'show') fieldVisibility[action.target].visible = true;
-      if (action.type === 'disable')
-        fieldVisibility[action.target].disabled = true;
-      if (action.type === 'enable')
-        fieldVisibility[action.target].disabled = false;
-      if (
-        action.type === 'set_value' &&
-        typeof action.target === 'string' &&
-        formData[action.target] !== action.value
-      ) {
-        setFormData((prev) => ({
-          ...prev,
-          [action.target as string]: action.value,
-        }));
-      }
-    }
-    if (action.type === 'show_message' && action.value) {
-      logicMessages.push(String(action.value));
-    }
-  });
+  const fieldVisibility = getLogicFieldVisibility(logic, fieldIds, formData);
+  const { messages: logicMessages, fieldMessages: logicFieldMessages } =
+    getLogicMessages(logicActions, fieldIds);
 
   const handleFieldValueChange = (fieldId: string, value: any) => {
-    setFormData((prev) => ({ ...prev, [fieldId]: value }));
+    partialCapture.trackField(fieldId);
+    setFormData((prev) =>
+      clearCascadingChildren(fields, prev, { ...prev, [fieldId]: value })
+    );
     if (errors[fieldId]) {
       setErrors((prev) => ({ ...prev, [fieldId]: '' }));
     }
@@ -217,7 +234,8 @@ export const useSingleStepForm = (
 
     const { errors: validationErrors, isValid } = validateSingleStepForm(
       fields,
-      formData
+      formData,
+      fieldVisibility
     );
 
     if (!isValid) {
@@ -229,7 +247,12 @@ export const useSingleStepForm = (
     setSubmitting(true);
 
     try {
-      const result = await submitSingleStepForm(formId, formData);
+      const result = await submitSingleStepForm(
+        formId,
+        formData,
+        edit?.token,
+        partialCapture.getSubmitSessionId()
+      );
 
       if (result.success) {
         if (schema.settings.quiz?.enabled) {
@@ -238,9 +261,15 @@ export const useSingleStepForm = (
         }
 
         setSubmitted(true);
-        toast.success('Form submitted successfully!');
+        setEditUrl(result.editUrl ?? null);
+        toast.success(
+          edit
+            ? 'Your response has been updated!'
+            : 'Form submitted successfully!'
+        );
 
         clearProgress();
+        partialCapture.finishSession();
 
         const shouldShowQuizResults =
           schema.settings.quiz?.enabled &&
@@ -275,7 +304,13 @@ export const useSingleStepForm = (
     handleSubmit,
     fieldVisibility,
     logicMessages,
+    logicFieldMessages,
     quizResults,
+    editUrl,
+    partialCaptureNotice: partialCapture.capturing
+      ? partialCapture.notice
+      : null,
+    optOutOfPartialCapture: partialCapture.optOut,
 
     progress,
     progressLoading,
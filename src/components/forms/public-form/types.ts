@@ -1,11 +1,14 @@
 import type { FormSchema } from "@/lib/database";
 import type { FormProgress } from "@/lib/form-progress/types";
+import type { ResponseEditSession } from "@/lib/forms/edit-links";
 import type { QuizResult } from "@/lib/quiz/scoring";
 
 export interface PublicFormProps {
   formId: string;
   schema: FormSchema;
   theme?: string;
+  /** Set when a respondent reopens their submission from an edit link. */
+  edit?: ResponseEditSession;
 }
 
 export interface SingleStepFormState {
@@ -14,6 +17,7 @@ export interface SingleStepFormState {
   submitting: boolean;
   submitted: boolean;
   quizResults: QuizResult | null;
+  editUrl: string | null;
 
   progress: FormProgress | null;
   progressLoading: boolean;
@@ -45,7 +45,10 @@ interface WebhookFormModalProps {
   loading?: boolean;
 }
 
-const EVENT_OPTIONS = [{ value: "form_submitted", label: "Form Submitted" }];
+const EVENT_OPTIONS = [
+  { value: "form_submitted", label: "Form Submitted" },
+  { value: "submission_updated", label: "Submission Updated" },
+];
 
 const DISCORD_WEBHOOK_EXAMPLE =
   "https://discord.com/api/webhooks/XXXXXXXXX/YYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYYY";
@@ -301,6 +304,16 @@ export function WebhookFormModal({
                         }
                       </TooltipContent>
                     </Tooltip>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Badge variant="outline">changes</Badge>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        For submission_updated: which of status, tags, assignee
+                        and note changed, with the new values alongside, or
+                        answers when the respondent edited their response
+                      </TooltipContent>
+                    </Tooltip>
                   </TooltipProvider>
                 </div>
                 <div className="mt-2 text-muted-foreground text-xs">
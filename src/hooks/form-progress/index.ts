@@ -1 +1,2 @@
 export { useFormProgress } from "./useFormProgress";
+export { usePartialCapture } from "./usePartialCapture";
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FormField, FormSchema } from "@/lib/database";
+import { DEFAULT_PARTIAL_CAPTURE_SETTINGS } from "@/lib/forms/form-defaults";
+import {
+  getCapturableAnswers,
+  PARTIAL_CAPTURE_DEBOUNCE_MS,
+} from "@/lib/forms/partial-capture";
+
+const getSessionKey = (formId: string) => `ikiform_partial_session_${formId}`;
+const getOptOutKey = (formId: string) => `ikiform_partial_opt_out_${formId}`;
+
+const hasPrivacySignal = () =>
+  (navigator as Navigator & { globalPrivacyControl?: boolean })
+    .globalPrivacyControl === true || navigator.doNotTrack === "1";
+
+/**
+ * Sends the respondent's answers to the server as they fill out the form,
+ * when the form has partial capture turned on. Nothing is sent until the
+ * respondent changes a field, so merely opening a form is not an abandoned
+ * response.
+ */
+export function usePartialCapture(
+  formId: string,
+  schema: FormSchema,
+  fields: FormField[],
+  enabled = true,
+) {
+  const settings = {
+    ...DEFAULT_PARTIAL_CAPTURE_SETTINGS,
+    ...schema.settings.partialCapture,
+  };
+  const [active, setActive] = useState(false);
+  const sessionIdRef = useRef<string | null>(null);
+  const lastFieldIdRef = useRef<string | null>(null);
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (
+      !(enabled && settings.enabled) ||
+      hasPrivacySignal() ||
+      localStorage.getItem(getOptOutKey(formId)) === "true"
+    ) {
+      setActive(false);
+      return;
+    }
+
+    let sessionId = localStorage.getItem(getSessionKey(formId));
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      localStorage.setItem(getSessionKey(formId), sessionId);
+    }
+    sessionIdRef.current = sessionId;
+    setActive(true);
+  }, [formId, enabled, settings.enabled]);
+
+  const cancelPending = () => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  };
+
+  useEffect(() => cancelPending, []);
+
+  const trackField = useCallback((fieldId: string) => {
+    lastFieldIdRef.current = fieldId;
+  }, []);
+
+  const capture = useCallback(
+    (formData: Record<string, unknown>, currentStep = 0) => {
+      if (!(active && sessionIdRef.current && lastFieldIdRef.current)) return;
+
+      cancelPending();
+      timeoutRef.current = setTimeout(() => {
+        fetch(`/api/forms/${formId}/partial`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            sessionId: sessionIdRef.current,
+            answers: getCapturableAnswers(fields, formData),
+            currentStep,
+            lastFieldId: lastFieldIdRef.current,
+          }),
+          keepalive: true,
+        }).catch(() => {
+          // Best effort; the next change sends the answers again
+        });
+      }, PARTIAL_CAPTURE_DEBOUNCE_MS);
+    },
+    [active, formId, fields],
+  );
+
+  /** Session to hand to the submit route; stops further captures. */
+  const getSubmitSessionId = useCallback(() => {
+    cancelPending();
+    return active ? (sessionIdRef.current ?? undefined) : undefined;
+  }, [active]);
+
+  /** Starts a fresh session once the response has been submitted. */
+  const finishSession = useCallback(() => {
+    cancelPending();
+    localStorage.removeItem(getSessionKey(formId));
+    sessionIdRef.current = null;
+    lastFieldIdRef.current = null;
+    setActive(false);
+  }, [formId]);
+
+  const optOut = useCallback(() => {
+    cancelPending();
+    localStorage.setItem(getOptOutKey(formId), "true");
+    localStorage.removeItem(getSessionKey(formId));
+    if (sessionIdRef.current) {
+      fetch(`/api/forms/${formId}/partial`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId: sessionIdRef.current }),
+      }).catch(() => {
+        // Best effort; a failed request leaves the stored answers in place
+      });
+    }
+    sessionIdRef.current = null;
+    setActive(false);
+  }, [formId]);
+
+  return {
+    capturing: active,
+    notice: settings.notice,
+    trackField,
+    capture,
+    getSubmitSessionId,
+    finishSession,
+    optOut,
+  };
+}
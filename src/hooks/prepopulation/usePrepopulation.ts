@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from "react";
 import type { FormField } from "@/lib/database";
 import { ApiEngine } from "@/lib/prepopulation/engines/ApiEngine";
+import { ContextEngine } from "@/lib/prepopulation/engines/ContextEngine";
 import { UrlEngine } from "@/lib/prepopulation/engines/UrlEngine";
 import type { PrepopulationResult } from "@/lib/prepopulation/types";
 
@@ -57,6 +58,7 @@ export function usePrepopulation(fields: FormField[]): UsePrepopulationResult {
 
       const urlEngine = new UrlEngine();
       const apiEngine = new ApiEngine();
+      const contextEngine = new ContextEngine();
 
       const data: Record<string, any> = {};
       const errorMap: Record<string, string> = {};
@@ -75,6 +77,9 @@ export function usePrepopulation(fields: FormField[]): UsePrepopulationResult {
               case "api":
                 result = await apiEngine.getValue(prepopConfig.config);
                 break;
+              case "context":
+                result = await contextEngine.getValue(prepopConfig.config);
+                break;
               case "profile":
                 result = {
                   success: false,
@@ -133,14 +138,12 @@ export function usePrepopulation(fields: FormField[]): UsePrepopulationResult {
         if (result.status === "fulfilled") {
           const prepopData = result.value;
 
-          if (
-            prepopData.success &&
-            prepopData.value !== null &&
-            prepopData.value !== undefined
-          ) {
+          // Failed lookups still carry the configured fallback value
+          if (prepopData.value !== null && prepopData.value !== undefined) {
             data[prepopData.fieldId] = prepopData.value;
             sourceMap[prepopData.fieldId] = prepopData.source;
-          } else if (prepopData.error) {
+          }
+          if (!prepopData.success && prepopData.error) {
             errorMap[prepopData.fieldId] = prepopData.error;
           }
         } else {
@@ -1,5 +1,27 @@
-import type { Database, FormSchema } from "@/lib/database";
+import type {
+  Database,
+  FormSchema,
+  FormVersionKind,
+  SubmissionEdit,
+  SubmissionNote,
+} from "@/lib/database";
 import { ensureDefaultFormSettings } from "@/lib/forms";
+import {
+  hasBlockingLogicIssues,
+  LogicPublishError,
+  lintFormLogic,
+} from "@/lib/forms/logic-lint";
+import type { LogicTestCase } from "@/lib/forms/logic-simulator";
+import { PARTIAL_DROP_OFF_AFTER_MS } from "@/lib/forms/partial-capture";
+import {
+  decodeSubmissionCursor,
+  encodeSubmissionCursor,
+  SUBMISSION_PAGE_SIZE,
+  type SubmissionSearch,
+  type SubmissionSearchResult,
+} from "@/lib/forms/submission-search";
+import { getSchemaFields } from "@/lib/validation/form-validation";
+import { createAdminClient } from "@/utils/supabase/admin";
 import { createClient } from "@/utils/supabase/client";
 import { createClient as createServerClient } from "@/utils/supabase/server";
 
@@ -7,6 +29,13 @@ export type Form = Database["public"]["Tables"]["forms"]["Row"];
 export type FormSubmission =
   Database["public"]["Tables"]["form_submissions"]["Row"];
 export type User = Database["public"]["Tables"]["users"]["Row"];
+export type FormVersion = Database["public"]["Tables"]["form_versions"]["Row"];
+export type PartialSubmission =
+  Database["public"]["Tables"]["partial_submissions"]["Row"];
+export type SubmissionRespondent = Pick<
+  Database["public"]["Tables"]["form_submissions"]["Insert"],
+  "respondent_key" | "is_duplicate" | "duplicate_of"
+>;
 
 const cache = new Map<string, { data: any; expires: number }>();
 const CACHE_TTL = 5 * 60 * 1000;
@@ -31,10 +60,37 @@ function setCache(key: string, data: any): void {
   });
 }
 
+// Logic test cases can hold a respondent's answers. They live in
+// form_logic_tests now, but schemas saved while they were kept in the schema
+// may still carry them, so they are dropped from anything respondents see.
+function withoutLogicTests(schema: FormSchema): FormSchema {
+  const { logicTests: _logicTests, ...rest } = schema as FormSchema & {
+    logicTests?: unknown;
+  };
+  return rest;
+}
+
+// Every publish goes through here, so shortcuts outside the builder cannot
+// publish logic that points at fields or steps that no longer exist
+function assertLogicPublishable(schema: FormSchema) {
+  const issues = lintFormLogic(
+    schema.logic || [],
+    getSchemaFields(schema),
+    schema.blocks,
+  );
+  if (hasBlockingLogicIssues(issues)) {
+    throw new LogicPublishError(
+      "Fix the errors in your form logic before publishing.",
+    );
+  }
+}
+
 export const formsDb = {
   async createForm(userId: string, title: string, schema: FormSchema) {
     const supabase = createClient();
-    const schemaWithDefaults = ensureDefaultFormSettings(schema);
+    const schemaWithDefaults = withoutLogicTests(
+      ensureDefaultFormSettings(schema),
+    );
     const { generateUniqueSlug } = await import("@/lib/utils/slug");
 
     const slug = generateUniqueSlug(title);
@@ -53,6 +109,8 @@ export const formsDb = {
 
     if (error) throw error;
 
+    await this.createFormVersion(data.id, schemaWithDefaults, "save");
+
     const userFormsKey = getCacheKey("getUserForms", userId);
     cache.delete(userFormsKey);
 
@@ -205,6 +263,9 @@ export const formsDb = {
       const { generateUniqueSlug } = await import("@/lib/utils/slug");
       updates.slug = generateUniqueSlug(updates.title);
     }
+    if (updates.schema) {
+      updates.schema = withoutLogicTests(updates.schema);
+    }
 
     const { data, error } = await supabase
       .from("forms")
@@ -236,6 +297,126 @@ export const formsDb = {
     return data;
   },
 
+  async createFormVersion(
+    formId: string,
+    schema: FormSchema,
+    kind: FormVersionKind = "save",
+  ) {
+    const supabase = createClient();
+
+    const { data: latest, error: latestError } = await supabase
+      .from("form_versions")
+      .select("*")
+      .eq("form_id", formId)
+      .order("version_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+
+    let version: FormVersion;
+    if (
+      latest &&
+      kind === "save" &&
+      JSON.stringify(latest.schema) === JSON.stringify(schema)
+    ) {
+      version = latest;
+    } else {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from("form_versions")
+        .insert({
+          form_id: formId,
+          schema,
+          kind,
+          created_by: user?.id ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      version = data;
+    }
+
+    if (kind === "publish") {
+      const { error: formError } = await supabase
+        .from("forms")
+        .update({ current_version_id: version.id })
+        .eq("id", formId);
+
+      if (formError) throw formError;
+    }
+
+    cache.delete(getCacheKey("getFormVersions", formId));
+    cache.delete(getCacheKey("getForm", formId));
+
+    return version;
+  },
+
+  async getFormVersions(formId: string) {
+    const cacheKey = getCacheKey("getFormVersions", formId);
+    const cached = getFromCache<FormVersion[]>(cacheKey);
+    if (cached) return cached;
+
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from("form_versions")
+      .select("*")
+      .eq("form_id", formId)
+      .order("version_number", { ascending: false });
+
+    if (error) throw error;
+
+    setCache(cacheKey, data);
+    return data;
+  },
+
+  async restoreFormVersion(formId: string, versionId: string) {
+    const supabase = createClient();
+
+    const { data: version, error } = await supabase
+      .from("form_versions")
+      .select("*")
+      .eq("id", versionId)
+      .eq("form_id", formId)
+      .single();
+
+    if (error) throw error;
+
+    const schema = ensureDefaultFormSettings(version.schema);
+    await this.updateForm(formId, { schema });
+    return this.createFormVersion(formId, schema, "restore");
+  },
+
+  async getLogicTests(formId: string): Promise<LogicTestCase[]> {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from("form_logic_tests")
+      .select("test_cases")
+      .eq("form_id", formId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.test_cases ?? [];
+  },
+
+  async saveLogicTests(formId: string, testCases: LogicTestCase[]) {
+    const supabase = createClient();
+
+    const { error } = await supabase.from("form_logic_tests").upsert({
+      form_id: formId,
+      test_cases: testCases,
+      updated_at: new Date().toISOString(),
+    });
+
+    if (error) throw error;
+  },
+
   async deleteForm(formId: string) {
     const supabase = createClient();
 
@@ -264,10 +445,28 @@ export const formsDb = {
   async togglePublishForm(formId: string, isPublished: boolean) {
     const supabase = createClient();
 
+    const updates: Partial<Form> = { is_published: isPublished };
+
+    if (isPublished) {
+      const { data: current, error: currentError } = await supabase
+        .from("forms")
+        .select("schema, published_schema")
+        .eq("id", formId)
+        .single();
+
+      if (currentError) throw currentError;
+
+      assertLogicPublishable(current.published_schema ?? current.schema);
+      if (!current.published_schema) {
+        updates.published_schema = withoutLogicTests(current.schema);
+        updates.published_at = new Date().toISOString();
+      }
+    }
+
     const { data, error } = await supabase
       .from("forms")
       .update({
-        is_published: isPublished,
+        ...updates,
         updated_at: new Date().toISOString(),
       })
       .eq("id", formId)
@@ -276,6 +475,51 @@ export const formsDb = {
 
     if (error) throw error;
 
+    if (updates.published_schema) {
+      await this.createFormVersion(formId, updates.published_schema, "publish");
+    }
+
+    const formCacheKey = getCacheKey("getForm", formId);
+    const basicCacheKey = getCacheKey("getFormBasic", formId);
+    cache.delete(formCacheKey);
+    cache.delete(basicCacheKey);
+
+    if (data.user_id) {
+      const userFormsKey = getCacheKey("getUserForms", data.user_id);
+      const userFormsDetailKey = getCacheKey(
+        "getUserFormsWithDetails",
+        data.user_id,
+      );
+      cache.delete(userFormsKey);
+      cache.delete(userFormsDetailKey);
+    }
+
+    return data;
+  },
+
+  async publishFormChanges(formId: string, draftSchema: FormSchema) {
+    const supabase = createClient();
+    const now = new Date().toISOString();
+    const schema = withoutLogicTests(draftSchema);
+    assertLogicPublishable(schema);
+
+    const { data, error } = await supabase
+      .from("forms")
+      .update({
+        schema,
+        published_schema: schema,
+        published_at: now,
+        is_published: true,
+        updated_at: now,
+      })
+      .eq("id", formId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.createFormVersion(formId, schema, "publish");
+
     const formCacheKey = getCacheKey("getForm", formId);
     const basicCacheKey = getCacheKey("getFormBasic", formId);
     cache.delete(formCacheKey);
@@ -298,6 +542,7 @@ export const formsDb = {
     formId: string,
     submissionData: Record<string, any>,
     ipAddress?: string,
+    formVersionId?: string | null,
   ) {
     const supabase = createClient();
 
@@ -307,6 +552,7 @@ export const formsDb = {
         form_id: formId,
         submission_data: submissionData,
         ip_address: ipAddress,
+        form_version_id: formVersionId ?? null,
       })
       .select()
       .single();
@@ -344,6 +590,39 @@ export const formsDb = {
     return data;
   },
 
+  /**
+   * Sessions that started the form but have not submitted it, leaving out
+   * ones active too recently to count as dropped off.
+   */
+  async getPartialSubmissions(formId: string) {
+    const supabase = createClient();
+
+    const { data, error } = await supabase
+      .from("partial_submissions")
+      .select("*")
+      .eq("form_id", formId)
+      .is("completed_at", null)
+      .lt(
+        "updated_at",
+        new Date(Date.now() - PARTIAL_DROP_OFF_AFTER_MS).toISOString(),
+      )
+      .order("updated_at", { ascending: false });
+
+    if (error) throw error;
+    return data as PartialSubmission[];
+  },
+
+  async deletePartialSubmission(partialId: string) {
+    const supabase = createClient();
+
+    const { error } = await supabase
+      .from("partial_submissions")
+      .delete()
+      .eq("id", partialId);
+
+    if (error) throw error;
+  },
+
   async getFormSubmissionsPaginated(formId: string, page = 1, pageSize = 50) {
     const offset = (page - 1) * pageSize;
     const cacheKey = getCacheKey(
@@ -610,7 +889,9 @@ export const formsDbServer = {
 
     return {
       ...data,
-      schema: ensureDefaultFormSettings(data.schema),
+      schema: withoutLogicTests(
+        ensureDefaultFormSettings(data.published_schema ?? data.schema),
+      ),
     };
   },
 
@@ -628,10 +909,26 @@ export const formsDbServer = {
     return !!data;
   },
 
+  async getOwnedForm(formId: string, userId: string) {
+    const supabase = await createServerClient();
+
+    const { data, error } = await supabase
+      .from("forms")
+      .select("*")
+      .eq("id", formId)
+      .eq("user_id", userId)
+      .single();
+
+    if (error) return null;
+    return { ...data, schema: ensureDefaultFormSettings(data.schema) };
+  },
+
   async submitForm(
     formId: string,
     submissionData: Record<string, any>,
     ipAddress?: string,
+    formVersionId?: string | null,
+    respondent?: SubmissionRespondent,
   ) {
     const supabase = await createServerClient();
 
@@ -641,6 +938,8 @@ export const formsDbServer = {
         form_id: formId,
         submission_data: submissionData,
         ip_address: ipAddress,
+        form_version_id: formVersionId ?? null,
+        ...respondent,
       })
       .select()
       .single();
@@ -649,6 +948,253 @@ export const formsDbServer = {
     return data;
   },
 
+  async getSubmission(formId: string, submissionId: string) {
+    const supabase = await createServerClient();
+
+    const { data, error } = await supabase
+      .from("form_submissions")
+      .select("*")
+      .eq("id", submissionId)
+      .eq("form_id", formId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async updateSubmissionWorkflow(
+    formId: string,
+    submissionId: string,
+    updates: Pick<
+      Database["public"]["Tables"]["form_submissions"]["Update"],
+      "status" | "tags" | "assignee"
+    >,
+    note?: SubmissionNote,
+  ) {
+    const supabase = await createServerClient();
+
+    if (Object.keys(updates).length > 0 || !note) {
+      const updated = await supabase
+        .from("form_submissions")
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq("id", submissionId)
+        .eq("form_id", formId)
+        .select()
+        .single();
+
+      if (updated.error) {
+        throw updated.error;
+      }
+      if (!note) {
+        return updated.data;
+      }
+    }
+
+    // Notes are appended in the database rather than rewritten from the
+    // copy this request read, so notes added at the same time are all kept
+    const { data, error } = await supabase
+      .rpc("append_submission_note", {
+        p_form_id: formId,
+        p_submission_id: submissionId,
+        p_note: note,
+      })
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async searchSubmissions(
+    formId: string,
+    search: SubmissionSearch,
+  ): Promise<SubmissionSearchResult> {
+    const supabase = await createServerClient();
+    const limit = search.limit ?? SUBMISSION_PAGE_SIZE;
+    const cursor = search.cursor ? decodeSubmissionCursor(search.cursor) : null;
+
+    const filters = {
+      p_form_id: formId,
+      p_query: search.query ?? null,
+      p_filters: search.filters ?? [],
+      p_submitted_from: search.submittedAfter ?? null,
+      p_submitted_to: search.submittedBefore ?? null,
+      p_status: search.status ?? null,
+      p_tag: search.tag ?? null,
+      p_assignee: search.assignee ?? null,
+      p_unassigned: search.assignee === null,
+      p_completion: search.completion ?? null,
+      p_total_fields: search.totalFields ?? 0,
+    };
+
+    // One extra row tells whether there is another page. Counting reads
+    // every match, so it only runs when the caller shows a total.
+    const [page, count] = await Promise.all([
+      supabase.rpc("search_form_submissions", {
+        ...filters,
+        p_sort: search.sort ?? "newest",
+        p_cursor_submitted_at: cursor?.submittedAt ?? null,
+        p_cursor_id: cursor?.id ?? null,
+        p_limit: limit + 1,
+      }),
+      search.includeTotal
+        ? supabase.rpc("count_form_submissions", filters)
+        : null,
+    ]);
+
+    if (page.error) {
+      throw page.error;
+    }
+    if (count?.error) {
+      throw count.error;
+    }
+
+    const rows: FormSubmission[] = page.data ?? [];
+    const submissions = rows.slice(0, limit);
+    return {
+      submissions,
+      total: count ? Number(count.data) : null,
+      nextCursor:
+        rows.length > limit
+          ? encodeSubmissionCursor(submissions[submissions.length - 1])
+          : null,
+    };
+  },
+
+  // Respondents editing their answers are not signed in, so these go through
+  // the service role. Callers must check the edit token first.
+  async getSubmissionForEdit(formId: string, submissionId: string) {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from("form_submissions")
+      .select("*")
+      .eq("id", submissionId)
+      .eq("form_id", formId)
+      .single();
+
+    if (error) return null;
+    return data;
+  },
+
+  async saveSubmissionEdit(
+    formId: string,
+    submissionId: string,
+    submissionData: Record<string, any>,
+    editHistory: SubmissionEdit[],
+    respondent?: SubmissionRespondent,
+  ) {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from("form_submissions")
+      .update({
+        submission_data: submissionData,
+        edit_history: editHistory,
+        updated_at: new Date().toISOString(),
+        ...respondent,
+      })
+      .eq("id", submissionId)
+      .eq("form_id", formId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Respondents cannot read other submissions, so finding their earlier
+  // response for duplicate detection goes through the service role.
+  async findSubmissionByRespondent(formId: string, respondentKey: string) {
+    const supabase = createAdminClient();
+
+    const { data, error } = await supabase
+      .from("form_submissions")
+      .select("*")
+      .eq("form_id", formId)
+      .eq("respondent_key", respondentKey)
+      .order("submitted_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Partial answers come from respondents who are not signed in, so these go
+  // through the service role. Sessions that already submitted are left alone.
+  async savePartialSubmission(
+    formId: string,
+    sessionId: string,
+    capture: Pick<
+      PartialSubmission,
+      "partial_data" | "current_step" | "last_field_id" | "ip_address"
+    >,
+  ) {
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from("partial_submissions")
+      .update({ ...capture, updated_at: now })
+      .eq("form_id", formId)
+      .eq("session_id", sessionId)
+      .is("completed_at", null)
+      .select("id");
+
+    if (error) throw error;
+    if (data.length > 0) return;
+
+    const { error: insertError } = await supabase
+      .from("partial_submissions")
+      .upsert(
+        { form_id: formId, session_id: sessionId, ...capture, updated_at: now },
+        { onConflict: "form_id,session_id", ignoreDuplicates: true },
+      );
+
+    if (insertError) throw insertError;
+  },
+
+  async deleteSessionPartialSubmission(formId: string, sessionId: string) {
+    const supabase = createAdminClient();
+
+    const { error } = await supabase
+      .from("partial_submissions")
+      .delete()
+      .eq("form_id", formId)
+      .eq("session_id", sessionId)
+      .is("completed_at", null);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Marks a session as submitted and drops its now duplicated answers. The
+   * row is created if no capture arrived yet, so a late one cannot turn the
+   * session back into an abandoned response.
+   */
+  async completePartialSubmission(
+    formId: string,
+    sessionId: string,
+    submissionId: string,
+  ) {
+    const supabase = createAdminClient();
+    const now = new Date().toISOString();
+
+    const { error } = await supabase.from("partial_submissions").upsert(
+      {
+        form_id: formId,
+        session_id: sessionId,
+        partial_data: {},
+        submission_id: submissionId,
+        completed_at: now,
+        updated_at: now,
+      },
+      { onConflict: "form_id,session_id" },
+    );
+
+    if (error) throw error;
+  },
+
   async saveAIBuilderMessage(
     userId: string,
     sessionId: string,
@@ -1,4 +1,5 @@
 import type { FormLogic } from "@/components/form-builder/logic-builder/types";
+import type { LogicTestCase } from "@/lib/forms/logic-simulator";
 
 export interface Database {
   public: {
@@ -12,6 +13,9 @@ export interface Database {
           slug?: string | null;
           schema: FormSchema;
           is_published: boolean;
+          current_version_id?: string | null;
+          published_schema?: FormSchema | null;
+          published_at?: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -23,6 +27,9 @@ export interface Database {
           slug?: string | null;
           schema: FormSchema;
           is_published?: boolean;
+          current_version_id?: string | null;
+          published_schema?: FormSchema | null;
+          published_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -34,9 +41,13 @@ export interface Database {
           slug?: string | null;
           schema?: FormSchema;
           is_published?: boolean;
+          current_version_id?: string | null;
+          published_schema?: FormSchema | null;
+          published_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       form_submissions: {
         Row: {
@@ -45,6 +56,16 @@ export interface Database {
           submission_data: Record<string, any>;
           submitted_at: string;
           ip_address: string | null;
+          form_version_id: string | null;
+          status: string;
+          tags: string[];
+          notes: SubmissionNote[];
+          assignee: string | null;
+          updated_at: string | null;
+          edit_history: SubmissionEdit[];
+          respondent_key: string | null;
+          is_duplicate: boolean;
+          duplicate_of: string | null;
         };
         Insert: {
           id?: string;
@@ -52,6 +73,16 @@ export interface Database {
           submission_data: Record<string, any>;
           submitted_at?: string;
           ip_address?: string | null;
+          form_version_id?: string | null;
+          status?: string;
+          tags?: string[];
+          notes?: SubmissionNote[];
+          assignee?: string | null;
+          updated_at?: string | null;
+          edit_history?: SubmissionEdit[];
+          respondent_key?: string | null;
+          is_duplicate?: boolean;
+          duplicate_of?: string | null;
         };
         Update: {
           id?: string;
@@ -59,7 +90,108 @@ export interface Database {
           submission_data?: Record<string, any>;
           submitted_at?: string;
           ip_address?: string | null;
+          form_version_id?: string | null;
+          status?: string;
+          tags?: string[];
+          notes?: SubmissionNote[];
+          assignee?: string | null;
+          updated_at?: string | null;
+          edit_history?: SubmissionEdit[];
+          respondent_key?: string | null;
+          is_duplicate?: boolean;
+          duplicate_of?: string | null;
         };
+        Relationships: [];
+      };
+      form_versions: {
+        Row: {
+          id: string;
+          form_id: string;
+          version_number: number;
+          schema: FormSchema;
+          kind: FormVersionKind;
+          created_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          form_id: string;
+          version_number?: number;
+          schema: FormSchema;
+          kind?: FormVersionKind;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          form_id?: string;
+          version_number?: number;
+          schema?: FormSchema;
+          kind?: FormVersionKind;
+          created_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      partial_submissions: {
+        Row: {
+          id: string;
+          form_id: string;
+          session_id: string;
+          partial_data: Record<string, any>;
+          current_step: number;
+          last_field_id: string | null;
+          ip_address: string | null;
+          submission_id: string | null;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          form_id: string;
+          session_id: string;
+          partial_data?: Record<string, any>;
+          current_step?: number;
+          last_field_id?: string | null;
+          ip_address?: string | null;
+          submission_id?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          form_id?: string;
+          session_id?: string;
+          partial_data?: Record<string, any>;
+          current_step?: number;
+          last_field_id?: string | null;
+          ip_address?: string | null;
+          submission_id?: string | null;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      form_logic_tests: {
+        Row: {
+          form_id: string;
+          test_cases: LogicTestCase[];
+          updated_at: string;
+        };
+        Insert: {
+          form_id: string;
+          test_cases?: LogicTestCase[];
+          updated_at?: string;
+        };
+        Update: {
+          form_id?: string;
+          test_cases?: LogicTestCase[];
+          updated_at?: string;
+        };
+        Relationships: [];
       };
       ai_builder_chat: {
         Row: {
@@ -92,6 +224,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       ai_analytics_chat: {
         Row: {
@@ -127,6 +260,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       users: {
         Row: {
@@ -156,6 +290,7 @@ export interface Database {
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       redemption_codes: {
         Row: {
@@ -200,6 +335,126 @@ export interface Database {
           expires_at?: string | null;
           metadata?: Record<string, any>;
         };
+        Relationships: [];
+      };
+      // Webhook tables are managed outside these migrations; lib/webhooks
+      // maps webhook and mapping rows to camelCase configs.
+      webhooks: {
+        Row: {
+          id: string;
+          form_id: string | null;
+          account_id: string | null;
+          url: string;
+          events: WebhookEventType[];
+          secret: string | null;
+          method: "POST" | "PUT";
+          headers: Record<string, string> | null;
+          payload_template: string | null;
+          enabled: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          form_id?: string | null;
+          account_id?: string | null;
+          url: string;
+          events: WebhookEventType[];
+          secret?: string | null;
+          method: "POST" | "PUT";
+          headers?: Record<string, string> | null;
+          payload_template?: string | null;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          form_id?: string | null;
+          account_id?: string | null;
+          url?: string;
+          events?: WebhookEventType[];
+          secret?: string | null;
+          method?: "POST" | "PUT";
+          headers?: Record<string, string> | null;
+          payload_template?: string | null;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      webhook_logs: {
+        Row: {
+          id: string;
+          webhook_id: string;
+          event: WebhookLogEvent;
+          status: WebhookLogStatus;
+          request_payload: string;
+          response_status: number | null;
+          response_body: string | null;
+          error: string | null;
+          timestamp: string;
+          attempt: number;
+        };
+        Insert: {
+          id?: string;
+          webhook_id: string;
+          event: WebhookLogEvent;
+          status: WebhookLogStatus;
+          request_payload: string;
+          response_status?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          timestamp?: string;
+          attempt?: number;
+        };
+        Update: {
+          id?: string;
+          webhook_id?: string;
+          event?: WebhookLogEvent;
+          status?: WebhookLogStatus;
+          request_payload?: string;
+          response_status?: number | null;
+          response_body?: string | null;
+          error?: string | null;
+          timestamp?: string;
+          attempt?: number;
+        };
+        Relationships: [];
+      };
+      inbound_webhook_mappings: {
+        Row: {
+          id: string;
+          endpoint: string;
+          target_form_id: string;
+          mapping_rules: Record<string, string>;
+          secret: string | null;
+          enabled: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          endpoint: string;
+          target_form_id: string;
+          mapping_rules: Record<string, string>;
+          secret?: string | null;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          endpoint?: string;
+          target_form_id?: string;
+          mapping_rules?: Record<string, string>;
+          secret?: string | null;
+          enabled?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
       };
     };
     Views: {
@@ -211,9 +466,17 @@ export interface Database {
     Enums: {
       [_ in never]: never;
     };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
   };
 }
 
+export type FormVersionKind = "save" | "publish" | "restore";
+
+export type DuplicateIdentifier = "user" | "email" | "browser";
+export type DuplicateMode = "block" | "overwrite" | "flag";
+
 export interface FormField {
   valueKey?: string;
   labelKey?: string;
@@ -239,7 +502,15 @@ export interface FormField {
     | "statement"
     | "phone"
     | "address"
-    | "link";
+    | "link"
+    | "calculated"
+    | "matrix"
+    | "ranking"
+    | "nps"
+    | "group"
+    | "hidden"
+    | "image_choice"
+    | "consent";
   label: string;
   description?: string;
   placeholder?: string;
@@ -331,13 +602,57 @@ export interface FormField {
     points?: number;
     showCorrectAnswer?: boolean;
     explanation?: string;
+
+    formula?: string;
+    decimalPlaces?: number;
+    prefix?: string;
+    suffix?: string;
+
+    matrixRows?: { id: string; label: string; required?: boolean }[];
+    matrixColumns?: string[];
+
+    minRanked?: number;
+    maxRanked?: number;
+
+    npsLowLabel?: string;
+    npsHighLabel?: string;
+
+    groupFields?: FormField[];
+    minInstances?: number;
+    maxInstances?: number;
+
+    imageOptions?: {
+      id: string;
+      value: string;
+      imageUrl?: string;
+      imagePath?: string;
+      alt?: string;
+    }[];
+    imageColumns?: 2 | 3 | 4;
+
+    cascadeParentId?: string;
+    cascadeOptions?: Record<string, string[]>;
+
+    consentLabel?: string;
+    consentText?: string;
+    consentUrl?: string;
+    consentVersion?: string;
+
+    dateMode?: "single" | "range" | "datetime";
+    minDate?: string;
+    maxDate?: string;
+    disabledWeekdays?: number[];
+    blackoutDates?: string[];
+    captureTimezone?: boolean;
   };
   prepopulation?: {
     enabled: boolean;
-    source: "url" | "api" | "profile" | "previous" | "template";
+    source: "url" | "api" | "profile" | "previous" | "template" | "context";
     config: {
       urlParam?: string;
 
+      contextKey?: "referrer" | "landing_time" | "user_agent" | "page_url";
+
       apiEndpoint?: string;
       apiMethod?: "GET" | "POST";
       apiHeaders?: Record<string, string>;
@@ -481,12 +796,55 @@ export interface FormSchema {
 
     rtl?: boolean;
 
+    workflow?: {
+      statuses?: SubmissionStatusOption[];
+    };
+    responseEditing?: {
+      enabled?: boolean;
+      /** How long edit links stay valid after submitting. */
+      expiresInHours?: number;
+    };
+    partialCapture?: {
+      enabled?: boolean;
+      /** Shown to respondents while their answers are being captured. */
+      notice?: string;
+    };
+    duplicateDetection?: {
+      enabled?: boolean;
+      /** How respondents are told apart. */
+      identifyBy?: DuplicateIdentifier;
+      /** Email field whose answer identifies the respondent. */
+      emailFieldId?: string;
+      mode?: DuplicateMode;
+      /** Shown when a repeat submission is blocked. */
+      message?: string;
+    };
   };
   logic?: FormLogic;
 }
 
+export interface SubmissionStatusOption {
+  id: string;
+  label: string;
+}
+
+export interface SubmissionNote {
+  id: string;
+  text: string;
+  author: string;
+  createdAt: string;
+}
+
+export interface SubmissionEdit {
+  editedAt: string;
+  ipAddress: string;
+  /** The answers as they were before this edit. */
+  previousData: Record<string, any>;
+}
+
 export type WebhookEventType =
   | "form_submitted"
+  | "submission_updated"
   | "form_updated"
   | "user_registered"
   | "analytics_event"
@@ -507,18 +865,15 @@ export interface WebhookConfig {
   updatedAt: string;
 }
 
-export interface WebhookLog {
-  id: string;
-  webhook_id: string;
-  event: WebhookEventType;
-  status: "success" | "failed" | "pending";
-  request_payload: any;
-  response_status?: number;
-  response_body?: string;
-  error?: string;
-  timestamp: string;
-  attempt: number;
-}
+/** Deliveries log their event, or how they were sent when not triggered. */
+export type WebhookLogEvent =
+  | WebhookEventType
+  | "triggered"
+  | "test"
+  | "resend";
+export type WebhookLogStatus = "success" | "failed" | "pending";
+
+export type WebhookLog = Database["public"]["Tables"]["webhook_logs"]["Row"];
 
 export interface InboundWebhookMapping {
   id: string;
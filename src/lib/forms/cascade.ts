@@ -0,0 +1,124 @@
+import type { FormField } from "@/lib/database";
+
+/**
+ * Cascading dropdowns: a select whose options depend on another field's
+ * answer, e.g. country → state → city.
+ *
+ * A cascading select sets `settings.cascadeParentId` and takes its options
+ * either from `settings.cascadeOptions`, a map from each parent answer to the
+ * child options, or from `optionsApi` with `{parent}` replaced by the
+ * parent's answer. Chaining several selects builds a deeper tree.
+ *
+ * Submissions are only checked against `cascadeOptions`. The server never
+ * fetches `optionsApi`, which the form owner controls, so an answer to an
+ * API-backed cascade is accepted as any string once its parent is answered,
+ * the same as any other select that loads its options from an API.
+ */
+
+export const CASCADE_PARENT_TOKEN = "{parent}";
+
+const isEmptyAnswer = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+export function isCascadingField(field: FormField): boolean {
+  return field.type === "select" && !!field.settings?.cascadeParentId;
+}
+
+/**
+ * Returns the options a cascading field offers for the given parent answer,
+ * or null when they are loaded from `optionsApi` and cannot be known here.
+ */
+export function getCascadeOptions(
+  field: FormField,
+  parentValue: unknown,
+): string[] | null {
+  if (field.optionsApi) return null;
+  if (isEmptyAnswer(parentValue)) return [];
+  return field.settings?.cascadeOptions?.[String(parentValue)] || [];
+}
+
+/**
+ * Returns the field as it should render for the current answers: the
+ * options for the chosen parent value, or the `optionsApi` URL with the
+ * parent value filled in. Until the parent is answered there is nothing
+ * to choose from, so the field is left without options.
+ */
+export function resolveCascadingField(
+  field: FormField,
+  values: Record<string, unknown>,
+): FormField {
+  if (!isCascadingField(field)) return field;
+
+  const parentValue = values[field.settings!.cascadeParentId!];
+  if (isEmptyAnswer(parentValue)) {
+    return {
+      ...field,
+      options: [],
+      optionsApi: undefined,
+      placeholder: field.placeholder || "Answer the previous question first",
+    };
+  }
+  if (field.optionsApi) {
+    return {
+      ...field,
+      optionsApi: field.optionsApi
+        .split(CASCADE_PARENT_TOKEN)
+        .join(encodeURIComponent(String(parentValue))),
+    };
+  }
+  return { ...field, options: getCascadeOptions(field, parentValue) || [] };
+}
+
+/**
+ * Clears the answers of cascading fields whose parent answer changed between
+ * `previous` and `next`. Clearing a child counts as a change, so grandchildren
+ * are cleared too. Returns `next` unchanged when nothing had to be cleared.
+ */
+export function clearCascadingChildren<T extends Record<string, unknown>>(
+  fields: FormField[],
+  previous: Record<string, unknown>,
+  next: T,
+): T {
+  const cascadingFields = fields.filter(isCascadingField);
+  if (cascadingFields.length === 0) return next;
+
+  let result = next;
+  for (let pass = 0; pass < cascadingFields.length; pass++) {
+    let changed = false;
+    for (const field of cascadingFields) {
+      const parentId = field.settings!.cascadeParentId!;
+      if (
+        previous[parentId] !== result[parentId] &&
+        !isEmptyAnswer(result[field.id])
+      ) {
+        result = { ...result, [field.id]: "" };
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return result;
+}
+
+/**
+ * Checks a cascading answer against its parent's answer. An answer without a
+ * parent answer is always rejected. Options loaded from `optionsApi` are not
+ * fetched here, so for those fields any string answer is accepted.
+ */
+export function getCascadeError(
+  field: FormField,
+  values: Record<string, unknown>,
+): string | undefined {
+  if (!isCascadingField(field) || isEmptyAnswer(values[field.id])) return;
+
+  const parentValue = values[field.settings!.cascadeParentId!];
+  if (isEmptyAnswer(parentValue)) {
+    return "Please answer the previous question first";
+  }
+
+  const answer = values[field.id];
+  const options = getCascadeOptions(field, parentValue);
+  if (options && !(typeof answer === "string" && options.includes(answer))) {
+    return "Please select a valid option";
+  }
+}
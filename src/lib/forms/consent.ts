@@ -0,0 +1,132 @@
+import type { FormField } from "@/lib/database";
+
+/**
+ * Consent fields are answered with a plain checkbox (`true`/`false`). On
+ * submit the server replaces that answer with a record of exactly what was
+ * agreed to, so the policy can change later without losing the audit trail.
+ */
+export interface ConsentRecord {
+  accepted: boolean;
+  version?: string;
+  policyUrl?: string;
+  /** SHA-256 of the policy text shown to the respondent. */
+  textHash?: string;
+  acceptedAt: string;
+  ipAddress: string;
+}
+
+export function isConsentRecord(value: unknown): value is ConsentRecord {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    "accepted" in value &&
+    "acceptedAt" in value &&
+    typeof value.accepted === "boolean" &&
+    typeof value.acceptedAt === "string"
+  );
+}
+
+export function isConsentAccepted(value: unknown): boolean {
+  return isConsentRecord(value) ? value.accepted : value === true;
+}
+
+export async function hashConsentText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function buildConsentRecord(
+  field: FormField,
+  accepted: boolean,
+  ipAddress: string,
+  acceptedAt = new Date(),
+): Promise<ConsentRecord> {
+  const { consentText, consentUrl, consentVersion } = field.settings || {};
+  return {
+    accepted,
+    ...(consentVersion && { version: consentVersion }),
+    ...(consentUrl && { policyUrl: consentUrl }),
+    ...(consentText && { textHash: await hashConsentText(consentText) }),
+    acceptedAt: acceptedAt.toISOString(),
+    ipAddress,
+  };
+}
+
+/**
+ * Replaces every consent answer in validated submission data with its
+ * consent record, built from the schema rather than anything the client sent.
+ */
+export async function attachConsentRecords(
+  fields: FormField[],
+  data: Record<string, unknown>,
+  ipAddress: string,
+): Promise<Record<string, unknown>> {
+  const consentFields = fields.filter(
+    (field) => field.type === "consent" && Object.hasOwn(data, field.id),
+  );
+  if (consentFields.length === 0) return data;
+
+  const acceptedAt = new Date();
+  const records = await Promise.all(
+    consentFields.map((field) =>
+      buildConsentRecord(
+        field,
+        isConsentAccepted(data[field.id]),
+        ipAddress,
+        acceptedAt,
+      ),
+    ),
+  );
+
+  const result = { ...data };
+  consentFields.forEach((field, index) => {
+    result[field.id] = records[index];
+  });
+  return result;
+}
+
+/**
+ * Turns consent records back into checkbox answers, for loading submitted
+ * answers into the form again.
+ */
+export function toConsentAnswers(
+  fields: FormField[],
+  data: Record<string, unknown>,
+): Record<string, unknown> {
+  const result = { ...data };
+  fields.forEach((field) => {
+    if (field.type === "consent" && Object.hasOwn(data, field.id)) {
+      result[field.id] = isConsentAccepted(data[field.id]);
+    }
+  });
+  return result;
+}
+
+/**
+ * Keeps the original record for consent answers an edit did not change, so
+ * the record still shows when and to what consent was first given.
+ */
+export function keepUnchangedConsentRecords(
+  fields: FormField[],
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+): Record<string, unknown> {
+  const result = { ...next };
+  fields.forEach((field) => {
+    const before = previous[field.id];
+    if (
+      field.type === "consent" &&
+      isConsentRecord(before) &&
+      Object.hasOwn(next, field.id) &&
+      before.accepted === isConsentAccepted(next[field.id])
+    ) {
+      result[field.id] = before;
+    }
+  });
+  return result;
+}
@@ -0,0 +1,248 @@
+import type { FormField } from "@/lib/database";
+
+/**
+ * Date fields answer with `YYYY-MM-DD` by default. `settings.dateMode`
+ * switches them to a range, `{ from, to }` with two such dates, or to a date
+ * and time, `YYYY-MM-DDTHH:mm`. With `settings.captureTimezone` the date and
+ * time also carries the respondent's UTC offset and time zone, e.g.
+ * `2024-05-01T14:30+02:00[Europe/Berlin]`.
+ *
+ * `settings.minDate` and `settings.maxDate` are either absolute dates or
+ * relative to the day the form is filled in: `today`, `today+7`, `today-30`.
+ */
+
+export interface DateRangeValue {
+  from: string;
+  to: string;
+}
+
+export interface DateTimeParts {
+  date: string;
+  time: string;
+  offset?: string;
+  timezone?: string;
+}
+
+interface DateBounds {
+  min?: string;
+  max?: string;
+}
+
+export const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// The server may be a day ahead of or behind the respondent, so relative
+// bounds get a day's leeway when validating. The date picker applies them
+// exactly.
+const RELATIVE_BOUND_LEEWAY_DAYS = 1;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN =
+  /^(\d{4}-\d{2}-\d{2})T((?:[01]\d|2[0-3]):[0-5]\d)(?:([+-](?:[01]\d|1[0-4]):[0-5]\d|Z)\[([\w/+-]+)\])?$/;
+const RELATIVE_DATE_PATTERN = /^today\s*(?:([+-])\s*(\d+))?$/i;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Formats a date as `YYYY-MM-DD` in local time. */
+export function formatDateKey(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Parses a `YYYY-MM-DD` date as local midnight. Returns undefined for
+ * malformed or impossible dates such as `2024-02-30`.
+ */
+export function parseDateKey(key: string): Date | undefined {
+  if (typeof key !== "string" || !DATE_PATTERN.test(key)) return;
+  const [year, month, day] = key.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  return formatDateKey(date) === key ? date : undefined;
+}
+
+export function formatDisplayDate(key: string): string {
+  return (
+    parseDateKey(key)?.toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    }) || key
+  );
+}
+
+export const isRelativeDateBound = (bound?: string) =>
+  !!bound && RELATIVE_DATE_PATTERN.test(bound.trim());
+
+/**
+ * Resolves a min or max date setting to `YYYY-MM-DD`, or undefined when it
+ * is empty or not understood.
+ */
+export function resolveDateBound(
+  bound: string | undefined,
+  today = new Date(),
+): string | undefined {
+  if (!bound?.trim()) return;
+  const relative = bound.trim().match(RELATIVE_DATE_PATTERN);
+  if (relative) {
+    const [, sign, amount] = relative;
+    const days = amount ? Number(amount) * (sign === "-" ? -1 : 1) : 0;
+    return formatDateKey(addDays(today, days));
+  }
+  return parseDateKey(bound.trim()) ? bound.trim() : undefined;
+}
+
+function getDateBounds(
+  field: FormField,
+  today: Date,
+  leewayDays: number,
+): DateBounds {
+  const { minDate, maxDate } = field.settings || {};
+  return {
+    min: resolveDateBound(
+      minDate,
+      isRelativeDateBound(minDate) ? addDays(today, -leewayDays) : today,
+    ),
+    max: resolveDateBound(
+      maxDate,
+      isRelativeDateBound(maxDate) ? addDays(today, leewayDays) : today,
+    ),
+  };
+}
+
+function getDayError(
+  field: FormField,
+  key: string,
+  bounds: DateBounds,
+  shownBounds: DateBounds = bounds,
+): string | undefined {
+  const date = parseDateKey(key);
+  if (!date) return "Please enter a valid date";
+
+  if (bounds.min && key < bounds.min) {
+    return `Please choose a date on or after ${formatDisplayDate(shownBounds.min!)}`;
+  }
+  if (bounds.max && key > bounds.max) {
+    return `Please choose a date on or before ${formatDisplayDate(shownBounds.max!)}`;
+  }
+  if (field.settings?.disabledWeekdays?.includes(date.getDay())) {
+    return `${WEEKDAY_NAMES[date.getDay()]}s are not available`;
+  }
+  if (field.settings?.blackoutDates?.includes(key)) {
+    return "This date is not available";
+  }
+}
+
+/** Whether the date picker should grey out a day. */
+export function isDateDisabled(
+  field: FormField,
+  date: Date,
+  today = new Date(),
+): boolean {
+  return !!getDayError(
+    field,
+    formatDateKey(date),
+    getDateBounds(field, today, 0),
+  );
+}
+
+export function isDateRangeValue(value: unknown): value is DateRangeValue {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    "from" in value &&
+    "to" in value &&
+    typeof value.from === "string" &&
+    typeof value.to === "string"
+  );
+}
+
+export function parseDateTimeValue(value: unknown): DateTimeParts | undefined {
+  if (typeof value !== "string") return;
+  const match = value.match(DATETIME_PATTERN);
+  if (!(match && parseDateKey(match[1]))) return;
+  const [, date, time, offset, timezone] = match;
+  return { date, time, offset, timezone };
+}
+
+/**
+ * Joins a date and a 24-hour time into a datetime answer, adding the
+ * browser's UTC offset and time zone when `captureTimezone` is set.
+ */
+export function formatDateTimeValue(
+  date: string,
+  time: string,
+  captureTimezone = false,
+): string {
+  const value = `${date}T${time}`;
+  if (!captureTimezone) return value;
+
+  const minutes = -new Date(value).getTimezoneOffset();
+  const offset =
+    minutes === 0
+      ? "Z"
+      : `${minutes < 0 ? "-" : "+"}${String(
+          Math.floor(Math.abs(minutes) / 60),
+        ).padStart(2, "0")}:${String(Math.abs(minutes) % 60).padStart(2, "0")}`;
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  return `${value}${offset}[${timezone}]`;
+}
+
+/**
+ * Checks a date answer against the field's mode and constraints: min and
+ * max dates, disabled weekdays and blackout dates. A range may not start
+ * or end on a disabled day or span a blackout date.
+ */
+export function getDateError(
+  field: FormField,
+  value: unknown,
+  today = new Date(),
+): string | undefined {
+  const bounds = getDateBounds(field, today, RELATIVE_BOUND_LEEWAY_DAYS);
+  const shownBounds = getDateBounds(field, today, 0);
+  const checkDay = (key: string) =>
+    getDayError(field, key, bounds, shownBounds);
+  const mode = field.settings?.dateMode || "single";
+
+  if (mode === "range") {
+    if (!isDateRangeValue(value)) return "Invalid value";
+    if (!(value.from && value.to)) {
+      return "Please choose a start and an end date";
+    }
+    if (!(parseDateKey(value.from) && parseDateKey(value.to))) {
+      return "Please enter a valid date";
+    }
+    if (value.to < value.from) {
+      return "The end date must not be before the start date";
+    }
+    const endpointError = checkDay(value.from) || checkDay(value.to);
+    if (endpointError) return endpointError;
+    if (
+      field.settings?.blackoutDates?.some(
+        (key) => key >= value.from && key <= value.to,
+      )
+    ) {
+      return "The selected range includes unavailable dates";
+    }
+    return;
+  }
+
+  if (mode === "datetime") {
+    const parts = parseDateTimeValue(value);
+    if (!parts) return "Please enter a valid date and time";
+    return checkDay(parts.date);
+  }
+
+  if (typeof value !== "string") return "Please enter a valid date";
+  return checkDay(value);
+}
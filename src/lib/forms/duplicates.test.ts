@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { getRespondentKey } from "./duplicates";
+
+const SHA256_HEX = /^[0-9a-f]{64}$/;
+
+describe("getRespondentKey", () => {
+  it("keys signed-in respondents by account", () => {
+    const key = getRespondentKey("form-1", "user", undefined, {
+      userId: "user-1",
+      submissionData: {},
+    });
+    expect(key).toMatch(SHA256_HEX);
+    expect(key).not.toContain("user-1");
+    expect(
+      getRespondentKey("form-1", "user", undefined, {
+        userId: "user-1",
+        submissionData: { name: "Someone else" },
+      }),
+    ).toBe(key);
+    expect(
+      getRespondentKey("form-1", "user", undefined, { submissionData: {} }),
+    ).toBeNull();
+  });
+
+  it("keys respondents by email answer, ignoring case and spaces", () => {
+    const keyFor = (email: unknown) =>
+      getRespondentKey("form-1", "email", "email", {
+        submissionData: { email },
+      });
+    expect(keyFor(" Ada@Example.com ")).toBe(keyFor("ada@example.com"));
+    expect(keyFor("ada@example.com")).not.toBe(keyFor("grace@example.com"));
+    expect(keyFor("   ")).toBeNull();
+    expect(keyFor(["ada@example.com"])).toBeNull();
+    expect(
+      getRespondentKey("form-1", "email", undefined, {
+        submissionData: { email: "ada@example.com" },
+      }),
+    ).toBeNull();
+  });
+
+  it("keys respondents by browser cookie", () => {
+    expect(
+      getRespondentKey("form-1", "browser", undefined, {
+        browserId: "browser-1",
+        submissionData: {},
+      }),
+    ).not.toBeNull();
+    expect(
+      getRespondentKey("form-1", "browser", undefined, {
+        browserId: null,
+        submissionData: {},
+      }),
+    ).toBeNull();
+  });
+
+  it("keys the same respondent differently per form and identifier", () => {
+    const identity = {
+      userId: "same",
+      browserId: "same",
+      submissionData: {},
+    };
+    const key = getRespondentKey("form-1", "user", undefined, identity);
+    expect(getRespondentKey("form-2", "user", undefined, identity)).not.toBe(
+      key,
+    );
+    expect(getRespondentKey("form-1", "browser", undefined, identity)).not.toBe(
+      key,
+    );
+  });
+});
@@ -0,0 +1,56 @@
+import crypto from "crypto";
+import type { DuplicateIdentifier } from "@/lib/database";
+
+/**
+ * One response per person: each submission stores a respondent key, a hash
+ * of whatever identifies the respondent (their account, an email answer or a
+ * cookie set by the submit route), so earlier responses can be found without
+ * storing the identity itself.
+ */
+
+/** Cookie identifying a browser across submissions. */
+export const RESPONDENT_COOKIE = "ikiform_respondent";
+export const RESPONDENT_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+interface RespondentIdentity {
+  userId?: string | null;
+  submissionData: Record<string, unknown>;
+  browserId?: string | null;
+}
+
+/**
+ * Returns the respondent key for a submission, or null when the submission
+ * carries nothing to identify the respondent by (an anonymous respondent,
+ * an unanswered email field or a browser without the cookie).
+ */
+export function getRespondentKey(
+  formId: string,
+  identifyBy: DuplicateIdentifier,
+  emailFieldId: string | undefined,
+  { userId, submissionData, browserId }: RespondentIdentity,
+): string | null {
+  let identity: string | null = null;
+  switch (identifyBy) {
+    case "user":
+      identity = userId || null;
+      break;
+    case "email": {
+      const email = emailFieldId ? submissionData[emailFieldId] : null;
+      identity =
+        typeof email === "string" && email.trim()
+          ? email.trim().toLowerCase()
+          : null;
+      break;
+    }
+    case "browser":
+      identity = browserId || null;
+      break;
+  }
+
+  return identity
+    ? crypto
+        .createHash("sha256")
+        .update(`${formId}:${identifyBy}:${identity}`)
+        .digest("hex")
+    : null;
+}
@@ -0,0 +1,92 @@
+import crypto from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createEditToken, getEditPath, verifyEditToken } from "./edit-links";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1);
+
+const issueToken = (expiresInHours?: number) => {
+  const token = createEditToken("form-1", "submission-1", expiresInHours, NOW);
+  if (!token) {
+    throw new Error("Expected an edit token");
+  }
+  return token;
+};
+
+describe("edit links", () => {
+  beforeEach(() => {
+    vi.stubEnv("SUBMISSION_EDIT_SECRET", "test-secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("verifies its own tokens until they expire", () => {
+    const token = issueToken(2);
+    expect(verifyEditToken(token, NOW + HOUR_MS)).toEqual({
+      formId: "form-1",
+      submissionId: "submission-1",
+      expiresAt: NOW + 2 * HOUR_MS,
+    });
+    expect(verifyEditToken(token, NOW + 3 * HOUR_MS)).toBeNull();
+  });
+
+  it("expires after the default period", () => {
+    const token = issueToken();
+    expect(verifyEditToken(token, NOW + 72 * HOUR_MS)).not.toBeNull();
+    expect(verifyEditToken(token, NOW + 73 * HOUR_MS)).toBeNull();
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = issueToken(2);
+    vi.stubEnv("SUBMISSION_EDIT_SECRET", "other-secret");
+    expect(verifyEditToken(token, NOW)).toBeNull();
+  });
+
+  it("rejects tampered tokens", () => {
+    const token = issueToken(2);
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({
+        formId: "form-1",
+        submissionId: "submission-2",
+        expiresAt: NOW + 2 * HOUR_MS,
+      }),
+    ).toString("base64url");
+
+    expect(verifyEditToken(`${forged}.${signature}`, NOW)).toBeNull();
+    expect(verifyEditToken(`${token}x`, NOW)).toBeNull();
+    expect(verifyEditToken(token.split(".")[0], NOW)).toBeNull();
+    expect(verifyEditToken("", NOW)).toBeNull();
+  });
+
+  it("rejects signed tokens with an invalid payload", () => {
+    const signed = (payload: string) => {
+      const encoded = Buffer.from(payload).toString("base64url");
+      const signature = crypto
+        .createHmac("sha256", "test-secret")
+        .update(encoded)
+        .digest("base64url");
+      return `${encoded}.${signature}`;
+    };
+
+    expect(verifyEditToken(signed("not json"), NOW)).toBeNull();
+    expect(
+      verifyEditToken(
+        signed(JSON.stringify({ formId: "form-1", expiresAt: NOW + HOUR_MS })),
+        NOW,
+      ),
+    ).toBeNull();
+  });
+
+  it("hands out no tokens without a secret", () => {
+    vi.stubEnv("SUBMISSION_EDIT_SECRET", "");
+    expect(createEditToken("form-1", "submission-1", 2, NOW)).toBeNull();
+    expect(verifyEditToken("payload.signature", NOW)).toBeNull();
+  });
+
+  it("builds the public edit path", () => {
+    expect(getEditPath("my-form", "abc.def")).toBe("/f/my-form/edit/abc.def");
+  });
+});
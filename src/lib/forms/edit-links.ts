@@ -0,0 +1,86 @@
+import crypto from "crypto";
+import { DEFAULT_RESPONSE_EDITING_SETTINGS } from "./form-defaults";
+
+/**
+ * Edit links let respondents change their answers after submitting. The
+ * link carries a token naming the form and submission and when it expires,
+ * signed with `SUBMISSION_EDIT_SECRET`, so nothing has to be stored to check
+ * it. Without the secret, forms do not hand out edit links.
+ */
+
+export interface EditTokenPayload {
+  formId: string;
+  submissionId: string;
+  /** Expiry as a Unix timestamp in milliseconds. */
+  expiresAt: number;
+}
+
+/** A submission reopened from an edit link, as handed to the public form. */
+export interface ResponseEditSession {
+  token: string;
+  submissionData: Record<string, unknown>;
+}
+
+const getSecret = () => process.env.SUBMISSION_EDIT_SECRET;
+
+const sign = (payload: string, secret: string) =>
+  crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+
+export function createEditToken(
+  formId: string,
+  submissionId: string,
+  expiresInHours = DEFAULT_RESPONSE_EDITING_SETTINGS.expiresInHours,
+  now = Date.now(),
+): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const payload: EditTokenPayload = {
+    formId,
+    submissionId,
+    expiresAt: now + expiresInHours * 60 * 60 * 1000,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+/**
+ * Returns the token's payload, or null when it is malformed, signed with
+ * another secret or expired.
+ */
+export function verifyEditToken(
+  token: string,
+  now = Date.now(),
+): EditTokenPayload | null {
+  const secret = getSecret();
+  const [encoded, signature] = token.split(".");
+  if (!(secret && encoded && signature)) return null;
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString());
+    if (
+      typeof payload.formId !== "string" ||
+      typeof payload.submissionId !== "string" ||
+      typeof payload.expiresAt !== "number" ||
+      payload.expiresAt < now
+    ) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/** Path of the public page where a respondent edits their answers. */
+export const getEditPath = (formSlugOrId: string, token: string) =>
+  `/f/${formSlugOrId}/edit/${token}`;
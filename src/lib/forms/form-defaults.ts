@@ -1,4 +1,8 @@
-import type { FormSchema } from "@/lib/database";
+import type {
+  DuplicateIdentifier,
+  DuplicateMode,
+  FormSchema,
+} from "@/lib/database";
 
 /**
  * Default rate limiting settings for all forms
@@ -34,6 +38,38 @@ export const DEFAULT_RESPONSE_LIMIT_SETTINGS = {
   message: "This form is no longer accepting responses.",
 };
 
+/**
+ * Default respondent edit link settings for all forms
+ */
+export const DEFAULT_RESPONSE_EDITING_SETTINGS = {
+  enabled: false,
+  expiresInHours: 72,
+};
+
+/**
+ * Default duplicate submission settings for all forms
+ */
+export const DEFAULT_DUPLICATE_DETECTION_SETTINGS: {
+  enabled: boolean;
+  identifyBy: DuplicateIdentifier;
+  mode: DuplicateMode;
+  message: string;
+} = {
+  enabled: false,
+  identifyBy: "browser",
+  mode: "block",
+  message: "You have already responded to this form.",
+};
+
+/**
+ * Default partial submission capture settings for all forms
+ */
+export const DEFAULT_PARTIAL_CAPTURE_SETTINGS = {
+  enabled: false,
+  notice:
+    "Your answers are saved as you go, even if you don't submit. You can turn this off.",
+};
+
 /**
  * Default password protection settings for all forms
  */
@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+import type { FormField } from "@/lib/database";
+import {
+  applyCalculatedFields,
+  evaluateFormula,
+  FormulaError,
+  formatCalculatedValue,
+  getDecimalPlaces,
+  getFormulaReferences,
+  parseFormula,
+  validateFormula,
+} from "./formula";
+
+const calculated = (
+  id: string,
+  formula: string,
+  settings: FormField["settings"] = {},
+): FormField => ({
+  id,
+  type: "calculated",
+  label: id,
+  required: false,
+  settings: { formula, ...settings },
+});
+
+describe("parseFormula", () => {
+  it("respects operator precedence", () => {
+    expect(parseFormula("1 + 2 * 3")).toEqual({
+      type: "binary",
+      operator: "+",
+      left: { type: "literal", value: 1 },
+      right: {
+        type: "binary",
+        operator: "*",
+        left: { type: "literal", value: 2 },
+        right: { type: "literal", value: 3 },
+      },
+    });
+  });
+
+  it("throws a FormulaError on invalid syntax", () => {
+    expect(() => parseFormula("{price")).toThrow(FormulaError);
+    expect(() => parseFormula("SUM(1, 2")).toThrow(FormulaError);
+    expect(() => parseFormula("1 2")).toThrow(FormulaError);
+    expect(() => parseFormula("UNKNOWN")).toThrow(FormulaError);
+  });
+
+  it("rejects formulas that are too long", () => {
+    expect(() => parseFormula(`${"1+".repeat(1000)}1`)).toThrow(
+      "Formula is too long",
+    );
+  });
+});
+
+describe("getFormulaReferences", () => {
+  it("returns each referenced field once", () => {
+    expect(
+      getFormulaReferences("IF({a} > 1, {b} * {a}, SUM({c}, {b}))"),
+    ).toEqual(["a", "b", "c"]);
+  });
+
+  it("returns an empty list for an invalid formula", () => {
+    expect(getFormulaReferences("{a} +")).toEqual([]);
+  });
+});
+
+describe("validateFormula", () => {
+  it("accepts a valid formula", () => {
+    expect(validateFormula("{a} + {b}", ["a", "b"])).toBeUndefined();
+  });
+
+  it("reports syntax errors", () => {
+    expect(validateFormula("{a} +")).toBe("Unexpected end of formula");
+  });
+
+  it("reports unknown fields", () => {
+    expect(validateFormula("{a} + {b} + {c}", ["a"])).toBe(
+      "Unknown field: b, c",
+    );
+  });
+});
+
+describe("evaluateFormula", () => {
+  it("does arithmetic on field values", () => {
+    expect(evaluateFormula("{qty} * {price}", { qty: "3", price: 2.5 })).toBe(
+      7.5,
+    );
+    expect(evaluateFormula("-{a} + 10 % 4", { a: 1 })).toBe(1);
+  });
+
+  it("treats blank answers as zero", () => {
+    expect(evaluateFormula("{a} + {b}", { a: 2, b: "" })).toBe(2);
+  });
+
+  it("returns null for runtime errors", () => {
+    expect(evaluateFormula("{a} / 0", { a: 1 })).toBeNull();
+    expect(evaluateFormula("{a} + 1", { a: "abc" })).toBeNull();
+    expect(evaluateFormula("{a} +", { a: 1 })).toBeNull();
+    expect(evaluateFormula("", {})).toBeNull();
+  });
+
+  it("returns null for missing answers", () => {
+    expect(evaluateFormula("{a}", {})).toBeNull();
+  });
+
+  it("compares numbers numerically and text case-insensitively", () => {
+    expect(evaluateFormula("{a} > 9", { a: "10" })).toBe(true);
+    expect(evaluateFormula("{a} = 'YES'", { a: "yes" })).toBe(true);
+    expect(evaluateFormula("{a} <> 'yes'", { a: "no" })).toBe(true);
+  });
+
+  it("only evaluates the IF branch it returns", () => {
+    expect(evaluateFormula("IF({a} > 0, 10 / {a}, 1 / 0)", { a: 5 })).toBe(2);
+    expect(evaluateFormula("IF({a}, 'on')", { a: false })).toBe("");
+  });
+
+  it("flattens multi-answer fields in aggregate functions", () => {
+    const values = { scores: [1, 2, 3], extra: 4, blank: "" };
+    expect(evaluateFormula("SUM({scores}, {extra})", values)).toBe(10);
+    expect(evaluateFormula("AVG({scores}, {blank})", values)).toBe(2);
+    expect(evaluateFormula("MAX({scores})", values)).toBe(3);
+    expect(evaluateFormula("COUNT({scores}, {blank})", values)).toBe(3);
+  });
+
+  it("concatenates text", () => {
+    expect(
+      evaluateFormula("{first} & ' ' & {last}", {
+        first: "Ada",
+        last: "Lovelace",
+      }),
+    ).toBe("Ada Lovelace");
+    expect(evaluateFormula("CONCAT({a}, '-', 1)", { a: "x" })).toBe("x-1");
+    expect(evaluateFormula("LEN({a})", { a: "hello" })).toBe(5);
+  });
+
+  it("returns multi-answer fields as text", () => {
+    expect(evaluateFormula("{tags}", { tags: ["a", "b"] })).toBe("a, b");
+  });
+
+  it("rounds to the given digits", () => {
+    expect(evaluateFormula("ROUND(2.345, 2)", {})).toBe(2.35);
+    expect(evaluateFormula("ROUND(2.5)", {})).toBe(3);
+  });
+
+  it("diffs dates in the given unit", () => {
+    const values = { start: "2024-01-15", end: "2025-03-20" };
+    expect(evaluateFormula("DATEDIFF({end}, {start})", values)).toBe(430);
+    expect(evaluateFormula("DATEDIFF({end}, {start}, 'months')", values)).toBe(
+      14,
+    );
+    expect(evaluateFormula("DATEDIFF({end}, {start}, 'years')", values)).toBe(
+      1,
+    );
+    expect(evaluateFormula("DATEDIFF({end}, {missing})", values)).toBe("");
+    expect(evaluateFormula("DATEDIFF({end}, 'soon')", values)).toBeNull();
+  });
+});
+
+describe("getDecimalPlaces", () => {
+  it("clamps the setting to an integer toFixed accepts", () => {
+    expect(getDecimalPlaces(calculated("a", "1"))).toBeUndefined();
+    expect(getDecimalPlaces(calculated("a", "1", { decimalPlaces: 2.7 }))).toBe(
+      2,
+    );
+    expect(getDecimalPlaces(calculated("a", "1", { decimalPlaces: -1 }))).toBe(
+      0,
+    );
+    expect(getDecimalPlaces(calculated("a", "1", { decimalPlaces: 500 }))).toBe(
+      20,
+    );
+  });
+});
+
+describe("applyCalculatedFields", () => {
+  it("returns the original answers when nothing changes", () => {
+    const values = { a: 1 };
+    expect(applyCalculatedFields([], values)).toBe(values);
+    expect(applyCalculatedFields([calculated("a", "1")], values)).toBe(values);
+  });
+
+  it("resolves calculated fields that reference each other", () => {
+    const fields = [
+      calculated("share", "{subtotal} / 7", { decimalPlaces: 2 }),
+      calculated("subtotal", "{qty} * {price}"),
+    ];
+    expect(applyCalculatedFields(fields, { qty: 3, price: 1.25 })).toEqual({
+      qty: 3,
+      price: 1.25,
+      subtotal: 3.75,
+      share: 0.54,
+    });
+  });
+
+  it("stops on reference cycles", () => {
+    const fields = [calculated("a", "{b} + 1"), calculated("b", "{a} + 1")];
+    expect(applyCalculatedFields(fields, {})).toEqual({ a: 3, b: 4 });
+  });
+});
+
+describe("formatCalculatedValue", () => {
+  const field = calculated("a", "1", {
+    decimalPlaces: 2,
+    prefix: "$",
+    suffix: " USD",
+  });
+
+  it("applies the prefix, suffix and decimal places", () => {
+    expect(formatCalculatedValue(field, 3)).toBe("$3.00 USD");
+    expect(formatCalculatedValue(field, "n/a")).toBe("$n/a USD");
+  });
+
+  it("shows booleans as Yes or No", () => {
+    expect(formatCalculatedValue(calculated("a", "1"), true)).toBe("Yes");
+    expect(formatCalculatedValue(calculated("a", "1"), false)).toBe("No");
+  });
+
+  it("shows a dash for empty values", () => {
+    expect(formatCalculatedValue(field, null)).toBe("—");
+    expect(formatCalculatedValue(field, "")).toBe("—");
+  });
+});
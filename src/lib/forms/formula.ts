@@ -0,0 +1,613 @@
+import type { FormField } from "@/lib/database";
+
+/**
+ * A small, side-effect free expression language for calculated fields.
+ *
+ * - Field references: `{field_id}`
+ * - Literals: numbers, "strings", 'strings', TRUE, FALSE
+ * - Operators: + - * / % & (string concat), = != <> < > <= >=
+ * - Functions: IF, AND, OR, NOT, SUM, AVG, MIN, MAX, ROUND, ABS, COUNT,
+ *   CONCAT, LEN, TODAY, DATEDIFF(end, start, unit?)
+ *
+ * Formulas are parsed into an AST and interpreted; nothing is ever passed to
+ * `eval`, so the same code runs safely in the browser and the submit route.
+ */
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "field"; value: string }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: string }
+  | { type: "paren"; value: "(" | ")" }
+  | { type: "comma" };
+
+export type FormulaNode =
+  | { type: "literal"; value: number | string | boolean }
+  | { type: "field"; id: string }
+  | { type: "unary"; operator: "-" | "+"; operand: FormulaNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { type: "call"; name: string; args: FormulaNode[] };
+
+const MAX_FORMULA_LENGTH = 2000;
+export const MAX_DECIMAL_PLACES = 20;
+const OPERATORS = [
+  "<=",
+  ">=",
+  "!=",
+  "<>",
+  "==",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "&",
+  "=",
+  "<",
+  ">",
+];
+const COMPARISON_OPERATORS = ["=", "==", "!=", "<>", "<", ">", "<=", ">="];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === "{") {
+      const end = formula.indexOf("}", i);
+      if (end === -1) throw new FormulaError("Unclosed field reference");
+      const id = formula.slice(i + 1, end).trim();
+      if (!id) throw new FormulaError("Empty field reference");
+      tokens.push({ type: "field", value: id });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let j = i + 1;
+      while (j < formula.length && formula[j] !== char) {
+        if (formula[j] === "\\" && j + 1 < formula.length) j++;
+        value += formula[j];
+        j++;
+      }
+      if (j >= formula.length) throw new FormulaError("Unclosed string");
+      tokens.push({ type: "string", value });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^\d*\.?\d+(?:[eE][+-]?\d+)?|^\d+\.?/.exec(
+        formula.slice(i),
+      );
+      if (!match) throw new FormulaError(`Invalid number at ${i}`);
+      tokens.push({ type: "number", value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0].toUpperCase() });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      i++;
+      continue;
+    }
+
+    if (char === ",") {
+      tokens.push({ type: "comma" });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => formula.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    throw new FormulaError(`Unexpected character "${char}"`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a formula into an AST. Throws a `FormulaError` on invalid syntax.
+ */
+export function parseFormula(formula: string): FormulaNode {
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaError("Formula is too long");
+  }
+
+  const tokens = tokenize(formula);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (token: Token | undefined, ...values: string[]) =>
+    token?.type === "operator" && values.includes(token.value);
+
+  const parseComparison = (): FormulaNode => {
+    let left = parseConcat();
+    while (isOperator(peek(), ...COMPARISON_OPERATORS)) {
+      const operator = (tokens[position++] as { value: string }).value;
+      left = { type: "binary", operator, left, right: parseConcat() };
+    }
+    return left;
+  };
+
+  const parseConcat = (): FormulaNode => {
+    let left = parseAdditive();
+    while (isOperator(peek(), "&")) {
+      position++;
+      left = { type: "binary", operator: "&", left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): FormulaNode => {
+    let left = parseMultiplicative();
+    while (isOperator(peek(), "+", "-")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      left = { type: "binary", operator, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): FormulaNode => {
+    let left = parseUnary();
+    while (isOperator(peek(), "*", "/", "%")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      left = { type: "binary", operator, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const token = peek();
+    if (isOperator(token, "-", "+")) {
+      position++;
+      return {
+        type: "unary",
+        operator: (token as { value: "-" | "+" }).value,
+        operand: parseUnary(),
+      };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) throw new FormulaError("Unexpected end of formula");
+
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value };
+      case "field":
+        return { type: "field", id: token.value };
+      case "identifier": {
+        if (token.value === "TRUE") return { type: "literal", value: true };
+        if (token.value === "FALSE") return { type: "literal", value: false };
+
+        const open = tokens[position++];
+        if (!(open?.type === "paren" && open.value === "(")) {
+          throw new FormulaError(`Unknown identifier "${token.value}"`);
+        }
+
+        const args: FormulaNode[] = [];
+        const next = peek();
+        if (!(next?.type === "paren" && next.value === ")")) {
+          args.push(parseComparison());
+          while (peek()?.type === "comma") {
+            position++;
+            args.push(parseComparison());
+          }
+        }
+
+        const close = tokens[position++];
+        if (!(close?.type === "paren" && close.value === ")")) {
+          throw new FormulaError(`Missing ")" after ${token.value} arguments`);
+        }
+        return { type: "call", name: token.value, args };
+      }
+      case "paren": {
+        if (token.value !== "(") throw new FormulaError('Unexpected ")"');
+        const expression = parseComparison();
+        const close = tokens[position++];
+        if (!(close?.type === "paren" && close.value === ")")) {
+          throw new FormulaError('Missing ")"');
+        }
+        return expression;
+      }
+      default:
+        throw new FormulaError("Unexpected token");
+    }
+  };
+
+  const ast = parseComparison();
+  if (position < tokens.length) {
+    throw new FormulaError("Unexpected input after end of formula");
+  }
+  return ast;
+}
+
+const isBlank = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+const flatten = (values: unknown[]): unknown[] =>
+  values.flatMap((value) => (Array.isArray(value) ? flatten(value) : [value]));
+
+function toNumber(value: unknown): number {
+  if (isBlank(value)) return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (Array.isArray(value))
+    return flatten(value).reduce<number>(
+      (sum, item) => sum + toNumber(item),
+      0,
+    );
+  const num = Number(value);
+  if (Number.isNaN(num)) {
+    throw new FormulaError(`"${value}" is not a number`);
+  }
+  return num;
+}
+
+function toText(value: unknown): string {
+  if (isBlank(value)) return "";
+  if (Array.isArray(value)) return flatten(value).map(toText).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  return !isBlank(value) && value !== "false";
+}
+
+function toDate(value: unknown): Date {
+  const date = value instanceof Date ? value : new Date(toText(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new FormulaError(`"${toText(value)}" is not a date`);
+  }
+  return date;
+}
+
+const isNumeric = (value: unknown) =>
+  typeof value === "number" ||
+  (typeof value === "string" &&
+    value.trim() !== "" &&
+    !Number.isNaN(Number(value)));
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  const numeric = isNumeric(left) && isNumeric(right);
+  const a = numeric ? Number(left) : toText(left).toLowerCase();
+  const b = numeric ? Number(right) : toText(right).toLowerCase();
+
+  switch (operator) {
+    case "=":
+    case "==":
+      return a === b;
+    case "!=":
+    case "<>":
+      return a !== b;
+    case "<":
+      return a < b;
+    case ">":
+      return a > b;
+    case "<=":
+      return a <= b;
+    case ">=":
+      return a >= b;
+    default:
+      throw new FormulaError(`Unknown operator "${operator}"`);
+  }
+}
+
+function diffDates(end: Date, start: Date, unit: string): number {
+  switch (unit.toLowerCase()) {
+    case "years":
+      return end.getFullYear() - start.getFullYear();
+    case "months":
+      return (
+        (end.getFullYear() - start.getFullYear()) * 12 +
+        end.getMonth() -
+        start.getMonth()
+      );
+    case "hours":
+      return Math.floor((end.getTime() - start.getTime()) / (60 * 60 * 1000));
+    case "days":
+      return Math.floor((end.getTime() - start.getTime()) / MS_PER_DAY);
+    default:
+      throw new FormulaError(`Unknown DATEDIFF unit "${unit}"`);
+  }
+}
+
+function evaluateNode(
+  node: FormulaNode,
+  values: Record<string, unknown>,
+): unknown {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "field":
+      return values[node.id];
+    case "unary": {
+      const operand = toNumber(evaluateNode(node.operand, values));
+      return node.operator === "-" ? -operand : operand;
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, values);
+      const right = evaluateNode(node.right, values);
+      if (COMPARISON_OPERATORS.includes(node.operator)) {
+        return compare(node.operator, left, right);
+      }
+      switch (node.operator) {
+        case "&":
+          return toText(left) + toText(right);
+        case "+":
+          return toNumber(left) + toNumber(right);
+        case "-":
+          return toNumber(left) - toNumber(right);
+        case "*":
+          return toNumber(left) * toNumber(right);
+        case "/": {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new FormulaError("Division by zero");
+          return toNumber(left) / divisor;
+        }
+        case "%": {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new FormulaError("Division by zero");
+          return toNumber(left) % divisor;
+        }
+        default:
+          throw new FormulaError(`Unknown operator "${node.operator}"`);
+      }
+    }
+    case "call":
+      return callFunction(node, values);
+  }
+}
+
+function callFunction(
+  node: Extract<FormulaNode, { type: "call" }>,
+  values: Record<string, unknown>,
+): unknown {
+  // IF only evaluates the branch it returns
+  if (node.name === "IF") {
+    if (node.args.length < 2 || node.args.length > 3) {
+      throw new FormulaError("IF expects 2 or 3 arguments");
+    }
+    const condition = toBoolean(evaluateNode(node.args[0], values));
+    const branch = condition ? node.args[1] : node.args[2];
+    return branch ? evaluateNode(branch, values) : "";
+  }
+
+  const args = node.args.map((arg) => evaluateNode(arg, values));
+  const items = flatten(args);
+
+  switch (node.name) {
+    case "AND":
+      return items.every(toBoolean);
+    case "OR":
+      return items.some(toBoolean);
+    case "NOT":
+      return !toBoolean(args[0]);
+    case "SUM":
+      return items.reduce<number>((sum, item) => sum + toNumber(item), 0);
+    case "AVG":
+    case "AVERAGE": {
+      const numbers = items.filter((item) => !isBlank(item)).map(toNumber);
+      return numbers.length
+        ? numbers.reduce((sum, item) => sum + item, 0) / numbers.length
+        : 0;
+    }
+    case "MIN":
+    case "MAX": {
+      const numbers = items.filter((item) => !isBlank(item)).map(toNumber);
+      if (!numbers.length) return 0;
+      return node.name === "MIN" ? Math.min(...numbers) : Math.max(...numbers);
+    }
+    case "ROUND": {
+      const digits = args.length > 1 ? toNumber(args[1]) : 0;
+      const factor = 10 ** digits;
+      return Math.round(toNumber(args[0]) * factor) / factor;
+    }
+    case "ABS":
+      return Math.abs(toNumber(args[0]));
+    case "COUNT":
+      return items.filter((item) => !isBlank(item)).length;
+    case "CONCAT":
+      return items.map(toText).join("");
+    case "LEN":
+      return toText(args[0]).length;
+    case "TODAY":
+      return new Date().toISOString().slice(0, 10);
+    case "DATEDIFF": {
+      if (args.length < 2) {
+        throw new FormulaError("DATEDIFF expects an end and a start date");
+      }
+      if (isBlank(args[0]) || isBlank(args[1])) return "";
+      return diffDates(
+        toDate(args[0]),
+        toDate(args[1]),
+        args.length > 2 ? toText(args[2]) : "days",
+      );
+    }
+    default:
+      throw new FormulaError(`Unknown function "${node.name}"`);
+  }
+}
+
+/**
+ * Returns the field IDs a formula references, or an empty list when the
+ * formula cannot be parsed.
+ */
+export function getFormulaReferences(formula: string): string[] {
+  const references = new Set<string>();
+  const visit = (node: FormulaNode) => {
+    if (node.type === "field") references.add(node.id);
+    if (node.type === "unary") visit(node.operand);
+    if (node.type === "binary") {
+      visit(node.left);
+      visit(node.right);
+    }
+    if (node.type === "call") node.args.forEach(visit);
+  };
+
+  try {
+    visit(parseFormula(formula));
+  } catch {
+    return [];
+  }
+  return [...references];
+}
+
+/**
+ * Checks a formula for syntax errors and unknown field references.
+ * Returns the error message, or undefined when the formula is valid.
+ */
+export function validateFormula(
+  formula: string,
+  fieldIds?: string[],
+): string | undefined {
+  try {
+    parseFormula(formula);
+  } catch (error) {
+    return error instanceof FormulaError ? error.message : "Invalid formula";
+  }
+  if (fieldIds) {
+    const unknown = getFormulaReferences(formula).filter(
+      (id) => !fieldIds.includes(id),
+    );
+    if (unknown.length) return `Unknown field: ${unknown.join(", ")}`;
+  }
+}
+
+/**
+ * Evaluates a formula against the current answers. Returns null when the
+ * formula is invalid, fails at runtime (e.g. division by zero) or has no
+ * value. A formula that is just a multi-answer field returns its answers as
+ * text.
+ */
+export function evaluateFormula(
+  formula: string,
+  values: Record<string, unknown>,
+): number | string | boolean | null {
+  if (!formula?.trim()) return null;
+  try {
+    const result = evaluateNode(parseFormula(formula), values);
+    if (typeof result === "number") {
+      return Number.isFinite(result) ? result : null;
+    }
+    if (typeof result === "string" || typeof result === "boolean") {
+      return result;
+    }
+    return result === null || result === undefined ? null : toText(result);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the field's decimal places as an integer toFixed accepts, or
+ * undefined when unset. The setting comes from the schema, which may have
+ * been edited or imported by hand.
+ */
+export function getDecimalPlaces(field: FormField): number | undefined {
+  const places = Number(field.settings?.decimalPlaces);
+  if (field.settings?.decimalPlaces === undefined || Number.isNaN(places)) {
+    return undefined;
+  }
+  return Math.min(MAX_DECIMAL_PLACES, Math.max(0, Math.trunc(places)));
+}
+
+/**
+ * Recomputes every calculated field in `fields` and returns the updated
+ * answers. Calculated fields may reference each other; evaluation repeats
+ * until values settle, so reference cycles stop after one pass per field.
+ * Returns the original object when nothing changed.
+ */
+export function applyCalculatedFields<T extends Record<string, unknown>>(
+  fields: FormField[],
+  values: T,
+): T {
+  const calculatedFields = fields.filter(
+    (field) => field.type === "calculated" && field.settings?.formula,
+  );
+  if (calculatedFields.length === 0) return values;
+
+  let result = values;
+  for (let pass = 0; pass < calculatedFields.length; pass++) {
+    let changed = false;
+    for (const field of calculatedFields) {
+      const computed = evaluateFormula(field.settings!.formula!, result);
+      const decimalPlaces = getDecimalPlaces(field);
+      const rounded =
+        typeof computed === "number" && decimalPlaces !== undefined
+          ? Number(computed.toFixed(decimalPlaces))
+          : computed;
+      if (result[field.id] !== rounded) {
+        result = { ...result, [field.id]: rounded };
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return result;
+}
+
+/**
+ * Formats a calculated value for display using the field's prefix, suffix
+ * and decimal places.
+ */
+export function formatCalculatedValue(
+  field: FormField,
+  value: unknown,
+): string {
+  if (value === null || value === undefined || value === "") return "—";
+  const decimalPlaces = getDecimalPlaces(field);
+  const text =
+    typeof value === "number" && decimalPlaces !== undefined
+      ? value.toFixed(decimalPlaces)
+      : typeof value === "boolean"
+        ? value
+          ? "Yes"
+          : "No"
+        : String(value);
+  return `${field.settings?.prefix || ""}${text}${field.settings?.suffix || ""}`;
+}
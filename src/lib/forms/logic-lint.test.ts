@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import type {
+  LogicAction,
+  LogicActionCondition,
+  LogicConditionGroup,
+} from "@/components/form-builder/logic-builder/types";
+import { hasBlockingLogicIssues, lintFormLogic } from "./logic-lint";
+import { block, condition, field, group, rule } from "./test-utils";
+
+// Lint issues name their rule, so rules here get short ids
+const lintRule = (
+  id: string,
+  conditions: LogicConditionGroup["conditions"],
+  type: LogicAction["type"],
+  target?: string,
+  logic: LogicConditionGroup["logic"] = "AND",
+): LogicActionCondition => ({
+  ...rule(group(conditions, logic), type, target),
+  id,
+});
+
+const fields = [field("a"), field("b"), field("c")];
+const codes = (issues: { code: string }[]) => issues.map((issue) => issue.code);
+
+describe("lintFormLogic", () => {
+  it("accepts valid rules", () => {
+    expect(
+      lintFormLogic(
+        [lintRule("r1", [condition("a", "equals", "yes")], "show", "b")],
+        fields,
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports rules that target missing fields as errors", () => {
+    const issues = lintFormLogic(
+      [
+        lintRule("r1", [condition("a", "equals", "yes")], "show", "gone"),
+        lintRule("r2", [condition("a", "equals", "yes")], "set_value"),
+        lintRule(
+          "r3",
+          [condition("a", "equals", "yes")],
+          "show_message",
+          "gone",
+        ),
+        lintRule("r4", [condition("a", "equals", "yes")], "show_message"),
+      ],
+      fields,
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({
+        code: "missing_target",
+        severity: "error",
+        ruleId: "r1",
+      }),
+      expect.objectContaining({ code: "missing_target", ruleId: "r2" }),
+      expect.objectContaining({ code: "missing_target", ruleId: "r3" }),
+    ]);
+    expect(hasBlockingLogicIssues(issues)).toBe(true);
+  });
+
+  it("reports jumps to missing steps as errors", () => {
+    const issues = lintFormLogic(
+      [
+        lintRule(
+          "r1",
+          [condition("a", "equals", "yes")],
+          "jump_to_block",
+          "gone",
+        ),
+      ],
+      fields,
+      [block("one", ["a"]), block("two", ["b"])],
+    );
+    expect(codes(issues)).toEqual(["missing_block"]);
+  });
+
+  it("warns about conditions on missing fields", () => {
+    const issues = lintFormLogic(
+      [lintRule("r1", [condition("gone", "is_empty")], "show", "a")],
+      fields,
+    );
+    expect(codes(issues)).toEqual(["missing_condition_field"]);
+    expect(hasBlockingLogicIssues(issues)).toBe(false);
+  });
+
+  it("warns about conditions on fields after the target", () => {
+    const issues = lintFormLogic(
+      [lintRule("r1", [condition("c", "is_empty")], "hide", "a")],
+      fields,
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({
+        code: "condition_after_target",
+        message: 'Depends on "c", which comes after "a".',
+      }),
+    ]);
+  });
+
+  it("warns about conditions that can never all be true", () => {
+    const lint = (
+      conditions: LogicConditionGroup["conditions"],
+      logic?: "OR",
+    ) =>
+      codes(
+        lintFormLogic([lintRule("r1", conditions, "show", "c", logic)], fields),
+      );
+
+    expect(
+      lint([condition("a", "equals", "x"), condition("a", "equals", "y")]),
+    ).toEqual(["contradiction"]);
+    expect(
+      lint([condition("a", "equals", "x"), condition("a", "not_equals", "x")]),
+    ).toEqual(["contradiction"]);
+    expect(
+      lint([condition("a", "greater_than", 5), condition("a", "less_than", 3)]),
+    ).toEqual(["contradiction"]);
+    expect(
+      lint([condition("a", "is_empty"), condition("a", "is_not_empty")]),
+    ).toEqual(["contradiction"]);
+    expect(
+      lint([
+        group([condition("a", "equals", "x"), condition("a", "equals", "y")]),
+      ]),
+    ).toEqual(["contradiction"]);
+    expect(
+      lint(
+        [condition("a", "equals", "x"), condition("a", "equals", "y")],
+        "OR",
+      ),
+    ).toEqual([]);
+    expect(
+      lint([condition("a", "greater_than", 1), condition("a", "less_than", 3)]),
+    ).toEqual([]);
+  });
+
+  it("compares condition values the way answers are compared", () => {
+    const formFields = [field("n", "number"), field("tags", "checkbox")];
+    const lint = (conditions: LogicConditionGroup["conditions"]) =>
+      codes(
+        lintFormLogic(
+          [lintRule("r1", conditions, "show", "note")],
+          [...formFields, field("note")],
+        ),
+      );
+
+    expect(
+      lint([condition("n", "equals", "1"), condition("n", "equals", "1.0")]),
+    ).toEqual([]);
+    expect(
+      lint([
+        condition("n", "equals", "1"),
+        condition("n", "not_equals", "1.0"),
+      ]),
+    ).toEqual(["contradiction"]);
+    expect(
+      lint([
+        condition("tags", "equals", ["x", "y"]),
+        condition("tags", "equals", ["y", "x"]),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("warns about set_value rules that feed back into their conditions", () => {
+    const issues = lintFormLogic(
+      [
+        lintRule("r1", [condition("a", "is_empty")], "set_value", "b"),
+        lintRule("r2", [condition("b", "is_empty")], "set_value", "a"),
+        lintRule("r3", [condition("a", "is_empty")], "set_value", "c"),
+      ],
+      fields,
+    );
+    expect(
+      issues.filter((issue) => issue.code === "cycle").map((i) => i.ruleId),
+    ).toEqual(["r1", "r2"]);
+  });
+
+  it("follows calculated fields when looking for cycles", () => {
+    const formFields = [
+      field("a"),
+      field("total", "calculated", { settings: { formula: "{a} + 1" } }),
+    ];
+    const issues = lintFormLogic(
+      [
+        lintRule(
+          "r1",
+          [condition("total", "greater_than", 3)],
+          "set_value",
+          "a",
+        ),
+      ],
+      formFields,
+    );
+    expect(codes(issues)).toContain("cycle");
+  });
+
+  it("warns about steps that can never be reached", () => {
+    const blocks = [
+      block("one", ["a"]),
+      block("two", ["b"]),
+      block("three", ["c"]),
+    ];
+    const jump = (conditions: LogicConditionGroup["conditions"]) =>
+      lintFormLogic(
+        [lintRule("r1", conditions, "jump_to_block", "three")],
+        fields,
+        blocks,
+      );
+
+    expect(jump([])).toEqual([
+      expect.objectContaining({
+        code: "unreachable_block",
+        message: 'Step "two" can never be reached.',
+        blockId: "two",
+      }),
+    ]);
+    expect(jump([condition("a", "equals", "skip")])).toEqual([]);
+  });
+});
@@ -0,0 +1,324 @@
+import type {
+  LogicActionCondition,
+  LogicCondition,
+  LogicConditionGroup,
+} from "@/components/form-builder/logic-builder/types";
+import type { FormBlock, FormField } from "@/lib/database";
+
+import { getFormulaReferences } from "./formula";
+import {
+  collectConditionFields,
+  conditionValuesEqual,
+  getLogicSourceBlockIndex,
+  withFieldTypes,
+} from "./logic";
+
+export type LogicIssueSeverity = "error" | "warning";
+
+export type LogicIssueCode =
+  | "missing_target"
+  | "missing_block"
+  | "missing_condition_field"
+  | "condition_after_target"
+  | "contradiction"
+  | "unreachable_block"
+  | "cycle";
+
+export interface LogicIssue {
+  code: LogicIssueCode;
+  severity: LogicIssueSeverity;
+  message: string;
+  ruleId?: string;
+  blockId?: string;
+}
+
+export class LogicPublishError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LogicPublishError";
+  }
+}
+
+const FIELD_TARGET_ACTIONS = [
+  "show",
+  "hide",
+  "enable",
+  "disable",
+  "require",
+  "unrequire",
+  "set_value",
+];
+
+const NAVIGATION_ACTIONS = ["jump_to_block", "end_form"];
+
+const isAlwaysTrue = (group: LogicConditionGroup) =>
+  group?.logic === "AND" && group.conditions.length === 0;
+
+function findContradictions(
+  group: LogicConditionGroup,
+  getLabel: (fieldId: string) => string,
+): string[] {
+  if (!(group && Array.isArray(group.conditions))) return [];
+
+  const nested = group.conditions
+    .filter((cond): cond is LogicConditionGroup => "logic" in cond)
+    .flatMap((cond) => findContradictions(cond, getLabel));
+  if (group.logic !== "AND") return nested;
+
+  const byField = new Map<string, LogicCondition[]>();
+  for (const cond of group.conditions) {
+    if ("logic" in cond || !cond.field) continue;
+    byField.set(cond.field, [...(byField.get(cond.field) || []), cond]);
+  }
+
+  const found: string[] = [];
+  for (const [fieldId, conds] of byField) {
+    const withOperator = (operator: string) =>
+      conds.filter((c) => c.operator === operator);
+    const numbers = (operator: string) =>
+      withOperator(operator)
+        .map((c) => Number(c.value))
+        .filter((n) => !isNaN(n));
+
+    // Compared the way the evaluator compares answers, so "1" and "1.0" on
+    // a number field, or the same options in another order, agree
+    const equals = withOperator("equals");
+    const notEquals = withOperator("not_equals");
+    const lowerBounds = numbers("greater_than");
+    const upperBounds = numbers("less_than");
+
+    const contradictory =
+      (withOperator("is_empty").length > 0 &&
+        conds.some(
+          (c) =>
+            c.operator === "is_not_empty" ||
+            (c.operator === "equals" && c.value != null && c.value !== ""),
+        )) ||
+      equals.some((a) => !conditionValuesEqual(a, equals[0].value)) ||
+      notEquals.some((a) =>
+        equals.some((b) => conditionValuesEqual(a, b.value)),
+      ) ||
+      (lowerBounds.length > 0 &&
+        upperBounds.length > 0 &&
+        Math.max(...lowerBounds) >= Math.min(...upperBounds));
+
+    if (contradictory) {
+      found.push(
+        `Conditions on "${getLabel(fieldId)}" can never all be true at once.`,
+      );
+    }
+  }
+
+  return [...nested, ...found];
+}
+
+function findUnreachableBlocks(
+  logic: LogicActionCondition[],
+  blocks: FormBlock[],
+): FormBlock[] {
+  const edges = blocks.map((_, index) => {
+    const targets = new Set<number>();
+    let fallsThrough = true;
+    for (const item of logic) {
+      if (!NAVIGATION_ACTIONS.includes(item?.action?.type)) continue;
+      if (getLogicSourceBlockIndex(item, blocks) !== index) continue;
+      const target = blocks.findIndex((b) => b.id === item.action.target);
+      if (item.action.type === "jump_to_block" && target !== -1) {
+        targets.add(target);
+      }
+      if (isAlwaysTrue(item.condition)) {
+        fallsThrough = false;
+        break;
+      }
+    }
+    if (fallsThrough && index < blocks.length - 1) targets.add(index + 1);
+    return targets;
+  });
+
+  const reached = new Set<number>([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const index = queue.shift() as number;
+    for (const next of edges[index]) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return blocks.filter((_, index) => !reached.has(index));
+}
+
+/**
+ * Returns the ids of set_value rules whose target feeds back into its own
+ * conditions, directly or through other set_value rules and formulas.
+ */
+function findSetValueCycles(
+  logic: LogicActionCondition[],
+  fields: FormField[],
+): Set<string> {
+  const dependents = new Map<string, Set<string>>();
+  const addEdge = (from: string, to: string) => {
+    if (!dependents.has(from)) dependents.set(from, new Set());
+    dependents.get(from)?.add(to);
+  };
+
+  for (const item of logic) {
+    if (item?.action?.type !== "set_value" || !item.action.target) continue;
+    for (const fieldId of collectConditionFields(item.condition)) {
+      addEdge(fieldId, item.action.target);
+    }
+  }
+  for (const field of fields) {
+    if (field.type !== "calculated" || !field.settings?.formula) continue;
+    for (const reference of getFormulaReferences(field.settings.formula)) {
+      addEdge(reference, field.id);
+    }
+  }
+
+  const canReach = (from: string, to: string) => {
+    const visited = new Set<string>();
+    const stack = [from];
+    while (stack.length > 0) {
+      const current = stack.pop() as string;
+      if (current === to) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      stack.push(...(dependents.get(current) || []));
+    }
+    return false;
+  };
+
+  const cyclic = new Set<string>();
+  for (const item of logic) {
+    if (item?.action?.type !== "set_value" || !item.action.target) continue;
+    const sources = [...collectConditionFields(item.condition)];
+    if (sources.some((source) => canReach(item.action.target!, source))) {
+      cyclic.add(item.id);
+    }
+  }
+  return cyclic;
+}
+
+/**
+ * Checks logic rules against the form's fields and blocks. Errors (dangling
+ * targets) block publishing; warnings are shown in the logic panel only.
+ * set_value cycles are warnings because most settle after a pass (e.g. "if
+ * A is empty, set A") and `applyLogicValues` drops the ones that never do.
+ */
+export function lintFormLogic(
+  logic: LogicActionCondition[],
+  fields: FormField[],
+  blocks: FormBlock[] = [],
+): LogicIssue[] {
+  const issues: LogicIssue[] = [];
+  const fieldIndex = new Map(fields.map((field, index) => [field.id, index]));
+  const getLabel = (fieldId: string) =>
+    fields.find((field) => field.id === fieldId)?.label || fieldId;
+
+  for (const item of withFieldTypes(logic, fields)) {
+    if (!(item && item.action)) continue;
+    const { action } = item;
+    const conditionFields = [...collectConditionFields(item.condition)];
+
+    if (FIELD_TARGET_ACTIONS.includes(action.type)) {
+      if (!(action.target && fieldIndex.has(action.target))) {
+        issues.push({
+          code: "missing_target",
+          severity: "error",
+          message: `Targets a field that no longer exists (${action.target || "none"}).`,
+          ruleId: item.id,
+        });
+      }
+    }
+
+    if (
+      action.type === "show_message" &&
+      action.target &&
+      !fieldIndex.has(action.target)
+    ) {
+      issues.push({
+        code: "missing_target",
+        severity: "error",
+        message: `Shows a message on a field that no longer exists (${action.target}).`,
+        ruleId: item.id,
+      });
+    }
+
+    if (
+      action.type === "jump_to_block" &&
+      !blocks.some((block) => block.id === action.target)
+    ) {
+      issues.push({
+        code: "missing_block",
+        severity: "error",
+        message: `Jumps to a step that no longer exists (${action.target || "none"}).`,
+        ruleId: item.id,
+      });
+    }
+
+    for (const fieldId of conditionFields) {
+      if (!fieldIndex.has(fieldId)) {
+        issues.push({
+          code: "missing_condition_field",
+          severity: "warning",
+          message: `Condition uses "${fieldId}", which is not a field in this form.`,
+          ruleId: item.id,
+        });
+      }
+    }
+
+    const targetIndex = action.target
+      ? fieldIndex.get(action.target)
+      : undefined;
+    if (targetIndex !== undefined) {
+      const later = conditionFields.filter(
+        (fieldId) => (fieldIndex.get(fieldId) ?? -1) > targetIndex,
+      );
+      if (later.length > 0) {
+        issues.push({
+          code: "condition_after_target",
+          severity: "warning",
+          message: `Depends on ${later.map((id) => `"${getLabel(id)}"`).join(", ")}, which comes after "${getLabel(action.target!)}".`,
+          ruleId: item.id,
+        });
+      }
+    }
+
+    for (const message of findContradictions(item.condition, getLabel)) {
+      issues.push({
+        code: "contradiction",
+        severity: "warning",
+        message,
+        ruleId: item.id,
+      });
+    }
+  }
+
+  for (const ruleId of findSetValueCycles(logic, fields)) {
+    issues.push({
+      code: "cycle",
+      severity: "warning",
+      message:
+        "Sets a value that feeds back into its own conditions. If the rules keep changing each other's values, none of them are applied.",
+      ruleId,
+    });
+  }
+
+  if (blocks.length > 1) {
+    for (const block of findUnreachableBlocks(logic, blocks)) {
+      issues.push({
+        code: "unreachable_block",
+        severity: "warning",
+        message: `Step "${block.title || block.id}" can never be reached.`,
+        blockId: block.id,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export const hasBlockingLogicIssues = (issues: LogicIssue[]) =>
+  issues.some((issue) => issue.severity === "error");
@@ -0,0 +1,139 @@
+import type { LogicActionCondition } from "@/components/form-builder/logic-builder/types";
+import type { FormBlock, FormField } from "@/lib/database";
+
+import { applyCalculatedFields } from "./formula";
+import {
+  applyLogicValues,
+  evaluateLogic,
+  type FieldLogicState,
+  getLogicFieldVisibility,
+  getLogicMessages,
+  getReachableBlockPath,
+  type LogicMessages,
+  withFieldTypes,
+} from "./logic";
+
+export interface LogicSimulationResult {
+  firedRuleIds: string[];
+  values: Record<string, unknown>;
+  fieldStates: Record<string, FieldLogicState>;
+  messages: LogicMessages;
+  path: number[];
+}
+
+/** The parts of a simulation a saved test case is compared against. */
+export interface LogicSimulationSnapshot {
+  firedRuleIds: string[];
+  hiddenFieldIds: string[];
+  disabledFieldIds: string[];
+  path: number[];
+}
+
+export interface LogicTestCase {
+  id: string;
+  name: string;
+  answers: Record<string, unknown>;
+  expected: LogicSimulationSnapshot;
+}
+
+/**
+ * Runs the form's logic against sample answers the same way the public form
+ * does: set_value and calculated fields first, then visibility, messages and
+ * the multi-step path.
+ */
+export function simulateLogic(
+  logic: LogicActionCondition[],
+  fields: FormField[],
+  blocks: FormBlock[] | undefined,
+  answers: Record<string, unknown>,
+  userAttributes?: Record<string, unknown>,
+): LogicSimulationResult {
+  logic = withFieldTypes(logic, fields);
+  const fieldIds = fields.map((field) => field.id);
+  const values = applyLogicValues(
+    logic,
+    fieldIds,
+    answers,
+    userAttributes,
+    (state) => applyCalculatedFields(fields, state),
+  );
+
+  return {
+    firedRuleIds: logic
+      .filter((item) => evaluateLogic([item], values, userAttributes).length)
+      .map((item) => item.id),
+    values,
+    fieldStates: getLogicFieldVisibility(
+      logic,
+      fieldIds,
+      values,
+      userAttributes,
+    ),
+    messages: getLogicMessages(
+      evaluateLogic(logic, values, userAttributes),
+      fieldIds,
+    ),
+    path:
+      blocks && blocks.length > 1
+        ? getReachableBlockPath(logic, blocks, values, userAttributes)
+        : [],
+  };
+}
+
+export function getSimulationSnapshot(
+  result: LogicSimulationResult,
+): LogicSimulationSnapshot {
+  const states = Object.entries(result.fieldStates);
+  return {
+    firedRuleIds: result.firedRuleIds,
+    hiddenFieldIds: states.filter(([, s]) => !s.visible).map(([id]) => id),
+    disabledFieldIds: states.filter(([, s]) => s.disabled).map(([id]) => id),
+    path: result.path,
+  };
+}
+
+/**
+ * Re-runs saved test cases against the current logic and returns each case
+ * with what changed since it was saved.
+ */
+export function runLogicTests(
+  logic: LogicActionCondition[],
+  fields: FormField[],
+  blocks: FormBlock[] | undefined,
+  testCases: LogicTestCase[],
+) {
+  return testCases.map((testCase) => {
+    const snapshot = getSimulationSnapshot(
+      simulateLogic(logic, fields, blocks, testCase.answers),
+    );
+    return {
+      testCase,
+      snapshot,
+      changes: diffSimulationSnapshot(testCase.expected, snapshot),
+    };
+  });
+}
+
+const SNAPSHOT_LABELS: Record<keyof LogicSimulationSnapshot, string> = {
+  firedRuleIds: "fired rules",
+  hiddenFieldIds: "hidden fields",
+  disabledFieldIds: "disabled fields",
+  path: "step path",
+};
+
+/**
+ * Lists what differs between a saved expectation and a fresh run, e.g.
+ * `["hidden fields", "step path"]`. Empty when the test case still passes.
+ */
+export function diffSimulationSnapshot(
+  expected: LogicSimulationSnapshot,
+  actual: LogicSimulationSnapshot,
+): string[] {
+  return (Object.keys(SNAPSHOT_LABELS) as (keyof LogicSimulationSnapshot)[])
+    .filter(
+      (key) =>
+        JSON.stringify(expected[key] || []) !==
+        JSON.stringify(actual[key] || []),
+    )
+    .map((key) => SNAPSHOT_LABELS[key]);
+}
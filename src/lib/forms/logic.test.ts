@@ -0,0 +1,335 @@
+import { describe, expect, it } from "vitest";
+import type {
+  LogicAction,
+  LogicActionCondition,
+  LogicCondition,
+  LogicConditionGroup,
+} from "@/components/form-builder/logic-builder/types";
+import {
+  applyLogicValues,
+  evaluateLogic,
+  getLogicFieldVisibility,
+  getLogicMessages,
+  getNextBlockIndex,
+  getReachableBlockPath,
+  withFieldTypes,
+  withLogicRequired,
+} from "./logic";
+import { block, condition, field, group, rule } from "./test-utils";
+
+const matches = (
+  when: LogicCondition | LogicConditionGroup,
+  formState: Record<string, unknown>,
+) => evaluateLogic([rule(when, "show", "target")], formState).length === 1;
+
+describe("evaluateLogic", () => {
+  it("returns the actions of rules whose conditions match", () => {
+    const rules = [
+      rule(condition("a", "equals", "yes"), "show", "x"),
+      rule(condition("a", "equals", "no"), "hide", "y"),
+    ];
+    expect(evaluateLogic(rules, { a: "yes" })).toEqual([rules[0].action]);
+  });
+
+  it("combines conditions with AND, OR and nested groups", () => {
+    const isYes = condition("a", "equals", "yes");
+    const isOther = condition("b", "equals", "other");
+    expect(matches(group([isYes, isOther]), { a: "yes" })).toBe(false);
+    expect(matches(group([isYes, isOther], "OR"), { a: "yes" })).toBe(true);
+    expect(
+      matches(group([isYes, group([isOther], "OR")]), { a: "yes", b: "other" }),
+    ).toBe(true);
+  });
+
+  it("falls back to user attributes", () => {
+    expect(
+      evaluateLogic(
+        [rule(condition("plan", "equals", "pro"), "show", "x")],
+        {},
+        { plan: "pro" },
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("ignores rules without conditions", () => {
+    const broken = { id: "r", action: { id: "a", type: "show" } };
+    expect(evaluateLogic([broken as LogicActionCondition], {})).toEqual([]);
+  });
+});
+
+describe("condition operators", () => {
+  it("compares numbers numerically", () => {
+    expect(matches(condition("a", "equals", "10", "number"), { a: 10 })).toBe(
+      true,
+    );
+    expect(matches(condition("a", "equals", "abc", "number"), { a: 0 })).toBe(
+      false,
+    );
+    expect(matches(condition("a", "greater_than", "9"), { a: "10" })).toBe(
+      true,
+    );
+    expect(matches(condition("a", "less_than", 5), { a: "" })).toBe(false);
+  });
+
+  it("compares text answers as text", () => {
+    expect(matches(condition("a", "equals", "1", "text"), { a: "01" })).toBe(
+      false,
+    );
+    expect(matches(condition("a", "equals", "1", "text"), { a: "1" })).toBe(
+      true,
+    );
+    expect(matches(condition("a", "equals", "1.0", "rating"), { a: 1 })).toBe(
+      true,
+    );
+    expect(
+      matches(condition("a", "equals", "5", "calculated"), { a: 5.0 }),
+    ).toBe(true);
+    expect(
+      matches(condition("a", "equals", "5", "calculated"), { a: "5.0" }),
+    ).toBe(false);
+  });
+
+  it("compares multi-select answers as sets", () => {
+    const cond = condition("a", "equals", "b, a", "checkbox");
+    expect(matches(cond, { a: ["a", "b"] })).toBe(true);
+    expect(matches(cond, { a: ["a"] })).toBe(false);
+  });
+
+  it("compares dates by timestamp", () => {
+    expect(
+      matches(condition("a", "equals", "2024-05-01", "date"), {
+        a: "2024-05-01T00:00:00.000Z",
+      }),
+    ).toBe(true);
+    expect(
+      matches(condition("a", "before_date", "2024-05-01"), {
+        a: "2024-04-29T12:00[Europe/Berlin]",
+      }),
+    ).toBe(true);
+    expect(
+      matches(condition("a", "after_date", "2024-05-01"), { a: "soon" }),
+    ).toBe(false);
+  });
+
+  it("checks answers within the last few days", () => {
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+    const cond = condition("a", "within_last_days", 7);
+    expect(matches(cond, { a: yesterday })).toBe(true);
+    expect(matches(cond, { a: tomorrow })).toBe(false);
+  });
+
+  it("checks both bounds of between and allows an open bound", () => {
+    expect(matches(condition("a", "between", [1, 5]), { a: 3 })).toBe(true);
+    expect(matches(condition("a", "between", [1, 5]), { a: 6 })).toBe(false);
+    expect(matches(condition("a", "between", ["", 5]), { a: -2 })).toBe(true);
+    expect(matches(condition("a", "between", ["", ""]), { a: 1 })).toBe(false);
+  });
+
+  it("matches text", () => {
+    expect(
+      matches(condition("a", "equals_ignore_case", "HELLO"), { a: "hello" }),
+    ).toBe(true);
+    expect(matches(condition("a", "starts_with", "he"), { a: "hello" })).toBe(
+      true,
+    );
+    expect(matches(condition("a", "ends_with", ""), { a: "hello" })).toBe(
+      false,
+    );
+    expect(matches(condition("a", "contains", "ell"), { a: "hello" })).toBe(
+      true,
+    );
+    expect(matches(condition("a", "not_contains", "x"), { a: ["y"] })).toBe(
+      true,
+    );
+    expect(
+      matches(condition("a", "length_greater_than", 3), { a: "hello" }),
+    ).toBe(true);
+  });
+
+  it("only looks for text in answers", () => {
+    expect(matches(condition("a", "contains", 1), { a: "a1" })).toBe(false);
+    expect(matches(condition("a", "contains", "b"), { a: ["a", "b"] })).toBe(
+      true,
+    );
+    expect(matches(condition("a", "not_contains", 1), { a: "a1" })).toBe(false);
+    expect(matches(condition("a", "starts_with", 1), { a: "1a" })).toBe(false);
+    expect(matches(condition("a", "ends_with", "a"), { a: ["ba"] })).toBe(true);
+  });
+
+  it("tests patterns and rejects invalid ones", () => {
+    expect(
+      matches(condition("a", "matches_regex", "^\\d{3}$"), { a: "123" }),
+    ).toBe(true);
+    expect(
+      matches(condition("a", "matches_regex", "^(?=a)"), { a: "aaaa" }),
+    ).toBe(false);
+    expect(matches(condition("a", "matches_regex", "("), { a: "(" })).toBe(
+      false,
+    );
+  });
+
+  it("checks for empty answers", () => {
+    expect(matches(condition("a", "is_empty"), { a: [] })).toBe(true);
+    expect(matches(condition("a", "is_empty"), { a: 0 })).toBe(false);
+    expect(matches(condition("a", "is_not_empty"), { a: "x" })).toBe(true);
+  });
+});
+
+describe("getLogicFieldVisibility", () => {
+  it("applies hide, disable and require rules", () => {
+    const rules = [
+      rule(condition("a", "equals", "yes"), "hide", "b"),
+      rule(condition("a", "equals", "yes"), "disable", "c"),
+      rule(condition("a", "equals", "yes"), "require", "d"),
+      rule(condition("a", "equals", "no"), "unrequire", "d"),
+    ];
+    expect(
+      getLogicFieldVisibility(rules, ["b", "c", "d"], { a: "yes" }),
+    ).toEqual({
+      b: { visible: false, disabled: false },
+      c: { visible: true, disabled: true },
+      d: { visible: true, disabled: false, required: true },
+    });
+    expect(getLogicFieldVisibility(rules, ["d"], { a: "no" }).d.required).toBe(
+      false,
+    );
+  });
+});
+
+describe("withLogicRequired", () => {
+  it("overrides required only when the rules change it", () => {
+    const b = field("b");
+    expect(withLogicRequired(b)).toBe(b);
+    expect(withLogicRequired(b, { visible: true, disabled: false })).toBe(b);
+    expect(
+      withLogicRequired(b, { visible: true, disabled: false, required: true })
+        .required,
+    ).toBe(true);
+  });
+});
+
+describe("getLogicMessages", () => {
+  it("attaches messages to the targeted field or the block", () => {
+    const actions: LogicAction[] = [
+      { id: "1", type: "show_message", target: "a", value: "Check this" },
+      { id: "2", type: "show_message", value: "General note" },
+      { id: "3", type: "show_message", target: "a" },
+      { id: "4", type: "hide", target: "a", value: "ignored" },
+    ];
+    expect(getLogicMessages(actions, ["a"])).toEqual({
+      messages: ["General note"],
+      fieldMessages: { a: ["Check this"] },
+    });
+  });
+});
+
+describe("applyLogicValues", () => {
+  const fieldIds = ["a", "b", "c"];
+
+  it("returns the original answers when no value is set", () => {
+    const state = { a: "no" };
+    const rules = [rule(condition("a", "equals", "yes"), "set_value", "b", 1)];
+    expect(applyLogicValues(rules, fieldIds, state)).toBe(state);
+  });
+
+  it("applies set_value rules until the answers settle", () => {
+    const rules = [
+      rule(condition("b", "equals", 1), "set_value", "c", "done"),
+      rule(condition("a", "equals", "yes"), "set_value", "b", 1),
+    ];
+    expect(applyLogicValues(rules, fieldIds, { a: "yes" })).toEqual({
+      a: "yes",
+      b: 1,
+      c: "done",
+    });
+  });
+
+  it("does not set values on hidden fields", () => {
+    const rules = [
+      rule(condition("a", "equals", "yes"), "set_value", "b", 1),
+      rule(condition("a", "equals", "yes"), "hide", "b"),
+    ];
+    expect(applyLogicValues(rules, fieldIds, { a: "yes" })).toEqual({
+      a: "yes",
+    });
+  });
+
+  it("applies nothing when rules never settle", () => {
+    const state = { a: "x" };
+    const rules = [
+      rule(condition("a", "equals", "x"), "set_value", "a", "y"),
+      rule(condition("a", "equals", "y"), "set_value", "a", "x"),
+    ];
+    expect(applyLogicValues(rules, fieldIds, state)).toBe(state);
+  });
+
+  it("recomputes the answers before each pass", () => {
+    const rules = [rule(condition("b", "equals", 2), "set_value", "c", "big")];
+    const double = (state: Record<string, unknown>) =>
+      state.b === Number(state.a) * 2
+        ? state
+        : { ...state, b: Number(state.a) * 2 };
+    expect(
+      applyLogicValues(rules, fieldIds, { a: 1 }, undefined, double),
+    ).toEqual({ a: 1, b: 2, c: "big" });
+  });
+});
+
+describe("withFieldTypes", () => {
+  it("looks up each condition's field type", () => {
+    const rules = [
+      rule(
+        group([
+          condition("a", "equals", 1, "text"),
+          group([condition("plan", "equals", "pro")]),
+        ]),
+        "show",
+        "b",
+      ),
+    ];
+    const [resolved] = withFieldTypes(rules, [field("a", "number")]);
+    const [first, nested] = resolved.condition.conditions;
+    expect(first).toMatchObject({ field: "a", fieldType: "number" });
+    expect((nested as LogicConditionGroup).conditions[0]).toMatchObject({
+      field: "plan",
+      fieldType: undefined,
+    });
+  });
+});
+
+describe("block navigation", () => {
+  const blocks = [
+    block("intro", ["a"]),
+    block("details", ["b"]),
+    block("extra", ["c"]),
+    block("end", ["d"]),
+  ];
+
+  it("moves to the next block without matching rules", () => {
+    expect(getNextBlockIndex([], blocks, 0, {})).toBe(1);
+    expect(getNextBlockIndex([], blocks, 3, {})).toBeNull();
+  });
+
+  it("follows jump and end rules from the block that holds their fields", () => {
+    const rules = [
+      rule(condition("a", "equals", "skip"), "jump_to_block", "end"),
+      rule(condition("b", "equals", "stop"), "end_form"),
+    ];
+    expect(getNextBlockIndex(rules, blocks, 0, { a: "skip" })).toBe(3);
+    expect(getNextBlockIndex(rules, blocks, 1, { a: "skip" })).toBe(2);
+    expect(getNextBlockIndex(rules, blocks, 1, { b: "stop" })).toBeNull();
+  });
+
+  it("returns the blocks a respondent visits and stops on loops", () => {
+    const rules = [
+      rule(condition("a", "equals", "skip"), "jump_to_block", "end"),
+      rule(condition("c", "equals", "again"), "jump_to_block", "details"),
+    ];
+    expect(getReachableBlockPath(rules, blocks, { a: "skip" })).toEqual([0, 3]);
+    expect(getReachableBlockPath(rules, blocks, { c: "again" })).toEqual([
+      0, 1, 2,
+    ]);
+    expect(getReachableBlockPath(rules, [], {})).toEqual([]);
+  });
+});
@@ -1,16 +1,34 @@
+import type { FormBlock, FormField } from "@/lib/database";
 import type {
   LogicAction,
   LogicActionCondition,
   LogicCondition,
   LogicConditionGroup,
 } from "@/components/form-builder/logic-builder/types";
+import {
+  compilePattern,
+  testPattern,
+} from "@/lib/validation/pattern-validation";
 
 export type { LogicAction };
 
+export type FieldLogicState = {
+  visible: boolean;
+  disabled: boolean;
+  required?: boolean;
+};
+
+export type LogicMessages = {
+  messages: string[];
+  fieldMessages: Record<string, string[]>;
+};
+
+const MAX_SET_VALUE_PASSES = 10;
+
 export function evaluateLogic(
   logicItems: LogicActionCondition[],
-  formState: Record<string, any>,
-  userAttributes?: Record<string, any>,
+  formState: Record<string, unknown>,
+  userAttributes?: Record<string, unknown>,
 ): LogicAction[] {
   const actions: LogicAction[] = [];
   for (const item of logicItems) {
@@ -48,10 +66,247 @@ export function getLogicFieldDefaults(
   return defaults;
 }
 
+export function getLogicFieldVisibility(
+  logicItems: LogicActionCondition[],
+  allFieldIds: string[],
+  formState: Record<string, unknown>,
+  userAttributes?: Record<string, unknown>,
+): Record<string, FieldLogicState> {
+  const logicActions = evaluateLogic(logicItems, formState, userAttributes);
+  const actionsByField: Record<string, LogicAction[]> = {};
+  for (const action of logicActions) {
+    if (action.target) {
+      if (!actionsByField[action.target]) actionsByField[action.target] = [];
+      actionsByField[action.target].push(action);
+    }
+  }
+
+  const visibility: Record<string, FieldLogicState> = {};
+  for (const fieldId of allFieldIds) {
+    const actions = actionsByField[fieldId] || [];
+    visibility[fieldId] = {
+      visible: !actions.some((a) => a.type === "hide"),
+      disabled: actions.some((a) => a.type === "disable"),
+    };
+    if (actions.some((a) => a.type === "require")) {
+      visibility[fieldId].required = true;
+    } else if (actions.some((a) => a.type === "unrequire")) {
+      visibility[fieldId].required = false;
+    }
+  }
+  return visibility;
+}
+
+/**
+ * Returns the field with `required` overridden by require/unrequire rules.
+ */
+export function withLogicRequired(
+  field: FormField,
+  fieldState?: FieldLogicState,
+): FormField {
+  return fieldState?.required === undefined ||
+    fieldState.required === field.required
+    ? field
+    : { ...field, required: fieldState.required };
+}
+
+/**
+ * Splits fired show_message actions into block-level messages and inline
+ * messages attached to the field the action targets.
+ */
+export function getLogicMessages(
+  logicActions: LogicAction[],
+  allFieldIds: string[],
+): LogicMessages {
+  const result: LogicMessages = { messages: [], fieldMessages: {} };
+  for (const action of logicActions) {
+    if (action.type !== "show_message" || !action.value) continue;
+    const text = String(action.value);
+    if (action.target && allFieldIds.includes(action.target)) {
+      if (!result.fieldMessages[action.target]) {
+        result.fieldMessages[action.target] = [];
+      }
+      result.fieldMessages[action.target].push(text);
+    } else {
+      result.messages.push(text);
+    }
+  }
+  return result;
+}
+
+/**
+ * Applies set_value actions until the answers settle. Each pass can enable
+ * further rules, so evaluation repeats up to `MAX_SET_VALUE_PASSES` times.
+ * Rules that keep overwriting each other (e.g. A sets B, B resets A) never
+ * settle; in that case no set_value is applied so a render loop can't occur.
+ * `recompute` runs before each pass, e.g. to refresh calculated fields that
+ * depend on set values. Returns the original object when nothing changed.
+ */
+export function applyLogicValues<T extends Record<string, unknown>>(
+  logicItems: LogicActionCondition[],
+  allFieldIds: string[],
+  formState: T,
+  userAttributes?: Record<string, unknown>,
+  recompute?: (state: T) => T,
+): T {
+  const initial = recompute ? recompute(formState) : formState;
+  const seen = new Set<string>([JSON.stringify(initial)]);
+  let state = initial;
+
+  for (let pass = 0; pass < MAX_SET_VALUE_PASSES; pass++) {
+    const visibility = getLogicFieldVisibility(
+      logicItems,
+      allFieldIds,
+      state,
+      userAttributes,
+    );
+    let next = state;
+    for (const action of evaluateLogic(logicItems, state, userAttributes)) {
+      if (
+        action.type === "set_value" &&
+        action.target &&
+        visibility[action.target]?.visible &&
+        next[action.target] !== action.value
+      ) {
+        next = { ...next, [action.target]: action.value };
+      }
+    }
+    if (recompute && next !== state) next = recompute(next);
+    if (next === state) return state;
+
+    const key = JSON.stringify(next);
+    if (seen.has(key)) return initial;
+    seen.add(key);
+    state = next;
+  }
+
+  return initial;
+}
+
+/**
+ * Returns the rules with each condition's field type looked up in `fields`.
+ * Conditions keep the type their field had when they were built, which goes
+ * stale when the field's type changes and is missing from older or imported
+ * rules. Conditions on user attributes are left without a type.
+ */
+export function withFieldTypes(
+  logicItems: LogicActionCondition[],
+  fields: FormField[],
+): LogicActionCondition[] {
+  const fieldTypes = new Map(fields.map((field) => [field.id, field.type]));
+  const resolveGroup = (group: LogicConditionGroup): LogicConditionGroup => ({
+    ...group,
+    conditions: group.conditions.map((cond) =>
+      "logic" in cond
+        ? resolveGroup(cond)
+        : { ...cond, fieldType: fieldTypes.get(cond.field) },
+    ),
+  });
+  return logicItems.map((item) =>
+    item?.condition && Array.isArray(item.condition.conditions)
+      ? { ...item, condition: resolveGroup(item.condition) }
+      : item,
+  );
+}
+
+const NAVIGATION_ACTION_TYPES: LogicAction["type"][] = [
+  "jump_to_block",
+  "end_form",
+];
+
+export function collectConditionFields(
+  group: LogicConditionGroup,
+  fieldIds: Set<string> = new Set(),
+): Set<string> {
+  if (!(group && Array.isArray(group.conditions))) return fieldIds;
+  for (const cond of group.conditions) {
+    if ("logic" in cond) collectConditionFields(cond, fieldIds);
+    else if (cond.field) fieldIds.add(cond.field);
+  }
+  return fieldIds;
+}
+
+/**
+ * Returns the index of the block a navigation rule is evaluated on: the
+ * block holding the last field its conditions reference, or the first block
+ * when the conditions only reference user attributes.
+ */
+export function getLogicSourceBlockIndex(
+  item: LogicActionCondition,
+  blocks: FormBlock[],
+): number {
+  const fieldIds = collectConditionFields(item.condition);
+  let sourceIndex = 0;
+  blocks.forEach((block, index) => {
+    if (block.fields?.some((field) => fieldIds.has(field.id))) {
+      sourceIndex = index;
+    }
+  });
+  return sourceIndex;
+}
+
+/**
+ * Resolves where a respondent goes after `currentIndex`. Returns the next
+ * block index, or null when the form should be submitted. The first matching
+ * `jump_to_block`/`end_form` rule for the current block wins; otherwise
+ * navigation is linear.
+ */
+export function getNextBlockIndex(
+  logicItems: LogicActionCondition[],
+  blocks: FormBlock[],
+  currentIndex: number,
+  formState: Record<string, unknown>,
+  userAttributes?: Record<string, unknown>,
+): number | null {
+  for (const item of logicItems) {
+    const action = item && item.action;
+    if (!(action && NAVIGATION_ACTION_TYPES.includes(action.type))) continue;
+    if (getLogicSourceBlockIndex(item, blocks) !== currentIndex) continue;
+    if (!evaluateConditionGroup(item.condition, formState, userAttributes)) {
+      continue;
+    }
+
+    if (action.type === "end_form") return null;
+
+    const targetIndex = blocks.findIndex((block) => block.id === action.target);
+    if (targetIndex !== -1 && targetIndex !== currentIndex) return targetIndex;
+  }
+
+  return currentIndex < blocks.length - 1 ? currentIndex + 1 : null;
+}
+
+/**
+ * Walks the blocks from `startIndex` following navigation rules and returns
+ * the indices a respondent would visit with the given answers.
+ */
+export function getReachableBlockPath(
+  logicItems: LogicActionCondition[],
+  blocks: FormBlock[],
+  formState: Record<string, unknown>,
+  userAttributes?: Record<string, unknown>,
+  startIndex = 0,
+): number[] {
+  const path: number[] = [];
+  let index: number | null = blocks.length > 0 ? startIndex : null;
+
+  while (index !== null && !path.includes(index)) {
+    path.push(index);
+    index = getNextBlockIndex(
+      logicItems,
+      blocks,
+      index,
+      formState,
+      userAttributes,
+    );
+  }
+
+  return path;
+}
+
 function evaluateConditionGroup(
   group: LogicConditionGroup,
-  formState: Record<string, any>,
-  userAttributes?: Record<string, any>,
+  formState: Record<string, unknown>,
+  userAttributes?: Record<string, unknown>,
 ): boolean {
   if (!(group && Array.isArray(group.conditions))) return false;
   const results = group.conditions.map((cond) =>
@@ -62,73 +317,204 @@ function evaluateConditionGroup(
   return group.logic === "AND" ? results.every(Boolean) : results.some(Boolean);
 }
 
+const NUMERIC_FIELD_TYPES = ["number", "slider", "rating", "nps"];
+const DATE_FIELD_TYPES = ["date"];
+const LIST_FIELD_TYPES = ["checkbox", "tags"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ValueKind = "number" | "date" | "list" | "text";
+
+function getValueKind(cond: LogicCondition, value: unknown): ValueKind {
+  // Formulas can return text or booleans as well as numbers
+  if (cond.fieldType === "calculated") {
+    return typeof value === "number" ? "number" : "text";
+  }
+  if (cond.fieldType) {
+    if (NUMERIC_FIELD_TYPES.includes(cond.fieldType)) return "number";
+    if (DATE_FIELD_TYPES.includes(cond.fieldType)) return "date";
+    if (LIST_FIELD_TYPES.includes(cond.fieldType)) return "list";
+  }
+  return Array.isArray(value) ? "list" : "text";
+}
+
+const isBlank = (value: unknown) =>
+  value == null || value === "" || (Array.isArray(value) && value.length === 0);
+
+const toNumber = (value: unknown) => (isBlank(value) ? NaN : Number(value));
+
+// Datetime answers may end in a time zone name, e.g. `[Europe/Berlin]`
+const toTime = (value: unknown) =>
+  value instanceof Date
+    ? value.getTime()
+    : typeof value === "string" && value
+      ? Date.parse(value.replace(/\[[^\]]*\]$/, ""))
+      : NaN;
+
+const toList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(String)
+    : isBlank(value)
+      ? []
+      : String(value)
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean);
+
+/**
+ * Compares an answer with a condition value according to the field type:
+ * numeric fields compare numerically (`"1.0"` equals `1`), dates by
+ * timestamp, multi-select answers as sets (`"a, b"` equals `["b", "a"]`)
+ * and everything else as text, so a text answer of "01" is not "1".
+ */
+function valuesEqual(
+  value: unknown,
+  expected: unknown,
+  kind: ValueKind,
+  ignoreCase = false,
+): boolean {
+  const normalize = (item: unknown) =>
+    ignoreCase ? String(item ?? "").toLowerCase() : String(item ?? "");
+
+  if (kind === "list") {
+    const actual = toList(value).map(normalize);
+    const wanted = toList(expected).map(normalize);
+    return (
+      actual.length === wanted.length &&
+      wanted.every((item) => actual.includes(item))
+    );
+  }
+  if (kind === "date") {
+    const actual = toTime(value);
+    const wanted = toTime(expected);
+    if (!(isNaN(actual) || isNaN(wanted))) return actual === wanted;
+  }
+  if (kind === "number") {
+    const actual = toNumber(value);
+    const wanted = toNumber(expected);
+    return !(isNaN(actual) || isNaN(wanted)) && actual === wanted;
+  }
+  return normalize(value) === normalize(expected);
+}
+
+/**
+ * Whether an answer equal to the condition's value would also equal `other`,
+ * using the condition's field type the way `evaluateLogic` does.
+ */
+export function conditionValuesEqual(
+  cond: LogicCondition,
+  other: unknown,
+): boolean {
+  return valuesEqual(cond.value, other, getValueKind(cond, cond.value));
+}
+
+function compareValues(
+  value: unknown,
+  expected: unknown,
+  kind: ValueKind,
+): number {
+  const toComparable = kind === "date" ? toTime : toNumber;
+  const actual = toComparable(value);
+  const wanted = toComparable(expected);
+  return isNaN(actual) || isNaN(wanted) ? NaN : actual - wanted;
+}
+
+function matchesText(value: unknown, test: (text: string) => boolean): boolean {
+  if (Array.isArray(value)) return value.some((item) => test(String(item)));
+  return typeof value === "string" || typeof value === "number"
+    ? test(String(value))
+    : false;
+}
+
+// Condition values are typed in the builder, so only text is looked for
+function containsText(value: unknown, expected: unknown): boolean {
+  if (typeof expected !== "string") return false;
+  if (Array.isArray(value)) return value.includes(expected);
+  return typeof value === "string" && value.includes(expected);
+}
+
+function matchesRegex(value: unknown, pattern: unknown): boolean {
+  const regex =
+    typeof pattern === "string" && pattern ? compilePattern(pattern) : null;
+  return !!regex && matchesText(value, (text) => testPattern(regex, text));
+}
+
 function evaluateCondition(
   cond: LogicCondition,
-  formState: Record<string, any>,
-  userAttributes?: Record<string, any>,
+  formState: Record<string, unknown>,
+  userAttributes?: Record<string, unknown>,
 ): boolean {
   const value = formState[cond.field] ?? userAttributes?.[cond.field];
+  const kind = getValueKind(cond, value);
   switch (cond.operator) {
     case "equals":
-      return value === cond.value;
+      return valuesEqual(value, cond.value, kind);
     case "not_equals":
-      return value !== cond.value;
-    case "greater_than": {
-      if (
-        value == null ||
-        value === "" ||
-        cond.value == null ||
-        cond.value === ""
-      )
-        return false;
-      const numValue = Number(value);
-      const numCond = Number(cond.value);
-      if (isNaN(numValue) || isNaN(numCond)) return false;
-      return numValue > numCond;
+      return !valuesEqual(value, cond.value, kind);
+    case "equals_ignore_case":
+      return valuesEqual(value, cond.value, kind, true);
+    case "greater_than":
+      return compareValues(value, cond.value, kind) > 0;
+    case "less_than":
+      return compareValues(value, cond.value, kind) < 0;
+    case "between": {
+      const [min, max] = Array.isArray(cond.value) ? cond.value : [];
+      if (isBlank(min) && isBlank(max)) return false;
+      const aboveMin = isBlank(min) || compareValues(value, min, kind) >= 0;
+      const belowMax = isBlank(max) || compareValues(value, max, kind) <= 0;
+      return aboveMin && belowMax;
     }
-    case "less_than": {
-      if (
-        value == null ||
-        value === "" ||
-        cond.value == null ||
-        cond.value === ""
-      )
-        return false;
-      const numValue = Number(value);
-      const numCond = Number(cond.value);
-      if (isNaN(numValue) || isNaN(numCond)) return false;
-      return numValue < numCond;
+    case "before_date":
+      return compareValues(value, cond.value, "date") < 0;
+    case "after_date":
+      return compareValues(value, cond.value, "date") > 0;
+    case "within_last_days": {
+      const time = toTime(value);
+      const days = toNumber(cond.value);
+      if (isNaN(time) || isNaN(days)) return false;
+      const age = Date.now() - time;
+      return age >= 0 && age <= days * DAY_MS;
     }
     case "contains":
-      return Array.isArray(value)
-        ? value.includes(cond.value)
-        : typeof value === "string"
-          ? value.includes(cond.value)
-          : false;
+    case "includes":
+      return containsText(value, cond.value);
     case "not_contains":
-      return Array.isArray(value)
-        ? !value.includes(cond.value)
-        : typeof value === "string"
-          ? !value.includes(cond.value)
-          : false;
-    case "is_empty":
       return (
-        value == null ||
-        value === "" ||
-        (Array.isArray(value) && value.length === 0)
+        typeof cond.value === "string" &&
+        (Array.isArray(value) || typeof value === "string") &&
+        !containsText(value, cond.value)
       );
-    case "is_not_empty":
+    case "starts_with": {
+      const prefix = cond.value;
       return (
-        value != null &&
-        value !== "" &&
-        (!Array.isArray(value) || value.length > 0)
+        typeof prefix === "string" &&
+        prefix !== "" &&
+        matchesText(value, (text) => text.startsWith(prefix))
       );
-    case "includes":
-      return Array.isArray(value)
-        ? value.includes(cond.value)
-        : typeof value === "string"
-          ? value.includes(cond.value)
-          : false;
+    }
+    case "ends_with": {
+      const suffix = cond.value;
+      return (
+        typeof suffix === "string" &&
+        suffix !== "" &&
+        matchesText(value, (text) => text.endsWith(suffix))
+      );
+    }
+    case "matches_regex":
+      return matchesRegex(value, cond.value);
+    case "length_greater_than": {
+      const length =
+        Array.isArray(value) || typeof value === "string"
+          ? value.length
+          : isBlank(value)
+            ? 0
+            : String(value).length;
+      const limit = toNumber(cond.value);
+      return !isNaN(limit) && length > limit;
+    }
+    case "is_empty":
+      return isBlank(value);
+    case "is_not_empty":
+      return !isBlank(value);
     default:
       return false;
   }
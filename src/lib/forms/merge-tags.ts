@@ -0,0 +1,108 @@
+import type { FormField } from "@/lib/database";
+import { isConsentRecord } from "./consent";
+
+/**
+ * Answer piping: `{{field_id}}` in labels, descriptions, block titles and
+ * the success message is replaced with the current answer to that field.
+ * `{{field_id|fallback}}` shows the fallback while the field is unanswered.
+ */
+
+export const MERGE_TAG_PATTERN = /\{\{\s*([\w-]+)\s*(?:\|([^}]*))?\}\}/g;
+
+export interface MergeTagOptions {
+  /** Escape answers for HTML output, e.g. notification emails. */
+  escapeHtml?: boolean;
+  /** Text for unanswered fields without a fallback, "" by default. */
+  emptyValue?: (fieldId: string) => string;
+}
+
+const escapeHtml = (str: string): string =>
+  str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Formats an answer as plain text. Lists are joined with commas, uploaded
+ * files show their names and address-like objects their filled-in parts.
+ */
+export function formatMergeValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) {
+    return value.map(formatMergeValue).filter(Boolean).join(", ");
+  }
+  if (typeof value === "object") {
+    if (isConsentRecord(value)) return value.accepted ? "Yes" : "No";
+    if ("name" in value && typeof value.name === "string") return value.name;
+    return Object.values(value)
+      .filter((part) => typeof part === "string" || typeof part === "number")
+      .join(", ");
+  }
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+export function hasMergeTags(text?: string): boolean {
+  return !!text && text.includes("{{");
+}
+
+export function getMergeTagFieldIds(text?: string): string[] {
+  if (!hasMergeTags(text)) return [];
+  return [...text!.matchAll(MERGE_TAG_PATTERN)].map((match) => match[1]);
+}
+
+export function resolveMergeTags(
+  text: string,
+  values: Record<string, unknown>,
+  options: MergeTagOptions = {},
+): string {
+  if (!hasMergeTags(text)) return text;
+
+  return text.replace(
+    MERGE_TAG_PATTERN,
+    (_, fieldId: string, fallback?: string) => {
+      const answer = formatMergeValue(values[fieldId]);
+      const resolved =
+        answer ||
+        (fallback !== undefined
+          ? fallback.trim()
+          : options.emptyValue?.(fieldId) || "");
+      return options.escapeHtml ? escapeHtml(resolved) : resolved;
+    },
+  );
+}
+
+/**
+ * Returns the field with merge tags in its label, description and statement
+ * text resolved. Returns the field itself when it has no merge tags.
+ */
+export function resolveFieldMergeTags(
+  field: FormField,
+  values: Record<string, unknown>,
+  options?: MergeTagOptions,
+): FormField {
+  const { statementHeading, statementDescription } = field.settings || {};
+  const texts = [
+    field.label,
+    field.description,
+    statementHeading,
+    statementDescription,
+  ];
+  if (!texts.some(hasMergeTags)) return field;
+
+  const resolve = (text?: string) =>
+    text === undefined ? text : resolveMergeTags(text, values, options);
+
+  return {
+    ...field,
+    label: resolve(field.label)!,
+    description: resolve(field.description),
+    settings: field.settings && {
+      ...field.settings,
+      statementHeading: resolve(statementHeading),
+      statementDescription: resolve(statementDescription),
+    },
+  };
+}
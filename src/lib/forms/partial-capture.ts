@@ -0,0 +1,116 @@
+import type { FormField } from "@/lib/database";
+import { isUUID } from "@/lib/utils/slug";
+
+/**
+ * Partial capture sends a respondent's answers to the server while they fill
+ * out a form, so responses that are never submitted still show up in
+ * analytics. Respondents are told about it and can turn it off, browsers
+ * sending Global Privacy Control or Do Not Track are never captured, and
+ * answers that only mean something once submitted (consent, signatures,
+ * uploads) are left out.
+ */
+
+export interface PartialCapture {
+  sessionId: string;
+  answers: Record<string, unknown>;
+  currentStep: number;
+  /** The field the respondent changed last, i.e. where they stopped. */
+  lastFieldId: string | null;
+}
+
+export const PARTIAL_CAPTURE_DEBOUNCE_MS = 2000;
+
+/**
+ * Sessions idle for this long count as dropped off. Until then the
+ * respondent may still be filling out the form.
+ */
+export const PARTIAL_DROP_OFF_AFTER_MS = 30 * 60 * 1000;
+
+/** Largest set of answers stored per session, in characters of JSON. */
+export const MAX_PARTIAL_CAPTURE_SIZE = 50_000;
+
+/**
+ * Largest request accepted, in characters. Requests may carry answers that
+ * are dropped before storing, so this is looser than the stored limit.
+ */
+export const MAX_PARTIAL_CAPTURE_REQUEST_SIZE = 2 * MAX_PARTIAL_CAPTURE_SIZE;
+
+/**
+ * Answers are saved every few seconds while a respondent types, so each
+ * submission the form's rate limit allows buys this many saves.
+ */
+export const PARTIAL_SAVES_PER_SUBMISSION = 30;
+
+const UNCAPTURED_FIELD_TYPES: FormField["type"][] = [
+  "consent",
+  "signature",
+  "file",
+  "statement",
+];
+
+const isAnswered = (value: unknown) =>
+  !(
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+
+/** Answered fields of the form that may be captured. */
+export function getCapturableAnswers(
+  fields: FormField[],
+  data: Record<string, unknown>,
+): Record<string, unknown> {
+  const answers: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (UNCAPTURED_FIELD_TYPES.includes(field.type)) continue;
+    if (isAnswered(data[field.id])) answers[field.id] = data[field.id];
+  }
+  return answers;
+}
+
+/** Sessions are identified by a UUID the respondent's browser generates. */
+export const isPartialSessionId = (value: unknown): value is string =>
+  typeof value === "string" && isUUID(value);
+
+export function parsePartialCapture(
+  fields: FormField[],
+  body: unknown,
+): { capture?: PartialCapture; error?: string } {
+  const { sessionId, answers, currentStep, lastFieldId } =
+    body && typeof body === "object"
+      ? (body as Partial<Record<keyof PartialCapture, unknown>>)
+      : {};
+  if (!isPartialSessionId(sessionId)) {
+    return { error: "Invalid session" };
+  }
+  if (!answers || typeof answers !== "object") {
+    return { error: "Answers must be an object" };
+  }
+
+  const capturable = getCapturableAnswers(
+    fields,
+    answers as Record<string, unknown>,
+  );
+  if (JSON.stringify(capturable).length > MAX_PARTIAL_CAPTURE_SIZE) {
+    return { error: "Answers are too large" };
+  }
+
+  return {
+    capture: {
+      sessionId,
+      answers: capturable,
+      currentStep:
+        typeof currentStep === "number" &&
+        Number.isInteger(currentStep) &&
+        currentStep >= 0
+          ? currentStep
+          : 0,
+      lastFieldId:
+        typeof lastFieldId === "string" &&
+        fields.some((field) => field.id === lastFieldId)
+          ? lastFieldId
+          : null,
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import type { FormBlock, FormField, FormSchema } from "@/lib/database";
+
+export type SchemaChangeKind = "added" | "removed" | "changed";
+
+export interface FieldDiff {
+  id: string;
+  label: string;
+  kind: SchemaChangeKind;
+  properties: string[];
+}
+
+export interface BlockDiff {
+  id: string;
+  title: string;
+  kind: SchemaChangeKind;
+  properties: string[];
+}
+
+export interface SettingDiff {
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface LogicDiff {
+  id: string;
+  kind: SchemaChangeKind;
+}
+
+export interface FormSchemaDiff {
+  fields: FieldDiff[];
+  blocks: BlockDiff[];
+  settings: SettingDiff[];
+  logic: LogicDiff[];
+  hasChanges: boolean;
+}
+
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const getFields = (schema: FormSchema | null): FormField[] =>
+  schema
+    ? schema.blocks?.length
+      ? schema.blocks.flatMap((block) => block.fields || [])
+      : schema.fields || []
+    : [];
+
+function changedKeys<T extends object>(
+  before: T,
+  after: T,
+  ignore: string[] = [],
+): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(
+    (key) =>
+      !ignore.includes(key) &&
+      !isEqual(before[key as keyof T], after[key as keyof T]),
+  );
+}
+
+function diffById<T extends { id: string }, D>(
+  before: T[],
+  after: T[],
+  build: (item: T, kind: SchemaChangeKind, previous?: T) => D | null,
+): D[] {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+  const diffs: D[] = [];
+
+  for (const item of after) {
+    const previous = beforeById.get(item.id);
+    const diff = previous
+      ? isEqual(previous, item)
+        ? null
+        : build(item, "changed", previous)
+      : build(item, "added");
+    if (diff) diffs.push(diff);
+  }
+
+  for (const item of before) {
+    if (!afterIds.has(item.id)) {
+      const diff = build(item, "removed");
+      if (diff) diffs.push(diff);
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Computes a field-level diff between two form schemas.
+ * Pass `null` as the previous schema to treat everything as added.
+ */
+export function diffFormSchemas(
+  previous: FormSchema | null,
+  next: FormSchema,
+): FormSchemaDiff {
+  const fields = diffById<FormField, FieldDiff>(
+    getFields(previous),
+    getFields(next),
+    (field, kind, before) => ({
+      id: field.id,
+      label: field.label || field.id,
+      kind,
+      properties: before ? changedKeys(before, field) : [],
+    }),
+  );
+
+  const blocks = diffById<FormBlock, BlockDiff>(
+    previous?.blocks || [],
+    next.blocks || [],
+    (block, kind, before) => {
+      const properties = before ? changedKeys(before, block, ["fields"]) : [];
+      if (kind === "changed" && properties.length === 0) return null;
+      return { id: block.id, title: block.title || block.id, kind, properties };
+    },
+  );
+
+  const previousSettings = previous?.settings || ({} as FormSchema["settings"]);
+  const settings = changedKeys(previousSettings, next.settings).map((key) => ({
+    key,
+    before: previousSettings[key as keyof FormSchema["settings"]],
+    after: next.settings[key as keyof FormSchema["settings"]],
+  }));
+
+  const logic = diffById(
+    previous?.logic || [],
+    next.logic || [],
+    (rule, kind) => ({
+      id: rule.id,
+      kind,
+    }),
+  );
+
+  return {
+    fields,
+    blocks,
+    settings,
+    logic,
+    hasChanges:
+      fields.length + blocks.length + settings.length + logic.length > 0,
+  };
+}
@@ -0,0 +1,83 @@
+import type { FormSchema } from "@/lib/database";
+import { sanitizeString } from "@/lib/utils/sanitize";
+import {
+  createProfanityFilter,
+  getSchemaFields,
+  validateSubmissionData,
+} from "@/lib/validation";
+import { attachConsentRecords } from "./consent";
+import { DEFAULT_PROFANITY_FILTER_SETTINGS } from "./form-defaults";
+
+/**
+ * Server-side checks every set of answers goes through before it is stored,
+ * whether it is a new submission or a respondent's edit: validation against
+ * the schema, sanitizing, the profanity filter and consent records.
+ */
+
+export type PreparedSubmission =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; status: number; body: Record<string, unknown> };
+
+/** Sanitizes every string in an answer, however deeply it is nested. */
+export function sanitizeObjectStrings<T>(value: T): T {
+  if (typeof value === "string") return sanitizeString(value) as T;
+  if (Array.isArray(value)) return value.map(sanitizeObjectStrings) as T;
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const key in value) result[key] = sanitizeObjectStrings(value[key]);
+    return result as T;
+  }
+  return value;
+}
+
+export async function prepareSubmissionData(
+  schema: FormSchema,
+  submissionData: Record<string, unknown>,
+  ipAddress: string,
+): Promise<PreparedSubmission> {
+  const validation = validateSubmissionData(schema, submissionData);
+  if (!validation.isValid) {
+    return {
+      success: false,
+      status: 400,
+      body: {
+        error: "Validation failed",
+        message:
+          "Some answers are missing or invalid. Please review and resubmit.",
+        errors: validation.errors,
+      },
+    };
+  }
+
+  const profanityFilterSettings = {
+    ...DEFAULT_PROFANITY_FILTER_SETTINGS,
+    ...schema.settings.profanityFilter,
+  };
+
+  let data = sanitizeObjectStrings(validation.data);
+
+  if (profanityFilterSettings.enabled) {
+    const profanityFilter = createProfanityFilter(profanityFilterSettings);
+    const result = profanityFilter.filterSubmissionData(data);
+    if (!result.isValid) {
+      return {
+        success: false,
+        status: 400,
+        body: {
+          error: "Content validation failed",
+          message:
+            result.message ||
+            "Your submission contains inappropriate content. Please review and resubmit.",
+          violations: result.violations.length,
+        },
+      };
+    }
+    if (profanityFilterSettings.replaceWithAsterisks) {
+      data = result.filteredData;
+    }
+  }
+
+  data = await attachConsentRecords(getSchemaFields(schema), data, ipAddress);
+
+  return { success: true, data };
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import type { FormField, FormSchema } from "@/lib/database";
+import {
+  decodeSubmissionCursor,
+  encodeSubmissionCursor,
+  MAX_SUBMISSION_PAGE_SIZE,
+  parseSubmissionSearch,
+  SUBMISSION_PAGE_SIZE,
+  type SubmissionSearch,
+  toSubmissionSearchParams,
+} from "./submission-search";
+
+const SUBMISSION_ID = "0b6f1c52-8a4e-4c3d-9f7a-2d5e6b1a9c80";
+const SUBMITTED_AT = "2025-01-01T10:00:00.000Z";
+
+const field = (id: string): FormField => ({
+  id,
+  type: "text",
+  label: id,
+  required: false,
+});
+
+const schema: FormSchema = {
+  fields: [],
+  blocks: [
+    { id: "one", title: "One", fields: [field("name"), field("email")] },
+    { id: "two", title: "Two", fields: [field("age")] },
+  ],
+  settings: { title: "Survey" },
+};
+
+const parse = (params: Record<string, string>) =>
+  parseSubmissionSearch(schema, new URLSearchParams(params));
+
+describe("submission cursors", () => {
+  it("round-trips a submission's position", () => {
+    const cursor = encodeSubmissionCursor({
+      id: SUBMISSION_ID,
+      submitted_at: SUBMITTED_AT,
+    });
+    expect(decodeSubmissionCursor(cursor)).toEqual({
+      submittedAt: SUBMITTED_AT,
+      id: SUBMISSION_ID,
+    });
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeSubmissionCursor("")).toBeNull();
+    expect(decodeSubmissionCursor(`${SUBMITTED_AT}|not-a-uuid`)).toBeNull();
+    expect(decodeSubmissionCursor(`yesterday|${SUBMISSION_ID}`)).toBeNull();
+  });
+});
+
+describe("parseSubmissionSearch", () => {
+  it("defaults to the newest submissions first", () => {
+    expect(parse({})).toEqual({
+      search: { sort: "newest", limit: SUBMISSION_PAGE_SIZE },
+    });
+  });
+
+  it("reads back a search written as URL parameters", () => {
+    const search: SubmissionSearch = {
+      query: "refund",
+      filters: [
+        { fieldId: "email", operator: "contains", value: "@example.com" },
+        { fieldId: "age", operator: "range", min: "18" },
+      ],
+      submittedAfter: "2025-01-01T00:00:00.000Z",
+      submittedBefore: "2025-02-01T00:00:00.000Z",
+      status: "reviewed",
+      tag: "vip",
+      assignee: null,
+      completion: "partial",
+      sort: "oldest",
+      cursor: `${SUBMITTED_AT}|${SUBMISSION_ID}`,
+      limit: 50,
+      includeTotal: true,
+    };
+    expect(
+      parseSubmissionSearch(schema, toSubmissionSearchParams(search)),
+    ).toEqual({ search: { ...search, totalFields: 3 } });
+  });
+
+  it("matches a named assignee", () => {
+    expect(parse({ assignee: "user-1" }).search?.assignee).toBe("user-1");
+  });
+
+  it("caps the page size", () => {
+    expect(parse({ limit: "1000" }).search?.limit).toBe(
+      MAX_SUBMISSION_PAGE_SIZE,
+    );
+    expect(parse({ limit: "-5" }).search?.limit).toBe(SUBMISSION_PAGE_SIZE);
+  });
+
+  it("counts block fields once when measuring completion", () => {
+    const flat: FormSchema = {
+      ...schema,
+      fields: schema.blocks.flatMap((block) => block.fields),
+    };
+    expect(
+      parseSubmissionSearch(flat, new URLSearchParams({ completion: "empty" }))
+        .search?.totalFields,
+    ).toBe(3);
+  });
+
+  it("rejects invalid parameters", () => {
+    expect(parse({ completion: "half" })).toEqual({
+      error: 'Unknown completion "half"',
+    });
+    expect(parse({ after: "someday" })).toEqual({
+      error: 'Invalid "after" date',
+    });
+    expect(parse({ cursor: "abc" })).toEqual({ error: "Invalid cursor" });
+  });
+
+  it("rejects invalid field filters", () => {
+    const filters = (value: unknown) =>
+      parse({ filters: JSON.stringify(value) }).error;
+
+    expect(parse({ filters: "{" }).error).toBe("Filters must be valid JSON");
+    expect(filters({ fieldId: "name" })).toBe("Filters must be a list");
+    expect(filters([{ fieldId: "other", operator: "empty" }])).toBe(
+      "Filters must name a field of this form",
+    );
+    expect(filters([{ fieldId: "name", operator: "like" }])).toBe(
+      'Unknown filter operator "like"',
+    );
+    expect(filters([{ fieldId: "age", operator: "equals", value: 5 }])).toBe(
+      "Filter values must be strings",
+    );
+    expect(filters([{ fieldId: "name", operator: "contains" }])).toBe(
+      'The "contains" filter needs a value',
+    );
+    expect(filters([{ fieldId: "age", operator: "range" }])).toBe(
+      "A range filter needs a minimum or a maximum",
+    );
+  });
+
+  it("drops empty filter values", () => {
+    expect(
+      parse({
+        filters: JSON.stringify([
+          { fieldId: "name", operator: "empty", value: "", extra: "x" },
+        ]),
+      }).search?.filters,
+    ).toEqual([{ fieldId: "name", operator: "empty" }]);
+  });
+});
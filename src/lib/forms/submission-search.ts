@@ -0,0 +1,266 @@
+import type { FormSchema, FormSubmission } from "@/lib/database";
+
+/**
+ * Submissions are searched in the database by `search_form_submissions`:
+ * full-text search over the answers, filters on single fields, workflow,
+ * completion and date filters, and cursor pagination by submission time.
+ * `count_form_submissions` reads every match, so the total is only counted
+ * when a search asks for it. This module turns a search into URL parameters
+ * for the submissions route and checks them there.
+ */
+
+export type SubmissionFilterOperator =
+  | "equals"
+  | "contains"
+  | "range"
+  | "empty";
+
+export interface SubmissionFieldFilter {
+  fieldId: string;
+  operator: SubmissionFilterOperator;
+  /** Compared with the answer by `equals` and `contains`. */
+  value?: string;
+  /** Inclusive bounds for `range`; numbers, or dates as `YYYY-MM-DD`. */
+  min?: string;
+  max?: string;
+}
+
+export type SubmissionSort = "newest" | "oldest";
+
+/**
+ * How much of the form a submission answered: every field, some, or none.
+ * Blank answers do not count.
+ */
+export type SubmissionCompletion = "complete" | "partial" | "empty";
+
+export interface SubmissionSearch {
+  query?: string;
+  filters?: SubmissionFieldFilter[];
+  /** ISO timestamps; `submittedAfter` is inclusive, `submittedBefore` is not. */
+  submittedAfter?: string;
+  submittedBefore?: string;
+  status?: string;
+  tag?: string;
+  /** Assignee to match; null matches unassigned submissions. */
+  assignee?: string | null;
+  completion?: SubmissionCompletion;
+  /** Fields in the form, which `completion` is measured against. */
+  totalFields?: number;
+  sort?: SubmissionSort;
+  cursor?: string;
+  limit?: number;
+  /** Whether to count the matches across all pages. */
+  includeTotal?: boolean;
+}
+
+export interface SubmissionSearchResult {
+  submissions: FormSubmission[];
+  /** Submissions matching the search across all pages; null unless asked. */
+  total: number | null;
+  nextCursor: string | null;
+}
+
+export const SUBMISSION_PAGE_SIZE = 25;
+export const MAX_SUBMISSION_PAGE_SIZE = 100;
+
+export const SUBMISSION_FILTER_OPERATORS: {
+  value: SubmissionFilterOperator;
+  label: string;
+}[] = [
+  { value: "equals", label: "is" },
+  { value: "contains", label: "contains" },
+  { value: "range", label: "is between" },
+  { value: "empty", label: "is empty" },
+];
+
+export const SUBMISSION_COMPLETIONS: {
+  value: SubmissionCompletion;
+  label: string;
+}[] = [
+  { value: "complete", label: "Complete" },
+  { value: "partial", label: "Partial" },
+  { value: "empty", label: "Empty" },
+];
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isValidTimestamp = (value: string) =>
+  !Number.isNaN(new Date(value).getTime());
+
+/** A cursor points just past the last submission of a page. */
+export const encodeSubmissionCursor = (
+  submission: Pick<FormSubmission, "id" | "submitted_at">,
+) => `${submission.submitted_at}|${submission.id}`;
+
+export function decodeSubmissionCursor(
+  cursor: string,
+): { submittedAt: string; id: string } | null {
+  const [submittedAt, id] = cursor.split("|");
+  if (!(submittedAt && id && isValidTimestamp(submittedAt))) return null;
+  if (!UUID_PATTERN.test(id)) return null;
+  return { submittedAt, id };
+}
+
+export function toSubmissionSearchParams(
+  search: SubmissionSearch,
+): URLSearchParams {
+  const params = new URLSearchParams();
+  if (search.query?.trim()) params.set("q", search.query.trim());
+  if (search.filters?.length) {
+    params.set("filters", JSON.stringify(search.filters));
+  }
+  if (search.submittedAfter) params.set("after", search.submittedAfter);
+  if (search.submittedBefore) params.set("before", search.submittedBefore);
+  if (search.status) params.set("status", search.status);
+  if (search.tag) params.set("tag", search.tag);
+  if (search.assignee === null) params.set("unassigned", "true");
+  else if (search.assignee) params.set("assignee", search.assignee);
+  if (search.completion) params.set("completion", search.completion);
+  if (search.sort) params.set("sort", search.sort);
+  if (search.cursor) params.set("cursor", search.cursor);
+  if (search.limit) params.set("limit", String(search.limit));
+  if (search.includeTotal) {
+    params.set("total", "true");
+  }
+  return params;
+}
+
+function parseFieldFilters(
+  schema: FormSchema,
+  raw: string,
+): { filters?: SubmissionFieldFilter[]; error?: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { error: "Filters must be valid JSON" };
+  }
+  if (!Array.isArray(parsed)) return { error: "Filters must be a list" };
+
+  const fieldIds = new Set(
+    [
+      ...(schema.fields || []),
+      ...(schema.blocks?.flatMap((block) => block.fields || []) || []),
+    ].map((field) => field.id),
+  );
+  const operators = SUBMISSION_FILTER_OPERATORS.map((op) => op.value);
+  const isOptionalString = (value: unknown) =>
+    value === undefined || typeof value === "string";
+
+  const filters: SubmissionFieldFilter[] = [];
+  for (const filter of parsed) {
+    if (!fieldIds.has(filter?.fieldId)) {
+      return { error: "Filters must name a field of this form" };
+    }
+    if (!operators.includes(filter.operator)) {
+      return { error: `Unknown filter operator "${filter.operator}"` };
+    }
+    if (
+      !(
+        isOptionalString(filter.value) &&
+        isOptionalString(filter.min) &&
+        isOptionalString(filter.max)
+      )
+    ) {
+      return { error: "Filter values must be strings" };
+    }
+    if (
+      (filter.operator === "equals" || filter.operator === "contains") &&
+      !filter.value
+    ) {
+      return { error: `The "${filter.operator}" filter needs a value` };
+    }
+    if (filter.operator === "range" && !(filter.min || filter.max)) {
+      return { error: "A range filter needs a minimum or a maximum" };
+    }
+    filters.push({
+      fieldId: filter.fieldId,
+      operator: filter.operator,
+      ...(filter.value && { value: filter.value }),
+      ...(filter.min && { min: filter.min }),
+      ...(filter.max && { max: filter.max }),
+    });
+  }
+  return { filters };
+}
+
+// Counted the way the analytics dashboard counts them, so a form built from
+// blocks is not counted twice.
+const countSchemaFields = (schema: FormSchema) =>
+  Math.max(
+    schema.fields?.length || 0,
+    schema.blocks?.reduce(
+      (total, block) => total + (block.fields?.length || 0),
+      0,
+    ) || 0,
+  );
+
+/**
+ * Reads a search from the submissions route's URL parameters. Field filters
+ * may only name fields of the form, and completion is measured against the
+ * form's fields.
+ */
+export function parseSubmissionSearch(
+  schema: FormSchema,
+  params: URLSearchParams,
+): { search?: SubmissionSearch; error?: string } {
+  const search: SubmissionSearch = {
+    sort: params.get("sort") === "oldest" ? "oldest" : "newest",
+    limit: SUBMISSION_PAGE_SIZE,
+  };
+
+  const query = params.get("q")?.trim();
+  if (query) search.query = query;
+
+  const filters = params.get("filters");
+  if (filters) {
+    const result = parseFieldFilters(schema, filters);
+    if (!result.filters) return { error: result.error };
+    search.filters = result.filters;
+  }
+
+  for (const [param, key] of [
+    ["after", "submittedAfter"],
+    ["before", "submittedBefore"],
+  ] as const) {
+    const value = params.get(param);
+    if (value) {
+      if (!isValidTimestamp(value)) return { error: `Invalid "${param}" date` };
+      search[key] = value;
+    }
+  }
+
+  const status = params.get("status");
+  if (status) search.status = status;
+  const tag = params.get("tag");
+  if (tag) search.tag = tag;
+  if (params.get("unassigned") === "true") search.assignee = null;
+  else if (params.get("assignee")) search.assignee = params.get("assignee");
+
+  const completion = params.get("completion");
+  if (completion) {
+    if (!SUBMISSION_COMPLETIONS.some((option) => option.value === completion)) {
+      return { error: `Unknown completion "${completion}"` };
+    }
+    search.completion = completion as SubmissionCompletion;
+    search.totalFields = countSchemaFields(schema);
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor) {
+    if (!decodeSubmissionCursor(cursor)) return { error: "Invalid cursor" };
+    search.cursor = cursor;
+  }
+
+  const limit = Number(params.get("limit"));
+  if (Number.isInteger(limit) && limit > 0) {
+    search.limit = Math.min(limit, MAX_SUBMISSION_PAGE_SIZE);
+  }
+
+  if (params.get("total") === "true") {
+    search.includeTotal = true;
+  }
+
+  return { search };
+}
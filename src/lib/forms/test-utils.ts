@@ -0,0 +1,56 @@
+import type {
+  LogicAction,
+  LogicActionCondition,
+  LogicCondition,
+  LogicConditionGroup,
+} from "@/components/form-builder/logic-builder/types";
+import type { FormBlock, FormField } from "@/lib/database";
+
+/** Factories for the fields, blocks and logic rules used in unit tests. */
+
+export const field = (
+  id: string,
+  type: FormField["type"] = "text",
+  overrides: Partial<FormField> = {},
+): FormField => ({
+  id,
+  type,
+  label: id,
+  required: false,
+  ...overrides,
+});
+
+export const block = (id: string, fieldIds: string[]): FormBlock => ({
+  id,
+  title: id,
+  fields: fieldIds.map((fieldId) => field(fieldId)),
+});
+
+export const condition = (
+  fieldId: string,
+  operator: LogicCondition["operator"],
+  value?: unknown,
+  fieldType?: FormField["type"],
+): LogicCondition => ({
+  id: fieldId,
+  field: fieldId,
+  operator,
+  value,
+  fieldType,
+});
+
+export const group = (
+  conditions: LogicConditionGroup["conditions"],
+  logic: LogicConditionGroup["logic"] = "AND",
+): LogicConditionGroup => ({ id: "group", logic, conditions });
+
+export const rule = (
+  when: LogicCondition | LogicConditionGroup,
+  type: LogicAction["type"],
+  target?: string,
+  value?: unknown,
+): LogicActionCondition => ({
+  id: `${type}-${target}`,
+  condition: "logic" in when ? when : group([when]),
+  action: { id: `${type}-${target}`, type, target, value },
+});
@@ -0,0 +1,145 @@
+import type {
+  FormSchema,
+  FormSubmission,
+  SubmissionStatusOption,
+} from "@/lib/database";
+
+/**
+ * Follow-up on submissions: each one has a status from the form's list,
+ * free-form tags, internal notes and an assignee. Only these columns change
+ * after submitting, the answers never do.
+ */
+
+export const DEFAULT_SUBMISSION_STATUSES: SubmissionStatusOption[] = [
+  { id: "new", label: "New" },
+  { id: "in_review", label: "In review" },
+  { id: "done", label: "Done" },
+  { id: "spam", label: "Spam" },
+];
+
+export const MAX_TAG_LENGTH = 50;
+export const MAX_NOTE_LENGTH = 5000;
+
+export interface SubmissionWorkflowUpdate {
+  status?: string;
+  tags?: string[];
+  assignee?: string | null;
+  /** Text of a note to append; existing notes cannot be edited. */
+  note?: string;
+}
+
+export type SubmissionWorkflowChange = "status" | "tags" | "assignee" | "note";
+
+export function getSubmissionStatuses(
+  schema: FormSchema,
+): SubmissionStatusOption[] {
+  const statuses = schema.settings.workflow?.statuses;
+  return statuses?.length ? statuses : DEFAULT_SUBMISSION_STATUSES;
+}
+
+export function getStatusLabel(schema: FormSchema, status: string): string {
+  return (
+    getSubmissionStatuses(schema).find((option) => option.id === status)
+      ?.label || status
+  );
+}
+
+/** Turns a status label into an id, e.g. "On hold" → "on_hold". */
+export function toStatusId(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [
+    ...new Set(
+      tags.map((tag) => tag.trim().slice(0, MAX_TAG_LENGTH)).filter(Boolean),
+    ),
+  ];
+}
+
+/**
+ * Checks a workflow update sent by the dashboard. Returns the cleaned update,
+ * or an error when it sets an unknown status or has the wrong shape.
+ */
+export function parseWorkflowUpdate(
+  schema: FormSchema,
+  body: unknown,
+): { update?: SubmissionWorkflowUpdate; error?: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Update must be an object" };
+  }
+
+  const { status, tags, assignee, note } = body as Partial<
+    Record<keyof SubmissionWorkflowUpdate, unknown>
+  >;
+  const update: SubmissionWorkflowUpdate = {};
+
+  if (status !== undefined) {
+    const statusIds = getSubmissionStatuses(schema).map((s) => s.id);
+    if (typeof status !== "string" || !statusIds.includes(status)) {
+      return { error: "Unknown status" };
+    }
+    update.status = status;
+  }
+
+  if (tags !== undefined) {
+    if (
+      !Array.isArray(tags) ||
+      tags.some((tag: unknown) => typeof tag !== "string")
+    ) {
+      return { error: "Tags must be a list of strings" };
+    }
+    update.tags = normalizeTags(tags);
+  }
+
+  if (assignee !== undefined) {
+    if (assignee !== null && typeof assignee !== "string") {
+      return { error: "Assignee must be a string" };
+    }
+    update.assignee = assignee?.trim() || null;
+  }
+
+  if (note !== undefined) {
+    if (typeof note !== "string" || !note.trim()) {
+      return { error: "Note must not be empty" };
+    }
+    if (note.length > MAX_NOTE_LENGTH) {
+      return { error: `Notes can be at most ${MAX_NOTE_LENGTH} characters` };
+    }
+    update.note = note.trim();
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { error: "Nothing to update" };
+  }
+  return { update };
+}
+
+/** Lists which workflow fields an update actually changes. */
+export function getWorkflowChanges(
+  submission: FormSubmission,
+  update: SubmissionWorkflowUpdate,
+): SubmissionWorkflowChange[] {
+  const changes: SubmissionWorkflowChange[] = [];
+  if (update.status !== undefined && update.status !== submission.status) {
+    changes.push("status");
+  }
+  if (
+    update.tags !== undefined &&
+    update.tags.join("\n") !== (submission.tags || []).join("\n")
+  ) {
+    changes.push("tags");
+  }
+  if (
+    update.assignee !== undefined &&
+    update.assignee !== (submission.assignee ?? null)
+  ) {
+    changes.push("assignee");
+  }
+  if (update.note !== undefined) changes.push("note");
+  return changes;
+}
@@ -264,6 +264,14 @@ export class JsonImportService {
         }
         break;
 
+      case 'date':
+        if (importedField.type === 'datetime') {
+          settings.dateMode = 'datetime';
+        } else if (importedField.type === 'date_range') {
+          settings.dateMode = 'range';
+        }
+        break;
+
       case 'statement':
         // Map section/statement settings
         settings.statementHeading = importedField.label;
@@ -280,6 +288,24 @@ export class JsonImportService {
         settings.color = '#fbbf24';
         break;
 
+      case 'nps':
+        settings.npsLowLabel = 'Not at all likely';
+        settings.npsHighLabel = 'Extremely likely';
+        break;
+
+      case 'image_choice':
+        // Images are uploaded afterwards in the builder
+        settings.imageOptions = this.transformOptions(
+          importedField.options
+        )?.map((option) => ({ id: this.generateUniqueId(), value: option }));
+        settings.imageColumns = 3;
+        break;
+
+      case 'consent':
+        settings.consentLabel = importedField.label;
+        settings.consentVersion = '1.0';
+        break;
+
       case 'tags':
         settings.maxTags = 10;
         settings.allowDuplicates = false;
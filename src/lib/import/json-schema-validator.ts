@@ -16,6 +16,8 @@ const SUPPORTED_FIELD_TYPES: Record<string, string> = {
   long_text: 'textarea',
   number: 'number',
   date: 'date',
+  datetime: 'date',
+  date_range: 'date',
   time: 'time',
   phone: 'phone',
   file: 'file',
@@ -39,6 +41,20 @@ const SUPPORTED_FIELD_TYPES: Record<string, string> = {
   poll: 'poll',
   scheduler: 'scheduler',
   social: 'social',
+  calculated: 'calculated',
+  matrix: 'matrix',
+  likert: 'matrix',
+  grid: 'matrix',
+  ranking: 'ranking',
+  nps: 'nps',
+  net_promoter_score: 'nps',
+  group: 'group',
+  repeater: 'group',
+  hidden: 'hidden',
+  image_choice: 'image_choice',
+  picture_choice: 'image_choice',
+  consent: 'consent',
+  gdpr_consent: 'consent',
 };
 
 export class JsonSchemaValidator {
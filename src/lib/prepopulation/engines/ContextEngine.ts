@@ -0,0 +1,77 @@
+import type {
+  PageContextKey,
+  PrepopulationConfig,
+  PrepopulationEngine,
+  PrepopulationResult,
+} from "../types";
+
+const CONTEXT_KEYS: PageContextKey[] = [
+  "referrer",
+  "landing_time",
+  "user_agent",
+  "page_url",
+];
+
+export class ContextEngine implements PrepopulationEngine {
+  async getValue(config: PrepopulationConfig): Promise<PrepopulationResult> {
+    const startTime = Date.now();
+
+    try {
+      if (!this.validateConfig(config)) {
+        throw new Error("A known context key is required");
+      }
+      if (typeof window === "undefined") {
+        throw new Error("Page context is only available in the browser");
+      }
+
+      const value = this.readContext(config.contextKey!);
+
+      if (!value) {
+        return {
+          success: false,
+          value: config.fallbackValue || null,
+          error: "Context value not available",
+          source: "context",
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      return {
+        success: true,
+        value,
+        source: "context",
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        value: config.fallbackValue || null,
+        error: error instanceof Error ? error.message : "Unknown error",
+        source: "context",
+        executionTime: Date.now() - startTime,
+      };
+    }
+  }
+
+  validateConfig(config: PrepopulationConfig): boolean {
+    return Boolean(
+      config.contextKey && CONTEXT_KEYS.includes(config.contextKey),
+    );
+  }
+
+  private readContext(key: PageContextKey): string {
+    switch (key) {
+      case "referrer":
+        return document.referrer;
+      case "landing_time":
+        // When the page started loading, not when the field was rendered
+        return new Date(
+          Math.round(performance.timeOrigin || Date.now()),
+        ).toISOString();
+      case "user_agent":
+        return navigator.userAgent;
+      case "page_url":
+        return window.location.href;
+    }
+  }
+}
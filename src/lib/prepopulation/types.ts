@@ -1,8 +1,16 @@
 import type { FormLogic } from "@/components/form-builder/logic-builder/types";
 
+export type PageContextKey =
+  | "referrer"
+  | "landing_time"
+  | "user_agent"
+  | "page_url";
+
 export interface PrepopulationConfig {
   urlParam?: string;
 
+  contextKey?: PageContextKey;
+
   apiEndpoint?: string;
   apiMethod?: "GET" | "POST";
   apiHeaders?: Record<string, string>;
@@ -25,7 +33,7 @@ export interface PrepopulationConfig {
 
 export interface PrepopulationSettings {
   enabled: boolean;
-  source: "url" | "api" | "profile" | "previous" | "template";
+  source: "url" | "api" | "profile" | "previous" | "template" | "context";
   config: PrepopulationConfig;
 }
 
@@ -53,7 +61,7 @@ export interface PrepopulationLog {
   id: string;
   form_id: string;
   field_id: string;
-  source_type: "url" | "api" | "profile" | "previous" | "template";
+  source_type: "url" | "api" | "profile" | "previous" | "template" | "context";
   success: boolean;
   error_message?: string;
   execution_time_ms: number;
@@ -101,7 +109,8 @@ export type PrepopulationSource =
   | "api"
   | "profile"
   | "previous"
-  | "template";
+  | "template"
+  | "context";
 
 export interface PrepopulationEngine {
   getValue(
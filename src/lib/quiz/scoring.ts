@@ -57,7 +57,10 @@ export function calculateQuizScore(
     totalPossible += points;
 
     const isAnswered =
-      userAnswer !== undefined && userAnswer !== null && userAnswer !== "";
+      userAnswer !== undefined &&
+      userAnswer !== null &&
+      userAnswer !== "" &&
+      !(Array.isArray(userAnswer) && userAnswer.length === 0);
     if (isAnswered) {
       answeredQuestions++;
     }
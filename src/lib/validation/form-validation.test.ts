@@ -0,0 +1,293 @@
+import { describe, expect, it } from "vitest";
+import type { FormField, FormSchema } from "@/lib/database";
+import { condition, field, rule } from "@/lib/forms/test-utils";
+import { validateFieldValue, validateSubmissionData } from "./form-validation";
+
+const required = (id: string, type: FormField["type"] = "text") =>
+  field(id, type, { required: true });
+
+describe("validateFieldValue", () => {
+  it("requires answers to required fields", () => {
+    for (const empty of [undefined, null, "", "  ", []]) {
+      expect(validateFieldValue(required("a"), empty)).toBe(
+        "This field is required",
+      );
+      expect(validateFieldValue(field("a"), empty)).toBeUndefined();
+    }
+    expect(
+      validateFieldValue(
+        field("a", "text", {
+          required: true,
+          validation: { requiredMessage: "Tell us" },
+        }),
+        "",
+      ),
+    ).toBe("Tell us");
+  });
+
+  it("rejects answers of the wrong shape", () => {
+    expect(validateFieldValue(field("a"), 5)).toBe("Invalid value");
+    expect(validateFieldValue(field("a", "checkbox"), "x")).toBe(
+      "Invalid value",
+    );
+    expect(validateFieldValue(field("a", "address"), ["x"])).toBe(
+      "Invalid value",
+    );
+    expect(validateFieldValue(field("a", "rating"), "4")).toBe("Invalid value");
+    expect(validateFieldValue(field("a", "consent"), "yes")).toBe(
+      "Invalid value",
+    );
+  });
+
+  it("checks text length and patterns", () => {
+    const text = field("a", "text", {
+      validation: { minLength: 2, maxLength: 4, pattern: "^[a-z]+$" },
+    });
+    expect(validateFieldValue(text, "a")).toBe("Must be at least 2 characters");
+    expect(validateFieldValue(text, "abcde")).toBe(
+      "Must be no more than 4 characters",
+    );
+    expect(validateFieldValue(text, "AB")).toBe("Invalid format");
+    expect(validateFieldValue(text, "abc")).toBeUndefined();
+  });
+
+  it("checks emails, phone numbers and links", () => {
+    expect(validateFieldValue(field("a", "email"), "ada@example.com")).toBe(
+      undefined,
+    );
+    expect(validateFieldValue(field("a", "email"), "ada")).toBe(
+      "Please enter a valid email address",
+    );
+    expect(validateFieldValue(field("a", "phone"), "+44 7700900123")).toBe(
+      undefined,
+    );
+    expect(validateFieldValue(field("a", "phone"), "12")).toBe(
+      "Please enter a valid phone number",
+    );
+    expect(validateFieldValue(field("a", "link"), "not a url")).toBeDefined();
+  });
+
+  it("checks numbers against their bounds", () => {
+    const number = field("a", "number", { validation: { min: 1, max: 10 } });
+    expect(validateFieldValue(number, "5")).toBeUndefined();
+    expect(validateFieldValue(number, 5)).toBeUndefined();
+    expect(validateFieldValue(number, "five")).toBe(
+      "Please enter a valid number",
+    );
+    expect(validateFieldValue(number, 0)).toBe("Must be at least 1");
+    expect(validateFieldValue(number, "11")).toBe("Must be no more than 10");
+  });
+
+  it("accepts only the options a field offers", () => {
+    const select = field("a", "select", { options: ["Yes", "No"] });
+    expect(validateFieldValue(select, "Yes")).toBeUndefined();
+    expect(validateFieldValue(select, "Maybe")).toBe(
+      "Please select a valid option",
+    );
+
+    const checkbox = field("a", "checkbox", { options: ["Red", "Blue"] });
+    expect(validateFieldValue(checkbox, ["Red", "Blue"])).toBeUndefined();
+    expect(validateFieldValue(checkbox, ["Red", 1])).toBe(
+      "Please select a valid option",
+    );
+  });
+
+  it("checks rankings", () => {
+    const ranking = field("a", "ranking", {
+      options: ["A", "B", "C"],
+      settings: { minRanked: 2 },
+    });
+    expect(validateFieldValue(ranking, ["A", "B"])).toBeUndefined();
+    expect(validateFieldValue(ranking, ["A", "A"])).toBe(
+      "Each option can only be ranked once",
+    );
+    expect(validateFieldValue(ranking, ["A"])).toBe(
+      "Please rank at least 2 options",
+    );
+  });
+
+  it("checks NPS scores", () => {
+    expect(validateFieldValue(field("a", "nps"), 10)).toBeUndefined();
+    expect(validateFieldValue(field("a", "nps"), 11)).toBe(
+      "Please choose a score from 0 to 10",
+    );
+    expect(validateFieldValue(field("a", "nps"), 4.5)).toBe(
+      "Please choose a score from 0 to 10",
+    );
+  });
+
+  it("requires each part of an address", () => {
+    const address = {
+      line1: "1 Main St",
+      city: "Springfield",
+      state: "IL",
+      zip: "62701",
+      country: "US",
+    };
+    expect(validateFieldValue(field("a", "address"), address)).toBeUndefined();
+    expect(
+      validateFieldValue(field("a", "address"), { ...address, city: "" }),
+    ).toBe("Please enter City");
+  });
+
+  it("accepts hidden values filled from the page, never other types", () => {
+    const hidden = required("a", "hidden");
+    expect(validateFieldValue(hidden, undefined)).toBeUndefined();
+    expect(validateFieldValue(hidden, "utm")).toBeUndefined();
+    expect(validateFieldValue(hidden, { utm: "x" })).toBe("Invalid value");
+  });
+
+  it("skips statements and calculated fields", () => {
+    expect(validateFieldValue(required("a", "statement"), 5)).toBeUndefined();
+    expect(
+      validateFieldValue(required("a", "calculated"), undefined),
+    ).toBeUndefined();
+  });
+
+  it("checks matrix answers row by row", () => {
+    const matrix = field("a", "matrix", {
+      settings: {
+        matrixRows: [
+          { id: "r1", label: "Speed", required: true },
+          { id: "r2", label: "Price" },
+        ],
+        matrixColumns: ["Good", "Bad"],
+      },
+    });
+    expect(validateFieldValue(matrix, { r1: "Good" })).toBeUndefined();
+    expect(validateFieldValue(matrix, { r2: "Good" })).toBe(
+      'Please answer "Speed"',
+    );
+    expect(validateFieldValue(matrix, { r1: "Okay" })).toBe(
+      "Please select a valid option",
+    );
+    expect(validateFieldValue(matrix, { r1: ["Good"] })).toBe("Invalid value");
+    expect(validateFieldValue(matrix, { r1: "Good", r9: "Bad" })).toBe(
+      "Invalid value",
+    );
+    expect(validateFieldValue(matrix, ["Good"])).toBe("Invalid value");
+  });
+
+  it("checks each entry of a repeated group", () => {
+    const group = field("a", "group", {
+      required: true,
+      settings: {
+        groupFields: [required("name"), field("email", "email")],
+        maxInstances: 2,
+      },
+    });
+    expect(validateFieldValue(group, [])).toBe("This field is required");
+    expect(
+      validateFieldValue(group, [{ name: "Ada" }, { name: "", email: "" }]),
+    ).toBeUndefined();
+    expect(
+      validateFieldValue(group, [{ name: "Ada" }, { email: "grace" }]),
+    ).toBe("Entry 2, name: This field is required");
+    expect(
+      validateFieldValue(group, [{ name: "A" }, { name: "B" }, { name: "C" }]),
+    ).toBe("Please add no more than 2 entries");
+    expect(validateFieldValue(group, [{ name: "Ada", age: 3 }])).toBe(
+      "Invalid value",
+    );
+    expect(validateFieldValue(group, { name: "Ada" })).toBe("Invalid value");
+  });
+});
+
+describe("validateSubmissionData", () => {
+  const schema: FormSchema = {
+    fields: [
+      required("name"),
+      field("intro", "statement"),
+      field("plan", "select", { options: ["Free", "Pro"] }),
+      required("company"),
+    ],
+    blocks: [],
+    settings: { title: "Signup" },
+    logic: [rule(condition("plan", "equals", "Free"), "hide", "company")],
+  };
+
+  it("keeps the answers of fields in the schema", () => {
+    expect(
+      validateSubmissionData(schema, {
+        name: "Ada",
+        intro: "ignored",
+        plan: "Pro",
+        company: "Acme",
+        extra: "dropped",
+      }),
+    ).toEqual({
+      isValid: true,
+      errors: {},
+      data: { name: "Ada", plan: "Pro", company: "Acme" },
+    });
+  });
+
+  it("reports each invalid answer", () => {
+    expect(
+      validateSubmissionData(schema, { plan: "Team", company: "Acme" }).errors,
+    ).toEqual({
+      name: "This field is required",
+      plan: "Please select a valid option",
+    });
+  });
+
+  it("skips and drops fields hidden by logic", () => {
+    expect(
+      validateSubmissionData(schema, {
+        name: "Ada",
+        plan: "Free",
+        company: 5,
+      }),
+    ).toEqual({
+      isValid: true,
+      errors: {},
+      data: { name: "Ada", plan: "Free" },
+    });
+  });
+
+  it("checks cascading selects against the parent answer", () => {
+    const cascading: FormSchema = {
+      fields: [
+        field("country", "select", { options: ["US", "CA"] }),
+        field("state", "select", {
+          settings: {
+            cascadeParentId: "country",
+            cascadeOptions: { US: ["IL", "NY"], CA: ["ON"] },
+          },
+        }),
+        field("city", "select", {
+          optionsApi: "https://example.com/cities?state={parent}",
+          settings: { cascadeParentId: "state" },
+        }),
+      ],
+      blocks: [],
+      settings: { title: "Address" },
+    };
+    const errors = (data: Record<string, unknown>) =>
+      validateSubmissionData(cascading, data).errors;
+
+    expect(errors({ country: "US", state: "IL", city: "Springfield" })).toEqual(
+      {},
+    );
+    expect(errors({ country: "US", state: "ON" })).toEqual({
+      state: "Please select a valid option",
+    });
+    expect(errors({ city: "Springfield" })).toEqual({
+      city: "Please answer the previous question first",
+    });
+    // Options loaded from an API are not fetched, so only the shape is checked
+    expect(
+      errors({ country: "US", state: "IL", city: ["Springfield"] }),
+    ).toEqual({ city: "Invalid value" });
+  });
+
+  it("rejects payloads that are not objects", () => {
+    expect(
+      validateSubmissionData(schema, [] as unknown as Record<string, unknown>),
+    ).toEqual({
+      isValid: false,
+      errors: { _form: "Submission data must be an object" },
+      data: {},
+    });
+  });
+});
@@ -0,0 +1,516 @@
+import type { FormField, FormSchema } from "@/lib/database";
+import { getCascadeError, isCascadingField } from "@/lib/forms/cascade";
+import { getDateError } from "@/lib/forms/dates";
+import { applyCalculatedFields } from "@/lib/forms/formula";
+import {
+  applyLogicValues,
+  type FieldLogicState,
+  getLogicFieldVisibility,
+  getReachableBlockPath,
+  withFieldTypes,
+  withLogicRequired,
+} from "@/lib/forms/logic";
+import { validateEmail } from "./email-validation";
+import { compilePattern, testPattern } from "./pattern-validation";
+import { validatePhoneNumber } from "./phone-validation";
+import { validateUrl } from "./url-validation";
+
+export interface FormValidationResult {
+  isValid: boolean;
+  errors: Record<string, string>;
+}
+
+export interface SubmissionValidationResult extends FormValidationResult {
+  data: Record<string, unknown>;
+}
+
+const NON_INPUT_FIELD_TYPES: FormField["type"][] = ["statement"];
+
+// Computed from other answers, so never validated as respondent input
+const COMPUTED_FIELD_TYPES: FormField["type"][] = ["calculated"];
+
+const STRING_FIELD_TYPES: FormField["type"][] = [
+  "text",
+  "email",
+  "textarea",
+  "radio",
+  "select",
+  "poll",
+  "time",
+  "phone",
+  "link",
+  "signature",
+];
+
+const ARRAY_FIELD_TYPES: FormField["type"][] = [
+  "checkbox",
+  "tags",
+  "file",
+  "ranking",
+];
+
+const OBJECT_FIELD_TYPES: FormField["type"][] = ["address", "social"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const getSchemaFields = (schema: FormSchema): FormField[] =>
+  schema.blocks?.length
+    ? schema.blocks.flatMap((block) => block.fields || [])
+    : schema.fields || [];
+
+const getOptionValue = (
+  option: string | { value: string; label?: string },
+): string => (typeof option === "string" ? option : option?.value);
+
+/**
+ * Returns the static option values a field accepts, or null when the
+ * options are loaded at runtime or depend on another answer. Cascading
+ * selects are checked against their parent in `validateFields`.
+ */
+export function getAllowedOptionValues(field: FormField): string[] | null {
+  if (field.optionsApi || isCascadingField(field)) return null;
+  const options =
+    field.type === "poll"
+      ? field.settings?.pollOptions
+      : field.type === "image_choice"
+        ? field.settings?.imageOptions
+        : field.options;
+  if (!options?.length) return null;
+  return options.map(getOptionValue);
+}
+
+/**
+ * Validates a matrix answer, `{ [rowId]: column }` or `{ [rowId]: column[] }`
+ * when several columns may be picked per row. A required matrix needs every
+ * row answered; otherwise only rows marked required do.
+ */
+function validateMatrixValue(
+  field: FormField,
+  value: unknown,
+): string | undefined {
+  if (
+    value != null &&
+    value !== "" &&
+    (typeof value !== "object" || Array.isArray(value))
+  ) {
+    return "Invalid value";
+  }
+
+  const rows = field.settings?.matrixRows || [];
+  const columns = field.settings?.matrixColumns || [];
+  const answers = (value || {}) as Record<string, unknown>;
+
+  if (Object.keys(answers).some((key) => !rows.some((r) => r.id === key))) {
+    return "Invalid value";
+  }
+
+  for (const row of rows) {
+    const answer = answers[row.id];
+    const selected =
+      answer == null || answer === ""
+        ? []
+        : Array.isArray(answer)
+          ? answer
+          : [answer];
+
+    if (selected.length === 0) {
+      if (field.required || row.required) {
+        return (
+          field.validation?.requiredMessage || `Please answer "${row.label}"`
+        );
+      }
+      continue;
+    }
+
+    if (Array.isArray(answer) && !field.settings?.allowMultiple) {
+      return "Invalid value";
+    }
+    if (selected.some((column) => !columns.includes(column))) {
+      return "Please select a valid option";
+    }
+  }
+}
+
+const isEmptyGroupEntry = (entry: Record<string, unknown>) =>
+  Object.values(entry).every(isEmptyFieldValue);
+
+/**
+ * Returns the errors of each repeated group entry, keyed by entry index and
+ * then by child field id. Entries left completely blank are ignored.
+ */
+export function getGroupEntryErrors(
+  field: FormField,
+  value: unknown,
+): Record<number, Record<string, string>> {
+  const errors: Record<number, Record<string, string>> = {};
+  if (!Array.isArray(value)) return errors;
+
+  value.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object" || isEmptyGroupEntry(entry)) {
+      return;
+    }
+    for (const child of field.settings?.groupFields || []) {
+      const error = validateFieldValue(child, entry[child.id]);
+      if (error) {
+        errors[index] = { ...errors[index], [child.id]: error };
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Validates a repeater answer, an array with one object per entry keyed by
+ * child field id. Blank entries do not count towards the minimum.
+ */
+function validateGroupValue(
+  field: FormField,
+  value: unknown,
+): string | undefined {
+  if (value != null && value !== "" && !Array.isArray(value)) {
+    return "Invalid value";
+  }
+
+  const childIds = (field.settings?.groupFields || []).map((f) => f.id);
+  const entries: Record<string, unknown>[] = Array.isArray(value) ? value : [];
+  if (
+    entries.some(
+      (entry) =>
+        !entry ||
+        typeof entry !== "object" ||
+        Array.isArray(entry) ||
+        Object.keys(entry).some((key) => !childIds.includes(key)),
+    )
+  ) {
+    return "Invalid value";
+  }
+
+  const filled = entries.filter((entry) => !isEmptyGroupEntry(entry));
+  const { minInstances, maxInstances } = field.settings || {};
+  if (filled.length === 0) {
+    return field.required
+      ? field.validation?.requiredMessage || "This field is required"
+      : undefined;
+  }
+  if (minInstances && filled.length < minInstances) {
+    return `Please add at least ${minInstances} entries`;
+  }
+  if (maxInstances && filled.length > maxInstances) {
+    return `Please add no more than ${maxInstances} entries`;
+  }
+
+  const entryErrors = getGroupEntryErrors(field, entries);
+  const [firstIndex] = Object.keys(entryErrors).map(Number);
+  if (firstIndex !== undefined) {
+    const [childId, error] = Object.entries(entryErrors[firstIndex])[0];
+    const child = field.settings?.groupFields?.find((f) => f.id === childId);
+    return `Entry ${firstIndex + 1}, ${child?.label || childId}: ${error}`;
+  }
+}
+
+export function isEmptyFieldValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === "string") return value.trim() === "";
+  if (typeof value === "number") return Number.isNaN(value);
+  if (typeof value === "object") {
+    return Object.values(value).every(
+      (item) => item === null || item === undefined || item === "",
+    );
+  }
+  return !value;
+}
+
+function hasValidShape(field: FormField, value: unknown): boolean {
+  if (STRING_FIELD_TYPES.includes(field.type)) {
+    return typeof value === "string";
+  }
+  if (ARRAY_FIELD_TYPES.includes(field.type)) {
+    return Array.isArray(value);
+  }
+  if (OBJECT_FIELD_TYPES.includes(field.type)) {
+    return isRecord(value);
+  }
+  if (field.type === "number") {
+    return typeof value === "string" || typeof value === "number";
+  }
+  if (field.type === "date") {
+    return field.settings?.dateMode === "range"
+      ? isRecord(value)
+      : typeof value === "string";
+  }
+  if (field.type === "consent") {
+    return typeof value === "boolean";
+  }
+  if (field.type === "image_choice") {
+    return field.settings?.allowMultiple
+      ? Array.isArray(value)
+      : typeof value === "string";
+  }
+  if (
+    field.type === "rating" ||
+    field.type === "slider" ||
+    field.type === "nps"
+  ) {
+    return typeof value === "number" && Number.isFinite(value);
+  }
+  return true;
+}
+
+/**
+ * Validates a single field value and returns the error message, if any.
+ * Shared by the step validators in the browser and the submit route.
+ */
+export function validateFieldValue(
+  field: FormField,
+  value: unknown,
+): string | undefined {
+  if (NON_INPUT_FIELD_TYPES.includes(field.type)) return;
+  if (COMPUTED_FIELD_TYPES.includes(field.type)) return;
+  if (field.type === "matrix") return validateMatrixValue(field, value);
+  if (field.type === "group") return validateGroupValue(field, value);
+  // Filled from the URL or page context, so respondents could not fix it
+  if (field.type === "hidden") {
+    return value == null || typeof value === "string"
+      ? undefined
+      : "Invalid value";
+  }
+
+  if (isEmptyFieldValue(value)) {
+    return field.required
+      ? field.validation?.requiredMessage || "This field is required"
+      : undefined;
+  }
+
+  if (!hasValidShape(field, value)) {
+    return "Invalid value";
+  }
+
+  const allowedOptions = getAllowedOptionValues(field);
+  if (allowedOptions) {
+    const selected = Array.isArray(value) ? value : [value];
+    if (
+      selected.some(
+        (item) => typeof item !== "string" || !allowedOptions.includes(item),
+      )
+    ) {
+      return "Please select a valid option";
+    }
+  }
+
+  if (field.type === "ranking" && Array.isArray(value)) {
+    if (new Set(value).size !== value.length) {
+      return "Each option can only be ranked once";
+    }
+    const { minRanked, maxRanked } = field.settings || {};
+    if (minRanked && value.length < minRanked) {
+      return `Please rank at least ${minRanked} options`;
+    }
+    if (maxRanked && value.length > maxRanked) {
+      return `Please rank no more than ${maxRanked} options`;
+    }
+  }
+
+  if (field.type === "date") {
+    const dateError = getDateError(field, value);
+    if (dateError) return dateError;
+  }
+
+  if (
+    field.type === "nps" &&
+    !(
+      typeof value === "number" &&
+      Number.isInteger(value) &&
+      value >= 0 &&
+      value <= 10
+    )
+  ) {
+    return "Please choose a score from 0 to 10";
+  }
+
+  if (field.type === "email" && typeof value === "string") {
+    const emailValidation = validateEmail(
+      value,
+      field.settings?.emailValidation,
+    );
+    if (!emailValidation.isValid) {
+      return (
+        emailValidation.message ||
+        field.validation?.emailMessage ||
+        "Please enter a valid email address"
+      );
+    }
+  }
+
+  if (
+    ["text", "textarea", "email"].includes(field.type) &&
+    typeof value === "string"
+  ) {
+    if (
+      field.validation?.minLength &&
+      value.length < field.validation.minLength
+    ) {
+      return (
+        field.validation?.minLengthMessage ||
+        `Must be at least ${field.validation.minLength} characters`
+      );
+    }
+    if (
+      field.validation?.maxLength &&
+      value.length > field.validation.maxLength
+    ) {
+      return (
+        field.validation?.maxLengthMessage ||
+        `Must be no more than ${field.validation.maxLength} characters`
+      );
+    }
+  }
+
+  if (field.type === "number") {
+    const numValue = Number.parseFloat(String(value));
+    if (isNaN(numValue)) {
+      return field.validation?.numberMessage || "Please enter a valid number";
+    }
+    if (
+      field.validation?.min !== undefined &&
+      numValue < field.validation.min
+    ) {
+      return (
+        field.validation?.minMessage ||
+        `Must be at least ${field.validation.min}`
+      );
+    }
+    if (
+      field.validation?.max !== undefined &&
+      numValue > field.validation.max
+    ) {
+      return (
+        field.validation?.maxMessage ||
+        `Must be no more than ${field.validation.max}`
+      );
+    }
+  }
+
+  if (field.type === "phone" && typeof value === "string") {
+    const phoneValidation = validatePhoneNumber(value);
+    if (!phoneValidation.isValid) {
+      return (
+        field.validation?.phoneMessage ||
+        phoneValidation.message ||
+        "Please enter a valid phone number"
+      );
+    }
+  }
+
+  if (field.type === "link" && typeof value === "string") {
+    const urlValidation = validateUrl(value);
+    if (!urlValidation.isValid) {
+      return (
+        field.validation?.linkMessage ||
+        urlValidation.message ||
+        "Please enter a valid URL"
+      );
+    }
+  }
+
+  if (field.type === "address" && isRecord(value)) {
+    const requiredKeys = ["line1", "city", "state", "zip", "country"];
+    for (const key of requiredKeys) {
+      if (!value[key]) {
+        return (
+          field.validation?.addressMessage ||
+          `Please enter ${key.replace(/\b\w/g, (c) => c.toUpperCase())}`
+        );
+      }
+    }
+  }
+
+  // An invalid or unsafe pattern in the schema should not block respondents
+  const pattern = field.validation?.pattern
+    ? compilePattern(field.validation.pattern)
+    : null;
+  if (pattern && typeof value === "string" && !testPattern(pattern, value)) {
+    return field.validation?.patternMessage || "Invalid format";
+  }
+}
+
+export function validateFields(
+  fields: FormField[],
+  formData: Record<string, unknown>,
+  fieldVisibility?: Record<string, FieldLogicState>,
+): FormValidationResult {
+  const errors: Record<string, string> = {};
+
+  for (const field of fields) {
+    if (fieldVisibility?.[field.id]?.visible === false) continue;
+
+    const error =
+      validateFieldValue(
+        withLogicRequired(field, fieldVisibility?.[field.id]),
+        formData[field.id],
+      ) || getCascadeError(field, formData);
+    if (error) errors[field.id] = error;
+  }
+
+  return { errors, isValid: Object.keys(errors).length === 0 };
+}
+
+/**
+ * Validates a full submission payload against the form schema.
+ * Fields hidden by logic are skipped and dropped, as are keys that do not
+ * belong to any field in the schema. Calculated fields and set_value rules
+ * are re-applied to the submitted answers rather than trusted from the client.
+ */
+export function validateSubmissionData(
+  schema: FormSchema,
+  submissionData: Record<string, unknown>,
+): SubmissionValidationResult {
+  if (
+    !submissionData ||
+    typeof submissionData !== "object" ||
+    Array.isArray(submissionData)
+  ) {
+    return {
+      isValid: false,
+      errors: { _form: "Submission data must be an object" },
+      data: {},
+    };
+  }
+
+  const fields = getSchemaFields(schema);
+  const fieldIds = fields.map((field) => field.id);
+  const logic = withFieldTypes(schema.logic || [], fields);
+  const values = applyLogicValues(
+    logic,
+    fieldIds,
+    submissionData,
+    undefined,
+    (state) => applyCalculatedFields(fields, state),
+  );
+  const fieldVisibility = getLogicFieldVisibility(logic, fieldIds, values);
+
+  // Fields on steps skipped by jump_to_block/end_form rules were never shown
+  if (schema.settings.multiStep && schema.blocks?.length) {
+    const path = getReachableBlockPath(logic, schema.blocks, values);
+    schema.blocks.forEach((block, index) => {
+      if (path.includes(index)) return;
+      block.fields?.forEach((field) => {
+        fieldVisibility[field.id] = { visible: false, disabled: false };
+      });
+    });
+  }
+
+  const { errors, isValid } = validateFields(fields, values, fieldVisibility);
+
+  const data: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (NON_INPUT_FIELD_TYPES.includes(field.type)) continue;
+    if (fieldVisibility[field.id]?.visible === false) continue;
+    if (Object.hasOwn(values, field.id)) {
+      data[field.id] = values[field.id];
+    }
+  }
+
+  return { errors, isValid, data };
+}
@@ -1,2 +1,4 @@
 export * from "./email-validation";
+export * from "./form-validation";
+export * from "./pattern-validation";
 export * from "./profanity-filter";
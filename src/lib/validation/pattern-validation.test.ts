@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { compilePattern, testPattern } from "./pattern-validation";
+
+const matches = (pattern: string, value: string) => {
+  const compiled = compilePattern(pattern);
+  if (!compiled) {
+    throw new Error(`Expected ${pattern} to compile`);
+  }
+  return testPattern(compiled, value);
+};
+
+describe("pattern validation", () => {
+  it("matches anywhere in the value, like RegExp.test", () => {
+    expect(matches("\\d{3}", "abc 123")).toBe(true);
+    expect(matches("^\\d{3}$", "abc 123")).toBe(false);
+    expect(matches("^[A-Z]{2}-\\d+$", "AB-42")).toBe(true);
+  });
+
+  it("rejects invalid patterns", () => {
+    expect(compilePattern("(")).toBeNull();
+    expect(compilePattern("^(?=a)")).toBeNull();
+    expect(compilePattern("(a)\\1")).toBeNull();
+  });
+
+  it("tests backtracking patterns in linear time", () => {
+    const attack = `${"a".repeat(50_000)}!`;
+    const started = Date.now();
+
+    for (const pattern of [
+      "^(a+)+$",
+      "^(a|a)*b$",
+      "^(a|aa)*b$",
+      "^(\\w+){10}x$",
+      "^(a?){30}a{30}$",
+    ]) {
+      expect(matches(pattern, attack)).toBe(false);
+    }
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+
+  it("tests long answers", () => {
+    const answer = "word ".repeat(2000);
+    expect(matches("^(\\w+ )+$", answer)).toBe(true);
+    expect(matches("^(\\w+ )+$", `${answer}!`)).toBe(false);
+  });
+});
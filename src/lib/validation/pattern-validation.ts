@@ -0,0 +1,24 @@
+import { RE2JS } from "re2js";
+
+/**
+ * Form owners write the patterns used by field validation and matches_regex
+ * logic, and the server runs them against respondent input. Patterns run on
+ * RE2, which matches in time linear in the input, so no pattern can make a
+ * submission backtrack for long. RE2 has no lookarounds or backreferences;
+ * patterns that use them are treated as invalid.
+ */
+export type CompiledPattern = RE2JS;
+
+/** Returns the compiled pattern, or null when it is invalid. */
+export function compilePattern(pattern: string): CompiledPattern | null {
+  try {
+    return RE2JS.compile(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/** Whether the pattern matches anywhere in the value, like RegExp.test. */
+export function testPattern(pattern: CompiledPattern, value: string): boolean {
+  return pattern.test(value);
+}
@@ -26,10 +26,17 @@ function mapInboundMappingRow(row: any): InboundWebhookMapping {
 export async function createInboundMapping(
   data: Partial<InboundWebhookMapping>,
 ): Promise<InboundWebhookMapping> {
+  if (!(data.endpoint && data.targetFormId && data.mappingRules)) {
+    throw new Error(
+      "Missing required fields: endpoint, targetFormId, or mappingRules",
+    );
+  }
+
   const supabase = createAdminClient();
   const now = new Date().toISOString();
   const insertData = {
     ...data,
+    endpoint: data.endpoint,
     target_form_id: data.targetFormId,
     mapping_rules: data.mappingRules,
     created_at: now,
@@ -1,13 +1,17 @@
 import crypto from "crypto";
 import { formsDbServer } from "@/lib/database";
 import type {
+  Database,
+  FormField,
   WebhookConfig,
   WebhookEventType,
   WebhookLog,
 } from "@/lib/database/database.types";
 import { createAdminClient } from "@/utils/supabase/admin";
 
-function mapWebhookRow(row: any): WebhookConfig {
+type WebhookRow = Database["public"]["Tables"]["webhooks"]["Row"];
+
+function mapWebhookRow(row: Omit<WebhookRow, "secret">): WebhookConfig {
   const { created_at, updated_at, ...rest } = row;
   return {
     ...rest,
@@ -44,6 +48,9 @@ export async function createWebhook(
   const now = new Date().toISOString();
   const insertData = {
     ...data,
+    url: data.url,
+    events: data.events,
+    method: data.method,
     form_id: data.formId,
     account_id: data.accountId,
     enabled: data.enabled ?? true,
@@ -477,6 +484,17 @@ function renderTemplate(
   });
 }
 
+// Repeated group entries are keyed by child field id; label them instead
+function labelGroupEntries(field: FormField, value: unknown) {
+  if (!Array.isArray(value)) return value;
+  const childFields = field.settings?.groupFields || [];
+  return value.map((entry: Record<string, unknown> | null) =>
+    Object.fromEntries(
+      childFields.map((child) => [child.label || child.id, entry?.[child.id]]),
+    ),
+  );
+}
+
 export async function formatHumanFriendlyPayload(
   formId: string,
   formData: Record<string, any>,
@@ -492,7 +510,7 @@ export async function formatHumanFriendlyPayload(
       id: fieldId,
       label: field?.label || fieldId,
       type: field?.type || "unknown",
-      value,
+      value: field?.type === "group" ? labelGroupEntries(field, value) : value,
     };
   });
   return {
@@ -536,16 +554,16 @@ export async function triggerWebhooks(
         payload.formId,
         payload.formData,
       );
-      body = webhook.payloadTemplate
-        ? renderTemplate(webhook.payloadTemplate, {
+      body = webhook.payload_template
+        ? renderTemplate(webhook.payload_template, {
             event,
             ...payload,
             formatted,
           })
         : JSON.stringify({ event, ...payload, formatted });
     } else {
-      body = webhook.payloadTemplate
-        ? renderTemplate(webhook.payloadTemplate, { event, ...payload })
+      body = webhook.payload_template
+        ? renderTemplate(webhook.payload_template, { event, ...payload })
         : JSON.stringify({ event, ...payload });
     }
 
@@ -557,7 +575,7 @@ export async function triggerWebhooks(
       headers["X-Webhook-Signature"] = signPayload(body, webhook.secret);
     }
 
-    deliverWithRetry(webhook, body, headers, 0);
+    deliverWithRetry(mapWebhookRow(webhook), body, headers, 0);
   }
 }
 
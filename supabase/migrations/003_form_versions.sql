@@ -0,0 +1,82 @@
+-- ============================================================================
+-- Form Version History
+-- ============================================================================
+-- Stores a snapshot of the form schema on every save/publish so edits can be
+-- diffed and rolled back, and links submissions to the version they were
+-- made against.
+-- ============================================================================
+
+-- Create form_versions table
+CREATE TABLE IF NOT EXISTS public.form_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  schema JSONB NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'save' CHECK (kind IN ('save', 'publish', 'restore')),
+  created_by UUID REFERENCES public.users(uid) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (form_id, version_number)
+);
+
+-- Track the version currently served by the form
+ALTER TABLE public.forms
+  ADD COLUMN IF NOT EXISTS current_version_id UUID REFERENCES public.form_versions(id) ON DELETE SET NULL;
+
+-- Record the version each submission was made against
+ALTER TABLE public.form_submissions
+  ADD COLUMN IF NOT EXISTS form_version_id UUID REFERENCES public.form_versions(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_form_versions_form_id ON public.form_versions(form_id, version_number DESC);
+CREATE INDEX IF NOT EXISTS idx_form_submissions_form_version_id ON public.form_submissions(form_version_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.form_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view versions of their forms" ON public.form_versions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.forms
+      WHERE forms.id = form_versions.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create versions of their forms" ON public.form_versions
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.forms
+      WHERE forms.id = form_versions.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+-- ============================================================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================================================
+
+-- Function to assign sequential version numbers per form. Versions saved at
+-- the same time would read the same MAX, so each insert first locks its form
+-- row and versions of one form are numbered one at a time.
+CREATE OR REPLACE FUNCTION public.handle_form_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM 1 FROM public.forms WHERE id = NEW.form_id FOR UPDATE;
+
+  SELECT COALESCE(MAX(version_number), 0) + 1
+  INTO NEW.version_number
+  FROM public.form_versions
+  WHERE form_id = NEW.form_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS handle_form_versions_number ON public.form_versions;
+CREATE TRIGGER handle_form_versions_number BEFORE INSERT ON public.form_versions
+  FOR EACH ROW EXECUTE FUNCTION public.handle_form_version_number();
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Draft vs Published Schema
+-- ============================================================================
+-- `forms.schema` holds the draft edited in the form builder. The schema served
+-- to respondents lives in `published_schema` and only changes when the owner
+-- publishes.
+-- ============================================================================
+
+ALTER TABLE public.forms
+  ADD COLUMN IF NOT EXISTS published_schema JSONB,
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+-- Existing published forms keep serving their current schema
+UPDATE public.forms
+SET published_schema = schema,
+    published_at = updated_at
+WHERE is_published = TRUE
+  AND published_schema IS NULL;
@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Submission Workflow
+-- ============================================================================
+-- Lets form owners track follow-up on each submission: a status from the
+-- form's configured list, free-form tags, internal notes and an assignee.
+-- The submitted answers themselves stay immutable.
+-- ============================================================================
+
+ALTER TABLE public.form_submissions
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'new',
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS notes JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS assignee TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_status ON public.form_submissions(form_id, status);
+CREATE INDEX IF NOT EXISTS idx_form_submissions_tags ON public.form_submissions USING GIN (tags);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Appends a note in a single UPDATE, so notes added at the same time by
+-- different people are all kept. Runs with the caller's permissions, so row
+-- level security still limits it to the caller's own forms.
+CREATE OR REPLACE FUNCTION public.append_submission_note(
+  p_form_id UUID,
+  p_submission_id UUID,
+  p_note JSONB
+)
+RETURNS SETOF public.form_submissions
+LANGUAGE sql
+AS $$
+  UPDATE public.form_submissions
+  SET notes = notes || jsonb_build_array(p_note),
+      updated_at = NOW()
+  WHERE id = p_submission_id
+    AND form_id = p_form_id
+  RETURNING *
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+CREATE POLICY "Users can update submissions to their forms" ON public.form_submissions
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.forms
+      WHERE forms.id = form_submissions.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+-- Owners may only change the workflow columns, never the answers
+REVOKE UPDATE ON public.form_submissions FROM authenticated;
+GRANT UPDATE (status, tags, notes, assignee, updated_at)
+  ON public.form_submissions TO authenticated;
+
+GRANT EXECUTE ON FUNCTION public.append_submission_note TO authenticated;
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Respondent Edits
+-- ============================================================================
+-- Respondents with a valid edit link can change their answers after
+-- submitting. Each edit keeps the answers it replaced so form owners can see
+-- what changed. Edits are written by the server after the link's signature
+-- is checked, so no new policies are needed.
+-- ============================================================================
+
+ALTER TABLE public.form_submissions
+  ADD COLUMN IF NOT EXISTS edit_history JSONB NOT NULL DEFAULT '[]';
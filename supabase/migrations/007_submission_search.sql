@@ -0,0 +1,207 @@
+-- ============================================================================
+-- Submission Search
+-- ============================================================================
+-- Searches and filters a form's submissions in the database instead of the
+-- browser: full-text search over the answers, filters on single fields,
+-- workflow, completion and date filters, and cursor pagination ordered by
+-- submission time. Runs with the caller's permissions, so row level security still
+-- limits results to the caller's own forms.
+-- ============================================================================
+
+ALTER TABLE public.form_submissions
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    jsonb_to_tsvector('simple'::regconfig, submission_data, '["string", "numeric"]')
+  ) STORED;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_search ON public.form_submissions USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_form_submissions_form_submitted ON public.form_submissions(form_id, submitted_at DESC, id DESC);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Whether one answer passes a field filter:
+-- { "operator": "equals" | "contains" | "empty", "value": "..." } or
+-- { "operator": "range", "min": "...", "max": "..." }.
+-- Ranges compare as numbers when the answer and bounds are numeric and as
+-- text otherwise, which orders ISO dates correctly.
+CREATE OR REPLACE FUNCTION public.submission_answer_matches(answer JSONB, rule JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE rule->>'operator'
+    WHEN 'empty' THEN
+      answer IS NULL OR answer IN ('null', '""', '[]', '{}')
+    WHEN 'equals' THEN
+      answer #>> '{}' = rule->>'value'
+      OR (jsonb_typeof(answer) = 'array' AND answer @> jsonb_build_array(rule->>'value'))
+    WHEN 'contains' THEN
+      answer #>> '{}' ILIKE '%' || replace(replace(replace(rule->>'value', '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    WHEN 'range' THEN
+      CASE
+        WHEN (answer #>> '{}') ~ '^-?\d+(\.\d+)?$'
+          AND coalesce(rule->>'min', '0') ~ '^-?\d+(\.\d+)?$'
+          AND coalesce(rule->>'max', '0') ~ '^-?\d+(\.\d+)?$'
+        THEN (rule->>'min' IS NULL OR (answer #>> '{}')::NUMERIC >= (rule->>'min')::NUMERIC)
+          AND (rule->>'max' IS NULL OR (answer #>> '{}')::NUMERIC <= (rule->>'max')::NUMERIC)
+        ELSE (rule->>'min' IS NULL OR answer #>> '{}' >= rule->>'min')
+          AND (rule->>'max' IS NULL OR answer #>> '{}' <= rule->>'max')
+      END
+    ELSE FALSE
+  END
+$$;
+
+-- How much of a form a submission answered: 'complete' when every field has
+-- an answer, 'empty' when none has, and 'partial' in between. Blank strings
+-- and nulls are not answers. Submissions answering under one percent of the
+-- fields get NULL and match no completion filter.
+CREATE OR REPLACE FUNCTION public.submission_completion(answers JSONB, total_fields INTEGER)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN total_fields <= 0 OR filled = 0 THEN 'empty'
+    WHEN filled >= total_fields THEN 'complete'
+    WHEN filled * 100 >= total_fields THEN 'partial'
+  END
+  FROM (
+    SELECT count(*) AS filled
+    FROM jsonb_each(answers) AS a(key, value)
+    WHERE a.value NOT IN ('null', '""')
+  ) counts
+$$;
+
+-- Whether a submission passes every search filter. The form and the page
+-- cursor are matched by the callers, so this stays a plain predicate the
+-- planner can inline.
+CREATE OR REPLACE FUNCTION public.submission_matches_search(
+  s public.form_submissions,
+  p_query TEXT,
+  p_filters JSONB,
+  p_submitted_from TIMESTAMPTZ,
+  p_submitted_to TIMESTAMPTZ,
+  p_status TEXT,
+  p_tag TEXT,
+  p_assignee TEXT,
+  p_unassigned BOOLEAN,
+  p_completion TEXT,
+  p_total_fields INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE
+AS $$
+  SELECT (p_query IS NULL OR s.search_vector @@ websearch_to_tsquery('simple', p_query))
+    AND (p_submitted_from IS NULL OR s.submitted_at >= p_submitted_from)
+    AND (p_submitted_to IS NULL OR s.submitted_at < p_submitted_to)
+    AND (p_status IS NULL OR s.status = p_status)
+    AND (p_tag IS NULL OR s.tags @> ARRAY[p_tag])
+    AND (p_assignee IS NULL OR s.assignee = p_assignee)
+    AND (NOT p_unassigned OR s.assignee IS NULL)
+    AND (p_completion IS NULL OR public.submission_completion(s.submission_data, p_total_fields) = p_completion)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_filters) AS f(rule)
+      WHERE NOT coalesce(
+        public.submission_answer_matches(s.submission_data -> (f.rule->>'fieldId'), f.rule),
+        FALSE
+      )
+    )
+$$;
+
+-- Returns one page of matching submissions as a JSON array. Pass the last
+-- submission's submitted_at and id as the cursor to get the next page. Pages
+-- are read in index order and stop at the limit, so a page costs the same
+-- however many submissions match; count_form_submissions gives the total.
+CREATE OR REPLACE FUNCTION public.search_form_submissions(
+  p_form_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT '[]',
+  p_submitted_from TIMESTAMPTZ DEFAULT NULL,
+  p_submitted_to TIMESTAMPTZ DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_assignee TEXT DEFAULT NULL,
+  p_unassigned BOOLEAN DEFAULT FALSE,
+  p_completion TEXT DEFAULT NULL,
+  p_total_fields INTEGER DEFAULT 0,
+  p_sort TEXT DEFAULT 'newest',
+  p_cursor_submitted_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 25
+)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE
+AS $$
+DECLARE
+  page JSONB;
+BEGIN
+  IF p_sort = 'oldest' THEN
+    SELECT jsonb_agg(to_jsonb(p) - 'search_vector' ORDER BY p.submitted_at, p.id)
+    INTO page
+    FROM (
+      SELECT s.*
+      FROM public.form_submissions s
+      WHERE s.form_id = p_form_id
+        AND (p_cursor_id IS NULL OR (s.submitted_at, s.id) > (p_cursor_submitted_at, p_cursor_id))
+        AND public.submission_matches_search(
+          s, p_query, p_filters, p_submitted_from, p_submitted_to, p_status,
+          p_tag, p_assignee, p_unassigned, p_completion, p_total_fields
+        )
+      ORDER BY s.submitted_at, s.id
+      LIMIT p_limit
+    ) p;
+  ELSE
+    SELECT jsonb_agg(to_jsonb(p) - 'search_vector' ORDER BY p.submitted_at DESC, p.id DESC)
+    INTO page
+    FROM (
+      SELECT s.*
+      FROM public.form_submissions s
+      WHERE s.form_id = p_form_id
+        AND (p_cursor_id IS NULL OR (s.submitted_at, s.id) < (p_cursor_submitted_at, p_cursor_id))
+        AND public.submission_matches_search(
+          s, p_query, p_filters, p_submitted_from, p_submitted_to, p_status,
+          p_tag, p_assignee, p_unassigned, p_completion, p_total_fields
+        )
+      ORDER BY s.submitted_at DESC, s.id DESC
+      LIMIT p_limit
+    ) p;
+  END IF;
+
+  RETURN coalesce(page, '[]'::JSONB);
+END;
+$$;
+
+-- Counts the submissions a search matches. This reads every match, so it is
+-- only run when a total is asked for.
+CREATE OR REPLACE FUNCTION public.count_form_submissions(
+  p_form_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT '[]',
+  p_submitted_from TIMESTAMPTZ DEFAULT NULL,
+  p_submitted_to TIMESTAMPTZ DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_tag TEXT DEFAULT NULL,
+  p_assignee TEXT DEFAULT NULL,
+  p_unassigned BOOLEAN DEFAULT FALSE,
+  p_completion TEXT DEFAULT NULL,
+  p_total_fields INTEGER DEFAULT 0
+)
+RETURNS BIGINT
+LANGUAGE sql STABLE
+AS $$
+  SELECT count(*)
+  FROM public.form_submissions s
+  WHERE s.form_id = p_form_id
+    AND public.submission_matches_search(
+      s, p_query, p_filters, p_submitted_from, p_submitted_to, p_status,
+      p_tag, p_assignee, p_unassigned, p_completion, p_total_fields
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_form_submissions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_form_submissions TO authenticated;
@@ -0,0 +1,59 @@
+-- ============================================================================
+-- Partial Submissions
+-- ============================================================================
+-- Answers captured while a respondent is still filling out a form, one row
+-- per browser session. Rows that never get submitted are the form's
+-- abandoned responses and show where respondents stop. Respondents are not
+-- signed in, so captures are written by the API with the service role; form
+-- owners can read and delete the rows for their forms.
+-- ============================================================================
+
+-- Create partial_submissions table
+CREATE TABLE IF NOT EXISTS public.partial_submissions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  form_id UUID NOT NULL REFERENCES public.forms(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  partial_data JSONB NOT NULL DEFAULT '{}',
+  current_step INTEGER NOT NULL DEFAULT 0,
+  last_field_id TEXT,
+  ip_address TEXT,
+  -- Set once the session submits; the answers then live in form_submissions
+  submission_id UUID REFERENCES public.form_submissions(id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (form_id, session_id)
+);
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_partial_submissions_form_id ON public.partial_submissions(form_id, updated_at DESC);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.partial_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view partial submissions to their forms" ON public.partial_submissions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.forms
+      WHERE forms.id = partial_submissions.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete partial submissions to their forms" ON public.partial_submissions
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.forms
+      WHERE forms.id = partial_submissions.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Service role can manage partial submissions" ON public.partial_submissions
+  FOR ALL USING (auth.role() = 'service_role');
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- Duplicate Submissions
+-- ============================================================================
+-- Forms can allow one response per person, identified by their account, an
+-- email answer or a browser cookie. Each submission stores a hash of that
+-- identity so earlier responses can be found, and submissions accepted
+-- despite an earlier one are flagged as duplicates of it. Only one submission
+-- per respondent can be the original, so concurrent submissions cannot both
+-- get past a check for an earlier one.
+-- ============================================================================
+
+ALTER TABLE public.form_submissions
+  ADD COLUMN IF NOT EXISTS respondent_key TEXT,
+  ADD COLUMN IF NOT EXISTS is_duplicate BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES public.form_submissions(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_form_submissions_respondent_key ON public.form_submissions(form_id, respondent_key, submitted_at) WHERE respondent_key IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_form_submissions_original_respondent ON public.form_submissions(form_id, respondent_key) WHERE respondent_key IS NOT NULL AND NOT is_duplicate;
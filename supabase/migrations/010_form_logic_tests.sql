@@ -0,0 +1,52 @@
+-- ============================================================================
+-- Logic Test Cases
+-- ============================================================================
+-- Test cases saved in the builder's logic simulator. A test case can be
+-- copied from a real submission, so test cases are kept out of the form
+-- schema, which anyone can read once the form is published, and only the
+-- form owner can read or change them.
+-- ============================================================================
+
+-- Create form_logic_tests table
+CREATE TABLE IF NOT EXISTS public.form_logic_tests (
+  form_id UUID PRIMARY KEY REFERENCES public.forms(id) ON DELETE CASCADE,
+  test_cases JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Move test cases saved in form schemas into the table
+INSERT INTO public.form_logic_tests (form_id, test_cases)
+SELECT id, schema->'logicTests'
+FROM public.forms
+WHERE jsonb_typeof(schema->'logicTests') = 'array'
+ON CONFLICT (form_id) DO NOTHING;
+
+UPDATE public.forms
+SET schema = schema - 'logicTests',
+    published_schema = published_schema - 'logicTests'
+WHERE schema ? 'logicTests' OR published_schema ? 'logicTests';
+
+UPDATE public.form_versions
+SET schema = schema - 'logicTests'
+WHERE schema ? 'logicTests';
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE public.form_logic_tests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage logic tests for their forms" ON public.form_logic_tests
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.forms
+      WHERE forms.id = form_logic_tests.form_id
+      AND forms.user_id = auth.uid()
+    )
+  ) WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.forms
+      WHERE forms.id = form_logic_tests.form_id
+      AND forms.user_id = auth.uid()
+    )
+  );